@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import PhysicsCanvas from './components/PhysicsCanvas';
 import ControlPanel from './components/ControlPanel';
 import ObjectSpawner from './components/ObjectSpawner';
@@ -6,9 +6,40 @@ import ErrorBoundary from './components/ErrorBoundary';
 import ErrorNotification from './components/ErrorNotification';
 import LoadingIndicator from './components/LoadingIndicator';
 import DebugPanel from './components/DebugPanel';
-import { useSimulation } from './hooks/useSimulation';
+import SceneChartsPanel from './components/SceneChartsPanel';
+import ReplayControls from './components/ReplayControls';
+import ObjectInspector from './components/ObjectInspector';
+import ConstraintEditor from './components/ConstraintEditor';
+import ObjectMotionOverlays from './components/ObjectMotionOverlays';
+import { useSimulation, DETERMINISTIC_PHYSICS } from './hooks/useSimulation';
+import { useReplay } from './hooks/useReplay';
+import { useDataLog } from './hooks/useDataLog';
+import { SpawnRequest, useSpawnPlacement } from './hooks/useSpawnPlacement';
 import { SimulationError, ErrorType } from './utils/errorHandling';
 import { debugLogger } from './utils/debugLogger';
+import { bodyRegistry } from './utils/bodyRegistry';
+import { serializeScene, getSessionModelIds, LoadedScene } from './utils/sceneSerialization';
+import { downloadFile } from './utils/fileDownload';
+import { ConstraintOptions, createConstraint } from './utils/constraints';
+import { getMaterialProps } from './utils/physicsMaterials';
+import { hasFallenOffGround } from './utils/ground';
+import { clampWorldBounds, DEFAULT_WORLD_BOUNDS, getMinBoundsHalfWidth } from './utils/worldBounds';
+import { getArenaGround } from './utils/arena';
+import { clampLaunchSettings, DEFAULT_LAUNCH_SETTINGS } from './utils/launcher';
+import { clampTrailLength, DEFAULT_MOTION_OVERLAYS, pruneMotionOverlays, setObjectOverlay } from './utils/motionOverlays';
+import {
+  BodyState,
+  ConstraintKind,
+  DecompositionQuality,
+  GLBCollisionType,
+  LaunchRequest,
+  LaunchSettings,
+  MaterialPresetName,
+  MotionOverlaySettings,
+  ObjectType,
+  WorldBounds,
+  WorldSettings
+} from './types/simulation';
 import './App.css';
 
 function App() {
@@ -21,38 +52,270 @@ function App() {
     addGLB,
     addGLBWithCollisionType,
     toggleSimulation,
+    stepSimulation,
+    stepRequest,
     removeAllObjects,
+    removeObject,
+    removeObjects,
+    removeObjectsOfType,
+    cullObjects,
+    duplicateObject,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+    updateObjectProps,
+    constraints,
+    addConstraint,
+    removeConstraint,
+    loadScene,
+    worldSettings,
+    updateWorldSettings,
+    arena,
+    updateArena,
+    seed,
+    setSeed,
+    randomizeSeed,
+    deterministic,
+    toggleDeterministic,
     objectCount,
     performanceWarnings,
     maxObjects,
     canAddBall,
     canAddBox,
-    canAddGLB
+    canAddGLB,
+    addShape,
+    canAddShape
   } = useSimulation();
 
+  const replay = useReplay(objects);
+  const dataLog = useDataLog(objects);
+  const placement = useSpawnPlacement(objects.length, arena.terrain);
+
+  // Joints disable collisions between their bodies; springs are plain forces and do not
+  const linkedPairs = useMemo(
+    () => constraints
+      .filter(constraint => constraint.type !== 'spring')
+      .map(constraint => [constraint.bodyA, constraint.bodyB] as [string, string]),
+    [constraints]
+  );
+
   // Error handling state
   const [currentError, setCurrentError] = useState<SimulationError | null>(null);
   const [isInitializing] = useState(false);
   const [debugPanelVisible, setDebugPanelVisible] = useState(false);
+  const [physicsDebugVisible, setPhysicsDebugVisible] = useState(false);
+  const [chartsVisible, setChartsVisible] = useState(false);
+  const [motionOverlays, setMotionOverlays] = useState<MotionOverlaySettings>(DEFAULT_MOTION_OVERLAYS);
+  const [launchSettings, setLaunchSettings] = useState<LaunchSettings>(DEFAULT_LAUNCH_SETTINGS);
+  const [launchAiming, setLaunchAiming] = useState(false);
+  const [launchRequest, setLaunchRequest] = useState<LaunchRequest | null>(null);
+  const [worldBounds, setWorldBounds] = useState<WorldBounds>(DEFAULT_WORLD_BOUNDS);
+  const [culledCount, setCulledCount] = useState(0);
+  // Last loaded model that can be launched; static mesh models cannot
+  const [launchModel, setLaunchModel] = useState<{ name: string; create: SpawnRequest['create'] } | null>(null);
+  const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
+  // Second object picked with shift-click, to be linked to the selected one
+  const [linkTargetId, setLinkTargetId] = useState<string | null>(null);
+  // Derived so the inspector closes by itself when its object is removed
+  const selectedObject = selectedObjectId ? objects.find(obj => obj.id === selectedObjectId) : undefined;
+  const linkTarget = linkTargetId && linkTargetId !== selectedObjectId ? objects.find(obj => obj.id === linkTargetId) : undefined;
+
+  const arenaGround = useMemo(() => getArenaGround(arena), [arena]);
+
+  // A larger ground widens the bounds so they never cut into it
+  useEffect(() => {
+    setWorldBounds(bounds => clampWorldBounds(bounds, arenaGround));
+  }, [arenaGround]);
+
+  const typeCounts = useMemo(() => objects.reduce<Partial<Record<ObjectType, number>>>((counts, obj) => {
+    counts[obj.type] = (counts[obj.type] ?? 0) + 1;
+    return counts;
+  }, {}), [objects]);
+
+  // Per-object overlays go with their objects
+  useEffect(() => {
+    setMotionOverlays(settings => pruneMotionOverlays(settings, objects.map(obj => obj.id)));
+  }, [objects]);
+
+  const handleUpdateMotionOverlays = (settings: MotionOverlaySettings) => {
+    setMotionOverlays({ ...settings, trailLength: clampTrailLength(settings.trailLength) });
+  };
+
+  // Spawns go through the placement mode, which picks (or waits for) their position
+  const handleAddBall = (material?: MaterialPresetName) => {
+    const props = material ? getMaterialProps(material) : undefined;
+    placement.spawn({ type: ObjectType.BALL, props, create: (position) => addBall(props, position) });
+  };
+
+  const handleAddBox = (material?: MaterialPresetName) => {
+    const props = material ? getMaterialProps(material) : undefined;
+    placement.spawn({ type: ObjectType.BOX, props, create: (position) => addBox(props, position) });
+  };
+
+  const handleAddShape = (type: ObjectType, material?: MaterialPresetName) => {
+    const props = material ? getMaterialProps(material) : undefined;
+    placement.spawn({ type, props, create: (position) => addShape(type, props, position) });
+  };
 
-  const handleLoadGLB = (url: string, file: File, collisionType?: 'box' | 'convex', scale?: number) => {
-    debugLogger.info('Loading GLB file', { fileName: file.name, size: file.size, collisionType });
+  const handleLoadGLB = (
+    url: string,
+    file: File,
+    collisionType?: GLBCollisionType,
+    scale?: number,
+    material?: MaterialPresetName,
+    decompositionQuality?: DecompositionQuality
+  ) => {
+    debugLogger.info('Loading GLB file', { fileName: file.name, size: file.size, collisionType, material, decompositionQuality });
     
-    try {
-      const uniformScale = typeof scale === 'number' && scale > 0 ? [scale, scale, scale] as [number, number, number] : undefined;
-      if (collisionType) {
-        addGLBWithCollisionType(url, file, collisionType, uniformScale ? { scale: uniformScale } : undefined);
-      } else {
-        addGLB(url, file, uniformScale ? { scale: uniformScale } : undefined);
+    const uniformScale = typeof scale === 'number' && scale > 0 ? [scale, scale, scale] as [number, number, number] : undefined;
+    const customProps = {
+      ...(uniformScale ? { scale: uniformScale } : {}),
+      ...(material ? getMaterialProps(material) : {}),
+      ...(collisionType === 'decomposed' && decompositionQuality ? { decompositionQuality } : {})
+    };
+
+    // At-cursor placement and the launcher create the model later, so errors are handled here
+    const create = (position?: [number, number, number], initialState?: BodyState) => {
+      try {
+        const id = collisionType
+          ? addGLBWithCollisionType(url, file, collisionType, customProps, position, initialState)
+          : addGLB(url, file, customProps, position, initialState);
+        debugLogger.info('GLB loading initiated successfully');
+        return id;
+      } catch (err) {
+        debugLogger.error('GLB loading failed', err);
+        const error = err instanceof SimulationError 
+          ? err 
+          : new SimulationError(ErrorType.GLB_LOADING_FAILED, err instanceof Error ? err : new Error('Unknown error'));
+        setCurrentError(error);
+        return null;
       }
-      debugLogger.info('GLB loading initiated successfully');
-    } catch (err) {
-      debugLogger.error('GLB loading failed', err);
-      const error = err instanceof SimulationError 
-        ? err 
-        : new SimulationError(ErrorType.GLB_LOADING_FAILED, err instanceof Error ? err : new Error('Unknown error'));
-      setCurrentError(error);
+    };
+    placement.spawn({ type: ObjectType.GLB_MODEL, props: customProps, create });
+    if (collisionType !== 'mesh') {
+      setLaunchModel({ name: file.name, create });
+    }
+  };
+
+  const handleLaunch = (state: BodyState) => {
+    if (launchSettings.projectile === 'glb') {
+      if (!launchModel) {
+        debugLogger.warn('No loaded model to launch');
+        return;
+      }
+      launchModel.create(state.position, state);
+    } else if (launchSettings.projectile === 'box') {
+      addBox(undefined, state.position, state);
+    } else {
+      addBall(undefined, state.position, state);
+    }
+  };
+
+  const handleExportScene = () => {
+    const scene = serializeScene(objects, worldSettings, (id) => bodyRegistry.getState(id), constraints, arena);
+    debugLogger.info('Exporting scene', { objectCount: scene.objects.length });
+    const sessionModels = getSessionModelIds(scene.objects);
+    if (sessionModels.length > 0) {
+      debugLogger.warn('Exported scene links GLB files that only last for this session', { sessionModels });
+    }
+    downloadFile(JSON.stringify(scene, null, 2), `physics-scene-${Date.now()}.json`);
+    return scene;
+  };
+
+  const handleImportScene = (scene: LoadedScene) => {
+    if (scene.unavailableModels?.length) {
+      debugLogger.warn('Imported scene without GLB models from an earlier session', { unavailableModels: scene.unavailableModels });
     }
+    loadScene(scene);
+  };
+
+  // Live states carry the objects' motion across a world rebuild
+  const handleUpdateWorldSettings = (changes: Partial<WorldSettings>) => {
+    updateWorldSettings(changes, (id) => bodyRegistry.getState(id));
+  };
+
+  // Live states let an undone removal or reset bring bodies back in motion
+  const handleReset = () => {
+    removeAllObjects((id) => bodyRegistry.getState(id));
+  };
+
+  const handleClearType = (type: ObjectType) => {
+    removeObjectsOfType(type, (id) => bodyRegistry.getState(id));
+  };
+
+  const handleRemoveFallen = () => {
+    const fallen = objects
+      .filter(obj => {
+        const state = bodyRegistry.getState(obj.id);
+        return state !== null && hasFallenOffGround(state.position, arenaGround);
+      })
+      .map(obj => obj.id);
+    debugLogger.info('Removing fallen objects', { count: fallen.length });
+    removeObjects(fallen, (id) => bodyRegistry.getState(id));
+  };
+
+  // Respawned and wrapped objects were already moved; only despawns change the scene
+  const handleObjectsCulled = (despawnIds: string[], count: number) => {
+    cullObjects(despawnIds);
+    setCulledCount(prev => prev + count);
+  };
+
+  const handleDuplicateObject = (id: string, liveState: BodyState | null) => {
+    const copyId = duplicateObject(id, liveState);
+    if (copyId) setSelectedObjectId(copyId);
+  };
+
+  // The live world is hidden during replay, so its edits are left alone then
+  const handleUndo = () => {
+    if (replay.isReplaying) return;
+    undo((id) => bodyRegistry.getState(id));
+  };
+
+  const handleRedo = () => {
+    if (replay.isReplaying) return;
+    redo((id) => bodyRegistry.getState(id));
+  };
+
+  // The live world is hidden during replay, so it is not stepped then
+  const handleStep = (steps: number) => {
+    if (replay.isReplaying) return;
+    stepSimulation(steps);
+  };
+
+  const handleObjectPicked = (id: string | null, additive?: boolean) => {
+    // Clicking empty space starts an orbit, so it keeps the current selection
+    if (!id) return;
+    if (additive && selectedObjectId && id !== selectedObjectId) {
+      setLinkTargetId(id);
+    } else {
+      setSelectedObjectId(id);
+      setLinkTargetId(null);
+    }
+  };
+
+  // Joints are anchored where the two bodies are right now
+  const handleLinkObjects = (type: ConstraintKind, options: ConstraintOptions) => {
+    if (!selectedObject || !linkTarget) return;
+    const stateA = bodyRegistry.getState(selectedObject.id);
+    const stateB = bodyRegistry.getState(linkTarget.id);
+    if (!stateA || !stateB) {
+      debugLogger.warn('Cannot link objects that are not in the physics world yet', {
+        bodyA: selectedObject.id,
+        bodyB: linkTarget.id
+      });
+      return;
+    }
+
+    addConstraint(createConstraint(
+      type,
+      { id: selectedObject.id, state: stateA },
+      { id: linkTarget.id, state: stateB },
+      options
+    ));
+    setLinkTargetId(null);
   };
 
   const handleError = (error: SimulationError) => {
@@ -79,24 +342,143 @@ function App() {
       resetOnPropsChange={true}
     >
       <div className="App" style={{ width: '100vw', height: '100vh', margin: 0, padding: 0, position: 'relative' }}>
-        <PhysicsCanvas key={resetKey} isRunning={isRunning}>
-          <ObjectSpawner objects={objects} onError={handleError} />
+        <PhysicsCanvas
+          key={resetKey}
+          isRunning={isRunning && !replay.isReplaying}
+          gravity={worldSettings.gravity}
+          timeScale={worldSettings.timeScale}
+          fixedTimeStep={deterministic ? DETERMINISTIC_PHYSICS.fixedTimeStep : worldSettings.fixedTimeStep}
+          maxSubSteps={deterministic ? DETERMINISTIC_PHYSICS.maxSubSteps : worldSettings.maxSubSteps}
+          stepRequest={stepRequest}
+          linkedPairs={linkedPairs}
+          showPhysicsDebug={physicsDebugVisible}
+          replay={replay.isReplaying && replay.recording ? { recording: replay.recording, time: replay.currentTime } : null}
+          onObjectPicked={handleObjectPicked}
+          spawnGhost={placement.ghost}
+          onPlaceSpawn={placement.placeAt}
+          onCancelSpawn={placement.cancel}
+          launcher={{
+            settings: launchSettings,
+            request: launchRequest,
+            aimWithClicks: launchAiming,
+            onLaunch: handleLaunch
+          }}
+          arena={arena}
+          bounds={{ settings: worldBounds, onCulled: handleObjectsCulled }}
+        >
+          <ObjectSpawner
+            objects={objects}
+            constraints={constraints}
+            motionOverlays={motionOverlays}
+            onError={handleError}
+          />
         </PhysicsCanvas>
         
         <ControlPanel
-          onAddBall={addBall}
-          onAddBox={addBox}
+          onAddBall={handleAddBall}
+          onAddBox={handleAddBox}
+          onAddShape={handleAddShape}
           onLoadGLB={handleLoadGLB}
           onToggleSimulation={toggleSimulation}
-          onReset={removeAllObjects}
+          onStep={handleStep}
+          onReset={handleReset}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          canUndo={canUndo && !replay.isReplaying}
+          canRedo={canRedo && !replay.isReplaying}
+          undoLabel={undoLabel}
+          redoLabel={redoLabel}
+          onClearType={handleClearType}
+          onRemoveFallen={handleRemoveFallen}
+          typeCounts={typeCounts}
           isRunning={isRunning}
           objectCount={objectCount}
           maxObjects={maxObjects}
           canAddBall={canAddBall}
           canAddBox={canAddBox}
           canAddGLB={canAddGLB}
+          canAddShape={canAddShape}
           performanceWarnings={performanceWarnings}
           onError={handleError}
+          onExportScene={handleExportScene}
+          onImportScene={handleImportScene}
+          seed={seed}
+          deterministic={deterministic}
+          onSetSeed={setSeed}
+          onRandomizeSeed={randomizeSeed}
+          onToggleDeterministic={toggleDeterministic}
+          worldSettings={worldSettings}
+          onUpdateWorldSettings={handleUpdateWorldSettings}
+          motionOverlays={motionOverlays}
+          onUpdateMotionOverlays={handleUpdateMotionOverlays}
+          dataLog={dataLog}
+          placementMode={placement.mode}
+          onPlacementModeChange={placement.setMode}
+          armedSpawnType={placement.armedType}
+          onCancelPlacement={placement.cancel}
+          launcher={{
+            settings: launchSettings,
+            onChange: (settings) => setLaunchSettings(clampLaunchSettings(settings)),
+            aimWithClicks: launchAiming,
+            onToggleAim: () => setLaunchAiming(prev => !prev),
+            onFire: () => setLaunchRequest(prev => ({ id: (prev?.id ?? 0) + 1 })),
+            modelName: launchModel?.name ?? null
+          }}
+          bounds={{
+            settings: worldBounds,
+            onChange: (settings) => setWorldBounds(clampWorldBounds(settings, arenaGround)),
+            culledCount,
+            onResetCount: () => setCulledCount(0),
+            minHalfWidth: getMinBoundsHalfWidth(arenaGround)
+          }}
+          arena={{ settings: arena, onChange: updateArena, onError: handleError }}
+        />
+
+        {selectedObject && !replay.isReplaying && (
+          <ObjectInspector
+            object={selectedObject}
+            onUpdate={updateObjectProps}
+            onDuplicate={handleDuplicateObject}
+            onDelete={(id, liveState) => removeObject(id, () => liveState)}
+            onClose={() => {
+              setSelectedObjectId(null);
+              setLinkTargetId(null);
+            }}
+          >
+            <ConstraintEditor
+              object={selectedObject}
+              target={linkTarget}
+              constraints={constraints.filter(c => c.bodyA === selectedObject.id || c.bodyB === selectedObject.id)}
+              onLink={handleLinkObjects}
+              onRemove={removeConstraint}
+              onClearTarget={() => setLinkTargetId(null)}
+            />
+            <ObjectMotionOverlays
+              flags={motionOverlays.perObject[selectedObject.id] ?? {}}
+              global={motionOverlays.all}
+              onToggle={(kind, enabled) => setMotionOverlays(settings => setObjectOverlay(settings, selectedObject.id, kind, enabled))}
+            />
+          </ObjectInspector>
+        )}
+
+        {/* Recording and playback */}
+        <ReplayControls
+          isRecording={replay.isRecording}
+          recording={replay.recording}
+          isReplaying={replay.isReplaying}
+          isPlaying={replay.isPlaying}
+          playbackSpeed={replay.playbackSpeed}
+          currentTime={replay.currentTime}
+          onStartRecording={replay.startRecording}
+          onStopRecording={replay.stopRecording}
+          onEnterReplay={replay.enterReplay}
+          onExitReplay={replay.exitReplay}
+          onTogglePlayback={replay.togglePlayback}
+          onSeek={replay.seek}
+          onStepFrame={replay.stepFrame}
+          onSpeedChange={replay.setPlaybackSpeed}
+          onExport={replay.exportRecording}
+          onError={handleError}
         />
 
         {/* Loading indicator for app initialization */}
@@ -113,10 +495,18 @@ function App() {
           autoHide={false}
         />
 
+        {/* Energy, momentum and sleep charts */}
+        <SceneChartsPanel
+          isVisible={chartsVisible}
+          onToggle={() => setChartsVisible(visible => !visible)}
+        />
+
         {/* Debug panel */}
         <DebugPanel
           isVisible={debugPanelVisible}
           onToggle={() => setDebugPanelVisible(!debugPanelVisible)}
+          physicsOverlayEnabled={physicsDebugVisible}
+          onTogglePhysicsOverlay={() => setPhysicsDebugVisible(visible => !visible)}
         />
       </div>
     </ErrorBoundary>
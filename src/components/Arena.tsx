@@ -0,0 +1,137 @@
+import React, { useEffect, useMemo } from 'react';
+import { useRigidBody, ShapeType, BodyType, ShapeFit } from 'use-ammojs';
+import { PlaneGeometry, Quaternion, Vector3 } from 'three';
+import { ArenaPiece, ArenaSettings, TerrainSettings } from '../types/simulation';
+import { ArenaBody, getArenaGround, getArenaPieceBodies, GROUND_COLORS } from '../utils/arena';
+import { getTerrainHeights, getTerrainKey, getTerrainSpacing } from '../utils/terrain';
+import { arenaSurfaces } from '../utils/arenaSurfaces';
+
+interface ArenaProps {
+  arena: ArenaSettings;
+}
+
+// Ground box with physics. The material only changes its color: use-ammojs does not take
+// friction or restitution per body, so the preset is kept on the arena for later.
+const GroundPlane: React.FC<{ arena: ArenaSettings }> = ({ arena }) => {
+  const ground = useMemo(() => getArenaGround(arena), [arena]);
+  const [ref] = useRigidBody(() => ({
+    shapeType: ShapeType.BOX,
+    bodyType: BodyType.STATIC,
+    position: ground.position,
+    shapeConfig: {
+      halfExtents: new Vector3(...ground.halfExtents)
+    }
+  }));
+
+  const [halfWidth, halfHeight, halfDepth] = ground.halfExtents;
+  return (
+    <mesh ref={ref} receiveShadow>
+      <boxGeometry args={[halfWidth * 2, halfHeight * 2, halfDepth * 2]} />
+      <meshStandardMaterial color={GROUND_COLORS[arena.groundMaterial ?? 'default']} />
+    </mesh>
+  );
+};
+
+// One static box of an arena piece; spawns can be placed onto it
+const StaticBox: React.FC<{ body: ArenaBody }> = ({ body }) => {
+  const [ref] = useRigidBody(() => ({
+    shapeType: ShapeType.BOX,
+    bodyType: BodyType.STATIC,
+    position: body.position,
+    rotation: new Quaternion(...body.rotation),
+    shapeConfig: {
+      halfExtents: new Vector3(...body.halfExtents)
+    }
+  }));
+
+  useEffect(() => ref.current ? arenaSurfaces.register(ref.current) : undefined, [ref]);
+
+  const [x, y, z] = body.halfExtents;
+  return (
+    <mesh ref={ref} castShadow={!body.glass} receiveShadow>
+      <boxGeometry args={[x * 2, y * 2, z * 2]} />
+      {body.glass
+        ? <meshStandardMaterial color="#a5d8ff" transparent opacity={0.2} depthWrite={false} />
+        : <meshStandardMaterial color="#868e96" metalness={0.1} roughness={0.8} />}
+    </mesh>
+  );
+};
+
+// Heightfield terrain over the middle of the ground. Bullet centres a heightfield on the
+// middle of its height range, so the body sits there and the mesh is offset to match.
+const Terrain: React.FC<{ terrain: TerrainSettings; color: string }> = ({ terrain, color }) => {
+  const heights = useMemo(() => getTerrainHeights(terrain), [terrain]);
+  const samples = useMemo(() => heights.flat(), [heights]);
+  const middle = (Math.min(...samples) + Math.max(...samples)) / 2;
+
+  const geometry = useMemo(() => {
+    // Plane rows run along z once laid flat, matching the heightfield rows; both split
+    // each quad along the same diagonal
+    const plane = new PlaneGeometry(terrain.extent, terrain.extent, terrain.resolution - 1, terrain.resolution - 1);
+    plane.rotateX(-Math.PI / 2);
+    const positions = plane.attributes.position;
+    samples.forEach((height, index) => positions.setY(index, height - middle));
+    plane.computeVertexNormals();
+    return plane;
+  }, [samples, middle, terrain.extent, terrain.resolution]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  const [ref] = useRigidBody(() => ({
+    shapeType: ShapeType.HEIGHTFIELD,
+    bodyType: BodyType.STATIC,
+    position: [0, middle, 0],
+    shapeConfig: {
+      fit: ShapeFit.MANUAL,
+      heightfieldData: heights,
+      heightfieldDistance: getTerrainSpacing(terrain),
+      heightDataType: 'float',
+      upAxis: 1,
+      flipQuadEdges: false
+    }
+  }));
+
+  // Spawns can be placed onto the terrain
+  useEffect(() => ref.current ? arenaSurfaces.register(ref.current) : undefined, [ref]);
+
+  return (
+    <mesh ref={ref} geometry={geometry} castShadow receiveShadow>
+      <meshStandardMaterial color={color} roughness={0.9} flatShading />
+    </mesh>
+  );
+};
+
+const ArenaPieceBodies: React.FC<{ piece: ArenaPiece; groundSize: number }> = ({ piece, groundSize }) => {
+  const bodies = useMemo(() => getArenaPieceBodies(piece, groundSize), [piece, groundSize]);
+  return (
+    <>
+      {bodies.map((body, index) => <StaticBox key={index} body={body} />)}
+    </>
+  );
+};
+
+/**
+ * Ground, terrain and static pieces of the arena. Static bodies are only built when they mount,
+ * so anything whose shape or placement changes is remounted through its key.
+ */
+const Arena: React.FC<ArenaProps> = ({ arena }) => (
+  <>
+    <GroundPlane key={`ground-${arena.groundSize}`} arena={arena} />
+    {arena.terrain && (
+      <Terrain
+        key={getTerrainKey(arena.terrain)}
+        terrain={arena.terrain}
+        color={GROUND_COLORS[arena.groundMaterial ?? 'default']}
+      />
+    )}
+    {arena.pieces.map(piece => (
+      <ArenaPieceBodies
+        key={`${piece.id}-${piece.angle ?? ''}-${piece.kind === 'walls' ? arena.groundSize : ''}`}
+        piece={piece}
+        groundSize={arena.groundSize}
+      />
+    ))}
+  </>
+);
+
+export default Arena;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { ArenaPiece, ArenaSettings, MaterialPresetName } from '../types/simulation';
+import {
+  addArenaPreset,
+  ARENA_LIMITS,
+  ARENA_PIECE_LABELS,
+  ARENA_PRESETS,
+  ArenaPresetName,
+  canAddArenaPreset
+} from '../utils/arena';
+import { MATERIAL_PRESETS } from '../utils/physicsMaterials';
+import { SimulationError } from '../utils/errorHandling';
+import TerrainPanel from './TerrainPanel';
+
+export interface ArenaPanelProps {
+  settings: ArenaSettings;
+  onChange: (changes: Partial<ArenaSettings>) => void;
+  // Heightmap images that could not be read
+  onError?: (error: SimulationError) => void;
+}
+
+const PRESET_NAMES = Object.keys(ARENA_PRESETS) as ArenaPresetName[];
+const MATERIAL_NAMES = Object.keys(MATERIAL_PRESETS) as MaterialPresetName[];
+
+const describePiece = (piece: ArenaPiece): string =>
+  piece.kind === 'ramp' ? `${ARENA_PIECE_LABELS.ramp} ${piece.heading ?? 0}°` : ARENA_PIECE_LABELS[piece.kind];
+
+/**
+ * Ground size, material and terrain, and the static pieces placed around it. Pieces come
+ * from the preset library and can be combined; ramps keep an adjustable incline.
+ */
+const ArenaPanel: React.FC<ArenaPanelProps> = ({ settings, onChange, onError }) => {
+  const [preset, setPreset] = useState<ArenaPresetName>('glassBox');
+
+  const updatePiece = (id: string, changes: Partial<ArenaPiece>) => {
+    onChange({ pieces: settings.pieces.map(piece => piece.id === id ? { ...piece, ...changes } : piece) });
+  };
+
+  return (
+    <div className="arena">
+      <div className="info-item arena-row">
+        <span className="info-label">Ground:</span>
+        <input
+          type="range"
+          min={ARENA_LIMITS.MIN_GROUND_SIZE}
+          max={ARENA_LIMITS.MAX_GROUND_SIZE}
+          step={2}
+          value={settings.groundSize}
+          onChange={(e) => onChange({ groundSize: Number(e.target.value) })}
+          aria-label="Ground size"
+          title="Width and depth of the ground"
+        />
+        <span className="info-value">{settings.groundSize} m</span>
+      </div>
+
+      <div className="info-item arena-row">
+        <span className="info-label">Surface:</span>
+        <select
+          className="material-select"
+          value={settings.groundMaterial ?? ''}
+          onChange={(e) => onChange({ groundMaterial: (e.target.value || null) as MaterialPresetName | null })}
+          aria-label="Ground material"
+        >
+          <option value="">Default</option>
+          {MATERIAL_NAMES.map(name => <option key={name} value={name}>{MATERIAL_PRESETS[name].label}</option>)}
+        </select>
+      </div>
+
+      <TerrainPanel
+        terrain={settings.terrain}
+        groundSize={settings.groundSize}
+        onChange={(terrain) => onChange({ terrain })}
+        onError={onError}
+      />
+
+      <div className="info-item arena-row">
+        <select
+          className="material-select"
+          value={preset}
+          onChange={(e) => setPreset(e.target.value as ArenaPresetName)}
+          aria-label="Arena piece"
+        >
+          {PRESET_NAMES.map(name => <option key={name} value={name}>{ARENA_PRESETS[name].label}</option>)}
+        </select>
+        <button
+          className="control-button seed-button"
+          onClick={() => onChange({ pieces: addArenaPreset(settings, preset).pieces })}
+          disabled={!canAddArenaPreset(settings, preset)}
+          title="Add the piece to the arena"
+          aria-label="Add arena piece"
+        >
+          +
+        </button>
+      </div>
+
+      {settings.pieces.map(piece => (
+        <div key={piece.id} className="info-item arena-row arena-piece">
+          <span className="info-label">{describePiece(piece)}</span>
+          {piece.kind === 'ramp' && (
+            <>
+              <input
+                type="range"
+                min={ARENA_LIMITS.MIN_RAMP_ANGLE}
+                max={ARENA_LIMITS.MAX_RAMP_ANGLE}
+                step={1}
+                value={piece.angle ?? ARENA_LIMITS.MIN_RAMP_ANGLE}
+                onChange={(e) => updatePiece(piece.id, { angle: Number(e.target.value) })}
+                aria-label={`${describePiece(piece)} incline`}
+              />
+              <span className="info-value">{piece.angle}°</span>
+            </>
+          )}
+          <button
+            className="control-button seed-button"
+            onClick={() => onChange({ pieces: settings.pieces.filter(other => other.id !== piece.id) })}
+            title="Remove the piece from the arena"
+            aria-label={`Remove ${describePiece(piece)}`}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ArenaPanel;
@@ -0,0 +1,38 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { useAmmoPhysicsContext } from 'use-ammojs';
+import { bodyRegistry } from '../utils/bodyRegistry';
+import { simulationClock } from '../utils/simulationClock';
+
+interface BodyStateTrackerProps {
+  // Length of one physics step in seconds
+  fixedTimeStep: number;
+}
+
+// The worker keeps its substep counter within 32 bits
+const SUBSTEP_COUNTER_LIMIT = 2147483647;
+
+/**
+ * Samples registered bodies whenever the physics worker completes a step so that
+ * velocity estimates stay valid while the simulation is paused. Samples are spaced by
+ * the simulated time of the steps taken, which also advances the simulation clock.
+ */
+const BodyStateTracker: React.FC<BodyStateTrackerProps> = ({ fixedTimeStep }) => {
+  const { physicsPerformanceInfoRef } = useAmmoPhysicsContext();
+  // A new physics world starts counting from zero
+  const lastSubstepRef = useRef<number>(0);
+
+  useFrame(() => {
+    const substep = physicsPerformanceInfoRef.current.substepCounter;
+    if (substep === lastSubstepRef.current) return;
+    const steps = (substep - lastSubstepRef.current + SUBSTEP_COUNTER_LIMIT) % SUBSTEP_COUNTER_LIMIT;
+    lastSubstepRef.current = substep;
+
+    simulationClock.advance(steps, fixedTimeStep);
+    bodyRegistry.sample(steps * fixedTimeStep);
+  });
+
+  return null;
+};
+
+export default BodyStateTracker;
@@ -0,0 +1,98 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { TerrainSettings, WorldBounds } from '../types/simulation';
+import { bodyRegistry, RegisteredBody } from '../utils/bodyRegistry';
+import { debugLogger } from '../utils/debugLogger';
+import { BOUNDS_LIMITS, getBoundsAction } from '../utils/worldBounds';
+import { getTerrainTop } from '../utils/terrain';
+
+interface BoundsCullerProps {
+  bounds: WorldBounds;
+  // Respawned bodies drop onto the terrain at the origin when there is one
+  terrain?: TerrainSettings | null;
+  // Called once per batch with the objects to despawn and the number of objects culled,
+  // including those respawned or wrapped in place
+  onCulled: (despawnIds: string[], culledCount: number) => void;
+}
+
+// Move every body of an object (a compound's parts move with its root) by an offset
+const moveObject = (bodies: RegisteredBody[], offset: [number, number, number], stop: boolean) => {
+  bodies.forEach(body => {
+    const { position, quaternion } = body.object3D;
+    const { linearVelocity, angularVelocity } = body;
+    bodyRegistry.applyState(body.id, {
+      position: [position.x + offset[0], position.y + offset[1], position.z + offset[2]],
+      rotation: [quaternion.x, quaternion.y, quaternion.z, quaternion.w],
+      linearVelocity: stop ? [0, 0, 0] : [linearVelocity.x, linearVelocity.y, linearVelocity.z],
+      // Spin is applied as an impulse on top of the current spin, so stopping cancels it
+      // and keeping it applies nothing
+      angularVelocity: stop ? [-angularVelocity.x, -angularVelocity.y, -angularVelocity.z] : [0, 0, 0]
+    });
+  });
+};
+
+/**
+ * Keeps bodies inside the world bounds. The check runs every frame against the body
+ * registry without touching React state; respawns and wraps move the bodies directly,
+ * while despawns are collected and handed over in batches so they go through one
+ * pause-and-unmount instead of one per body.
+ */
+const BoundsCuller: React.FC<BoundsCullerProps> = ({ bounds, terrain = null, onCulled }) => {
+  const onCulledRef = useRef(onCulled);
+  onCulledRef.current = onCulled;
+  // Objects handed over for despawning that React has not unmounted yet
+  const despawningRef = useRef(new Set<string>());
+  // When each moved object was moved, in real seconds
+  const movedRef = useRef(new Map<string, number>());
+  const pendingRef = useRef<{ despawn: string[]; culled: number }>({ despawn: [], culled: 0 });
+  const lastBatchRef = useRef(-Infinity);
+  const surfaceHeight = useMemo(() => getTerrainTop(terrain, 0, 0, BOUNDS_LIMITS.RESPAWN_CLEARANCE), [terrain]);
+
+  useFrame(({ clock }) => {
+    const now = clock.elapsedTime;
+    const despawning = despawningRef.current;
+    const moved = movedRef.current;
+    despawning.forEach(id => {
+      if (!bodyRegistry.get(id)) despawning.delete(id);
+    });
+    moved.forEach((time, id) => {
+      if (now - time >= BOUNDS_LIMITS.BATCH_INTERVAL) moved.delete(id);
+    });
+
+    if (bounds.policy !== 'off') {
+      const bodies = bodyRegistry.getAll();
+      let respawned = 0;
+      bodies.forEach(body => {
+        // Parts are checked through their root
+        if (body.ownerId || despawning.has(body.id) || moved.has(body.id)) return;
+
+        const { position } = body.object3D;
+        const action = getBoundsAction([position.x, position.y, position.z], bounds, respawned, surfaceHeight);
+        if (!action) return;
+
+        pendingRef.current.culled++;
+        if (action.type === 'despawn') {
+          despawning.add(body.id);
+          pendingRef.current.despawn.push(body.id);
+          return;
+        }
+
+        if (action.stop) respawned++;
+        moveObject(bodies.filter(part => (part.ownerId ?? part.id) === body.id), action.offset, action.stop);
+        moved.set(body.id, now);
+      });
+    }
+
+    const pending = pendingRef.current;
+    if (pending.culled > 0 && now - lastBatchRef.current >= BOUNDS_LIMITS.BATCH_INTERVAL) {
+      debugLogger.info('Culled out-of-bounds objects', { policy: bounds.policy, count: pending.culled, despawn: pending.despawn });
+      pendingRef.current = { despawn: [], culled: 0 };
+      lastBatchRef.current = now;
+      onCulledRef.current(pending.despawn, pending.culled);
+    }
+  });
+
+  return null;
+};
+
+export default BoundsCuller;
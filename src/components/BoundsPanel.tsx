@@ -0,0 +1,92 @@
+import React from 'react';
+import { BoundsPolicy, WorldBounds } from '../types/simulation';
+import { BOUNDS_LIMITS, BOUNDS_POLICY_LABELS } from '../utils/worldBounds';
+
+export interface BoundsPanelProps {
+  settings: WorldBounds;
+  onChange: (settings: WorldBounds) => void;
+  // Objects culled since the counter was last reset
+  culledCount: number;
+  onResetCount: () => void;
+  // Smallest width that keeps the ground inside the bounds
+  minHalfWidth?: number;
+}
+
+const POLICIES = Object.keys(BOUNDS_POLICY_LABELS) as BoundsPolicy[];
+
+/**
+ * Size of the world bounds and what happens to objects that leave them
+ */
+const BoundsPanel: React.FC<BoundsPanelProps> = ({
+  settings,
+  onChange,
+  culledCount,
+  onResetCount,
+  minHalfWidth = BOUNDS_LIMITS.MIN_HALF_WIDTH
+}) => {
+  const disabled = settings.policy === 'off';
+
+  return (
+    <div className="world-bounds">
+      <div className="info-item bounds-row">
+        <span className="info-label">Out of bounds:</span>
+        <select
+          className="material-select"
+          value={settings.policy}
+          onChange={(e) => onChange({ ...settings, policy: e.target.value as BoundsPolicy })}
+          aria-label="Out-of-bounds policy"
+        >
+          {POLICIES.map(policy => <option key={policy} value={policy}>{BOUNDS_POLICY_LABELS[policy]}</option>)}
+        </select>
+      </div>
+
+      <div className="info-item bounds-row">
+        <span className="info-label">Width:</span>
+        <input
+          type="range"
+          min={minHalfWidth}
+          max={BOUNDS_LIMITS.MAX_HALF_WIDTH}
+          step={1}
+          value={settings.halfWidth}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...settings, halfWidth: Number(e.target.value) })}
+          aria-label="Bounds half width"
+          title="Distance from the origin along x and z"
+        />
+        <span className="info-value">±{settings.halfWidth} m</span>
+      </div>
+
+      <div className="info-item bounds-row">
+        <span className="info-label">Floor:</span>
+        <input
+          type="range"
+          min={BOUNDS_LIMITS.MIN_FLOOR}
+          max={BOUNDS_LIMITS.MAX_FLOOR}
+          step={1}
+          value={settings.floor}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...settings, floor: Number(e.target.value) })}
+          aria-label="Bounds floor"
+          title="Height below the ground at which falling objects are culled"
+        />
+        <span className="info-value">{settings.floor} m</span>
+      </div>
+
+      <div className="info-item bounds-row">
+        <span className="info-label">Culled:</span>
+        <span className="info-value" data-testid="culled-count">{culledCount}</span>
+        <button
+          className="control-button seed-button"
+          onClick={onResetCount}
+          disabled={culledCount === 0}
+          title="Reset the culled object counter"
+          aria-label="Reset culled count"
+        >
+          ↺
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BoundsPanel;
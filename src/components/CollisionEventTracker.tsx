@@ -0,0 +1,150 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { useAmmoPhysicsContext } from 'use-ammojs';
+import { Quaternion, Vector3 } from 'three';
+import { bodyRegistry, RegisteredBody } from '../utils/bodyRegistry';
+import { simulationClock } from '../utils/simulationClock';
+import { collisionEvents, getArenaPieceContactId, GROUND_ID, TERRAIN_ID } from '../utils/collisionEvents';
+import {
+  Contact,
+  ContactCollider,
+  ContactShape,
+  contactPairKey,
+  detectContacts,
+  getContactShape,
+  getTerrainCollider
+} from '../utils/contactDetection';
+import { ArenaBody } from '../utils/arena';
+import { CollisionEvent, TerrainSettings } from '../types/simulation';
+
+interface CollisionEventTrackerProps {
+  // Static ground box the bodies land on
+  ground?: { position: [number, number, number]; halfExtents: [number, number, number] };
+  // Static boxes of the arena pieces, reported by the piece they belong to
+  arenaBodies?: Array<ArenaBody & { pieceId: string }>;
+  // Heightfield on the ground, measured under each moving body
+  terrain?: TerrainSettings | null;
+  // Object pairs joined by a constraint, which Bullet does not collide
+  linkedPairs?: Array<[string, string]>;
+}
+
+type ProxyShape = { shape: ContactShape; offset: Vector3 };
+
+const toEvent = (type: CollisionEvent['type'], contact: Contact): CollisionEvent => {
+  const { steps, time } = simulationClock.getSnapshot();
+  return {
+    type,
+    objectA: contact.objectA,
+    objectB: contact.objectB,
+    point: [contact.point.x, contact.point.y, contact.point.z],
+    normal: [contact.normal.x, contact.normal.y, contact.normal.z],
+    impulse: type === 'begin' ? contact.impulse : 0,
+    step: steps,
+    time
+  };
+};
+
+/**
+ * Publishes approximate collision begin/end events on the collision bus after every physics
+ * step. Contacts are detected from proxies of the stepped body poses (see contactDetection),
+ * not taken from Bullet, since use-ammojs does not pass its contact manifolds back from the worker.
+ * Must be mounted after BodyStateTracker so velocities are sampled for the same step.
+ */
+const CollisionEventTracker: React.FC<CollisionEventTrackerProps> = ({ ground, arenaBodies, terrain = null, linkedPairs }) => {
+  const { physicsPerformanceInfoRef } = useAmmoPhysicsContext();
+  const lastSubstepRef = useRef<number>(0);
+  const activeRef = useRef<Map<string, Contact>>(new Map());
+  // Proxies depend only on the body's config and meshes, so each body is measured once
+  const shapesRef = useRef<WeakMap<RegisteredBody, ProxyShape>>(new WeakMap());
+
+  const staticColliders = useMemo<ContactCollider[]>(() => [
+    ...(ground ? [{
+      objectId: GROUND_ID,
+      center: new Vector3(...ground.position),
+      rotation: new Quaternion(),
+      shape: { kind: 'box' as const, halfExtents: new Vector3(...ground.halfExtents) },
+      inverseMass: 0,
+      velocity: new Vector3()
+    }] : []),
+    ...(arenaBodies ?? []).map(body => ({
+      objectId: getArenaPieceContactId(body.pieceId),
+      center: new Vector3(...body.position),
+      rotation: new Quaternion(...body.rotation),
+      shape: { kind: 'box' as const, halfExtents: new Vector3(...body.halfExtents) },
+      inverseMass: 0,
+      velocity: new Vector3()
+    }))
+  ], [ground, arenaBodies]);
+
+  const ignored = useMemo(
+    () => new Set((linkedPairs ?? []).map(([a, b]) => contactPairKey(a, b))),
+    [linkedPairs]
+  );
+
+  // Contacts still open when the world goes away (reset, rebuild) end with it
+  useEffect(() => {
+    const active = activeRef.current;
+    return () => {
+      active.forEach(contact => collisionEvents.emit(toEvent('end', contact)));
+      active.clear();
+    };
+  }, []);
+
+  const getShape = (body: RegisteredBody): ProxyShape | null => {
+    const cached = shapesRef.current.get(body);
+    if (cached) return cached;
+    // GLB meshes may not be measurable until the model is attached
+    const proxy = getContactShape(body.config.shapeType, body.config.shapeConfig, body.object3D);
+    if (proxy) shapesRef.current.set(body, proxy);
+    return proxy;
+  };
+
+  useFrame(() => {
+    const substep = physicsPerformanceInfoRef.current.substepCounter;
+    if (substep === lastSubstepRef.current) return;
+    lastSubstepRef.current = substep;
+
+    const colliders: ContactCollider[] = [...staticColliders];
+    bodyRegistry.getAll().forEach(body => {
+      const proxy = getShape(body);
+      if (!proxy) return;
+      const { position, quaternion } = body.object3D;
+      const dynamic = body.config.bodyType === 'dynamic' && body.config.mass > 0;
+      const collider: ContactCollider = {
+        objectId: body.ownerId ?? body.id,
+        center: proxy.offset.clone().applyQuaternion(quaternion).add(position),
+        rotation: quaternion.clone(),
+        shape: proxy.shape,
+        inverseMass: dynamic ? 1 / body.config.mass : 0,
+        velocity: body.linearVelocity
+      };
+      colliders.push(collider);
+
+      const terrainCollider = terrain && dynamic ? getTerrainCollider(terrain, collider, TERRAIN_ID) : null;
+      if (terrainCollider) colliders.push(terrainCollider);
+    });
+
+    const active = activeRef.current;
+    const contacts = detectContacts(colliders, key => active.has(key), key => ignored.has(key));
+
+    active.forEach((contact, key) => {
+      if (contacts.has(key)) return;
+      active.delete(key);
+      collisionEvents.emit(toEvent('end', contact));
+    });
+    contacts.forEach((contact, key) => {
+      const isNew = !active.has(key);
+      // Ongoing contacts keep their latest geometry for the eventual end event
+      active.set(key, contact);
+      if (isNew) {
+        collisionEvents.emit(toEvent('begin', contact));
+      } else {
+        collisionEvents.update(toEvent('begin', contact));
+      }
+    });
+  });
+
+  return null;
+};
+
+export default CollisionEventTracker;
@@ -1,13 +1,29 @@
-import React, { useEffect, useState } from 'react';
+import React from 'react';
 import PhysicsBall from './PhysicsBall';
 import PhysicsBox from './PhysicsBox';
 import PhysicsGLB from './PhysicsGLB';
+import { useCollisionEvents } from '../hooks/useCollisionEvents';
+import { CollisionEvent } from '../types/simulation';
 
 interface CollisionTestSceneProps {
   glbUrl?: string;
-  onCollisionDetected?: (objectA: string, objectB: string) => void;
+  // Called when a contact involving one of the test objects begins
+  onCollisionDetected?: (objectA: string, objectB: string, event: CollisionEvent) => void;
 }
 
+// Object ids of the test objects, as reported in collision events
+export const COLLISION_TEST_IDS = {
+  RED_BALL: 'collision-test-ball-red',
+  BLUE_BOX: 'collision-test-box-blue',
+  GLB_BOX: 'collision-test-glb-box',
+  GLB_CONVEX: 'collision-test-glb-convex',
+  GLB_MESH: 'collision-test-glb-mesh',
+  GREEN_BALL: 'collision-test-ball-green',
+  YELLOW_BOX: 'collision-test-box-yellow'
+} as const;
+
+const TEST_IDS = new Set<string>(Object.values(COLLISION_TEST_IDS));
+
 /**
  * Test scene component to verify collision interactions between different object types
  */
@@ -15,14 +31,11 @@ const CollisionTestScene: React.FC<CollisionTestSceneProps> = ({
   glbUrl,
   onCollisionDetected
 }) => {
-  const [collisions, setCollisions] = useState<Array<{ objectA: string; objectB: string; timestamp: number }>>([]);
-
-  // Simulate collision detection (in a real implementation, this would come from the physics engine)
-  const handleCollision = (objectA: string, objectB: string) => {
-    const collision = { objectA, objectB, timestamp: Date.now() };
-    setCollisions(prev => [...prev, collision]);
-    onCollisionDetected?.(objectA, objectB);
-  };
+  // Approximate contacts from the collision bus, found from the bodies' proxy shapes
+  useCollisionEvents(event => {
+    if (event.type !== 'begin' || (!TEST_IDS.has(event.objectA) && !TEST_IDS.has(event.objectB))) return;
+    onCollisionDetected?.(event.objectA, event.objectB, event);
+  });
 
   // Test setup: Create objects positioned to collide
   return (
@@ -33,6 +46,7 @@ const CollisionTestScene: React.FC<CollisionTestSceneProps> = ({
         radius={0.5}
         mass={1}
         color="red"
+        objectId={COLLISION_TEST_IDS.RED_BALL}
       />
 
       {/* Test Box - positioned to fall and collide */}
@@ -41,6 +55,7 @@ const CollisionTestScene: React.FC<CollisionTestSceneProps> = ({
         size={[1, 1, 1]}
         mass={1}
         color="blue"
+        objectId={COLLISION_TEST_IDS.BLUE_BOX}
       />
 
       {/* Test GLB with Box collision - positioned to fall */}
@@ -51,6 +66,7 @@ const CollisionTestScene: React.FC<CollisionTestSceneProps> = ({
           scale={[1, 1, 1]}
           mass={1}
           collisionType="box"
+          objectId={COLLISION_TEST_IDS.GLB_BOX}
         />
       )}
 
@@ -62,17 +78,19 @@ const CollisionTestScene: React.FC<CollisionTestSceneProps> = ({
           scale={[0.8, 0.8, 0.8]}
           mass={1}
           collisionType="convex"
+          objectId={COLLISION_TEST_IDS.GLB_CONVEX}
         />
       )}
 
-      {/* Static GLB obstacle - positioned on ground */}
+      {/* Static GLB obstacle with triangle-mesh collision - positioned on ground */}
       {glbUrl && (
         <PhysicsGLB
           url={glbUrl}
           position={[0, 1, 0]}
           scale={[2, 0.5, 2]}
           mass={0} // Static
-          collisionType="box"
+          collisionType="mesh"
+          objectId={COLLISION_TEST_IDS.GLB_MESH}
         />
       )}
 
@@ -82,6 +100,7 @@ const CollisionTestScene: React.FC<CollisionTestSceneProps> = ({
         radius={0.3}
         mass={0.5}
         color="green"
+        objectId={COLLISION_TEST_IDS.GREEN_BALL}
       />
 
       <PhysicsBox
@@ -89,6 +108,7 @@ const CollisionTestScene: React.FC<CollisionTestSceneProps> = ({
         size={[0.8, 0.8, 0.8]}
         mass={0.8}
         color="yellow"
+        objectId={COLLISION_TEST_IDS.YELLOW_BOX}
       />
     </>
   );
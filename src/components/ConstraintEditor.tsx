@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { ConstraintKind, ObjectConstraint, SpawnedObject } from '../types/simulation';
+import {
+  CONSTRAINT_KINDS,
+  CONSTRAINT_LABELS,
+  ConstraintOptions,
+  ConstraintPivot,
+  DEFAULT_SPRING
+} from '../utils/constraints';
+
+interface ConstraintEditorProps {
+  object: SpawnedObject;
+  // Second selected object (shift-click) to link the inspected object with
+  target?: SpawnedObject | null;
+  // Constraints involving the inspected object
+  constraints: ObjectConstraint[];
+  onLink: (type: ConstraintKind, options: ConstraintOptions) => void;
+  onRemove: (id: string) => void;
+  onClearTarget: () => void;
+}
+
+interface DraftLink {
+  type: ConstraintKind;
+  pivot: ConstraintPivot;
+  lower: string;
+  upper: string;
+  stiffness: string;
+  damping: string;
+}
+
+const PIVOT_LABELS: Record<ConstraintPivot, string> = {
+  midpoint: 'Midpoint',
+  bodyA: 'This object',
+  bodyB: 'Linked object'
+};
+
+const INITIAL_DRAFT: DraftLink = {
+  type: 'hinge',
+  pivot: 'midpoint',
+  lower: '',
+  upper: '',
+  stiffness: String(DEFAULT_SPRING.STIFFNESS),
+  damping: String(DEFAULT_SPRING.DAMPING)
+};
+
+const parseOptional = (value: string): number | null | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return isFinite(parsed) ? parsed : null;
+};
+
+const describeLimits = ({ type, limits }: ObjectConstraint): string | null => {
+  if (!limits) return null;
+  return type === 'hinge'
+    ? `${Math.round((limits.lower * 180) / Math.PI)}° to ${Math.round((limits.upper * 180) / Math.PI)}°`
+    : `${limits.lower} to ${limits.upper} m`;
+};
+
+/**
+ * Joints section of the object inspector: lists the object's constraints and links
+ * it to a second object picked with shift-click.
+ */
+const ConstraintEditor: React.FC<ConstraintEditorProps> = ({
+  object,
+  target,
+  constraints,
+  onLink,
+  onRemove,
+  onClearTarget
+}) => {
+  const [draft, setDraft] = useState<DraftLink>(INITIAL_DRAFT);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setValidationError(null);
+  }, [object.id, target?.id]);
+
+  const hasLimits = draft.type === 'hinge' || draft.type === 'slider';
+
+  const handleLink = () => {
+    if (draft.type === 'spring') {
+      const stiffness = parseOptional(draft.stiffness);
+      const damping = parseOptional(draft.damping);
+      if (!stiffness || stiffness <= 0 || damping === undefined || damping === null || damping < 0) {
+        setValidationError('Stiffness must be positive and damping cannot be negative.');
+        return;
+      }
+      setValidationError(null);
+      onLink('spring', { stiffness, damping });
+      return;
+    }
+
+    const options: ConstraintOptions = { pivot: draft.pivot };
+    if (hasLimits) {
+      const lower = parseOptional(draft.lower);
+      const upper = parseOptional(draft.upper);
+      if (lower === null || upper === null || (lower === undefined) !== (upper === undefined)) {
+        setValidationError('Set both limits, or leave both empty for a free joint.');
+        return;
+      }
+      if (lower !== undefined && upper !== undefined) {
+        if (lower > upper) {
+          setValidationError('The lower limit cannot be above the upper limit.');
+          return;
+        }
+        // Hinge limits are entered in degrees
+        const toUnits = draft.type === 'hinge' ? (value: number) => (value * Math.PI) / 180 : (value: number) => value;
+        options.limits = { lower: toUnits(lower), upper: toUnits(upper) };
+      }
+    }
+
+    setValidationError(null);
+    onLink(draft.type, options);
+  };
+
+  return (
+    <div className="inspector-section" data-testid="constraint-editor">
+      <div className="inspector-title">Joints</div>
+
+      {constraints.length === 0 && <div className="inspector-row"><span className="inspector-muted">Not linked to other objects</span></div>}
+      {constraints.map(constraint => {
+        const otherId = constraint.bodyA === object.id ? constraint.bodyB : constraint.bodyA;
+        const limits = describeLimits(constraint);
+        return (
+          <div className="inspector-row" key={constraint.id}>
+            <span>{CONSTRAINT_LABELS[constraint.type]}</span>
+            <span className="inspector-value" title={limits ? `${otherId} (${limits})` : otherId}>{otherId}</span>
+            <button className="inspector-link-btn" onClick={() => onRemove(constraint.id)} aria-label={`Remove ${constraint.id}`}>
+              ✕
+            </button>
+          </div>
+        );
+      })}
+
+      {target ? (
+        <>
+          <div className="inspector-row">
+            <span>Link with</span>
+            <span className="inspector-value" title={target.id}>{target.id}</span>
+          </div>
+          <label className="inspector-field">
+            <span>Joint</span>
+            <select value={draft.type} aria-label="Joint type"
+              onChange={(e) => setDraft({ ...draft, type: e.target.value as ConstraintKind })}>
+              {CONSTRAINT_KINDS.map(kind => <option key={kind} value={kind}>{CONSTRAINT_LABELS[kind]}</option>)}
+            </select>
+          </label>
+
+          {draft.type === 'spring' ? (
+            <>
+              <label className="inspector-field">
+                <span>Stiffness (N/m)</span>
+                <input type="number" min={0} step={5} value={draft.stiffness}
+                  onChange={(e) => setDraft({ ...draft, stiffness: e.target.value })} />
+              </label>
+              <label className="inspector-field">
+                <span>Damping</span>
+                <input type="number" min={0} step={0.5} value={draft.damping}
+                  onChange={(e) => setDraft({ ...draft, damping: e.target.value })} />
+              </label>
+            </>
+          ) : (
+            <label className="inspector-field">
+              <span>Pivot</span>
+              <select value={draft.pivot} aria-label="Joint pivot"
+                onChange={(e) => setDraft({ ...draft, pivot: e.target.value as ConstraintPivot })}>
+                {(Object.keys(PIVOT_LABELS) as ConstraintPivot[]).map(pivot => (
+                  <option key={pivot} value={pivot}>{PIVOT_LABELS[pivot]}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {hasLimits && (
+            <div className="inspector-field">
+              <span>{draft.type === 'hinge' ? 'Limits (°)' : 'Limits (m)'}</span>
+              <div className="inspector-vector">
+                <input type="number" value={draft.lower} aria-label="Lower limit" placeholder="free"
+                  onChange={(e) => setDraft({ ...draft, lower: e.target.value })} />
+                <input type="number" value={draft.upper} aria-label="Upper limit" placeholder="free"
+                  onChange={(e) => setDraft({ ...draft, upper: e.target.value })} />
+              </div>
+            </div>
+          )}
+
+          {validationError && <div className="inspector-error">{validationError}</div>}
+
+          <div className="inspector-actions">
+            <button className="inspector-btn apply" onClick={handleLink}>Link</button>
+            <button className="inspector-btn" onClick={onClearTarget}>Cancel</button>
+          </div>
+        </>
+      ) : (
+        <div className="inspector-row"><span className="inspector-muted">Shift-click another object to link it</span></div>
+      )}
+    </div>
+  );
+};
+
+export default ConstraintEditor;
@@ -1,43 +1,202 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import GLBLoader from './GLBLoader';
+import SceneControls from './SceneControls';
+import WorldSettingsPanel from './WorldSettingsPanel';
+import MotionOverlayPanel from './MotionOverlayPanel';
+import DataLogControls, { DataLogControlsProps } from './DataLogControls';
+import LauncherPanel, { LauncherPanelProps } from './LauncherPanel';
+import BoundsPanel, { BoundsPanelProps } from './BoundsPanel';
+import ArenaPanel, { ArenaPanelProps } from './ArenaPanel';
 import { usePerformance } from '../hooks/usePerformance';
+import { useSimulationClock } from '../hooks/useSimulationClock';
 import './ControlPanel.css';
 
 import { SimulationError } from '../utils/errorHandling';
+import { LoadedScene, SceneFile } from '../utils/sceneSerialization';
+import { normalizeSeed } from '../utils/random';
+import { MATERIAL_NOTE, MATERIAL_PRESETS } from '../utils/physicsMaterials';
+import { MAX_FRAME_STEPS } from '../utils/simulationClock';
+import { PLACEMENT_LABELS, PLACEMENT_MODES } from '../utils/spawnPlacement';
+import { DecompositionQuality, GLBCollisionType, MaterialPresetName, MotionOverlaySettings, ObjectType, PlacementMode, WorldSettings } from '../types/simulation';
+
+// Extra primitive spawn buttons, shown when onAddShape is provided
+const SHAPE_BUTTONS: Array<{ type: ObjectType; label: string }> = [
+  { type: ObjectType.CYLINDER, label: 'Cylinder' },
+  { type: ObjectType.CAPSULE, label: 'Capsule' },
+  { type: ObjectType.CONE, label: 'Cone' },
+  { type: ObjectType.COMPOUND, label: 'Compound' }
+];
+
+// Object types the clear action offers, in the order of the spawn buttons
+const CLEAR_TYPE_OPTIONS: Array<{ type: ObjectType; label: string }> = [
+  { type: ObjectType.BALL, label: 'Balls' },
+  { type: ObjectType.BOX, label: 'Boxes' },
+  { type: ObjectType.GLB_MODEL, label: 'Models' },
+  { type: ObjectType.CYLINDER, label: 'Cylinders' },
+  { type: ObjectType.CAPSULE, label: 'Capsules' },
+  { type: ObjectType.CONE, label: 'Cones' },
+  { type: ObjectType.COMPOUND, label: 'Compounds' }
+];
 
 interface ControlPanelProps {
-  onAddBall: () => void;
-  onAddBox: () => void;
-  onLoadGLB: (url: string, file: File, collisionType?: 'box' | 'convex', scale?: number) => void;
+  onAddBall: (material?: MaterialPresetName) => void;
+  onAddBox: (material?: MaterialPresetName) => void;
+  onAddShape?: (type: ObjectType, material?: MaterialPresetName) => void;
+  onLoadGLB: (
+    url: string,
+    file: File,
+    collisionType?: GLBCollisionType,
+    scale?: number,
+    material?: MaterialPresetName,
+    decompositionQuality?: DecompositionQuality
+  ) => void;
   onToggleSimulation: () => void;
+  // Advance a paused simulation by about a number of fixed steps (see FrameStepper)
+  onStep?: (steps: number) => void;
   onReset: () => void;
+  // Scene edit history; the labels name the edit each button would step over
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  undoLabel?: string | null;
+  redoLabel?: string | null;
+  // Remove every object of a type, or those that fell off the ground
+  onClearType?: (type: ObjectType) => void;
+  onRemoveFallen?: () => void;
+  typeCounts?: Partial<Record<ObjectType, number>>;
   isRunning: boolean;
   objectCount: number;
   maxObjects?: number;
   canAddBall?: boolean;
   canAddBox?: boolean;
   canAddGLB?: boolean;
+  canAddShape?: (type: ObjectType) => boolean;
   performanceWarnings?: string[];
   onError?: (error: SimulationError) => void;
+  onExportScene?: () => SceneFile;
+  onImportScene?: (scene: LoadedScene) => void;
+  seed?: number;
+  deterministic?: boolean;
+  onSetSeed?: (seed: number) => void;
+  onRandomizeSeed?: () => void;
+  onToggleDeterministic?: () => void;
+  worldSettings?: WorldSettings;
+  onUpdateWorldSettings?: (changes: Partial<WorldSettings>) => void;
+  motionOverlays?: MotionOverlaySettings;
+  onUpdateMotionOverlays?: (settings: MotionOverlaySettings) => void;
+  dataLog?: DataLogControlsProps;
+  placementMode?: PlacementMode;
+  onPlacementModeChange?: (mode: PlacementMode) => void;
+  // Object type waiting to be placed with the cursor
+  armedSpawnType?: ObjectType | null;
+  onCancelPlacement?: () => void;
+  launcher?: LauncherPanelProps;
+  bounds?: BoundsPanelProps;
+  arena?: ArenaPanelProps;
 }
 
 const ControlPanel: React.FC<ControlPanelProps> = ({
   onAddBall,
   onAddBox,
+  onAddShape,
   onLoadGLB,
   onToggleSimulation,
+  onStep,
   onReset,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  undoLabel = null,
+  redoLabel = null,
+  onClearType,
+  onRemoveFallen,
+  typeCounts = {},
   isRunning,
   objectCount,
   maxObjects = 50,
   canAddBall = true,
   canAddBox = true,
   canAddGLB = true,
+  canAddShape,
   performanceWarnings = [],
-  onError
+  onError,
+  onExportScene,
+  onImportScene,
+  seed,
+  deterministic = false,
+  onSetSeed,
+  onRandomizeSeed,
+  onToggleDeterministic,
+  worldSettings,
+  onUpdateWorldSettings,
+  motionOverlays,
+  onUpdateMotionOverlays,
+  dataLog,
+  placementMode = 'random',
+  onPlacementModeChange,
+  armedSpawnType = null,
+  onCancelPlacement,
+  launcher,
+  bounds,
+  arena
 }) => {
   const { fps, frameTime, memoryUsage } = usePerformance();
+  const clock = useSimulationClock();
   const [glbScale, setGlbScale] = useState<number>(1);
+  const [seedInput, setSeedInput] = useState<string>('');
+  // Material applied to newly spawned objects; undefined keeps each shape's defaults
+  const [material, setMaterial] = useState<MaterialPresetName | undefined>(undefined);
+  const [stepCountInput, setStepCountInput] = useState<string>('10');
+  const [clearType, setClearType] = useState<ObjectType>(ObjectType.BALL);
+
+  const parsedStepCount = Number(stepCountInput);
+  const stepCount = Number.isInteger(parsedStepCount) && parsedStepCount >= 1 && parsedStepCount <= MAX_FRAME_STEPS
+    ? parsedStepCount
+    : null;
+
+  // Frame advance shortcuts while paused: "." steps once, ">" steps by the chosen count
+  useEffect(() => {
+    if (!onStep || isRunning) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const typing = event.target instanceof Element && event.target.closest('input, select, textarea');
+      if (event.ctrlKey || event.metaKey || event.altKey || typing) return;
+      if (event.key === '.') {
+        onStep(1);
+      } else if (event.key === '>' && stepCount !== null) {
+        onStep(stepCount);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onStep, isRunning, stepCount]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their own undo
+  useEffect(() => {
+    if (!onUndo && !onRedo) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const typing = event.target instanceof Element && event.target.closest('input, select, textarea');
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || typing) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey && onUndo) {
+        event.preventDefault();
+        onUndo();
+      } else if (((key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey)) && onRedo) {
+        event.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
+
+  const handleApplySeed = () => {
+    const nextSeed = normalizeSeed(seedInput);
+    if (nextSeed === null || !onSetSeed) return;
+    onSetSeed(nextSeed);
+    setSeedInput('');
+  };
   return (
     <div className="control-panel">
       <h3>Physics Simulation Controls</h3>
@@ -45,10 +204,9 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       <div className="button-group">
         <button 
           className={`control-button add-ball ${!canAddBall ? 'disabled' : ''}`}
-          onClick={onAddBall}
-          disabled={!isRunning || !canAddBall}
+          onClick={() => onAddBall(material)}
+          disabled={!canAddBall}
           title={
-            !isRunning ? "Resume simulation to add objects" :
             !canAddBall ? "Ball limit reached" :
             "Add a physics ball to the scene"
           }
@@ -58,10 +216,9 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         
         <button 
           className={`control-button add-box ${!canAddBox ? 'disabled' : ''}`}
-          onClick={onAddBox}
-          disabled={!isRunning || !canAddBox}
+          onClick={() => onAddBox(material)}
+          disabled={!canAddBox}
           title={
-            !isRunning ? "Resume simulation to add objects" :
             !canAddBox ? "Box limit reached" :
             "Add a physics box to the scene"
           }
@@ -70,6 +227,75 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         </button>
       </div>
 
+      {onAddShape && (
+        <div className="button-group shape-buttons">
+          {SHAPE_BUTTONS.map(({ type, label }) => {
+            const canAdd = canAddShape ? canAddShape(type) : true;
+            return (
+              <button
+                key={type}
+                className={`control-button add-shape add-${type} ${!canAdd ? 'disabled' : ''}`}
+                onClick={() => onAddShape(type, material)}
+                disabled={!canAdd}
+                title={
+                  !canAdd ? `${label} limit reached` :
+                  `Add a physics ${label.toLowerCase()} to the scene`
+                }
+              >
+                {label} {!canAdd && '(Limit)'}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="info-item material-picker">
+        <label className="info-label" htmlFor="spawn-material">Material:</label>
+        <select
+          id="spawn-material"
+          className="material-select"
+          value={material ?? ''}
+          onChange={(e) => setMaterial((e.target.value || undefined) as MaterialPresetName | undefined)}
+          title={`Physics material for newly spawned objects. ${MATERIAL_NOTE}`}
+        >
+          <option value="">Default</option>
+          {(Object.keys(MATERIAL_PRESETS) as MaterialPresetName[]).map(name => (
+            <option key={name} value={name}>{MATERIAL_PRESETS[name].label}</option>
+          ))}
+        </select>
+      </div>
+      {material && (
+        <div className="info-item material-note">{MATERIAL_NOTE}</div>
+      )}
+
+      {onPlacementModeChange && (
+        <div className="info-item placement-picker">
+          <label className="info-label" htmlFor="spawn-placement">Placement:</label>
+          <select
+            id="spawn-placement"
+            className="material-select placement-select"
+            value={placementMode}
+            onChange={(e) => onPlacementModeChange(e.target.value as PlacementMode)}
+            title="Where newly spawned objects appear"
+          >
+            {PLACEMENT_MODES.map(mode => (
+              <option key={mode} value={mode}>{PLACEMENT_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {armedSpawnType && (
+        <div className="info-item placement-hint" role="status">
+          <span>Click in the scene to place a {armedSpawnType === ObjectType.GLB_MODEL ? 'model' : armedSpawnType} (Esc to stop)</span>
+          {onCancelPlacement && (
+            <button className="control-button placement-cancel" onClick={onCancelPlacement}>
+              Done
+            </button>
+          )}
+        </div>
+      )}
+
       <div className="button-group simulation-controls">
         <button 
           className={`control-button ${isRunning ? 'pause' : 'play'}`}
@@ -87,6 +313,94 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           Reset
         </button>
       </div>
+
+      {(onUndo || onRedo) && (
+        <div className="info-item edit-history">
+          <button
+            className="control-button seed-button"
+            onClick={onUndo}
+            disabled={!onUndo || !canUndo}
+            title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+          >
+            ↶ Undo
+          </button>
+          <button
+            className="control-button seed-button"
+            onClick={onRedo}
+            disabled={!onRedo || !canRedo}
+            title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+          >
+            ↷ Redo
+          </button>
+        </div>
+      )}
+
+      {(onClearType || onRemoveFallen) && (
+        <div className="info-item clear-objects">
+          {onClearType && (
+            <>
+              <select
+                className="clear-type-select"
+                value={clearType}
+                onChange={(e) => setClearType(e.target.value as ObjectType)}
+                aria-label="Object type to clear"
+              >
+                {CLEAR_TYPE_OPTIONS.map(({ type, label }) => (
+                  <option key={type} value={type}>{label} ({typeCounts[type] ?? 0})</option>
+                ))}
+              </select>
+              <button
+                className="control-button seed-button"
+                onClick={() => onClearType(clearType)}
+                disabled={!typeCounts[clearType]}
+                title="Remove every object of this type"
+              >
+                Clear
+              </button>
+            </>
+          )}
+          {onRemoveFallen && (
+            <button
+              className="control-button seed-button"
+              onClick={onRemoveFallen}
+              disabled={objectCount === 0}
+              title="Remove objects that fell off the edge of the ground"
+            >
+              Remove Fallen
+            </button>
+          )}
+        </div>
+      )}
+
+      {onStep && (
+        <div className="info-item frame-advance">
+          <button
+            className="control-button seed-button"
+            onClick={() => onStep(1)}
+            disabled={isRunning}
+            title={isRunning ? 'Pause the simulation to step it' : 'Advance about one physics step (.); a slow frame can run a step past it'}
+          >
+            Step
+          </button>
+          <input
+            type="number"
+            min={1}
+            max={MAX_FRAME_STEPS}
+            className="seed-input"
+            value={stepCountInput}
+            onChange={(e) => setStepCountInput(e.target.value)}
+            aria-label="Steps to advance"
+          />
+          <button
+            className="control-button seed-button"
+            onClick={() => stepCount !== null && onStep(stepCount)}
+            disabled={isRunning || stepCount === null}
+            title={isRunning ? 'Pause the simulation to step it' : `Advance about ${stepCount ?? 'N'} physics steps (>); a slow frame can run a step past them`}
+          >
+            Step {stepCount ?? 'N'}
+          </button>
+        </div>
+      )}
       
       <div className="info-panel">
         <div className="info-section">
@@ -103,6 +417,20 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               {isRunning ? 'Running' : 'Paused'}
             </span>
           </div>
+          <div className="info-item">
+            <span className="info-label">Step:</span>
+            <span className="info-value" data-testid="simulation-step">{clock.steps}</span>
+          </div>
+          <div className="info-item">
+            <span className="info-label">Sim time:</span>
+            <span className="info-value" data-testid="simulation-time">{clock.time.toFixed(3)}s</span>
+          </div>
+          {seed !== undefined && (
+            <div className="info-item">
+              <span className="info-label">Seed:</span>
+              <span className="info-value" data-testid="simulation-seed">{seed}</span>
+            </div>
+          )}
         </div>
         
         <div className="info-section performance-section">
@@ -141,9 +469,10 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       <div className="info-section glb-controls-section" style={{ marginTop: '12px' }}>
         <div className="info-title">GLB Model</div>
         <GLBLoader
-          onLoadGLB={(url, file, collisionType) => onLoadGLB(url, file, collisionType, glbScale)}
+          onLoadGLB={(url, file, collisionType, decompositionQuality) =>
+            onLoadGLB(url, file, collisionType, glbScale, material, decompositionQuality)}
           onError={onError}
-          disabled={!isRunning || !canAddGLB}
+          disabled={!canAddGLB}
           limitReached={!canAddGLB}
         />
         <div className="info-item" style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8 }}>
@@ -161,6 +490,109 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           <span className="info-value" style={{ width: 60, textAlign: 'right' }}>{glbScale.toFixed(2)}x</span>
         </div>
       </div>
+
+      {seed !== undefined && onSetSeed && (
+        <div className="info-section reproducibility-section" style={{ marginTop: '12px' }}>
+          <div className="info-title">Reproducibility</div>
+          <div className="info-item" style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <input
+              type="text"
+              inputMode="numeric"
+              className="seed-input"
+              placeholder={String(seed)}
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleApplySeed(); }}
+              title="Seed for spawn positions and object ids"
+              style={{ flex: 1, minWidth: 0 }}
+            />
+            <button
+              className="control-button seed-button"
+              onClick={handleApplySeed}
+              disabled={normalizeSeed(seedInput) === null}
+              title="Restart the run with this seed"
+            >
+              Apply
+            </button>
+            {onRandomizeSeed && (
+              <button
+                className="control-button seed-button"
+                onClick={onRandomizeSeed}
+                title="Restart the run with a new random seed"
+              >
+                New
+              </button>
+            )}
+          </div>
+          {onToggleDeterministic && (
+            <label className="info-item deterministic-toggle" style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8 }}>
+              <input
+                type="checkbox"
+                checked={deterministic}
+                onChange={onToggleDeterministic}
+              />
+              <span className="info-label">Deterministic mode</span>
+            </label>
+          )}
+        </div>
+      )}
+
+      {worldSettings && onUpdateWorldSettings && (
+        <div className="info-section world-section" style={{ marginTop: '12px' }}>
+          <div className="info-title">World</div>
+          <WorldSettingsPanel
+            settings={worldSettings}
+            onChange={onUpdateWorldSettings}
+            deterministic={deterministic}
+          />
+        </div>
+      )}
+
+      {arena && (
+        <div className="info-section arena-section" style={{ marginTop: '12px' }}>
+          <div className="info-title">Arena</div>
+          <ArenaPanel {...arena} />
+        </div>
+      )}
+
+      {bounds && (
+        <div className="info-section bounds-section" style={{ marginTop: '12px' }}>
+          <div className="info-title">Bounds</div>
+          <BoundsPanel {...bounds} />
+        </div>
+      )}
+
+      {motionOverlays && onUpdateMotionOverlays && (
+        <div className="info-section motion-section" style={{ marginTop: '12px' }}>
+          <div className="info-title">Motion</div>
+          <MotionOverlayPanel settings={motionOverlays} onChange={onUpdateMotionOverlays} />
+        </div>
+      )}
+
+      {launcher && (
+        <div className="info-section launcher-section" style={{ marginTop: '12px' }}>
+          <div className="info-title">Launcher</div>
+          <LauncherPanel {...launcher} />
+        </div>
+      )}
+
+      {dataLog && (
+        <div className="info-section data-log-section" style={{ marginTop: '12px' }}>
+          <div className="info-title">Data Log</div>
+          <DataLogControls {...dataLog} />
+        </div>
+      )}
+
+      {onExportScene && onImportScene && (
+        <div className="info-section scene-section" style={{ marginTop: '12px' }}>
+          <div className="info-title">Scene</div>
+          <SceneControls
+            onExportScene={onExportScene}
+            onImportScene={onImportScene}
+            onError={onError}
+          />
+        </div>
+      )}
     </div>
   );
 };
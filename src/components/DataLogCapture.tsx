@@ -0,0 +1,22 @@
+import React from 'react';
+import { useFrame } from '@react-three/fiber';
+import { bodyRegistry } from '../utils/bodyRegistry';
+import { dataLogger } from '../utils/dataLogger';
+import { simulationClock } from '../utils/simulationClock';
+
+/**
+ * Feeds the data logger with body state on simulated time, so paused time adds no rows
+ * and the log rate holds at any time scale. Must be mounted after BodyStateTracker so
+ * velocities belong to the same step.
+ */
+const DataLogCapture: React.FC = () => {
+  useFrame(() => {
+    if (!dataLogger.isLogging) return;
+    const { steps, time } = simulationClock.getSnapshot();
+    dataLogger.sample(time, steps, (id) => bodyRegistry.getState(id));
+  });
+
+  return null;
+};
+
+export default DataLogCapture;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { DATA_LOG_RATES, DataLogExportFormat, MAX_DATA_LOG_ROWS } from '../utils/dataLogger';
+
+export interface DataLogControlsProps {
+  isLogging: boolean;
+  rateHz: number;
+  rowCount: number;
+  droppedRows: number;
+  setRateHz: (rateHz: number) => void;
+  startLogging: () => void;
+  stopLogging: () => void;
+  exportLog: (format: DataLogExportFormat) => void;
+}
+
+/**
+ * Start and stop per-object data logging and export the samples as CSV or JSON lines.
+ * The rate is fixed while a log runs so every row shares one sample interval.
+ */
+const DataLogControls: React.FC<DataLogControlsProps> = ({
+  isLogging,
+  rateHz,
+  rowCount,
+  droppedRows,
+  setRateHz,
+  startLogging,
+  stopLogging,
+  exportLog
+}) => (
+  <div className="data-log">
+    <div className="info-item data-log-row">
+      <span className="info-label">Rate:</span>
+      <select
+        className="data-log-rate"
+        value={rateHz}
+        onChange={(e) => setRateHz(Number(e.target.value))}
+        disabled={isLogging}
+        aria-label="Log rate"
+        title="Samples per second of simulated time"
+      >
+        {DATA_LOG_RATES.map(rate => <option key={rate} value={rate}>{rate} Hz</option>)}
+      </select>
+      <button
+        className={`control-button data-log-button ${isLogging ? 'logging' : ''}`}
+        onClick={isLogging ? stopLogging : startLogging}
+      >
+        {isLogging ? '⏹ Stop Log' : '⏺ Start Log'}
+      </button>
+    </div>
+
+    <div className="info-item">
+      <span className="info-label">Rows:</span>
+      <span className="info-value data-log-rows">
+        {rowCount.toLocaleString()}{isLogging ? ' (logging)' : ''}
+      </span>
+    </div>
+    {droppedRows > 0 && (
+      <div className="data-log-warning" title={`Only the latest ${MAX_DATA_LOG_ROWS.toLocaleString()} rows are kept`}>
+        {droppedRows.toLocaleString()} oldest rows dropped
+      </div>
+    )}
+
+    <div className="data-log-row">
+      <button
+        className="control-button data-log-button"
+        onClick={() => exportLog('csv')}
+        disabled={rowCount === 0}
+      >
+        Export CSV
+      </button>
+      <button
+        className="control-button data-log-button"
+        onClick={() => exportLog('jsonl')}
+        disabled={rowCount === 0}
+      >
+        Export JSONL
+      </button>
+    </div>
+  </div>
+);
+
+export default DataLogControls;
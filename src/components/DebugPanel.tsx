@@ -1,13 +1,27 @@
 import React, { useState, useEffect } from 'react';
 import { debugLogger } from '../utils/debugLogger';
+import { DEBUG_COLORS } from '../utils/debugShapes';
 import './DebugPanel.css';
 
 interface DebugPanelProps {
   isVisible: boolean;
   onToggle: () => void;
+  // Collision shape, AABB and contact overlay in the 3D view
+  physicsOverlayEnabled?: boolean;
+  onTogglePhysicsOverlay?: () => void;
 }
 
-const DebugPanel: React.FC<DebugPanelProps> = ({ isVisible, onToggle }) => {
+const OVERLAY_LEGEND: Array<{ label: string; color: string }> = [
+  { label: 'Awake', color: DEBUG_COLORS.awake },
+  { label: 'Settling', color: DEBUG_COLORS.settling },
+  { label: 'Asleep', color: DEBUG_COLORS.asleep },
+  { label: 'Static', color: DEBUG_COLORS.static },
+  { label: 'AABB', color: DEBUG_COLORS.aabb },
+  { label: 'Contact (approx.)', color: DEBUG_COLORS.contact },
+  { label: 'Normal', color: DEBUG_COLORS.normal }
+];
+
+const DebugPanel: React.FC<DebugPanelProps> = ({ isVisible, onToggle, physicsOverlayEnabled = false, onTogglePhysicsOverlay }) => {
   const [logs, setLogs] = useState(debugLogger.getLogs());
   const [autoScroll, setAutoScroll] = useState(true);
   const [filter, setFilter] = useState<'all' | 'info' | 'warn' | 'error'>('all');
@@ -71,6 +85,32 @@ const DebugPanel: React.FC<DebugPanelProps> = ({ isVisible, onToggle }) => {
         </div>
       </div>
       
+      {onTogglePhysicsOverlay && (
+        <div className="debug-overlay">
+          <label className="debug-checkbox">
+            <input
+              type="checkbox"
+              checked={physicsOverlayEnabled}
+              onChange={onTogglePhysicsOverlay}
+            />
+            Show collision shapes
+          </label>
+          {physicsOverlayEnabled && (
+            <div className="debug-overlay-legend">
+              {OVERLAY_LEGEND.map(item => (
+                <span key={item.label} className="debug-overlay-key">
+                  <span className="debug-overlay-swatch" style={{ background: item.color }} />
+                  {item.label}
+                </span>
+              ))}
+              <span className="debug-overlay-note">
+                Contacts are estimated from bounding shapes, not read from the physics engine
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="debug-stats">
         <span>Total: {logs.length}</span>
         <span>Errors: {logs.filter(l => l.level === 'error').length}</span>
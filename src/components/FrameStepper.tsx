@@ -0,0 +1,66 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { useAmmoPhysicsContext } from 'use-ammojs';
+import { FrameStepRequest } from '../types/simulation';
+import { debugLogger } from '../utils/debugLogger';
+
+interface FrameStepperProps {
+  request: FrameStepRequest | null;
+  isRunning: boolean;
+  // Called with true while the paused world should step, and with false once it is done,
+  // along with the number of steps actually taken when stepping ran to the end
+  onSteppingChange: (stepping: boolean, stepsTaken?: number) => void;
+}
+
+/**
+ * Advances a paused simulation by about a requested number of fixed steps. use-ammojs has
+ * no single-step message, so the world runs slowly (see getFrameStepSpeed) until the
+ * worker's substep counter has moved on by the requested count. The counter is only read
+ * once per frame, so a slow frame can run a step or two past the target; the steps
+ * actually taken are reported when stepping ends.
+ */
+const FrameStepper: React.FC<FrameStepperProps> = ({ request, isRunning, onSteppingChange }) => {
+  const { physicsPerformanceInfoRef } = useAmmoPhysicsContext();
+  // Substep counter values stepping started at and stops at
+  const startRef = useRef(0);
+  const targetRef = useRef<number | null>(null);
+  // Requests made before this world mounted (e.g. ahead of a reset) are not replayed
+  const handledRequestRef = useRef(request?.id);
+  const onSteppingChangeRef = useRef(onSteppingChange);
+  onSteppingChangeRef.current = onSteppingChange;
+
+  useEffect(() => {
+    if (!request || request.id === handledRequestRef.current) return;
+    handledRequestRef.current = request.id;
+    if (isRunning) return;
+
+    // Further requests while stepping queue up behind the current one
+    if (targetRef.current === null) startRef.current = physicsPerformanceInfoRef.current.substepCounter;
+    targetRef.current = (targetRef.current ?? startRef.current) + request.steps;
+    debugLogger.info('Stepping paused simulation', { steps: request.steps, target: targetRef.current });
+    onSteppingChangeRef.current(true);
+  }, [request, isRunning, physicsPerformanceInfoRef]);
+
+  // Resuming takes over from any unfinished steps
+  useEffect(() => {
+    if (isRunning && targetRef.current !== null) {
+      targetRef.current = null;
+      onSteppingChangeRef.current(false);
+    }
+  }, [isRunning]);
+
+  useFrame(() => {
+    const target = targetRef.current;
+    const substep = physicsPerformanceInfoRef.current.substepCounter;
+    if (target === null || substep < target) return;
+    targetRef.current = null;
+
+    const stepsTaken = substep - startRef.current;
+    debugLogger.info('Stepped paused simulation', { requested: target - startRef.current, taken: stepsTaken });
+    onSteppingChangeRef.current(false, stepsTaken);
+  });
+
+  return null;
+};
+
+export default FrameStepper;
@@ -1,9 +1,18 @@
 import React, { useRef, useState } from 'react';
 import { SimulationError, ErrorType, validateGLBFile, formatFileSize, logError } from '../utils/errorHandling';
 import LoadingIndicator from './LoadingIndicator';
+import { DecompositionQuality, GLBCollisionType } from '../types/simulation';
+import { DECOMPOSITION_QUALITY, DEFAULT_DECOMPOSITION_QUALITY } from '../utils/convexDecomposition';
+import { sessionModels } from '../utils/sessionModels';
+
+const QUALITY_LABELS: Record<DecompositionQuality, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High'
+};
 
 interface GLBLoaderProps {
-  onLoadGLB: (url: string, file: File, collisionType?: 'box' | 'convex') => void;
+  onLoadGLB: (url: string, file: File, collisionType?: GLBCollisionType, decompositionQuality?: DecompositionQuality) => void;
   onError?: (error: SimulationError) => void;
   disabled?: boolean;
   limitReached?: boolean;
@@ -23,7 +32,8 @@ const GLBLoader: React.FC<GLBLoaderProps> = ({
   const [loadingMessage, setLoadingMessage] = useState('Loading...');
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
-  const [collisionType, setCollisionType] = useState<'box' | 'convex'>('box');
+  const [collisionType, setCollisionType] = useState<GLBCollisionType>('box');
+  const [decompositionQuality, setDecompositionQuality] = useState<DecompositionQuality>(DEFAULT_DECOMPOSITION_QUALITY);
 
   const handleFileSelect = () => {
     if (fileInputRef.current) {
@@ -74,14 +84,19 @@ const GLBLoader: React.FC<GLBLoaderProps> = ({
         }
       }, 200);
 
-      // Create object URL for the file
+      // Create object URL for the file; scenes exported this session can link it
       const url = URL.createObjectURL(file);
+      sessionModels.register(url);
       
       // Add a small delay to show the loading process
       await new Promise(resolve => setTimeout(resolve, 1000));
       
-      // Call the parent callback with the URL, file, and collision type
-      onLoadGLB(url, file, collisionType);
+      // Call the parent callback with the URL, file, and collision settings
+      if (collisionType === 'decomposed') {
+        onLoadGLB(url, file, collisionType, decompositionQuality);
+      } else {
+        onLoadGLB(url, file, collisionType);
+      }
       
       // Complete the progress
       clearInterval(progressInterval);
@@ -128,19 +143,39 @@ const GLBLoader: React.FC<GLBLoaderProps> = ({
         onChange={handleFileChange}
         style={{ display: 'none' }}
         disabled={disabled || isLoading}
+        data-testid="glb-file-input"
       />
       
       <div className="glb-controls">
         <select
           value={collisionType}
-          onChange={(e) => setCollisionType(e.target.value as 'box' | 'convex')}
+          onChange={(e) => setCollisionType(e.target.value as GLBCollisionType)}
           disabled={disabled || isLoading}
           className="collision-type-select"
           title="Choose collision detection method"
         >
           <option value="box">Box Collision</option>
           <option value="convex">Convex Hull</option>
+          <option value="decomposed">Convex Decomposition</option>
+          <option value="mesh">Static Mesh (scenery)</option>
         </select>
+
+        {collisionType === 'decomposed' && (
+          <select
+            value={decompositionQuality}
+            onChange={(e) => setDecompositionQuality(e.target.value as DecompositionQuality)}
+            disabled={disabled || isLoading}
+            className="collision-type-select decomposition-quality-select"
+            title="Detail of the decomposition: more parts fit concave models more closely but cost more to simulate"
+            aria-label="Decomposition quality"
+          >
+            {(Object.keys(DECOMPOSITION_QUALITY) as DecompositionQuality[]).map(quality => (
+              <option key={quality} value={quality}>
+                {QUALITY_LABELS[quality]} (up to {DECOMPOSITION_QUALITY[quality].maxParts} parts)
+              </option>
+            ))}
+          </select>
+        )}
         
         <button
           className={`control-button load-glb ${isLoading ? 'loading' : ''} ${limitReached ? 'disabled' : ''}`}
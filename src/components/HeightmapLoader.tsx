@@ -0,0 +1,140 @@
+import React, { useRef, useState } from 'react';
+import { SimulationError, ErrorType, validateHeightmapFile, formatFileSize, logError } from '../utils/errorHandling';
+import { createHeightmap, TERRAIN_LIMITS } from '../utils/terrain';
+import { Heightmap } from '../types/simulation';
+
+interface HeightmapLoaderProps {
+  onLoadHeightmap: (heightmap: Heightmap) => void;
+  onError?: (error: SimulationError) => void;
+  disabled?: boolean;
+}
+
+// Images are drawn at most this many pixels a side before sampling, so huge files do not
+// turn into huge pixel arrays
+const MAX_READ_SIZE = TERRAIN_LIMITS.HEIGHTMAP_SIZE * 4;
+
+// Decode an image file and sample its brightness into a heightmap
+const readHeightmap = (file: File): Promise<Heightmap> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  const invalid = (context?: Record<string, unknown>) =>
+    new SimulationError(ErrorType.HEIGHTMAP_INVALID_FORMAT, undefined, { fileName: file.name, ...context });
+
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    const scale = Math.min(1, MAX_READ_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.round(image.naturalWidth * scale);
+    const height = Math.round(image.naturalHeight * scale);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context || width < 2 || height < 2) {
+      reject(invalid({ width, height }));
+      return;
+    }
+    context.drawImage(image, 0, 0, width, height);
+    resolve(createHeightmap(file.name, context.getImageData(0, 0, width, height).data, width, height));
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(invalid());
+  };
+  image.src = url;
+});
+
+/**
+ * File picker for grayscale PNG heightmaps, in the same flow as the GLB loader
+ */
+const HeightmapLoader: React.FC<HeightmapLoaderProps> = ({ onLoadHeightmap, onError, disabled = false }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const handleFileSelect = () => {
+    if (fileInputRef.current) {
+      fileInputRef.current.click();
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setSuccess(null);
+
+    const validationError = validateHeightmapFile(file);
+    if (validationError) {
+      setError(validationError.userMessage);
+      onError?.(validationError);
+      logError(validationError);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const heightmap = await readHeightmap(file);
+      onLoadHeightmap(heightmap);
+      setSuccess(`Loaded ${file.name} (${formatFileSize(file.size)}) as a ${heightmap.size}×${heightmap.size} heightmap`);
+      setTimeout(() => {
+        setSuccess(null);
+      }, 4000);
+    } catch (err) {
+      const simulationError = err instanceof SimulationError
+        ? err
+        : new SimulationError(
+            ErrorType.HEIGHTMAP_INVALID_FORMAT,
+            err instanceof Error ? err : new Error('Unknown error'),
+            { fileName: file.name, fileSize: file.size }
+          );
+      setError(simulationError.userMessage);
+      onError?.(simulationError);
+      logError(simulationError);
+    } finally {
+      setIsLoading(false);
+      // Clear the input so the same file can be selected again
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div className="heightmap-loader">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".png,image/png"
+        onChange={handleFileChange}
+        style={{ display: 'none' }}
+        disabled={disabled || isLoading}
+        aria-label="Heightmap file"
+      />
+
+      <button
+        className="control-button load-glb"
+        onClick={handleFileSelect}
+        disabled={disabled || isLoading}
+        title="Load a grayscale PNG; brighter pixels become higher ground"
+      >
+        {isLoading ? 'Reading...' : 'Load Heightmap'}
+      </button>
+
+      {error && (
+        <div className="feedback-message error-message">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="feedback-message success-message">
+          {success}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HeightmapLoader;
@@ -0,0 +1,117 @@
+import React from 'react';
+import { LaunchProjectile, LaunchSettings, LaunchSpinAxis } from '../types/simulation';
+import {
+  LAUNCH_LIMITS,
+  LAUNCH_PROJECTILE_LABELS,
+  LAUNCH_SPIN_AXIS_LABELS
+} from '../utils/launcher';
+
+export interface LauncherPanelProps {
+  settings: LaunchSettings;
+  onChange: (settings: LaunchSettings) => void;
+  aimWithClicks: boolean;
+  onToggleAim: () => void;
+  onFire: () => void;
+  // Name of the loaded model that can be launched, if any
+  modelName?: string | null;
+}
+
+const PROJECTILES = Object.keys(LAUNCH_PROJECTILE_LABELS) as LaunchProjectile[];
+const SPIN_AXES = Object.keys(LAUNCH_SPIN_AXIS_LABELS) as LaunchSpinAxis[];
+
+/**
+ * Projectile, launch speed and spin for the launcher, which fires from the camera along
+ * the view direction or, with click aiming on, toward the clicked point
+ */
+const LauncherPanel: React.FC<LauncherPanelProps> = ({
+  settings,
+  onChange,
+  aimWithClicks,
+  onToggleAim,
+  onFire,
+  modelName = null
+}) => {
+  const canFire = settings.projectile !== 'glb' || !!modelName;
+
+  return (
+    <div className="launcher">
+      <div className="info-item launcher-row">
+        <span className="info-label">Projectile:</span>
+        <select
+          className="material-select"
+          value={settings.projectile}
+          onChange={(e) => onChange({ ...settings, projectile: e.target.value as LaunchProjectile })}
+          aria-label="Projectile"
+        >
+          {PROJECTILES.map(projectile => (
+            <option key={projectile} value={projectile} disabled={projectile === 'glb' && !modelName}>
+              {projectile === 'glb' && modelName ? modelName : LAUNCH_PROJECTILE_LABELS[projectile]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="info-item launcher-row">
+        <span className="info-label">Speed:</span>
+        <input
+          type="range"
+          min={LAUNCH_LIMITS.MIN_SPEED}
+          max={LAUNCH_LIMITS.MAX_SPEED}
+          step={1}
+          value={settings.speed}
+          onChange={(e) => onChange({ ...settings, speed: Number(e.target.value) })}
+          aria-label="Launch speed"
+        />
+        <span className="info-value">{settings.speed} m/s</span>
+      </div>
+
+      <div className="info-item launcher-row">
+        <span className="info-label">Spin:</span>
+        <input
+          type="range"
+          min={-LAUNCH_LIMITS.MAX_SPIN}
+          max={LAUNCH_LIMITS.MAX_SPIN}
+          step={1}
+          value={settings.spin}
+          onChange={(e) => onChange({ ...settings, spin: Number(e.target.value) })}
+          aria-label="Launch spin"
+          title="Negative values spin the other way"
+        />
+        <span className="info-value">{settings.spin} rad/s</span>
+      </div>
+
+      <div className="info-item launcher-row">
+        <span className="info-label">Spin axis:</span>
+        <select
+          className="material-select"
+          value={settings.spinAxis}
+          onChange={(e) => onChange({ ...settings, spinAxis: e.target.value as LaunchSpinAxis })}
+          aria-label="Spin axis"
+        >
+          {SPIN_AXES.map(axis => <option key={axis} value={axis}>{LAUNCH_SPIN_AXIS_LABELS[axis]}</option>)}
+        </select>
+      </div>
+
+      <div className="launcher-row">
+        <button
+          className="control-button launcher-button"
+          onClick={onFire}
+          disabled={!canFire}
+          title="Fire from the camera along the view direction"
+        >
+          🎯 Fire
+        </button>
+        <button
+          className={`control-button launcher-button ${aimWithClicks ? 'active' : ''}`}
+          onClick={onToggleAim}
+          aria-pressed={aimWithClicks}
+          title="Fire toward each point clicked in the scene"
+        >
+          {aimWithClicks ? 'Stop Aiming' : 'Aim & Click'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LauncherPanel;
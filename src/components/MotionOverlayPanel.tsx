@@ -0,0 +1,50 @@
+import React from 'react';
+import { MotionOverlayKind, MotionOverlaySettings } from '../types/simulation';
+import { MOTION_OVERLAY_KINDS, MOTION_OVERLAY_LABELS, TRAIL_LIMITS } from '../utils/motionOverlays';
+
+interface MotionOverlayPanelProps {
+  settings: MotionOverlaySettings;
+  onChange: (settings: MotionOverlaySettings) => void;
+}
+
+/**
+ * Motion overlays shown for every object, and the trail length shared by all trails.
+ * Single objects get their own overlays from the object inspector.
+ */
+const MotionOverlayPanel: React.FC<MotionOverlayPanelProps> = ({ settings, onChange }) => {
+  const toggle = (kind: MotionOverlayKind) => {
+    onChange({ ...settings, all: { ...settings.all, [kind]: !settings.all[kind] } });
+  };
+
+  return (
+    <div className="motion-overlays">
+      {MOTION_OVERLAY_KINDS.map(kind => (
+        <label key={kind} className="info-item motion-overlay-toggle">
+          <input
+            type="checkbox"
+            checked={settings.all[kind]}
+            onChange={() => toggle(kind)}
+          />
+          <span className="info-label">{MOTION_OVERLAY_LABELS[kind]}</span>
+        </label>
+      ))}
+
+      <div className="info-item motion-trail-length">
+        <span className="info-label">Trail length:</span>
+        <input
+          type="range"
+          min={TRAIL_LIMITS.MIN_LENGTH}
+          max={TRAIL_LIMITS.MAX_LENGTH}
+          step={0.5}
+          value={settings.trailLength}
+          onChange={(e) => onChange({ ...settings, trailLength: Number(e.target.value) })}
+          aria-label="Trail length"
+          title="Seconds of simulated motion each trail shows"
+        />
+        <span className="info-value">{settings.trailLength.toFixed(1)}s</span>
+      </div>
+    </div>
+  );
+};
+
+export default MotionOverlayPanel;
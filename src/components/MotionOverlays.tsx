@@ -0,0 +1,163 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import {
+  ArrowHelper,
+  BufferAttribute,
+  BufferGeometry,
+  Color,
+  Group,
+  Line,
+  LineBasicMaterial,
+  Vector3
+} from 'three';
+import { MotionOverlayFlags, MotionOverlaySettings, SpawnedObject } from '../types/simulation';
+import { bodyRegistry } from '../utils/bodyRegistry';
+import { simulationClock } from '../utils/simulationClock';
+import { getObjectOverlays, hasAnyOverlay, OVERLAY_SCALE, Trail, TRAIL_LIMITS } from '../utils/motionOverlays';
+
+interface MotionOverlaysProps {
+  objects: SpawnedObject[];
+  settings: MotionOverlaySettings;
+}
+
+interface OverlayEntry {
+  velocity: ArrowHelper;
+  angularVelocity: ArrowHelper;
+  trail: Trail;
+  trailLine: Line;
+}
+
+const COLORS = {
+  velocity: '#00e5ff',
+  angularVelocity: '#d500f9',
+  trail: '#ffea00'
+} as const;
+
+const direction = new Vector3();
+
+const createEntry = (): OverlayEntry => {
+  // One extra vertex joins the trail to the body's current position
+  const vertexCount = TRAIL_LIMITS.POINTS + 1;
+  const geometry = new BufferGeometry();
+  geometry.setAttribute('position', new BufferAttribute(new Float32Array(vertexCount * 3), 3));
+  geometry.setAttribute('color', new BufferAttribute(new Float32Array(vertexCount * 4), 4));
+  const trailLine = new Line(geometry, new LineBasicMaterial({ vertexColors: true, transparent: true, depthWrite: false }));
+  trailLine.frustumCulled = false;
+
+  const velocity = new ArrowHelper(new Vector3(0, 1, 0), new Vector3(), 1, COLORS.velocity);
+  const angularVelocity = new ArrowHelper(new Vector3(0, 1, 0), new Vector3(), 1, COLORS.angularVelocity);
+  return { velocity, angularVelocity, trail: new Trail(), trailLine };
+};
+
+const disposeEntry = (entry: OverlayEntry) => {
+  entry.velocity.dispose();
+  entry.angularVelocity.dispose();
+  entry.trailLine.geometry.dispose();
+  (entry.trailLine.material as LineBasicMaterial).dispose();
+};
+
+// Point an arrow along a vector scaled to a length, or hide it when the vector is small
+const updateArrow = (arrow: ArrowHelper, origin: Vector3, vector: Vector3, scale: number, visible: boolean) => {
+  const magnitude = vector.length();
+  arrow.visible = visible && magnitude >= OVERLAY_SCALE.MIN_SPEED;
+  if (!arrow.visible) return;
+  const length = Math.min(OVERLAY_SCALE.MAX_ARROW_LENGTH, magnitude * scale);
+  arrow.position.copy(origin);
+  arrow.setDirection(direction.copy(vector).divideScalar(magnitude));
+  arrow.setLength(length, Math.min(0.2, length * 0.3), Math.min(0.12, length * 0.2));
+};
+
+const trailColor = new Color(COLORS.trail);
+
+// Copy a trail into its line, fading from transparent at the oldest point to opaque at the body
+const updateTrailLine = (entry: OverlayEntry, head: Vector3) => {
+  const positions = entry.trailLine.geometry.getAttribute('position') as BufferAttribute;
+  const colors = entry.trailLine.geometry.getAttribute('color') as BufferAttribute;
+  const count = entry.trail.copyTo(positions.array as Float32Array);
+  positions.setXYZ(count, head.x, head.y, head.z);
+
+  for (let i = 0; i <= count; i++) {
+    colors.setXYZW(i, trailColor.r, trailColor.g, trailColor.b, count === 0 ? 1 : i / count);
+  }
+  positions.needsUpdate = true;
+  colors.needsUpdate = true;
+  entry.trailLine.geometry.setDrawRange(0, count + 1);
+};
+
+/**
+ * Velocity arrows, angular velocity indicators and fading trajectory trails for spawned
+ * objects. Everything is updated in the render loop from the body registry, so live
+ * motion never re-renders React; only settings and object list changes do.
+ */
+const MotionOverlays: React.FC<MotionOverlaysProps> = ({ objects, settings }) => {
+  const groupRef = useRef<Group>(null);
+  const entriesRef = useRef<Map<string, OverlayEntry>>(new Map());
+
+  const targets = useMemo(() => {
+    const next = new Map<string, MotionOverlayFlags>();
+    objects.forEach(obj => {
+      const flags = getObjectOverlays(settings, obj.id);
+      if (hasAnyOverlay(flags)) next.set(obj.id, flags);
+    });
+    return next;
+  }, [objects, settings]);
+
+  // Overlays of objects that were removed or turned off go with them
+  useEffect(() => {
+    const group = groupRef.current;
+    entriesRef.current.forEach((entry, id) => {
+      const flags = targets.get(id);
+      if (flags?.trail) return;
+      // A trail turned off starts afresh when turned on again
+      entry.trail.clear();
+      if (flags) return;
+      group?.remove(entry.velocity, entry.angularVelocity, entry.trailLine);
+      disposeEntry(entry);
+      entriesRef.current.delete(id);
+    });
+  }, [targets]);
+
+  useEffect(() => {
+    const entries = entriesRef.current;
+    return () => {
+      entries.forEach(disposeEntry);
+      entries.clear();
+    };
+  }, []);
+
+  useFrame(() => {
+    const group = groupRef.current;
+    if (!group || targets.size === 0) return;
+    const { time } = simulationClock.getSnapshot();
+
+    targets.forEach((flags, id) => {
+      let entry = entriesRef.current.get(id);
+      if (!entry) {
+        entry = createEntry();
+        entriesRef.current.set(id, entry);
+        group.add(entry.velocity, entry.angularVelocity, entry.trailLine);
+      }
+
+      const body = bodyRegistry.get(id);
+      if (!body) {
+        // GLB models join the world once they have loaded
+        entry.velocity.visible = entry.angularVelocity.visible = entry.trailLine.visible = false;
+        return;
+      }
+
+      const { position } = body.object3D;
+      updateArrow(entry.velocity, position, body.linearVelocity, OVERLAY_SCALE.VELOCITY, flags.velocity);
+      updateArrow(entry.angularVelocity, position, body.angularVelocity, OVERLAY_SCALE.ANGULAR_VELOCITY, flags.angularVelocity);
+
+      entry.trailLine.visible = flags.trail;
+      if (flags.trail) {
+        entry.trail.sample(position.x, position.y, position.z, time, settings.trailLength);
+        updateTrailLine(entry, position);
+      }
+    });
+  });
+
+  return <group ref={groupRef} />;
+};
+
+export default MotionOverlays;
@@ -0,0 +1,407 @@
+import React, { useEffect, useState } from 'react';
+import { Euler, Quaternion } from 'three';
+import { SpawnedObject, ObjectType, BodyState } from '../types/simulation';
+import { bodyRegistry, SleepState } from '../utils/bodyRegistry';
+import { debugLogger } from '../utils/debugLogger';
+import { DEFAULT_DAMPING, MATERIAL_NOTE, MATERIAL_PRESETS } from '../utils/physicsMaterials';
+import './ObjectInspector.css';
+
+type ObjectProps = NonNullable<SpawnedObject['props']>;
+
+interface ObjectInspectorProps {
+  object: SpawnedObject;
+  onUpdate: (id: string, changes: Partial<ObjectProps>, liveState?: BodyState | null) => void;
+  onClose: () => void;
+  onDuplicate?: (id: string, liveState: BodyState | null) => void;
+  onDelete?: (id: string, liveState: BodyState | null) => void;
+  // Extra sections shown below the properties, e.g. the joints editor
+  children?: React.ReactNode;
+}
+
+interface LiveSnapshot {
+  state: BodyState | null;
+  sleepState: SleepState | null;
+}
+
+// Form values are kept as strings so partially typed numbers don't get clobbered
+interface DraftProps {
+  mass: string;
+  friction: string;
+  restitution: string;
+  linearDamping: string;
+  angularDamping: string;
+  radius: string;
+  height: string;
+  size: [string, string, string];
+  scale: string;
+}
+
+const DEFAULT_RESTITUTION: Record<ObjectType, number> = {
+  [ObjectType.BALL]: 0.6,
+  [ObjectType.BOX]: 0.3,
+  [ObjectType.GLB_MODEL]: 0.3,
+  [ObjectType.CYLINDER]: 0.3,
+  [ObjectType.CAPSULE]: 0.3,
+  [ObjectType.CONE]: 0.3,
+  [ObjectType.COMPOUND]: 0.3
+};
+
+// Types sized by a radius and a height along their y axis
+const ROUND_TYPES: ObjectType[] = [ObjectType.CYLINDER, ObjectType.CAPSULE, ObjectType.CONE];
+
+const formatVector = (values: number[], digits: number = 2) => values.map(v => v.toFixed(digits)).join(', ');
+
+const toDegrees = (rotation: [number, number, number, number]): number[] => {
+  const euler = new Euler().setFromQuaternion(new Quaternion(...rotation));
+  return [euler.x, euler.y, euler.z].map(angle => (angle * 180) / Math.PI);
+};
+
+const magnitude = (v: [number, number, number]) => Math.sqrt(v[0] * v[0] + v[1] * v[1] + v[2] * v[2]);
+
+// The values the body uses, with the defaults filled in where the object has none
+const getEffectiveProps = (object: SpawnedObject) => {
+  const props = object.props || {};
+  return {
+    mass: props.mass ?? 1,
+    friction: props.friction ?? 0.4,
+    restitution: props.restitution ?? DEFAULT_RESTITUTION[object.type],
+    linearDamping: props.linearDamping ?? DEFAULT_DAMPING.LINEAR,
+    angularDamping: props.angularDamping ?? DEFAULT_DAMPING.ANGULAR,
+    radius: props.radius ?? 0.5,
+    height: props.height ?? 1,
+    size: props.size || [1, 1, 1],
+    scale: props.scale || [1, 1, 1]
+  };
+};
+
+const createDraft = (object: SpawnedObject): DraftProps => {
+  const effective = getEffectiveProps(object);
+  return {
+    mass: String(effective.mass),
+    friction: String(effective.friction),
+    restitution: String(effective.restitution),
+    linearDamping: String(effective.linearDamping),
+    angularDamping: String(effective.angularDamping),
+    radius: String(effective.radius),
+    height: String(effective.height),
+    size: [String(effective.size[0]), String(effective.size[1]), String(effective.size[2])],
+    scale: String(effective.scale[0])
+  };
+};
+
+// Only the fields whose value differs from what the body already uses
+const getChangedProps = (object: SpawnedObject, values: Partial<ObjectProps>): Partial<ObjectProps> => {
+  const effective: Record<string, unknown> = getEffectiveProps(object);
+  return Object.fromEntries(
+    Object.entries(values).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(effective[key]))
+  ) as Partial<ObjectProps>;
+};
+
+const parsePositive = (value: string): number | null => {
+  const parsed = Number(value);
+  return value.trim() !== '' && isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const parseNonNegative = (value: string): number | null => {
+  const parsed = Number(value);
+  return value.trim() !== '' && isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+const parseFraction = (value: string): number | null => {
+  const parsed = parseNonNegative(value);
+  return parsed !== null && parsed <= 1 ? parsed : null;
+};
+
+const describeMaterial = (props: ObjectProps): string => {
+  if (props.materialPreset) return MATERIAL_PRESETS[props.materialPreset].label;
+  const tuned = [props.friction, props.restitution, props.linearDamping, props.angularDamping].some(v => v !== undefined);
+  return tuned ? 'Custom' : 'Default';
+};
+
+/**
+ * Shows a selected object's spawn data and live physics state, and edits its properties.
+ * Physical edits are applied by recreating the body with its current state.
+ */
+const ObjectInspector: React.FC<ObjectInspectorProps> = ({ object, onUpdate, onClose, onDuplicate, onDelete, children }) => {
+  const [live, setLive] = useState<LiveSnapshot>(() => ({
+    state: bodyRegistry.getState(object.id),
+    sleepState: bodyRegistry.getSleepState(object.id)
+  }));
+  const [draft, setDraft] = useState<DraftProps>(() => createDraft(object));
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  // Poll the registry like the debug panel does; physics state changes every frame
+  useEffect(() => {
+    const update = () => setLive({
+      state: bodyRegistry.getState(object.id),
+      sleepState: bodyRegistry.getSleepState(object.id)
+    });
+    update();
+    const interval = setInterval(update, 500);
+    return () => clearInterval(interval);
+  }, [object.id]);
+
+  // Reset the form when another object is selected or an edit has been applied
+  useEffect(() => {
+    setDraft(createDraft(object));
+    setValidationError(null);
+  }, [object]);
+
+  // Mesh collision only works for static scenery, so its mass stays at 0
+  const isStaticMesh = object.type === ObjectType.GLB_MODEL && object.props?.collisionType === 'mesh';
+
+  const handleApply = () => {
+    const mass = isStaticMesh ? 0 : parsePositive(draft.mass);
+    const friction = parseNonNegative(draft.friction);
+    const restitution = parseNonNegative(draft.restitution);
+    if (mass === null || friction === null || restitution === null) {
+      setValidationError('Mass must be positive; friction and restitution cannot be negative.');
+      return;
+    }
+
+    const linearDamping = parseFraction(draft.linearDamping);
+    const angularDamping = parseFraction(draft.angularDamping);
+    if (linearDamping === null || angularDamping === null) {
+      setValidationError('Damping must be between 0 and 1.');
+      return;
+    }
+
+    const values: Partial<ObjectProps> = { mass, friction, restitution, linearDamping, angularDamping };
+
+    if (object.type === ObjectType.BALL) {
+      const radius = parsePositive(draft.radius);
+      if (radius === null) {
+        setValidationError('Radius must be positive.');
+        return;
+      }
+      values.radius = radius;
+    } else if (ROUND_TYPES.includes(object.type)) {
+      const radius = parsePositive(draft.radius);
+      const height = parsePositive(draft.height);
+      if (radius === null || height === null) {
+        setValidationError('Radius and height must be positive.');
+        return;
+      }
+      if (object.type === ObjectType.CAPSULE && height < 2 * radius) {
+        setValidationError('Capsule height must be at least twice the radius.');
+        return;
+      }
+      values.radius = radius;
+      values.height = height;
+    } else if (object.type === ObjectType.BOX) {
+      const size = draft.size.map(parsePositive);
+      if (size.some(value => value === null)) {
+        setValidationError('Size values must be positive.');
+        return;
+      }
+      values.size = size as [number, number, number];
+    } else if (object.type === ObjectType.GLB_MODEL) {
+      const scale = parsePositive(draft.scale);
+      if (scale === null) {
+        setValidationError('Scale must be positive.');
+        return;
+      }
+      values.scale = [scale, scale, scale];
+    }
+
+    setValidationError(null);
+    const changes = getChangedProps(object, values);
+    if (Object.keys(changes).length === 0) return;
+
+    // Hand-tuned values no longer match the preset the object was spawned with
+    const preset = object.props?.materialPreset ? MATERIAL_PRESETS[object.props.materialPreset] : null;
+    const materialKeys = ['friction', 'restitution', 'linearDamping', 'angularDamping'] as const;
+    if (preset && materialKeys.some(key => key in changes && preset[key] !== changes[key])) {
+      changes.materialPreset = undefined;
+    }
+
+    onUpdate(object.id, changes, bodyRegistry.getState(object.id));
+  };
+
+  const handleColorChange = (color: string) => {
+    // Color is visual only, so it applies without recreating the body
+    onUpdate(object.id, { color });
+  };
+
+  const handleLogSnapshot = () => {
+    const registered = bodyRegistry.get(object.id);
+    const snapshot = {
+      object,
+      liveState: bodyRegistry.getState(object.id),
+      sleepState: bodyRegistry.getSleepState(object.id),
+      rigidBodyConfig: registered?.config ?? null
+    };
+    debugLogger.info(`Inspector snapshot for ${object.id}`, snapshot);
+  };
+
+  const { state, sleepState } = live;
+  const props = object.props || {};
+
+  return (
+    <div className="object-inspector" data-testid="object-inspector">
+      <div className="inspector-header">
+        <h3>{object.type.toUpperCase()} Inspector</h3>
+        <button className="inspector-close-btn" onClick={onClose} aria-label="Close inspector">✕</button>
+      </div>
+
+      <div className="inspector-section">
+        <div className="inspector-title">Object</div>
+        <div className="inspector-row"><span>ID</span><span className="inspector-value" title={object.id}>{object.id}</span></div>
+        <div className="inspector-row"><span>Spawned at</span><span className="inspector-value">{formatVector(object.position)}</span></div>
+        <div className="inspector-row">
+          <span>Material</span>
+          <span className="inspector-value">{describeMaterial(props)}</span>
+        </div>
+        {props.url && (
+          <div className="inspector-row"><span>Model</span><span className="inspector-value" title={props.url}>{props.url}</span></div>
+        )}
+        {(onDuplicate || onDelete) && (
+          <div className="inspector-actions">
+            {onDuplicate && (
+              <button className="inspector-btn" onClick={() => onDuplicate(object.id, bodyRegistry.getState(object.id))}
+                title="Spawn a copy beside this object, moving as it is now">
+                Duplicate
+              </button>
+            )}
+            {onDelete && (
+              <button className="inspector-btn delete" onClick={() => onDelete(object.id, bodyRegistry.getState(object.id))}
+                title="Remove this object (Ctrl+Z to undo)">
+                Delete
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="inspector-section">
+        <div className="inspector-title">Live State</div>
+        {state ? (
+          <>
+            <div className="inspector-row"><span>Position</span><span className="inspector-value">{formatVector(state.position)}</span></div>
+            <div className="inspector-row"><span>Rotation (°)</span><span className="inspector-value">{formatVector(toDegrees(state.rotation), 1)}</span></div>
+            <div className="inspector-row"><span>Velocity</span><span className="inspector-value">{formatVector(state.linearVelocity)}</span></div>
+            <div className="inspector-row"><span>Speed</span><span className="inspector-value">{magnitude(state.linearVelocity).toFixed(2)} m/s</span></div>
+            <div className="inspector-row"><span>Angular vel.</span><span className="inspector-value">{formatVector(state.angularVelocity)}</span></div>
+            <div className="inspector-row">
+              <span>Sleep</span>
+              <span className={`inspector-value sleep-${sleepState}`} title="Estimated from motion; the physics worker does not report activation state">
+                {sleepState}
+              </span>
+            </div>
+          </>
+        ) : (
+          <div className="inspector-row"><span className="inspector-muted">Body not in the physics world yet</span></div>
+        )}
+      </div>
+
+      <div className="inspector-section">
+        <div className="inspector-title">Properties</div>
+        <label className="inspector-field">
+          <span>Mass</span>
+          <input type="number" min={0.01} step={0.1} value={isStaticMesh ? '0' : draft.mass}
+            disabled={isStaticMesh} title={isStaticMesh ? 'Models with mesh collision are static scenery' : undefined}
+            onChange={(e) => setDraft({ ...draft, mass: e.target.value })} />
+        </label>
+        <label className="inspector-field" title={MATERIAL_NOTE}>
+          <span>Friction</span>
+          <input type="number" min={0} step={0.05} value={draft.friction}
+            onChange={(e) => setDraft({ ...draft, friction: e.target.value })} />
+        </label>
+        <label className="inspector-field" title={MATERIAL_NOTE}>
+          <span>Restitution</span>
+          <input type="number" min={0} step={0.05} value={draft.restitution}
+            onChange={(e) => setDraft({ ...draft, restitution: e.target.value })} />
+        </label>
+
+        <label className="inspector-field">
+          <span>Linear damping</span>
+          <input type="number" min={0} max={1} step={0.01} value={draft.linearDamping}
+            onChange={(e) => setDraft({ ...draft, linearDamping: e.target.value })} />
+        </label>
+        <label className="inspector-field">
+          <span>Angular damping</span>
+          <input type="number" min={0} max={1} step={0.01} value={draft.angularDamping}
+            onChange={(e) => setDraft({ ...draft, angularDamping: e.target.value })} />
+        </label>
+
+        {(object.type === ObjectType.BALL || ROUND_TYPES.includes(object.type)) && (
+          <label className="inspector-field">
+            <span>Radius</span>
+            <input type="number" min={0.05} step={0.05} value={draft.radius}
+              onChange={(e) => setDraft({ ...draft, radius: e.target.value })} />
+          </label>
+        )}
+
+        {ROUND_TYPES.includes(object.type) && (
+          <label className="inspector-field">
+            <span>Height</span>
+            <input type="number" min={0.05} step={0.05} value={draft.height}
+              onChange={(e) => setDraft({ ...draft, height: e.target.value })} />
+          </label>
+        )}
+
+        {object.type === ObjectType.BOX && (
+          <div className="inspector-field">
+            <span>Size</span>
+            <div className="inspector-vector">
+              {draft.size.map((value, axis) => (
+                <input key={axis} type="number" min={0.05} step={0.1} value={value} aria-label={`Size ${'xyz'[axis]}`}
+                  onChange={(e) => {
+                    const size = [...draft.size] as [string, string, string];
+                    size[axis] = e.target.value;
+                    setDraft({ ...draft, size });
+                  }} />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {object.type === ObjectType.GLB_MODEL && (
+          <label className="inspector-field">
+            <span>Scale</span>
+            <input type="number" min={0.1} step={0.1} value={draft.scale}
+              onChange={(e) => setDraft({ ...draft, scale: e.target.value })} />
+          </label>
+        )}
+
+        {object.type !== ObjectType.GLB_MODEL && (
+          <label className="inspector-field">
+            <span>Color</span>
+            <input type="color" value={toHexColor(props.color)} onChange={(e) => handleColorChange(e.target.value)} />
+          </label>
+        )}
+
+        {validationError && <div className="inspector-error">{validationError}</div>}
+
+        <div className="inspector-actions">
+          <button className="inspector-btn apply" onClick={handleApply} title="Recreate the body with these properties, keeping its current motion">
+            Apply
+          </button>
+          <button className="inspector-btn" onClick={handleLogSnapshot} title="Record the object and its rigid body config in the debug log">
+            Log snapshot
+          </button>
+        </div>
+      </div>
+
+      {children}
+    </div>
+  );
+};
+
+// <input type="color"> only accepts #rrggbb
+const NAMED_COLORS: Record<string, string> = {
+  orange: '#ffa500',
+  blue: '#0000ff',
+  red: '#ff0000',
+  green: '#008000',
+  white: '#ffffff',
+  black: '#000000'
+};
+
+const toHexColor = (color?: string): string => {
+  if (!color) return '#ffffff';
+  if (/^#[0-9a-f]{6}$/i.test(color)) return color;
+  return NAMED_COLORS[color.toLowerCase()] || '#ffffff';
+};
+
+export default ObjectInspector;
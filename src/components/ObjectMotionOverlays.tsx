@@ -0,0 +1,33 @@
+import React from 'react';
+import { MotionOverlayFlags, MotionOverlayKind } from '../types/simulation';
+import { MOTION_OVERLAY_KINDS, MOTION_OVERLAY_LABELS } from '../utils/motionOverlays';
+
+interface ObjectMotionOverlaysProps {
+  // Overlays turned on for this object alone
+  flags: Partial<MotionOverlayFlags>;
+  // Overlays already shown for every object
+  global: MotionOverlayFlags;
+  onToggle: (kind: MotionOverlayKind, enabled: boolean) => void;
+}
+
+/**
+ * Inspector section turning motion overlays on for the inspected object only
+ */
+const ObjectMotionOverlays: React.FC<ObjectMotionOverlaysProps> = ({ flags, global, onToggle }) => (
+  <div className="inspector-section" data-testid="object-motion-overlays">
+    <div className="inspector-title">Motion Overlays</div>
+    {MOTION_OVERLAY_KINDS.map(kind => (
+      <label key={kind} className="inspector-field" title={global[kind] ? 'Shown for every object' : undefined}>
+        <span>{MOTION_OVERLAY_LABELS[kind]}</span>
+        <input
+          type="checkbox"
+          checked={global[kind] || !!flags[kind]}
+          disabled={global[kind]}
+          onChange={(e) => onToggle(kind, e.target.checked)}
+        />
+      </label>
+    ))}
+  </div>
+);
+
+export default ObjectMotionOverlays;
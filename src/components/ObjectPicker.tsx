@@ -0,0 +1,186 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { BodyType } from 'use-ammojs';
+import { bodyRegistry, RegisteredBody } from '../utils/bodyRegistry';
+import { computeDragImpulse } from '../utils/dragSpring';
+import { debugLogger } from '../utils/debugLogger';
+
+interface ObjectPickerProps {
+  isRunning: boolean;
+  gravity: [number, number, number];
+  // Simulated seconds per real second, for scaling the drag impulse
+  timeScale?: number;
+  // additive is set for shift-clicks, which add to the selection instead of replacing it
+  onObjectPicked?: (id: string | null, additive?: boolean) => void;
+}
+
+interface DragState {
+  body: RegisteredBody;
+  pointerId: number;
+  // Grab point in the body's local frame
+  localGrab: THREE.Vector3;
+  // Camera-facing plane through the grab point that the cursor moves along
+  plane: THREE.Plane;
+  target: THREE.Vector3;
+}
+
+// Scratch objects reused every frame
+const grabPoint = new THREE.Vector3();
+const offset = new THREE.Vector3();
+const planeNormal = new THREE.Vector3();
+const gravityVector = new THREE.Vector3();
+const pointerNdc = new THREE.Vector2();
+// Own raycaster so picking does not disturb the one R3F uses for pointer events
+const raycaster = new THREE.Raycaster();
+
+/**
+ * Click-and-drag picking for dynamic bodies. Hits are resolved to their SpawnedObject id
+ * through the body registry and the body is pulled toward the cursor by a damped spring.
+ * Releasing keeps whatever velocity the spring built up, so objects can be thrown.
+ */
+const ObjectPicker: React.FC<ObjectPickerProps> = ({ isRunning, gravity, timeScale = 1, onObjectPicked }) => {
+  const { camera, gl } = useThree();
+  const controls = useThree(state => state.controls) as unknown as { enabled: boolean } | null;
+  const dragRef = useRef<DragState | null>(null);
+  const markerRef = useRef<THREE.Mesh>(null);
+
+  // Latest props for the DOM listeners
+  const isRunningRef = useRef(isRunning);
+  isRunningRef.current = isRunning;
+  const onObjectPickedRef = useRef(onObjectPicked);
+  onObjectPickedRef.current = onObjectPicked;
+
+  useEffect(() => {
+    const element = gl.domElement;
+
+    const updatePointer = (event: PointerEvent) => {
+      const rect = element.getBoundingClientRect();
+      pointerNdc.set(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointerNdc, camera);
+    };
+
+    const endDrag = (event?: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag || (event && event.pointerId !== drag.pointerId)) return;
+
+      dragRef.current = null;
+      if (controls) controls.enabled = true;
+      if (element.hasPointerCapture(drag.pointerId)) {
+        element.releasePointerCapture(drag.pointerId);
+      }
+      debugLogger.info('Released dragged object', { id: drag.body.id });
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button !== 0 || dragRef.current) return;
+      updatePointer(event);
+
+      const bodies = bodyRegistry.getAll();
+      const hits = raycaster.intersectObjects(bodies.map(body => body.object3D), true);
+      const hit = hits.find(candidate => bodyRegistry.findOwner(candidate.object));
+      const body = hit ? bodyRegistry.findOwner(hit.object) : undefined;
+
+      // Compound parts select the object they belong to
+      onObjectPickedRef.current?.(body ? body.ownerId ?? body.id : null, event.shiftKey);
+      if (!hit || !body || event.shiftKey) return;
+
+      // Static bodies and a paused world cannot be dragged, but still count as picked
+      if (!isRunningRef.current || body.config.bodyType !== BodyType.DYNAMIC || !(body.config.mass > 0)) {
+        return;
+      }
+
+      const { object3D } = body;
+      const localGrab = hit.point.clone().sub(object3D.position)
+        .applyQuaternion(object3D.quaternion.clone().invert());
+      camera.getWorldDirection(planeNormal);
+
+      dragRef.current = {
+        body,
+        pointerId: event.pointerId,
+        localGrab,
+        plane: new THREE.Plane().setFromNormalAndCoplanarPoint(planeNormal.clone().negate(), hit.point),
+        target: hit.point.clone()
+      };
+
+      // Suspend orbiting; this listener runs in the capture phase before OrbitControls sees the event
+      if (controls) controls.enabled = false;
+      element.setPointerCapture(event.pointerId);
+      debugLogger.info('Picked object for dragging', { id: body.id, point: hit.point.toArray() });
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag || event.pointerId !== drag.pointerId) return;
+      updatePointer(event);
+      raycaster.ray.intersectPlane(drag.plane, drag.target);
+    };
+
+    element.addEventListener('pointerdown', handlePointerDown, { capture: true });
+    element.addEventListener('pointermove', handlePointerMove);
+    element.addEventListener('pointerup', endDrag);
+    element.addEventListener('pointercancel', endDrag);
+
+    return () => {
+      element.removeEventListener('pointerdown', handlePointerDown, { capture: true });
+      element.removeEventListener('pointermove', handlePointerMove);
+      element.removeEventListener('pointerup', endDrag);
+      element.removeEventListener('pointercancel', endDrag);
+      endDrag();
+    };
+  }, [camera, gl, controls]);
+
+  // Release when the simulation pauses or the dragged body is removed
+  useEffect(() => {
+    if (!isRunning && dragRef.current) {
+      dragRef.current = null;
+      if (controls) controls.enabled = true;
+    }
+  }, [isRunning, controls]);
+
+  useFrame((_, delta) => {
+    const drag = dragRef.current;
+    const marker = markerRef.current;
+
+    if (drag && bodyRegistry.get(drag.body.id) !== drag.body) {
+      dragRef.current = null;
+      if (controls) controls.enabled = true;
+    }
+
+    if (marker) {
+      marker.visible = !!dragRef.current;
+      if (dragRef.current) marker.position.copy(dragRef.current.target);
+    }
+
+    if (!dragRef.current) return;
+    const { body, localGrab, target } = dragRef.current;
+    const { object3D } = body;
+
+    grabPoint.copy(localGrab).applyQuaternion(object3D.quaternion).add(object3D.position);
+    offset.copy(grabPoint).sub(object3D.position);
+    gravityVector.set(gravity[0], gravity[1], gravity[2]);
+
+    const impulse = computeDragImpulse({
+      mass: body.config.mass,
+      grabPoint,
+      target,
+      velocity: body.linearVelocity,
+      gravity: gravityVector,
+      // Large frame gaps (tab switches) would otherwise produce a huge impulse
+      dt: Math.min(delta, 1 / 30) * timeScale
+    });
+    body.api.applyImpulse(impulse, offset.clone());
+  });
+
+  return (
+    <mesh ref={markerRef} visible={false} raycast={() => null}>
+      <sphereGeometry args={[0.08, 12, 12]} />
+      <meshBasicMaterial color="#ffd43b" depthTest={false} transparent opacity={0.8} />
+    </mesh>
+  );
+};
+
+export default ObjectPicker;
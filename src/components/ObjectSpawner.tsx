@@ -1,52 +1,124 @@
 import React from 'react';
-import { SpawnedObject, ObjectType } from '../types/simulation';
+import { SpawnedObject, ObjectType, ObjectConstraint, MotionOverlaySettings } from '../types/simulation';
 import { SimulationError } from '../utils/errorHandling';
 import PhysicsBall from './PhysicsBall';
 import PhysicsBox from './PhysicsBox';
 import PhysicsGLB from './PhysicsGLB';
+import PhysicsCylinder from './PhysicsCylinder';
+import PhysicsCapsule from './PhysicsCapsule';
+import PhysicsCone from './PhysicsCone';
+import PhysicsCompound from './PhysicsCompound';
+import PhysicsConstraints from './PhysicsConstraints';
+import MotionOverlays from './MotionOverlays';
 import SafePhysicsWrapper from './SafePhysicsWrapper';
 
 interface ObjectSpawnerProps {
   objects: SpawnedObject[];
+  // Joints between the objects
+  constraints?: ObjectConstraint[];
+  // Velocity, spin and trail overlays over the objects
+  motionOverlays?: MotionOverlaySettings;
   onError?: (error: SimulationError) => void;
 }
 
-const ObjectSpawner: React.FC<ObjectSpawnerProps> = ({ objects, onError }) => {
+const ObjectSpawner: React.FC<ObjectSpawnerProps> = ({ objects, constraints = [], motionOverlays, onError }) => {
   return (
     <>
       {objects.filter(obj => obj && obj.position).map((obj) => {
+        // Revision changes remount the body with its new configuration
+        const key = obj.revision ? `${obj.id}-r${obj.revision}` : obj.id;
         switch (obj.type) {
           case ObjectType.BALL:
             return (
-              <SafePhysicsWrapper key={obj.id} position={obj.position}>
+              <SafePhysicsWrapper key={key} position={obj.position}>
                 <PhysicsBall
                   position={obj.position}
                   radius={obj.props?.radius}
                   mass={obj.props?.mass}
                   color={obj.props?.color}
+                  friction={obj.props?.friction}
+                  restitution={obj.props?.restitution}
+                  linearDamping={obj.props?.linearDamping}
+                  angularDamping={obj.props?.angularDamping}
+                  objectId={obj.id}
+                  initialState={obj.initialState}
                 />
               </SafePhysicsWrapper>
             );
           case ObjectType.BOX:
             return (
-              <SafePhysicsWrapper key={obj.id} position={obj.position}>
+              <SafePhysicsWrapper key={key} position={obj.position}>
                 <PhysicsBox
                   position={obj.position}
                   size={obj.props?.size}
                   mass={obj.props?.mass}
                   color={obj.props?.color}
+                  friction={obj.props?.friction}
+                  restitution={obj.props?.restitution}
+                  linearDamping={obj.props?.linearDamping}
+                  angularDamping={obj.props?.angularDamping}
+                  objectId={obj.id}
+                  initialState={obj.initialState}
+                />
+              </SafePhysicsWrapper>
+            );
+          case ObjectType.CYLINDER:
+          case ObjectType.CAPSULE:
+          case ObjectType.CONE: {
+            const Primitive = obj.type === ObjectType.CYLINDER
+              ? PhysicsCylinder
+              : obj.type === ObjectType.CAPSULE ? PhysicsCapsule : PhysicsCone;
+            return (
+              <SafePhysicsWrapper key={key} position={obj.position}>
+                <Primitive
+                  position={obj.position}
+                  radius={obj.props?.radius}
+                  height={obj.props?.height}
+                  mass={obj.props?.mass}
+                  color={obj.props?.color}
+                  friction={obj.props?.friction}
+                  restitution={obj.props?.restitution}
+                  linearDamping={obj.props?.linearDamping}
+                  angularDamping={obj.props?.angularDamping}
+                  objectId={obj.id}
+                  initialState={obj.initialState}
+                />
+              </SafePhysicsWrapper>
+            );
+          }
+          case ObjectType.COMPOUND:
+            return (
+              <SafePhysicsWrapper key={key} position={obj.position}>
+                <PhysicsCompound
+                  position={obj.position}
+                  parts={obj.props?.parts}
+                  mass={obj.props?.mass}
+                  color={obj.props?.color}
+                  friction={obj.props?.friction}
+                  restitution={obj.props?.restitution}
+                  linearDamping={obj.props?.linearDamping}
+                  angularDamping={obj.props?.angularDamping}
+                  objectId={obj.id}
+                  initialState={obj.initialState}
                 />
               </SafePhysicsWrapper>
             );
           case ObjectType.GLB_MODEL:
             return obj.props?.url ? (
-              <SafePhysicsWrapper key={obj.id} position={obj.position}>
+              <SafePhysicsWrapper key={key} position={obj.position}>
                 <PhysicsGLB
                   url={obj.props.url}
                   position={obj.position}
                   scale={obj.props?.scale}
                   mass={obj.props?.mass}
                   collisionType={obj.props?.collisionType}
+                  decompositionQuality={obj.props?.decompositionQuality}
+                  friction={obj.props?.friction}
+                  restitution={obj.props?.restitution}
+                  linearDamping={obj.props?.linearDamping}
+                  angularDamping={obj.props?.angularDamping}
+                  objectId={obj.id}
+                  initialState={obj.initialState}
                   onError={onError}
                 />
               </SafePhysicsWrapper>
@@ -55,6 +127,8 @@ const ObjectSpawner: React.FC<ObjectSpawnerProps> = ({ objects, onError }) => {
             return null;
         }
       })}
+      <PhysicsConstraints constraints={constraints} objects={objects} />
+      {motionOverlays && <MotionOverlays objects={objects} settings={motionOverlays} />}
     </>
   );
 };
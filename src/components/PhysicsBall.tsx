@@ -5,19 +5,33 @@ import { SphereGeometry, MeshStandardMaterial } from 'three';
 import { PerformanceOptimizer, createMaterialKey, createGeometryKey } from '../utils/performanceOptimization';
 import { useSafeRigidBody } from '../hooks/useSafeRigidBody';
 import { debugLogger } from '../utils/debugLogger';
+import { BodyState } from '../types/simulation';
+import { clampDamping, DEFAULT_DAMPING } from '../utils/physicsMaterials';
 
 interface PhysicsBallProps {
   position: [number, number, number];
   radius?: number;
   mass?: number;
   color?: string;
+  friction?: number;
+  restitution?: number;
+  linearDamping?: number;
+  angularDamping?: number;
+  objectId?: string;
+  initialState?: BodyState;
 }
 
 const PhysicsBall: React.FC<PhysicsBallProps> = ({
   position,
   radius = 0.5,
   mass = 1,
-  color = 'orange'
+  color = 'orange',
+  friction = 0.4,
+  restitution = 0.6,
+  linearDamping = DEFAULT_DAMPING.LINEAR,
+  angularDamping = DEFAULT_DAMPING.ANGULAR,
+  objectId,
+  initialState
 }) => {
   const optimizer = PerformanceOptimizer.getInstance();
   const componentIdRef = useRef<string>(`PhysicsBall-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
@@ -48,6 +62,10 @@ const PhysicsBall: React.FC<PhysicsBallProps> = ({
     const safeMass = typeof mass === 'number' && !isNaN(mass) && mass > 0 ? mass : 1;
     const safeRadius = typeof radius === 'number' && !isNaN(radius) && radius > 0 ? radius : 0.5;
     const safeColor = typeof color === 'string' ? color : 'orange';
+    const safeFriction = typeof friction === 'number' && isFinite(friction) && friction >= 0 ? friction : 0.4;
+    const safeRestitution = typeof restitution === 'number' && isFinite(restitution) && restitution >= 0 ? restitution : 0.6;
+    const safeLinearDamping = clampDamping(linearDamping, DEFAULT_DAMPING.LINEAR);
+    const safeAngularDamping = clampDamping(angularDamping, DEFAULT_DAMPING.ANGULAR);
 
     if (!validPosition) {
       debugLogger.warn(`Using fallback position for ${componentId}`, { original: position, fallback: safePosition });
@@ -57,12 +75,16 @@ const PhysicsBall: React.FC<PhysicsBallProps> = ({
       position: safePosition,
       radius: safeRadius,
       mass: safeMass,
-      color: safeColor
+      color: safeColor,
+      friction: safeFriction,
+      restitution: safeRestitution,
+      linearDamping: safeLinearDamping,
+      angularDamping: safeAngularDamping
     };
 
     debugLogger.info(`Props validated for ${componentId}`, validated);
     return validated;
-  }, [position, radius, mass, color]);
+  }, [position, radius, mass, color, friction, restitution, linearDamping, angularDamping]);
 
   // Use safe rigid body hook
   const configFactory = useCallback(() => {
@@ -74,16 +96,21 @@ const PhysicsBall: React.FC<PhysicsBallProps> = ({
       position: validatedProps.position,
       mass: validatedProps.mass,
       material: {
-        friction: 0.4,
-        restitution: 0.6
+        friction: validatedProps.friction,
+        restitution: validatedProps.restitution
       },
+      linearDamping: validatedProps.linearDamping,
+      angularDamping: validatedProps.angularDamping,
       shapeConfig: {
         radius: validatedProps.radius
       }
     };
   }, [validatedProps]);
 
-  const { ref, config, error, hasError } = useSafeRigidBody(configFactory, componentIdRef.current);
+  const { ref, config, error, hasError } = useSafeRigidBody(configFactory, componentIdRef.current, undefined, {
+    objectId,
+    initialState
+  });
 
   // Cache geometry and material for performance
   const geometry = useMemo(() => {
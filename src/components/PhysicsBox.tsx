@@ -5,19 +5,33 @@ import { BoxGeometry, MeshStandardMaterial } from 'three';
 import { PerformanceOptimizer, createMaterialKey, createGeometryKey } from '../utils/performanceOptimization';
 import { useSafeRigidBody } from '../hooks/useSafeRigidBody';
 import { debugLogger } from '../utils/debugLogger';
+import { BodyState } from '../types/simulation';
+import { clampDamping, DEFAULT_DAMPING } from '../utils/physicsMaterials';
 
 interface PhysicsBoxProps {
   position: [number, number, number];
   size?: [number, number, number];
   mass?: number;
   color?: string;
+  friction?: number;
+  restitution?: number;
+  linearDamping?: number;
+  angularDamping?: number;
+  objectId?: string;
+  initialState?: BodyState;
 }
 
 const PhysicsBox: React.FC<PhysicsBoxProps> = ({
   position,
   size = [1, 1, 1],
   mass = 1,
-  color = 'blue'
+  color = 'blue',
+  friction = 0.4,
+  restitution = 0.3,
+  linearDamping = DEFAULT_DAMPING.LINEAR,
+  angularDamping = DEFAULT_DAMPING.ANGULAR,
+  objectId,
+  initialState
 }) => {
   const optimizer = PerformanceOptimizer.getInstance();
   const componentIdRef = useRef<string>(`PhysicsBox-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
@@ -49,6 +63,10 @@ const PhysicsBox: React.FC<PhysicsBoxProps> = ({
     const safeMass = typeof mass === 'number' && !isNaN(mass) && mass > 0 ? mass : 1;
     const safeSize = size && Array.isArray(size) && size.length === 3 ? size : [1, 1, 1];
     const safeColor = typeof color === 'string' ? color : 'blue';
+    const safeFriction = typeof friction === 'number' && isFinite(friction) && friction >= 0 ? friction : 0.4;
+    const safeRestitution = typeof restitution === 'number' && isFinite(restitution) && restitution >= 0 ? restitution : 0.3;
+    const safeLinearDamping = clampDamping(linearDamping, DEFAULT_DAMPING.LINEAR);
+    const safeAngularDamping = clampDamping(angularDamping, DEFAULT_DAMPING.ANGULAR);
 
     if (!validPosition) {
       debugLogger.warn(`Using fallback position for ${componentId}`, { original: position, fallback: safePosition });
@@ -58,12 +76,16 @@ const PhysicsBox: React.FC<PhysicsBoxProps> = ({
       position: safePosition,
       size: safeSize,
       mass: safeMass,
-      color: safeColor
+      color: safeColor,
+      friction: safeFriction,
+      restitution: safeRestitution,
+      linearDamping: safeLinearDamping,
+      angularDamping: safeAngularDamping
     };
 
     debugLogger.info(`Props validated for ${componentId}`, validated);
     return validated;
-  }, [position, size, mass, color]);
+  }, [position, size, mass, color, friction, restitution, linearDamping, angularDamping]);
 
   // Use safe rigid body hook
   const { ref, config, error, hasError } = useSafeRigidBody(() => {
@@ -76,9 +98,11 @@ const PhysicsBox: React.FC<PhysicsBoxProps> = ({
       position: validatedProps.position,
       mass: validatedProps.mass,
       material: {
-        friction: 0.4,
-        restitution: 0.3
+        friction: validatedProps.friction,
+        restitution: validatedProps.restitution
       },
+      linearDamping: validatedProps.linearDamping,
+      angularDamping: validatedProps.angularDamping,
       shapeConfig: {
         halfExtents: {
           x: validatedProps.size[0] / 2,
@@ -87,7 +111,7 @@ const PhysicsBox: React.FC<PhysicsBoxProps> = ({
         }
       }
     };
-  }, componentIdRef.current);
+  }, componentIdRef.current, undefined, { objectId, initialState });
 
   // Cache geometry and material for performance
   const geometry = useMemo(() => {
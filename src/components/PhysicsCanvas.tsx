@@ -1,15 +1,95 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
-import { Physics, useRigidBody, ShapeType, BodyType } from 'use-ammojs';
-import { Vector3 } from 'three';
+import { Physics } from 'use-ammojs';
+import BodyStateTracker from './BodyStateTracker';
+import RecordingCapture from './RecordingCapture';
+import ReplayScene from './ReplayScene';
+import ObjectPicker from './ObjectPicker';
+import FrameStepper from './FrameStepper';
+import CollisionEventTracker from './CollisionEventTracker';
+import PhysicsDebugOverlay from './PhysicsDebugOverlay';
+import SceneMetricsSampler from './SceneMetricsSampler';
+import DataLogCapture from './DataLogCapture';
+import SpawnPlacer from './SpawnPlacer';
+import ProjectileLauncher from './ProjectileLauncher';
+import BoundsCuller from './BoundsCuller';
+import Arena from './Arena';
+import { Recording } from '../utils/recording';
+import { getFrameStepSpeed } from '../utils/simulationClock';
+import { DEFAULT_ARENA, getArenaBodies, getArenaGround } from '../utils/arena';
+import { ArenaSettings, BodyState, FrameStepRequest, LaunchRequest, LaunchSettings, WorldBounds } from '../types/simulation';
+import { SpawnGhost } from '../hooks/useSpawnPlacement';
 
 interface PhysicsCanvasProps {
   children?: React.ReactNode;
   isRunning?: boolean;
+  gravity?: [number, number, number];
+  // Simulated seconds per real second while running; applies without remounting the world
+  timeScale?: number;
+  // World stepping, only read when the world mounts; the defaults match use-ammojs
+  fixedTimeStep?: number;
+  maxSubSteps?: number;
+  // Ground and static environment pieces
+  arena?: ArenaSettings;
+  // Latest request to advance the paused simulation step by step
+  stepRequest?: FrameStepRequest | null;
+  // Object pairs joined by a constraint, which never report collisions with each other
+  linkedPairs?: Array<[string, string]>;
+  // Draw collision shapes, AABBs and contacts over the live bodies
+  showPhysicsDebug?: boolean;
+  // When set, live bodies are hidden and the recording is shown at the given time
+  replay?: { recording: Recording; time: number } | null;
+  // Called with the SpawnedObject id under the cursor on click, or null for a miss;
+  // additive is set for shift-clicks
+  onObjectPicked?: (id: string | null, additive?: boolean) => void;
+  // Preview of the next spawn; in at-cursor mode clicks place it instead of picking objects
+  spawnGhost?: SpawnGhost | null;
+  onPlaceSpawn?: (point: [number, number, number]) => void;
+  onCancelSpawn?: () => void;
+  // Projectile launcher; with aiming on, clicks fire instead of picking objects
+  launcher?: {
+    settings: LaunchSettings;
+    request: LaunchRequest | null;
+    aimWithClicks: boolean;
+    onLaunch: (state: BodyState) => void;
+  };
+  // World bounds and the handler for objects culled by them
+  bounds?: {
+    settings: WorldBounds;
+    onCulled: (despawnIds: string[], culledCount: number) => void;
+  };
 }
 
-const PhysicsCanvas: React.FC<PhysicsCanvasProps> = ({ children, isRunning = true }) => {
+const PhysicsCanvas: React.FC<PhysicsCanvasProps> = ({
+  children,
+  isRunning = true,
+  gravity = [0, -9.81, 0],
+  timeScale = 1,
+  fixedTimeStep = 1 / 60,
+  maxSubSteps,
+  arena = DEFAULT_ARENA,
+  stepRequest = null,
+  linkedPairs,
+  showPhysicsDebug = false,
+  replay = null,
+  onObjectPicked,
+  spawnGhost = null,
+  onPlaceSpawn,
+  onCancelSpawn,
+  launcher,
+  bounds
+}) => {
+  const ground = useMemo(() => getArenaGround(arena), [arena]);
+  const arenaBodies = useMemo(() => getArenaBodies(arena), [arena]);
+  const placingAtCursor = spawnGhost?.mode === 'cursor';
+  // Placing at the cursor takes clicks over from aiming the launcher
+  const aimingLauncher = !!launcher?.aimWithClicks && !placingAtCursor;
+
+  // Set while a paused world runs through requested steps
+  const [stepping, setStepping] = useState(false);
+  const simulationSpeed = isRunning ? timeScale : stepping ? getFrameStepSpeed(fixedTimeStep) : 0;
+
   return (
     <Canvas
       shadows
@@ -21,7 +101,12 @@ const PhysicsCanvas: React.FC<PhysicsCanvasProps> = ({ children, isRunning = tru
       }}
       style={{ width: '100vw', height: '100vh' }}
     >
-      <Physics gravity={[0, -9.81, 0]} simulationSpeed={isRunning ? 1 : 0}>
+      <Physics
+        gravity={gravity}
+        fixedTimeStep={fixedTimeStep}
+        maxSubSteps={maxSubSteps}
+        simulationSpeed={simulationSpeed}
+      >
         {/* Default lighting setup */}
         <ambientLight intensity={0.5} />
         <directionalLight
@@ -39,6 +124,7 @@ const PhysicsCanvas: React.FC<PhysicsCanvasProps> = ({ children, isRunning = tru
         
         {/* Camera controls */}
         <OrbitControls
+          makeDefault
           enablePan={true}
           enableZoom={true}
           enableRotate={true}
@@ -46,34 +132,60 @@ const PhysicsCanvas: React.FC<PhysicsCanvasProps> = ({ children, isRunning = tru
           enableDamping={true}
         />
         
-        {/* Ground plane */}
-        <GroundPlane />
+        {/* Ground and static arena pieces */}
+        <Arena arena={arena} />
+
+        {/* Live body state sampling for the body registry */}
+        <BodyStateTracker fixedTimeStep={fixedTimeStep} />
+
+        {/* Despawn, respawn or wrap bodies that leave the world bounds */}
+        {bounds && !replay && <BoundsCuller bounds={bounds.settings} terrain={arena.terrain} onCulled={bounds.onCulled} />}
+
+        {/* Collision begin/end events for the collision bus */}
+        <CollisionEventTracker ground={ground} arenaBodies={arenaBodies} terrain={arena.terrain} linkedPairs={linkedPairs} />
+
+        {/* Energy and momentum history for the scene charts */}
+        <SceneMetricsSampler gravity={gravity} />
+
+        {/* Per-object samples for the data logger */}
+        <DataLogCapture />
+
+        {/* Frame advance while paused */}
+        <FrameStepper request={stepRequest} isRunning={isRunning} onSteppingChange={setStepping} />
+
+        {/* Click-and-drag picking of live bodies */}
+        {!replay && !placingAtCursor && !aimingLauncher && (
+          <ObjectPicker isRunning={isRunning} gravity={gravity} timeScale={timeScale} onObjectPicked={onObjectPicked} />
+        )}
+
+        {/* Frame capture for the simulation recorder */}
+        <RecordingCapture isRunning={isRunning} />
         
-        {children}
-      </Physics>
-    </Canvas>
-  );
-};
+        {/* Live bodies stay mounted (and paused) during replay so the run can continue afterwards */}
+        <group visible={!replay}>
+          {children}
+        </group>
 
-// Ground plane component with physics
-const GroundPlane: React.FC = () => {
-  const [ref] = useRigidBody(() => ({
-    shapeType: ShapeType.BOX,
-    bodyType: BodyType.STATIC,
-    position: [0, -0.5, 0] as [number, number, number],
-    shapeConfig: {
-      halfExtents: new Vector3(10, 0.5, 10)
-    }
-  }));
+        {showPhysicsDebug && !replay && <PhysicsDebugOverlay />}
 
-  return (
-    <mesh
-      ref={ref}
-      receiveShadow
-    >
-      <boxGeometry args={[20, 1, 20]} />
-      <meshStandardMaterial color="#cccccc" />
-    </mesh>
+        {/* Projectiles fired from the camera */}
+        {launcher && !replay && (
+          <ProjectileLauncher
+            settings={launcher.settings}
+            request={launcher.request}
+            aimWithClicks={aimingLauncher}
+            onLaunch={launcher.onLaunch}
+          />
+        )}
+
+        {/* Ghost preview and click-to-place for new objects */}
+        {spawnGhost && !replay && (
+          <SpawnPlacer ghost={spawnGhost} ground={ground} terrain={arena.terrain} onPlace={onPlaceSpawn} onCancel={onCancelSpawn} />
+        )}
+
+        {replay && <ReplayScene recording={replay.recording} time={replay.time} />}
+      </Physics>
+    </Canvas>
   );
 };
 
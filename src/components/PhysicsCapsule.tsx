@@ -0,0 +1,13 @@
+import React from 'react';
+import PhysicsPrimitive, { PhysicsPrimitiveProps } from './PhysicsPrimitive';
+
+type PhysicsCapsuleProps = Omit<PhysicsPrimitiveProps, 'shape' | 'size' | 'ownerId' | 'onBodyMounted'>;
+
+/**
+ * Upright capsule; `height` is measured end to end including the rounded caps
+ */
+const PhysicsCapsule: React.FC<PhysicsCapsuleProps> = (props) => (
+  <PhysicsPrimitive shape="capsule" {...props} />
+);
+
+export default PhysicsCapsule;
@@ -0,0 +1,112 @@
+import React, { useMemo, useRef } from 'react';
+import { Object3D } from 'three';
+import PhysicsPrimitive from './PhysicsPrimitive';
+import { getRootLinks, useCompoundJoints } from '../hooks/useCompoundJoints';
+import { BodyState, CompoundPart } from '../types/simulation';
+import { debugLogger } from '../utils/debugLogger';
+import {
+  DEFAULT_COMPOUND_PARTS,
+  getCompoundLocalOffsets,
+  getCompoundPartState,
+  isPrimitiveShape,
+  splitCompoundMass
+} from '../utils/primitiveShapes';
+
+interface PhysicsCompoundProps {
+  position: [number, number, number];
+  parts?: CompoundPart[];
+  mass?: number;
+  color?: string;
+  friction?: number;
+  restitution?: number;
+  linearDamping?: number;
+  angularDamping?: number;
+  objectId?: string;
+  initialState?: BodyState;
+}
+
+// Body id of a non-root part in the body registry
+export const getCompoundPartId = (objectId: string, index: number) => `${objectId}/part-${index}`;
+
+const isValidPart = (part: CompoundPart | undefined): part is CompoundPart =>
+  !!part && isPrimitiveShape(part.shape) && Array.isArray(part.offset) && part.offset.length === 3 &&
+  part.offset.every(value => typeof value === 'number' && isFinite(value));
+
+/**
+ * Rigid body built from several primitives. use-ammojs creates a single collision
+ * shape per body (it has no compound shape support), so each part is its own body
+ * welded to the root part with a fixed constraint.
+ */
+const PhysicsCompound: React.FC<PhysicsCompoundProps> = ({
+  position,
+  parts,
+  mass = 1,
+  color = '#868e96',
+  friction,
+  restitution,
+  linearDamping,
+  angularDamping,
+  objectId,
+  initialState
+}) => {
+  const partObjectsRef = useRef<Array<Object3D | null>>([]);
+
+  const validatedParts = useMemo(() => {
+    const valid = Array.isArray(parts) ? parts.filter(isValidPart) : [];
+    if (valid.length === 0) {
+      debugLogger.warn('Compound has no valid parts, using the default', { objectId, parts });
+      return DEFAULT_COMPOUND_PARTS;
+    }
+    return valid;
+  }, [parts, objectId]);
+
+  const localOffsets = useMemo(() => getCompoundLocalOffsets(validatedParts), [validatedParts]);
+  const partMasses = useMemo(
+    () => splitCompoundMass(validatedParts, mass > 0 ? mass : 1),
+    [validatedParts, mass]
+  );
+
+  // Parts are laid out once; after that the physics world owns their transforms
+  const partLayoutRef = useRef<{ positions: Array<[number, number, number]>; states?: BodyState[] } | null>(null);
+  if (!partLayoutRef.current) {
+    partLayoutRef.current = {
+      positions: localOffsets.map(offset => [
+        position[0] + offset[0],
+        position[1] + offset[1],
+        position[2] + offset[2]
+      ]),
+      states: initialState ? localOffsets.map(offset => getCompoundPartState(initialState, offset)) : undefined
+    };
+  }
+  const { positions, states } = partLayoutRef.current;
+
+  const links = useMemo(() => getRootLinks(localOffsets.length), [localOffsets]);
+  useCompoundJoints(partObjectsRef, localOffsets, links, objectId);
+
+  return (
+    <>
+      {validatedParts.map((part, index) => (
+        <PhysicsPrimitive
+          key={index}
+          shape={part.shape}
+          position={positions[index]}
+          radius={part.radius}
+          height={part.height}
+          size={part.size}
+          mass={partMasses[index]}
+          color={part.color ?? color}
+          friction={friction}
+          restitution={restitution}
+          linearDamping={linearDamping}
+          angularDamping={angularDamping}
+          objectId={objectId && (index === 0 ? objectId : getCompoundPartId(objectId, index))}
+          ownerId={index === 0 ? undefined : objectId}
+          initialState={states?.[index]}
+          onBodyMounted={(object) => { partObjectsRef.current[index] = object; }}
+        />
+      ))}
+    </>
+  );
+};
+
+export default PhysicsCompound;
@@ -0,0 +1,13 @@
+import React from 'react';
+import PhysicsPrimitive, { PhysicsPrimitiveProps } from './PhysicsPrimitive';
+
+type PhysicsConeProps = Omit<PhysicsPrimitiveProps, 'shape' | 'size' | 'ownerId' | 'onBodyMounted'>;
+
+/**
+ * Upright cone with its tip pointing up
+ */
+const PhysicsCone: React.FC<PhysicsConeProps> = (props) => (
+  <PhysicsPrimitive shape="cone" {...props} />
+);
+
+export default PhysicsCone;
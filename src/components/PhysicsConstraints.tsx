@@ -0,0 +1,191 @@
+import React, { useLayoutEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { BodyType, ConstraintType, useAmmoPhysicsContext } from 'use-ammojs';
+import { MathUtils, Quaternion, Vector3 } from 'three';
+import { ObjectConstraint, SpawnedObject } from '../types/simulation';
+import { bodyRegistry, RegisteredBody } from '../utils/bodyRegistry';
+import { computeSpringImpulse, getWorldAnchor } from '../utils/constraints';
+import { debugLogger } from '../utils/debugLogger';
+import { simulationClock } from '../utils/simulationClock';
+
+interface PhysicsConstraintsProps {
+  constraints: ObjectConstraint[];
+  objects: SpawnedObject[];
+}
+
+interface PhysicsConstraintProps {
+  constraint: ObjectConstraint;
+  // Revisions of the linked objects; a remounted body needs the joint rebuilt
+  revisionA: number;
+  revisionB: number;
+}
+
+// use-ammojs does not export its constraint config types; this is the two-body overload
+type TwoBodyConstraintConfig = Parameters<ReturnType<typeof useAmmoPhysicsContext>['addConstraint']>[3];
+
+interface LinkedJoint {
+  id: string;
+  bodyA: RegisteredBody;
+  bodyB: RegisteredBody;
+}
+
+// Scratch objects reused every frame
+const pointA = new Vector3();
+const pointB = new Vector3();
+
+const uuidOf = (body: RegisteredBody | undefined): string | undefined =>
+  body?.object3D.userData?.useAmmo?.rigidBody?.uuid;
+
+const isDynamic = (body: RegisteredBody) => body.config.bodyType === BodyType.DYNAMIC && body.config.mass > 0;
+
+const toVector = (values: [number, number, number]) => new Vector3(...values);
+const toQuaternion = (values: [number, number, number, number]) => new Quaternion(...values).normalize();
+const jointAxis = (rotation: [number, number, number, number]) => new Vector3(0, 0, 1).applyQuaternion(toQuaternion(rotation));
+
+/**
+ * Bullet configuration for a rigid joint. Linked bodies never collide with each
+ * other, since joints usually sit where the two bodies touch.
+ */
+const toAmmoConstraint = ({ type, anchorA, anchorB, limits }: ObjectConstraint): TwoBodyConstraintConfig | null => {
+  const frameInA = { position: toVector(anchorA.position), rotation: toQuaternion(anchorA.rotation) };
+  const frameInB = { position: toVector(anchorB.position), rotation: toQuaternion(anchorB.rotation) };
+
+  switch (type) {
+    case 'fixed':
+      return { type: ConstraintType.FIXED, frameInA, frameInB };
+    case 'hinge':
+      return {
+        type: ConstraintType.HINGE,
+        pivot: frameInA.position,
+        axis: jointAxis(anchorA.rotation),
+        targetPivot: frameInB.position,
+        targetAxis: jointAxis(anchorB.rotation),
+        useReferenceFrameA: false,
+        ...(limits ? { lowerLimit: limits.lower, upperLimit: limits.upper } : {})
+      };
+    case 'pointToPoint':
+      return { type: ConstraintType.POINT_TO_POINT, pivot: frameInA.position, targetPivot: frameInB.position };
+    case 'slider':
+      return {
+        type: ConstraintType.SLIDER,
+        frameInA,
+        frameInB,
+        useLinearReferenceFrameA: true,
+        ...(limits ? { linearLowerLimit: limits.lower, linearUpperLimit: limits.upper } : {})
+      };
+    default:
+      return null;
+  }
+};
+
+/**
+ * One joint between two registered bodies. The joint is created once both bodies
+ * are in the physics world (GLB models load and decompose asynchronously), and
+ * removed in a layout effect cleanup: those run before the passive effects that
+ * remove rigid bodies, so Bullet never holds a constraint on a deleted body.
+ */
+const PhysicsConstraint: React.FC<PhysicsConstraintProps> = ({ constraint, revisionA, revisionB }) => {
+  const { addConstraint, removeConstraint } = useAmmoPhysicsContext();
+  // Simulated time the spring last pushed at
+  const springTimeRef = useRef<number | null>(null);
+  const jointRef = useRef<LinkedJoint | null>(null);
+  // Bodies of a remounted object that are about to be removed and must not be linked again
+  const retiredRef = useRef<Set<RegisteredBody>>(new Set());
+  const revisionsRef = useRef({ revisionA, revisionB });
+  revisionsRef.current = { revisionA, revisionB };
+
+  useLayoutEffect(() => {
+    const retired = retiredRef.current;
+    return () => {
+      const joint = jointRef.current;
+      if (!joint) return;
+      jointRef.current = null;
+      removeConstraint(joint.id);
+      debugLogger.info('Constraint removed', { constraintId: constraint.id, type: constraint.type });
+
+      if (revisionsRef.current.revisionA !== revisionA) retired.add(joint.bodyA);
+      if (revisionsRef.current.revisionB !== revisionB) retired.add(joint.bodyB);
+    };
+  }, [constraint, revisionA, revisionB, removeConstraint]);
+
+  useFrame(() => {
+    const bodyA = bodyRegistry.get(constraint.bodyA);
+    const bodyB = bodyRegistry.get(constraint.bodyB);
+
+    if (constraint.type === 'spring') {
+      // Springs push for the simulated time that passed, so they follow the time scale,
+      // act while frame stepping and rest while paused, whatever the frame rate
+      const { time } = simulationClock.getSnapshot();
+      const lastTime = springTimeRef.current;
+      springTimeRef.current = time;
+      const dt = lastTime === null ? 0 : time - lastTime;
+      if (!(dt > 0) || !bodyA || !bodyB || !constraint.spring) return;
+      getWorldAnchor(constraint.anchorA, bodyA.object3D.position, bodyA.object3D.quaternion, pointA);
+      getWorldAnchor(constraint.anchorB, bodyB.object3D.position, bodyB.object3D.quaternion, pointB);
+      const impulse = computeSpringImpulse({
+        pointA,
+        pointB,
+        velocityA: bodyA.linearVelocity,
+        velocityB: bodyB.linearVelocity,
+        ...constraint.spring,
+        dt
+      });
+      if (isDynamic(bodyA)) bodyA.api.applyImpulse(impulse, pointA.clone().sub(bodyA.object3D.position));
+      if (isDynamic(bodyB)) bodyB.api.applyImpulse(impulse.negate(), pointB.clone().sub(bodyB.object3D.position));
+      return;
+    }
+
+    const joint = jointRef.current;
+    if (joint) {
+      // A body replaced without a revision change (e.g. a GLB falling back after an error)
+      if (joint.bodyA !== bodyA || joint.bodyB !== bodyB) {
+        debugLogger.warn('Constrained body changed, relinking', { constraintId: constraint.id });
+        removeConstraint(joint.id);
+        jointRef.current = null;
+      }
+      return;
+    }
+
+    if (!bodyA || !bodyB || retiredRef.current.has(bodyA) || retiredRef.current.has(bodyB)) return;
+    const uuidA = uuidOf(bodyA);
+    const uuidB = uuidOf(bodyB);
+    const config = toAmmoConstraint(constraint);
+    if (!uuidA || !uuidB || !config) return;
+
+    const id = MathUtils.generateUUID();
+    addConstraint(id, uuidA, uuidB, { ...config, disableCollisionsBetweenLinkedBodies: true });
+    jointRef.current = { id, bodyA, bodyB };
+    retiredRef.current.clear();
+    debugLogger.info('Constraint added', { constraintId: constraint.id, type: constraint.type, bodyA: constraint.bodyA, bodyB: constraint.bodyB });
+  });
+
+  return null;
+};
+
+/**
+ * Joints between spawned objects. Constraints whose bodies are gone are skipped, so a
+ * removal that reaches the objects first still tears the joint down with them.
+ */
+const PhysicsConstraints: React.FC<PhysicsConstraintsProps> = ({ constraints, objects }) => {
+  const revisions = new Map(objects.map(obj => [obj.id, obj.revision ?? 0]));
+
+  return (
+    <>
+      {constraints.map(constraint => {
+        const revisionA = revisions.get(constraint.bodyA);
+        const revisionB = revisions.get(constraint.bodyB);
+        if (revisionA === undefined || revisionB === undefined) return null;
+        return (
+          <PhysicsConstraint
+            key={constraint.id}
+            constraint={constraint}
+            revisionA={revisionA}
+            revisionB={revisionB}
+          />
+        );
+      })}
+    </>
+  );
+};
+
+export default PhysicsConstraints;
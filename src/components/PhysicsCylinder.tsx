@@ -0,0 +1,13 @@
+import React from 'react';
+import PhysicsPrimitive, { PhysicsPrimitiveProps } from './PhysicsPrimitive';
+
+type PhysicsCylinderProps = Omit<PhysicsPrimitiveProps, 'shape' | 'size' | 'ownerId' | 'onBodyMounted'>;
+
+/**
+ * Upright cylinder; `height` is the distance between its flat ends
+ */
+const PhysicsCylinder: React.FC<PhysicsCylinderProps> = (props) => (
+  <PhysicsPrimitive shape="cylinder" {...props} />
+);
+
+export default PhysicsCylinder;
@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import {
+  Box3,
+  Box3Helper,
+  BufferAttribute,
+  BufferGeometry,
+  Color,
+  Group,
+  LineBasicMaterial,
+  LineSegments,
+  Points,
+  PointsMaterial
+} from 'three';
+import { bodyRegistry, RegisteredBody } from '../utils/bodyRegistry';
+import { collisionEvents } from '../utils/collisionEvents';
+import { createShapeWireframe, DEBUG_COLORS, DebugColorKey } from '../utils/debugShapes';
+
+interface DebugBody {
+  shape: LineSegments;
+  bounds: Box3;
+  aabb: Box3Helper;
+}
+
+// Contacts drawn at once; more are left out rather than growing buffers mid-frame
+const MAX_CONTACTS = 256;
+// Length of a drawn contact normal in metres
+const NORMAL_LENGTH = 0.4;
+
+const getColorKey = (body: RegisteredBody): DebugColorKey =>
+  body.config.bodyType === 'dynamic' ? bodyRegistry.getSleepState(body.id) ?? 'awake' : 'static';
+
+/**
+ * Draws each registered body's collision shape as a wireframe coloured by sleep state,
+ * its world AABB, and the live contact points and normals from the collision bus.
+ */
+const PhysicsDebugOverlay: React.FC = () => {
+  const groupRef = useRef<Group>(null);
+  const bodiesRef = useRef<Map<RegisteredBody, DebugBody>>(new Map());
+
+  // One material per sleep state keeps colour changes free
+  const materials = useMemo(() => {
+    const create = (color: string) => new LineBasicMaterial({ color, depthTest: false, transparent: true });
+    return {
+      awake: create(DEBUG_COLORS.awake),
+      settling: create(DEBUG_COLORS.settling),
+      asleep: create(DEBUG_COLORS.asleep),
+      static: create(DEBUG_COLORS.static)
+    } as Record<DebugColorKey, LineBasicMaterial>;
+  }, []);
+
+  const contacts = useMemo(() => {
+    const pointGeometry = new BufferGeometry();
+    pointGeometry.setAttribute('position', new BufferAttribute(new Float32Array(MAX_CONTACTS * 3), 3));
+    const normalGeometry = new BufferGeometry();
+    normalGeometry.setAttribute('position', new BufferAttribute(new Float32Array(MAX_CONTACTS * 6), 3));
+    return {
+      points: new Points(pointGeometry, new PointsMaterial({ color: DEBUG_COLORS.contact, size: 6, sizeAttenuation: false, depthTest: false })),
+      normals: new LineSegments(normalGeometry, new LineBasicMaterial({ color: DEBUG_COLORS.normal, depthTest: false }))
+    };
+  }, []);
+
+  useEffect(() => {
+    const bodies = bodiesRef.current;
+    return () => {
+      bodies.forEach(entry => {
+        entry.shape.geometry.dispose();
+        entry.aabb.dispose();
+      });
+      bodies.clear();
+      Object.values(materials).forEach(material => material.dispose());
+      contacts.points.geometry.dispose();
+      (contacts.points.material as PointsMaterial).dispose();
+      contacts.normals.geometry.dispose();
+      (contacts.normals.material as LineBasicMaterial).dispose();
+    };
+  }, [materials, contacts]);
+
+  useFrame(() => {
+    const group = groupRef.current;
+    if (!group) return;
+    const bodies = bodiesRef.current;
+    const live = new Set(bodyRegistry.getAll());
+
+    bodies.forEach((entry, body) => {
+      if (live.has(body)) return;
+      group.remove(entry.shape, entry.aabb);
+      entry.shape.geometry.dispose();
+      entry.aabb.dispose();
+      bodies.delete(body);
+    });
+
+    live.forEach(body => {
+      let entry = bodies.get(body);
+      if (!entry) {
+        // GLB models may not have meshes to outline yet; try again next frame
+        const wireframe = createShapeWireframe(body.config.shapeType, body.config.shapeConfig, body.object3D);
+        if (!wireframe) return;
+        const bounds = new Box3();
+        entry = { shape: new LineSegments(wireframe, materials.awake), bounds, aabb: new Box3Helper(bounds, new Color(DEBUG_COLORS.aabb)) };
+        entry.shape.renderOrder = entry.aabb.renderOrder = 999;
+        (entry.aabb.material as LineBasicMaterial).depthTest = false;
+        bodies.set(body, entry);
+        group.add(entry.shape, entry.aabb);
+      }
+
+      entry.shape.position.copy(body.object3D.position);
+      entry.shape.quaternion.copy(body.object3D.quaternion);
+      entry.shape.material = materials[getColorKey(body)];
+      entry.shape.updateMatrixWorld();
+      entry.bounds.setFromObject(entry.shape);
+    });
+
+    const active = collisionEvents.getActiveContacts().slice(0, MAX_CONTACTS);
+    const pointPositions = contacts.points.geometry.getAttribute('position') as BufferAttribute;
+    const normalPositions = contacts.normals.geometry.getAttribute('position') as BufferAttribute;
+    active.forEach((contact, index) => {
+      const [x, y, z] = contact.point;
+      const [nx, ny, nz] = contact.normal;
+      pointPositions.setXYZ(index, x, y, z);
+      normalPositions.setXYZ(index * 2, x, y, z);
+      normalPositions.setXYZ(index * 2 + 1, x + nx * NORMAL_LENGTH, y + ny * NORMAL_LENGTH, z + nz * NORMAL_LENGTH);
+    });
+    pointPositions.needsUpdate = true;
+    normalPositions.needsUpdate = true;
+    contacts.points.geometry.setDrawRange(0, active.length);
+    contacts.normals.geometry.setDrawRange(0, active.length * 2);
+  });
+
+  return (
+    <group ref={groupRef}>
+      <primitive object={contacts.points} renderOrder={1000} frustumCulled={false} />
+      <primitive object={contacts.normals} renderOrder={1000} frustumCulled={false} />
+    </group>
+  );
+};
+
+export default PhysicsDebugOverlay;
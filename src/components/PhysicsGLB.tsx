@@ -3,32 +3,73 @@ import React, { useEffect, Suspense, useMemo, useState, useRef, useCallback } fr
 import { useGLTF } from '@react-three/drei';
 import { ShapeType, BodyType } from 'use-ammojs';
 import * as THREE from 'three';
-import { createCollisionShapeFromGLB, validateCollisionShape } from '../utils/glbPhysics';
-import { SimulationError, ErrorType, logError } from '../utils/errorHandling';
+import { CONVEX_HULL_MAX_VERTICES, createCollisionShapeFromGLB, GLBBodyShape, validateCollisionShape } from '../utils/glbPhysics';
+import { SimulationError, ErrorType, logError, validateGLBCollision } from '../utils/errorHandling';
 import { useSafeRigidBody } from '../hooks/useSafeRigidBody';
 import { debugLogger } from '../utils/debugLogger';
+import { BodyState, DecompositionQuality, GLBCollisionType } from '../types/simulation';
+import { clampDamping, DEFAULT_DAMPING } from '../utils/physicsMaterials';
+import { ConvexPart, DEFAULT_DECOMPOSITION_QUALITY, isDecompositionQuality } from '../utils/convexDecomposition';
+import { getCompoundPartState } from '../utils/primitiveShapes';
+import { useConvexDecomposition } from '../hooks/useConvexDecomposition';
+import { useCompoundJoints } from '../hooks/useCompoundJoints';
+import PhysicsHull from './PhysicsHull';
+import { getCompoundPartId } from './PhysicsCompound';
 
 interface PhysicsGLBProps {
   url: string;
   position: [number, number, number];
   scale?: [number, number, number];
   mass?: number;
-  collisionType?: 'box' | 'convex';
+  collisionType?: GLBCollisionType;
+  decompositionQuality?: DecompositionQuality;
+  friction?: number;
+  restitution?: number;
+  linearDamping?: number;
+  angularDamping?: number;
+  objectId?: string;
+  initialState?: BodyState;
   onLoad?: () => void;
   onError?: (error: SimulationError) => void;
 }
 
+// The hull source mesh is only read by the physics world, never drawn or picked
+const ignoreRaycast = () => {};
+
 // Extracted GLBInstance to stabilize component identity across re-renders.
 // Defining a component inside another function component creates a new type on every render,
 // which causes React to unmount/mount the child. That was resetting physics bodies.
 const GLBInstance: React.FC<{
   instance: THREE.Group;
-  collisionData: any;
-  validatedProps: { position: [number, number, number]; mass: number; scale: [number, number, number] };
+  collisionData: GLBBodyShape | null;
+  validatedProps: {
+    position: [number, number, number];
+    mass: number;
+    scale: [number, number, number];
+    friction: number;
+    restitution: number;
+    linearDamping: number;
+    angularDamping: number;
+  };
   url: string;
   scale: [number, number, number];
   componentId: string;
-}> = ({ instance, collisionData, validatedProps, url, scale, componentId }) => {
+  objectId?: string;
+  initialState?: BodyState;
+}> = ({ instance, collisionData, validatedProps, url, scale, componentId, objectId, initialState }) => {
+  // use-ammojs builds hull shapes from the meshes under the body's object when the body
+  // is added. For convex models that object is a group holding only the computed hull,
+  // and the model is mounted once the body exists, offset so the hull centre is the origin.
+  const hullVertices = collisionData?.hullVertices;
+  const hullGeometry = useMemo(() => {
+    if (!hullVertices) return null;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(hullVertices, 3));
+    return geometry;
+  }, [hullVertices]);
+  const hullMaterial = useMemo(() => (hullVertices ? new THREE.MeshBasicMaterial({ visible: false }) : null), [hullVertices]);
+  const [bodyReady, setBodyReady] = useState(!hullVertices);
+
   // Keep latest values in refs to avoid unnecessary dependencies while preserving correctness
   const collisionDataRef = useRef(collisionData);
   const validatedPropsRef = useRef(validatedProps);
@@ -63,6 +104,8 @@ const GLBInstance: React.FC<{
       latestCollision ? JSON.stringify(latestCollision.shapeConfig ?? {}) : JSON.stringify({ halfExtents: { x: 0.5, y: 0.5, z: 0.5 } }),
       Array.isArray(latestProps?.position) ? latestProps.position.join(',') : '0,5,0',
       String(latestProps?.mass ?? 1),
+      `${latestProps?.friction ?? 0.4},${latestProps?.restitution ?? 0.3}`,
+      `${latestProps?.linearDamping ?? DEFAULT_DAMPING.LINEAR},${latestProps?.angularDamping ?? DEFAULT_DAMPING.ANGULAR}`,
       latestProps?.mass && latestProps.mass > 0 ? 'DYNAMIC' : 'STATIC'
     ];
     const signature = sigParts.join('|');
@@ -81,9 +124,11 @@ const GLBInstance: React.FC<{
         position: latestProps.position,
         mass: latestProps.mass,
         material: {
-          friction: 0.4,
-          restitution: 0.3
+          friction: latestProps.friction,
+          restitution: latestProps.restitution
         },
+        linearDamping: latestProps.linearDamping,
+        angularDamping: latestProps.angularDamping,
         shapeConfig: {
           halfExtents: { x: 0.5, y: 0.5, z: 0.5 }
         }
@@ -98,9 +143,11 @@ const GLBInstance: React.FC<{
         position: latestProps.position,
         mass,
         material: {
-          friction: 0.4,
-          restitution: 0.3
+          friction: latestProps.friction,
+          restitution: latestProps.restitution
         },
+        linearDamping: latestProps.linearDamping,
+        angularDamping: latestProps.angularDamping,
         shapeConfig: latestCollision.shapeConfig
       };
     }
@@ -113,9 +160,20 @@ const GLBInstance: React.FC<{
   const { ref, config, error: physicsError, hasError } = useSafeRigidBody(
     configFactory,
     componentId,
-    sceneInstanceRef.current
+    hullGeometry ? undefined : sceneInstanceRef.current,
+    { objectId, initialState }
   );
 
+  // Runs after useRigidBody has added the body from the hull alone
+  useEffect(() => {
+    setBodyReady(true);
+  }, []);
+
+  useEffect(() => () => {
+    hullGeometry?.dispose();
+    hullMaterial?.dispose();
+  }, [hullGeometry, hullMaterial]);
+
   useEffect(() => {
     if (hasError) {
       debugLogger.error(`Physics error in GLB ${componentId}`, {
@@ -128,6 +186,24 @@ const GLBInstance: React.FC<{
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [hasError]);
 
+  if (hullGeometry && hullMaterial) {
+    const center: [number, number, number] = collisionData?.center ?? [0, 0, 0];
+    return (
+      <group ref={ref}>
+        <mesh geometry={hullGeometry} material={hullMaterial} raycast={ignoreRaycast} />
+        {bodyReady && (
+          <primitive
+            object={instance}
+            scale={scale}
+            position={[-center[0], -center[1], -center[2]]}
+            castShadow
+            receiveShadow
+          />
+        )}
+      </group>
+    );
+  }
+
   return (
     <primitive
       ref={ref}
@@ -139,6 +215,121 @@ const GLBInstance: React.FC<{
   );
 };
 
+/**
+ * Parts whose bounds overlap, including the root links. Linked parts do not collide,
+ * and touching parts of one model would otherwise push against each other.
+ */
+const getDecomposedLinks = (parts: ConvexPart[]): Array<[number, number]> => {
+  const bounds = parts.map(({ vertices, center }) => {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < vertices.length; i++) {
+      min[i % 3] = Math.min(min[i % 3], vertices[i] + center[i % 3]);
+      max[i % 3] = Math.max(max[i % 3], vertices[i] + center[i % 3]);
+    }
+    return { min, max };
+  });
+  // Bullet keeps a small margin around hulls, so near misses still touch
+  const margin = 0.05;
+
+  const links: Array<[number, number]> = [];
+  parts.forEach((_, a) => {
+    for (let b = a + 1; b < parts.length; b++) {
+      const overlaps = [0, 1, 2].every(axis =>
+        bounds[a].min[axis] <= bounds[b].max[axis] + margin && bounds[b].min[axis] <= bounds[a].max[axis] + margin
+      );
+      if (a === 0 || overlaps) links.push([a, b]);
+    }
+  });
+  return links;
+};
+
+/**
+ * GLB model colliding as several convex hulls. The parts are separate bodies welded
+ * together, like PhysicsCompound; the largest is the root, carries the object id and
+ * draws the model.
+ */
+const DecomposedGLBInstance: React.FC<{
+  instance: THREE.Group;
+  parts: ConvexPart[];
+  validatedProps: {
+    position: [number, number, number];
+    mass: number;
+    friction: number;
+    restitution: number;
+    linearDamping: number;
+    angularDamping: number;
+  };
+  scale: [number, number, number];
+  objectId?: string;
+  initialState?: BodyState;
+}> = ({ instance, parts, validatedProps, scale, objectId, initialState }) => {
+  const partObjectsRef = useRef<Array<THREE.Object3D | null>>([]);
+  const rootCenter = parts[0].center;
+
+  const localOffsets = useMemo(() => parts.map(({ center }) => [
+    center[0] - rootCenter[0],
+    center[1] - rootCenter[1],
+    center[2] - rootCenter[2]
+  ] as [number, number, number]), [parts, rootCenter]);
+  const links = useMemo(() => getDecomposedLinks(parts), [parts]);
+
+  const partMasses = useMemo(() => {
+    const totalVolume = parts.reduce((sum, part) => sum + part.volume, 0);
+    return parts.map(part => (totalVolume > 0
+      ? validatedProps.mass * (part.volume / totalVolume)
+      : validatedProps.mass / parts.length));
+  }, [parts, validatedProps.mass]);
+
+  // Parts are laid out once; after that the physics world owns their transforms
+  const partLayoutRef = useRef<{ positions: Array<[number, number, number]>; states?: BodyState[] } | null>(null);
+  if (!partLayoutRef.current) {
+    const { position } = validatedProps;
+    partLayoutRef.current = {
+      positions: localOffsets.map(offset => [
+        position[0] + offset[0],
+        position[1] + offset[1],
+        position[2] + offset[2]
+      ]),
+      states: initialState ? localOffsets.map(offset => getCompoundPartState(initialState, offset)) : undefined
+    };
+  }
+  const { positions, states } = partLayoutRef.current;
+
+  useCompoundJoints(partObjectsRef, localOffsets, links, objectId);
+
+  return (
+    <>
+      {parts.map((part, index) => (
+        <PhysicsHull
+          key={index}
+          vertices={part.vertices}
+          position={positions[index]}
+          mass={partMasses[index]}
+          friction={validatedProps.friction}
+          restitution={validatedProps.restitution}
+          linearDamping={validatedProps.linearDamping}
+          angularDamping={validatedProps.angularDamping}
+          objectId={objectId && (index === 0 ? objectId : getCompoundPartId(objectId, index))}
+          ownerId={index === 0 ? undefined : objectId}
+          initialState={states?.[index]}
+          onBodyMounted={(object) => { partObjectsRef.current[index] = object; }}
+        >
+          {index === 0 && (
+            <primitive
+              object={instance}
+              scale={scale}
+              position={[-rootCenter[0], -rootCenter[1], -rootCenter[2]]}
+              castShadow
+              receiveShadow
+            />
+          )}
+        </PhysicsHull>
+      ))}
+    </>
+  );
+};
+
 // Internal component that uses useGLTF
 const GLBModel: React.FC<PhysicsGLBProps> = ({
   url,
@@ -146,6 +337,13 @@ const GLBModel: React.FC<PhysicsGLBProps> = ({
   scale = [1, 1, 1],
   mass = 1,
   collisionType = 'box',
+  decompositionQuality = DEFAULT_DECOMPOSITION_QUALITY,
+  friction = 0.4,
+  restitution = 0.3,
+  linearDamping = DEFAULT_DAMPING.LINEAR,
+  angularDamping = DEFAULT_DAMPING.ANGULAR,
+  objectId,
+  initialState,
   onLoad,
   onError
 }) => {
@@ -185,18 +383,37 @@ const GLBModel: React.FC<PhysicsGLBProps> = ({
     }
   }, [scene, url]);
 
+  // Mesh collision is rejected for dynamic models; the error replaces the model with
+  // the error placeholder (see PhysicsGLB)
+  const collisionSetupError = useMemo(
+    () => validateGLBCollision(collisionType, mass, { url }),
+    [collisionType, mass, url]
+  );
+  useEffect(() => {
+    if (collisionSetupError) {
+      logError(collisionSetupError);
+      onError?.(collisionSetupError);
+    }
+  }, [collisionSetupError, onError]);
+
+  // Decomposed models are split in the background; until then, and if that fails,
+  // they are handled as a single convex hull
+  const shapeCollisionType = collisionType === 'decomposed' ? 'convex' : collisionType;
+  const quality = isDecompositionQuality(decompositionQuality) ? decompositionQuality : DEFAULT_DECOMPOSITION_QUALITY;
+  const decomposition = useConvexDecomposition(collisionType === 'decomposed' ? scene : null, url, scale, quality);
+
   // Calculate collision shape data based on collision type
-  const collisionData = useMemo(() => {
-    if (!scene) return null;
+  const collisionData = useMemo((): GLBBodyShape | null => {
+    if (!scene || collisionSetupError) return null;
 
     try {
-      const shapeData = createCollisionShapeFromGLB(scene, collisionType, scale);
+      const shapeData = createCollisionShapeFromGLB(scene, shapeCollisionType, scale);
 
       if (!shapeData || !validateCollisionShape(shapeData)) {
         const error = new SimulationError(
           ErrorType.GLB_PARSING_FAILED,
           new Error('Invalid collision shape data'),
-          { url, collisionType, scale }
+          { url, collisionType: shapeCollisionType, scale }
         );
         logError(error);
         console.warn('Invalid collision shape data, using fallback box');
@@ -208,15 +425,30 @@ const GLBModel: React.FC<PhysicsGLBProps> = ({
         };
       }
 
-      if (shapeData.shapeType === 'convex') {
+      if (shapeData.shapeType === 'convex' && shapeData.vertices) {
         // Use convex hull shape (dynamic-friendly and lighter than triangle mesh)
+        debugLogger.info(`Convex hull computed for ${componentIdRef.current}`, {
+          points: shapeData.vertices.length / 3,
+          volume: shapeData.volume
+        });
         return {
           shapeType: ShapeType.HULL,
           shapeConfig: {
-            // Reasonable defaults for performance/quality balance
-            hullMaxVertices: 64,
-            includeInvisible: false
-          }
+            // Matches the reduced hull, so use-ammojs keeps every point instead of sampling
+            hullMaxVertices: CONVEX_HULL_MAX_VERTICES
+          },
+          hullVertices: shapeData.vertices,
+          center: shapeData.center
+        };
+      } else if (shapeData.shapeType === 'mesh') {
+        // use-ammojs builds the triangle mesh from every mesh under the body's object,
+        // with each child's transform relative to the model root applied
+        debugLogger.info(`Triangle mesh collision for ${componentIdRef.current}`, {
+          triangles: shapeData.triangleCount
+        });
+        return {
+          shapeType: ShapeType.MESH,
+          shapeConfig: {}
         };
       } else if (shapeData.shapeType === 'box' && shapeData.dimensions) {
         return {
@@ -239,10 +471,10 @@ const GLBModel: React.FC<PhysicsGLBProps> = ({
         }
       };
     } catch (err) {
-      const error = new SimulationError(
+      const error = err instanceof SimulationError ? err : new SimulationError(
         ErrorType.GLB_PARSING_FAILED,
         err instanceof Error ? err : new Error('Failed to calculate collision shape'),
-        { url, collisionType, scale }
+        { url, collisionType: shapeCollisionType, scale }
       );
       logError(error);
       onError?.(error);
@@ -255,7 +487,7 @@ const GLBModel: React.FC<PhysicsGLBProps> = ({
         }
       };
     }
-  }, [scene, collisionType, scale, url, onError]);
+  }, [scene, collisionSetupError, shapeCollisionType, scale, url, onError]);
 
   // Create a stable cloned scene instance to attach refs without remounting each render
   const sceneInstance = useMemo(() => {
@@ -270,7 +502,12 @@ const GLBModel: React.FC<PhysicsGLBProps> = ({
   const validatedProps = useMemo(() => {
     const validPosition = debugLogger.validatePosition(position, componentIdRef.current);
     const safePosition: [number, number, number] = validPosition || [0, 5, 0];
-    const safeMass = typeof mass === 'number' && !isNaN(mass) && mass > 0 ? mass : 1;
+    // Mass 0 makes the model static scenery
+    const safeMass = typeof mass === 'number' && isFinite(mass) && mass >= 0 ? mass : 1;
+    const safeFriction = typeof friction === 'number' && isFinite(friction) && friction >= 0 ? friction : 0.4;
+    const safeRestitution = typeof restitution === 'number' && isFinite(restitution) && restitution >= 0 ? restitution : 0.3;
+    const safeLinearDamping = clampDamping(linearDamping, DEFAULT_DAMPING.LINEAR);
+    const safeAngularDamping = clampDamping(angularDamping, DEFAULT_DAMPING.ANGULAR);
 
     if (!validPosition) {
       debugLogger.warn(`Using fallback position for GLB ${componentIdRef.current}`, { 
@@ -286,23 +523,54 @@ const GLBModel: React.FC<PhysicsGLBProps> = ({
     return {
       position: safePosition,
       mass: safeMass,
-      scale: safeScale
+      scale: safeScale,
+      friction: safeFriction,
+      restitution: safeRestitution,
+      linearDamping: safeLinearDamping,
+      angularDamping: safeAngularDamping
     };
-  }, [position, mass, scale]);
+  }, [position, mass, scale, friction, restitution, linearDamping, angularDamping]);
 
   // Let Suspense fallback render during loading; if no scene, render nothing here.
-  if (!sceneInstance) {
+  if (!sceneInstance || collisionSetupError) {
     return null;
   }
 
+  if (collisionType === 'decomposed') {
+    if (decomposition.status === 'pending') {
+      return (
+        <mesh position={validatedProps.position}>
+          <boxGeometry args={[0.5, 0.5, 0.5]} />
+          <meshStandardMaterial color="gray" transparent opacity={0.5} />
+        </mesh>
+      );
+    }
+    if (decomposition.parts && decomposition.parts.length > 0) {
+      return (
+        <DecomposedGLBInstance
+          key="decomposed"
+          instance={sceneInstance}
+          parts={decomposition.parts}
+          validatedProps={validatedProps}
+          scale={validatedProps.scale}
+          objectId={objectId}
+          initialState={initialState}
+        />
+      );
+    }
+  }
+
   return sceneInstance ? (
     <GLBInstance
+      key={collisionData && 'hullVertices' in collisionData ? 'hull' : 'shape'}
       instance={sceneInstance}
       collisionData={collisionData}
       validatedProps={validatedProps}
       url={url}
       scale={scale}
       componentId={componentIdRef.current}
+      objectId={objectId}
+      initialState={initialState}
     />
   ) : null;
 };
@@ -0,0 +1,119 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { BodyType, ShapeType } from 'use-ammojs';
+import { BufferAttribute, BufferGeometry, MeshBasicMaterial, Object3D } from 'three';
+import { useSafeRigidBody } from '../hooks/useSafeRigidBody';
+import { debugLogger } from '../utils/debugLogger';
+import { BodyState } from '../types/simulation';
+import { clampDamping, DEFAULT_DAMPING } from '../utils/physicsMaterials';
+
+interface PhysicsHullProps {
+  // Hull points as a flat xyz array, centred on the body's origin
+  vertices: ArrayLike<number>;
+  position: [number, number, number];
+  mass?: number;
+  friction?: number;
+  restitution?: number;
+  linearDamping?: number;
+  angularDamping?: number;
+  objectId?: string;
+  // Set for compound parts so picking resolves to the owning object
+  ownerId?: string;
+  initialState?: BodyState;
+  // Called with the body's object once it is in the physics world, and with null on unmount
+  onBodyMounted?: (object: Object3D | null) => void;
+  // Drawn in the body's frame once the body exists
+  children?: React.ReactNode;
+}
+
+// The hull source mesh is only read by the physics world, never drawn or picked
+const ignoreRaycast = () => {};
+
+/**
+ * Rigid body with a convex hull shape built from the given points. Used for
+ * the parts of decomposed GLB models.
+ *
+ * use-ammojs builds hull shapes from the meshes under the body's object when the body
+ * is added, so the object starts out holding only a hidden mesh of the points; the
+ * children are mounted afterwards and never affect the shape.
+ */
+const PhysicsHull: React.FC<PhysicsHullProps> = ({
+  vertices,
+  position,
+  mass = 1,
+  friction = 0.4,
+  restitution = 0.3,
+  linearDamping = DEFAULT_DAMPING.LINEAR,
+  angularDamping = DEFAULT_DAMPING.ANGULAR,
+  objectId,
+  ownerId,
+  initialState,
+  onBodyMounted,
+  children
+}) => {
+  const componentIdRef = useRef<string>(`PhysicsHull-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
+  const [bodyReady, setBodyReady] = useState(false);
+
+  const geometry = useMemo(() => {
+    const hullGeometry = new BufferGeometry();
+    hullGeometry.setAttribute('position', new BufferAttribute(Float32Array.from(vertices), 3));
+    return hullGeometry;
+  }, [vertices]);
+  const material = useMemo(() => new MeshBasicMaterial({ visible: false }), []);
+
+  const configFactory = useCallback(() => {
+    const validPosition = debugLogger.validatePosition(position, componentIdRef.current);
+    return {
+      shapeType: ShapeType.HULL,
+      shapeConfig: {
+        // At least the number of points, so use-ammojs keeps them all instead of sampling
+        hullMaxVertices: Math.max(geometry.getAttribute('position').count, 4)
+      },
+      // Mass 0 parts belong to static scenery
+      bodyType: mass === 0 ? BodyType.STATIC : BodyType.DYNAMIC,
+      position: validPosition || [0, 5, 0],
+      mass: typeof mass === 'number' && isFinite(mass) && mass >= 0 ? mass : 1,
+      material: {
+        friction: typeof friction === 'number' && isFinite(friction) && friction >= 0 ? friction : 0.4,
+        restitution: typeof restitution === 'number' && isFinite(restitution) && restitution >= 0 ? restitution : 0.3
+      },
+      linearDamping: clampDamping(linearDamping, DEFAULT_DAMPING.LINEAR),
+      angularDamping: clampDamping(angularDamping, DEFAULT_DAMPING.ANGULAR)
+    };
+  }, [geometry, position, mass, friction, restitution, linearDamping, angularDamping]);
+
+  const { ref, config, error, hasError } = useSafeRigidBody(configFactory, componentIdRef.current, undefined, {
+    objectId,
+    ownerId,
+    initialState
+  });
+
+  // Runs after useRigidBody has added the body from the hidden mesh alone
+  const onBodyMountedRef = useRef(onBodyMounted);
+  onBodyMountedRef.current = onBodyMounted;
+  useEffect(() => {
+    setBodyReady(true);
+    onBodyMountedRef.current?.(ref.current ?? null);
+    return () => onBodyMountedRef.current?.(null);
+  }, [ref]);
+
+  useEffect(() => () => {
+    geometry.dispose();
+    material.dispose();
+  }, [geometry, material]);
+
+  useEffect(() => {
+    if (hasError) {
+      debugLogger.error(`Physics error in ${componentIdRef.current}`, { error, config });
+    }
+  }, [hasError, error, config]);
+
+  return (
+    <group ref={ref}>
+      <mesh geometry={geometry} material={material} raycast={ignoreRaycast} />
+      {bodyReady && children}
+    </group>
+  );
+};
+
+export default PhysicsHull;
@@ -0,0 +1,172 @@
+import React, { useMemo, useEffect, useRef, useCallback } from 'react';
+
+import { BodyType, ShapeFit, ShapeType } from 'use-ammojs';
+import { MeshStandardMaterial, Object3D } from 'three';
+import { PerformanceOptimizer, createMaterialKey } from '../utils/performanceOptimization';
+import { useSafeRigidBody } from '../hooks/useSafeRigidBody';
+import { debugLogger } from '../utils/debugLogger';
+import { BodyState, PrimitiveShape } from '../types/simulation';
+import { clampDamping, DEFAULT_DAMPING } from '../utils/physicsMaterials';
+import { getCollisionHalfExtents, getPrimitiveGeometry, normalizeDimensions } from '../utils/primitiveShapes';
+
+export interface PhysicsPrimitiveProps {
+  shape: PrimitiveShape;
+  position: [number, number, number];
+  radius?: number;
+  height?: number;
+  size?: [number, number, number];
+  mass?: number;
+  color?: string;
+  friction?: number;
+  restitution?: number;
+  linearDamping?: number;
+  angularDamping?: number;
+  objectId?: string;
+  // Set for compound parts so picking resolves to the owning object
+  ownerId?: string;
+  initialState?: BodyState;
+  // Called with the body's object once it is in the physics world, and with null on unmount
+  onBodyMounted?: (object: Object3D | null) => void;
+}
+
+const SHAPE_TYPES: Record<PrimitiveShape, ShapeType> = {
+  ball: ShapeType.SPHERE,
+  box: ShapeType.BOX,
+  cylinder: ShapeType.CYLINDER,
+  capsule: ShapeType.CAPSULE,
+  cone: ShapeType.CONE
+};
+
+const DEFAULT_COLORS: Record<PrimitiveShape, string> = {
+  ball: 'orange',
+  box: 'blue',
+  cylinder: '#51cf66',
+  capsule: '#cc5de8',
+  cone: '#fcc419'
+};
+
+/**
+ * Dynamic rigid body for any primitive shape. Used by the cylinder, capsule and cone
+ * components and for the parts of compound bodies.
+ */
+const PhysicsPrimitive: React.FC<PhysicsPrimitiveProps> = ({
+  shape,
+  position,
+  radius,
+  height,
+  size,
+  mass = 1,
+  color,
+  friction = 0.4,
+  restitution = 0.3,
+  linearDamping = DEFAULT_DAMPING.LINEAR,
+  angularDamping = DEFAULT_DAMPING.ANGULAR,
+  objectId,
+  ownerId,
+  initialState,
+  onBodyMounted
+}) => {
+  const optimizer = PerformanceOptimizer.getInstance();
+  const componentIdRef = useRef<string>(`PhysicsPrimitive-${shape}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
+
+  // Validate props with detailed logging
+  const validatedProps = useMemo(() => {
+    const componentId = componentIdRef.current;
+    debugLogger.info(`Validating props for ${componentId}`, { position, radius, height, size, mass, color });
+
+    const validPosition = debugLogger.validatePosition(position, componentId);
+    const safePosition: [number, number, number] = validPosition || [0, 5, 0];
+
+    if (!validPosition) {
+      debugLogger.warn(`Using fallback position for ${componentId}`, { original: position, fallback: safePosition });
+    }
+
+    const validated = {
+      position: safePosition,
+      dimensions: normalizeDimensions(shape, { radius, height, size }),
+      mass: typeof mass === 'number' && !isNaN(mass) && mass > 0 ? mass : 1,
+      color: typeof color === 'string' ? color : DEFAULT_COLORS[shape],
+      friction: typeof friction === 'number' && isFinite(friction) && friction >= 0 ? friction : 0.4,
+      restitution: typeof restitution === 'number' && isFinite(restitution) && restitution >= 0 ? restitution : 0.3,
+      linearDamping: clampDamping(linearDamping, DEFAULT_DAMPING.LINEAR),
+      angularDamping: clampDamping(angularDamping, DEFAULT_DAMPING.ANGULAR)
+    };
+
+    debugLogger.info(`Props validated for ${componentId}`, validated);
+    return validated;
+  }, [shape, position, radius, height, size, mass, color, friction, restitution, linearDamping, angularDamping]);
+
+  // Use safe rigid body hook
+  const configFactory = useCallback(() => {
+    const componentId = componentIdRef.current;
+    debugLogger.info(`Creating rigid body config for ${componentId}`, validatedProps);
+    const halfExtents = getCollisionHalfExtents(shape, validatedProps.dimensions);
+    return {
+      shapeType: SHAPE_TYPES[shape],
+      // Sized from the props rather than fitted to the mesh, see primitiveShapes
+      shapeConfig: {
+        fit: ShapeFit.MANUAL,
+        cylinderAxis: 'y' as const,
+        halfExtents,
+        sphereRadius: validatedProps.dimensions.radius
+      },
+      bodyType: BodyType.DYNAMIC,
+      position: validatedProps.position,
+      mass: validatedProps.mass,
+      material: {
+        friction: validatedProps.friction,
+        restitution: validatedProps.restitution
+      },
+      linearDamping: validatedProps.linearDamping,
+      angularDamping: validatedProps.angularDamping
+    };
+  }, [shape, validatedProps]);
+
+  const { ref, config, error, hasError } = useSafeRigidBody(configFactory, componentIdRef.current, undefined, {
+    objectId,
+    ownerId,
+    initialState
+  });
+
+  // Runs after useRigidBody has added the body, so its physics uuid is available
+  const onBodyMountedRef = useRef(onBodyMounted);
+  onBodyMountedRef.current = onBodyMounted;
+  useEffect(() => {
+    onBodyMountedRef.current?.(ref.current ?? null);
+    return () => onBodyMountedRef.current?.(null);
+  }, [ref]);
+
+  // Cache geometry and material for performance
+  const geometry = useMemo(() => {
+    const { key, create } = getPrimitiveGeometry(shape, validatedProps.dimensions);
+    debugLogger.info(`Creating geometry for ${componentIdRef.current}`, { key });
+    return optimizer.getCachedGeometry(key, create);
+  }, [shape, validatedProps.dimensions, optimizer]);
+
+  const material = useMemo(() => {
+    try {
+      const materialKey = createMaterialKey('standard', validatedProps.color, { metalness: 0.15, roughness: 0.75 });
+      return optimizer.getCachedMaterial(materialKey, () => new MeshStandardMaterial({
+        color: validatedProps.color,
+        metalness: 0.15,
+        roughness: 0.75
+      }));
+    } catch (error) {
+      debugLogger.error(`Failed to create material for ${componentIdRef.current}`, error);
+      return new MeshStandardMaterial({ color: DEFAULT_COLORS[shape] }); // Fallback
+    }
+  }, [shape, validatedProps.color, optimizer]);
+
+  // Log any physics errors
+  useEffect(() => {
+    if (hasError) {
+      debugLogger.error(`Physics error in ${componentIdRef.current}`, { error, config });
+    }
+  }, [hasError, error, config]);
+
+  return (
+    <mesh ref={ref} castShadow receiveShadow geometry={geometry} material={material} />
+  );
+};
+
+export default PhysicsPrimitive;
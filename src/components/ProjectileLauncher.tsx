@@ -0,0 +1,87 @@
+import React, { useEffect, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { BodyState, LaunchRequest, LaunchSettings } from '../types/simulation';
+import { computeLaunchState } from '../utils/launcher';
+import { debugLogger } from '../utils/debugLogger';
+
+interface ProjectileLauncherProps {
+  settings: LaunchSettings;
+  // Latest request to fire along the view direction
+  request: LaunchRequest | null;
+  // When set, clicks in the scene fire toward the clicked point
+  aimWithClicks?: boolean;
+  onLaunch: (state: BodyState) => void;
+}
+
+// Pointer travel in pixels past which a press is an orbit drag rather than a click
+const CLICK_TOLERANCE = 5;
+
+const pointerNdc = new THREE.Vector2();
+const raycaster = new THREE.Raycaster();
+
+/**
+ * Fires projectiles from the camera. Requests fire along the view direction; with click
+ * aiming on, a click fires along the ray through the cursor and drags still orbit.
+ */
+const ProjectileLauncher: React.FC<ProjectileLauncherProps> = ({ settings, request, aimWithClicks = false, onLaunch }) => {
+  const { camera, gl } = useThree();
+  // Requests made before this world mounted (e.g. ahead of a reset) are not replayed
+  const handledRequestRef = useRef(request?.id);
+
+  // Latest props for the DOM listeners
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const onLaunchRef = useRef(onLaunch);
+  onLaunchRef.current = onLaunch;
+
+  const fire = (direction: THREE.Vector3) => {
+    const state = computeLaunchState(camera.position, direction, camera.quaternion, settingsRef.current);
+    debugLogger.info('Launching projectile', { projectile: settingsRef.current.projectile, state });
+    onLaunchRef.current(state);
+  };
+  const fireRef = useRef(fire);
+  fireRef.current = fire;
+
+  useEffect(() => {
+    if (!request || request.id === handledRequestRef.current) return;
+    handledRequestRef.current = request.id;
+    fireRef.current(camera.getWorldDirection(new THREE.Vector3()));
+  }, [request, camera]);
+
+  useEffect(() => {
+    if (!aimWithClicks) return;
+    const element = gl.domElement;
+    let press: { x: number; y: number } | null = null;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button === 0) press = { x: event.clientX, y: event.clientY };
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      const start = press;
+      press = null;
+      if (event.button !== 0 || !start) return;
+      if (Math.hypot(event.clientX - start.x, event.clientY - start.y) > CLICK_TOLERANCE) return;
+
+      const rect = element.getBoundingClientRect();
+      pointerNdc.set(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointerNdc, camera);
+      fireRef.current(raycaster.ray.direction.clone());
+    };
+
+    element.addEventListener('pointerdown', handlePointerDown);
+    element.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      element.removeEventListener('pointerdown', handlePointerDown);
+      element.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [aimWithClicks, camera, gl]);
+
+  return null;
+};
+
+export default ProjectileLauncher;
@@ -0,0 +1,36 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { useAmmoPhysicsContext } from 'use-ammojs';
+import { bodyRegistry } from '../utils/bodyRegistry';
+import { simulationRecorder } from '../utils/recording';
+
+interface RecordingCaptureProps {
+  isRunning: boolean;
+}
+
+/**
+ * Captures a recording frame after every physics step while the recorder is active.
+ * Paused time is skipped so playback runs on simulated time rather than wall-clock time.
+ */
+const RecordingCapture: React.FC<RecordingCaptureProps> = ({ isRunning }) => {
+  const { physicsPerformanceInfoRef } = useAmmoPhysicsContext();
+  const lastSubstepRef = useRef<number>(-1);
+  const recordedTimeRef = useRef(0);
+
+  useFrame((_, delta) => {
+    if (!simulationRecorder.isRecording || !isRunning) return;
+
+    // Time starts at the first captured frame of each recording
+    recordedTimeRef.current = simulationRecorder.frameCount === 0 ? 0 : recordedTimeRef.current + delta;
+
+    const substep = physicsPerformanceInfoRef.current.substepCounter;
+    if (substep === lastSubstepRef.current) return;
+    lastSubstepRef.current = substep;
+
+    simulationRecorder.capture(recordedTimeRef.current, (id) => bodyRegistry.getState(id));
+  });
+
+  return null;
+};
+
+export default RecordingCapture;
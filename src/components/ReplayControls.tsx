@@ -0,0 +1,188 @@
+import React, { useRef, useState } from 'react';
+import { SimulationError, ErrorType, logError } from '../utils/errorHandling';
+import { Recording, parseRecording, findFrameIndex } from '../utils/recording';
+import { PLAYBACK_SPEEDS, RecordingExportFormat } from '../hooks/useReplay';
+import './ReplayControls.css';
+
+interface ReplayControlsProps {
+  isRecording: boolean;
+  recording: Recording | null;
+  isReplaying: boolean;
+  isPlaying: boolean;
+  playbackSpeed: number;
+  currentTime: number;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onEnterReplay: (recording?: Recording) => void;
+  onExitReplay: () => void;
+  onTogglePlayback: () => void;
+  onSeek: (time: number) => void;
+  onStepFrame: (direction: 1 | -1) => void;
+  onSpeedChange: (speed: number) => void;
+  onExport: (format: RecordingExportFormat) => void;
+  onError?: (error: SimulationError) => void;
+}
+
+const readFileAsArrayBuffer = (file: File): Promise<ArrayBuffer> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error || new Error('Failed to read recording file'));
+    reader.readAsArrayBuffer(file);
+  });
+};
+
+const formatTime = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  isRecording,
+  recording,
+  isReplaying,
+  isPlaying,
+  playbackSpeed,
+  currentTime,
+  onStartRecording,
+  onStopRecording,
+  onEnterReplay,
+  onExitReplay,
+  onTogglePlayback,
+  onSeek,
+  onStepFrame,
+  onSpeedChange,
+  onExport,
+  onError
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setError(null);
+
+    try {
+      const imported = parseRecording(await readFileAsArrayBuffer(file));
+      onEnterReplay(imported);
+    } catch (err) {
+      const simulationError = err instanceof SimulationError
+        ? err
+        : new SimulationError(
+            ErrorType.RECORDING_INVALID_FORMAT,
+            err instanceof Error ? err : new Error('Unknown error'),
+            { fileName: file.name }
+          );
+      setError(simulationError.userMessage);
+      onError?.(simulationError);
+      logError(simulationError);
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const frameCount = recording?.frames.length ?? 0;
+  const frameIndex = recording && frameCount > 0 ? findFrameIndex(recording, currentTime) : -1;
+
+  return (
+    <div className={`replay-controls ${isReplaying ? 'replaying' : ''}`}>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,.psrec,application/json,application/octet-stream"
+        onChange={handleFileChange}
+        style={{ display: 'none' }}
+        data-testid="recording-file-input"
+      />
+
+      {!isReplaying ? (
+        <div className="replay-row">
+          {isRecording ? (
+            <button className="replay-button recording" onClick={onStopRecording} title="Stop capturing frames">
+              ■ Stop Recording
+            </button>
+          ) : (
+            <button className="replay-button record" onClick={onStartRecording} title="Capture body transforms every physics step">
+              ● Record
+            </button>
+          )}
+          <button
+            className="replay-button"
+            onClick={() => onEnterReplay()}
+            disabled={!recording || frameCount === 0}
+            title="Play back the last recording without physics"
+          >
+            Replay{recording ? ` (${formatTime(recording.duration)})` : ''}
+          </button>
+          <button
+            className="replay-button"
+            onClick={() => fileInputRef.current?.click()}
+            title="Open a recording exported as JSON or binary"
+          >
+            Open Recording
+          </button>
+        </div>
+      ) : recording && (
+        <>
+          <div className="replay-row">
+            <button className="replay-button" onClick={() => onStepFrame(-1)} title="Previous frame" aria-label="Previous frame">
+              ⏮
+            </button>
+            <button className="replay-button play" onClick={onTogglePlayback} title={isPlaying ? 'Pause playback' : 'Play recording'}>
+              {isPlaying ? 'Pause' : 'Play'}
+            </button>
+            <button className="replay-button" onClick={() => onStepFrame(1)} title="Next frame" aria-label="Next frame">
+              ⏭
+            </button>
+            <input
+              type="range"
+              className="replay-scrubber"
+              min={0}
+              max={recording.duration}
+              step={0.001}
+              value={currentTime}
+              onChange={(e) => onSeek(Number(e.target.value))}
+              aria-label="Timeline"
+            />
+            <span className="replay-time">
+              {formatTime(currentTime)} / {formatTime(recording.duration)}
+            </span>
+          </div>
+          <div className="replay-row">
+            <span className="replay-frame">
+              Frame {frameIndex + 1}/{frameCount}
+              {recording.truncated && ' (truncated)'}
+            </span>
+            <select
+              className="replay-speed"
+              value={playbackSpeed}
+              onChange={(e) => onSpeedChange(Number(e.target.value))}
+              title="Playback speed"
+            >
+              {PLAYBACK_SPEEDS.map(speed => (
+                <option key={speed} value={speed}>{speed}x</option>
+              ))}
+            </select>
+            <button className="replay-button" onClick={() => onExport('json')} title="Download the recording as JSON">
+              Export JSON
+            </button>
+            <button className="replay-button" onClick={() => onExport('binary')} title="Download the recording as compact binary">
+              Export Binary
+            </button>
+            <button className="replay-button exit" onClick={onExitReplay} title="Return to the live simulation">
+              Exit Replay
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <div className="feedback-message error-message">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -0,0 +1,224 @@
+import React, { Suspense, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { useGLTF } from '@react-three/drei';
+import * as THREE from 'three';
+import { CompoundPart, DecompositionQuality, GLBCollisionType, ObjectType, PrimitiveShape } from '../types/simulation';
+import {
+  Recording,
+  RecordingTrack,
+  findFrameIndex,
+  getTrackTransform
+} from '../utils/recording';
+import {
+  DEFAULT_COMPOUND_PARTS,
+  PrimitiveDimensions,
+  getCompoundLocalOffsets,
+  getPrimitiveGeometry
+} from '../utils/primitiveShapes';
+import { createCollisionShapeFromGLB } from '../utils/glbPhysics';
+import { DEFAULT_DECOMPOSITION_QUALITY } from '../utils/convexDecomposition';
+import { useConvexDecomposition } from '../hooks/useConvexDecomposition';
+import ErrorBoundary from './ErrorBoundary';
+
+interface ReplaySceneProps {
+  recording: Recording;
+  time: number;
+}
+
+interface FrameSample {
+  index: number;
+  nextIndex: number;
+  alpha: number;
+}
+
+// Scratch objects for interpolation
+const fromPosition = new THREE.Vector3();
+const toPosition = new THREE.Vector3();
+const fromQuaternion = new THREE.Quaternion();
+const toQuaternion = new THREE.Quaternion();
+
+const DEFAULT_COLORS: Partial<Record<ObjectType, string>> = {
+  [ObjectType.BALL]: 'orange',
+  [ObjectType.BOX]: 'blue',
+  [ObjectType.CYLINDER]: '#51cf66',
+  [ObjectType.CAPSULE]: '#cc5de8',
+  [ObjectType.CONE]: '#fcc419',
+  [ObjectType.COMPOUND]: '#868e96'
+};
+
+const ReplayPrimitive: React.FC<{
+  shape: PrimitiveShape;
+  dimensions: PrimitiveDimensions;
+  color: string;
+  position?: [number, number, number];
+}> = ({ shape, dimensions, color, position }) => {
+  const { key } = getPrimitiveGeometry(shape, dimensions);
+  // Keyed on the dimensions so the geometry is only rebuilt when they change
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const geometry = useMemo(() => getPrimitiveGeometry(shape, dimensions).create(), [key]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <mesh castShadow receiveShadow geometry={geometry} position={position}>
+      <meshStandardMaterial color={color} />
+    </mesh>
+  );
+};
+
+// Compound parts are laid out around the root part, whose transform is the recorded one
+const ReplayCompound: React.FC<{ parts: CompoundPart[]; color: string }> = ({ parts, color }) => {
+  const offsets = getCompoundLocalOffsets(parts);
+  return (
+    <>
+      {parts.map((part, index) => (
+        <ReplayPrimitive
+          key={index}
+          shape={part.shape}
+          dimensions={part}
+          color={part.color ?? color}
+          position={offsets[index]}
+        />
+      ))}
+    </>
+  );
+};
+
+const PRIMITIVE_TRACK_SHAPES: Partial<Record<ObjectType, PrimitiveShape>> = {
+  [ObjectType.BALL]: 'ball',
+  [ObjectType.BOX]: 'box',
+  [ObjectType.CYLINDER]: 'cylinder',
+  [ObjectType.CAPSULE]: 'capsule',
+  [ObjectType.CONE]: 'cone'
+};
+
+const ReplayShape: React.FC<{ track: RecordingTrack }> = ({ track }) => {
+  const color = track.props.color || DEFAULT_COLORS[track.type] || 'blue';
+
+  if (track.type === ObjectType.COMPOUND) {
+    const parts = track.props.parts?.length ? track.props.parts : DEFAULT_COMPOUND_PARTS;
+    return <ReplayCompound parts={parts} color={color} />;
+  }
+
+  return (
+    <ReplayPrimitive
+      shape={PRIMITIVE_TRACK_SHAPES[track.type] ?? 'box'}
+      dimensions={track.props}
+      color={color}
+    />
+  );
+};
+
+const ReplayGLBModel: React.FC<{
+  url: string;
+  scale: [number, number, number];
+  collisionType?: GLBCollisionType;
+  decompositionQuality?: DecompositionQuality;
+}> = ({ url, scale, collisionType, decompositionQuality = DEFAULT_DECOMPOSITION_QUALITY }) => {
+  const { scene } = useGLTF(url);
+  const instance = useMemo(() => scene.clone(true), [scene]);
+  // Usually cached from the live run; the recorded transforms are the root part's
+  const decomposition = useConvexDecomposition(collisionType === 'decomposed' ? scene : null, url, scale, decompositionQuality);
+  const rootCenter = decomposition.parts?.[0]?.center;
+  // Convex bodies are centred on their hull (see PhysicsGLB), so the model sits offset from the body
+  const offset = useMemo(() => {
+    if (collisionType === 'box' || collisionType === undefined) return undefined;
+    const center = rootCenter ?? createCollisionShapeFromGLB(scene, 'convex', scale)?.center;
+    return center ? [-center[0], -center[1], -center[2]] as [number, number, number] : undefined;
+  }, [scene, scale, collisionType, rootCenter]);
+  return <primitive object={instance} scale={scale} position={offset} />;
+};
+
+// GLB urls are blob urls from the recording session; fall back to a placeholder box
+// when the model is not available (e.g. a recording shared by a teammate)
+const ReplayGLB: React.FC<{ track: RecordingTrack }> = ({ track }) => {
+  const scale = track.props.scale ?? [1, 1, 1];
+  const placeholder = (
+    <mesh>
+      <boxGeometry args={scale} />
+      <meshStandardMaterial color="#888888" wireframe />
+    </mesh>
+  );
+
+  if (!track.props.url) return placeholder;
+
+  return (
+    <ErrorBoundary fallback={placeholder}>
+      <Suspense fallback={placeholder}>
+        <ReplayGLBModel
+          url={track.props.url}
+          scale={scale}
+          collisionType={track.props.collisionType}
+          decompositionQuality={track.props.decompositionQuality}
+        />
+      </Suspense>
+    </ErrorBoundary>
+  );
+};
+
+const ReplayBody: React.FC<{
+  track: RecordingTrack;
+  trackIndex: number;
+  recording: Recording;
+  sample: FrameSample;
+}> = ({ track, trackIndex, recording, sample }) => {
+  const groupRef = useRef<THREE.Group>(null);
+
+  useLayoutEffect(() => {
+    const group = groupRef.current;
+    if (!group) return;
+
+    const from = sample.index >= 0 ? getTrackTransform(recording.frames[sample.index], trackIndex) : null;
+    if (!from) {
+      group.visible = false;
+      return;
+    }
+    const to = getTrackTransform(recording.frames[sample.nextIndex], trackIndex) || from;
+
+    fromPosition.set(from[0], from[1], from[2]);
+    toPosition.set(to[0], to[1], to[2]);
+    fromQuaternion.set(from[3], from[4], from[5], from[6]);
+    toQuaternion.set(to[3], to[4], to[5], to[6]);
+
+    group.visible = true;
+    group.position.lerpVectors(fromPosition, toPosition, sample.alpha);
+    group.quaternion.slerpQuaternions(fromQuaternion, toQuaternion, sample.alpha);
+  }, [recording, trackIndex, sample]);
+
+  return (
+    <group ref={groupRef} visible={false}>
+      {track.type === ObjectType.GLB_MODEL ? <ReplayGLB track={track} /> : <ReplayShape track={track} />}
+    </group>
+  );
+};
+
+/**
+ * Plays back recorded transforms with plain meshes; no rigid bodies are created
+ */
+const ReplayScene: React.FC<ReplaySceneProps> = ({ recording, time }) => {
+  const sample = useMemo<FrameSample>(() => {
+    const index = findFrameIndex(recording, time);
+    const nextIndex = Math.min(index + 1, recording.frames.length - 1);
+    if (index < 0 || nextIndex === index) {
+      return { index, nextIndex: Math.max(index, 0), alpha: 0 };
+    }
+    const start = recording.frames[index].time;
+    const span = recording.frames[nextIndex].time - start;
+    const alpha = span > 0 ? Math.min(1, Math.max(0, (time - start) / span)) : 0;
+    return { index, nextIndex, alpha };
+  }, [recording, time]);
+
+  return (
+    <group name="replay-scene">
+      {recording.tracks.map((track, trackIndex) => (
+        <ReplayBody
+          key={track.id}
+          track={track}
+          trackIndex={trackIndex}
+          recording={recording}
+          sample={sample}
+        />
+      ))}
+    </group>
+  );
+};
+
+export default ReplayScene;
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { debugLogger } from '../utils/debugLogger';
+import {
+  CHART_WINDOWS,
+  detectEnergyGain,
+  METRICS_LIMITS,
+  sceneMetrics,
+  SceneMetricsSample
+} from '../utils/sceneMetrics';
+import './SceneChartsPanel.css';
+
+interface SceneChartsPanelProps {
+  isVisible: boolean;
+  onToggle: () => void;
+}
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  value: (sample: SceneMetricsSample) => number;
+}
+
+interface MetricChartProps {
+  title: string;
+  unit: string;
+  samples: SceneMetricsSample[];
+  series: ChartSeries[];
+  // Simulated seconds shown, ending at the latest sample
+  windowSeconds: number;
+  precision?: number;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 80;
+// How often the panel reads the metrics history, in ms
+const REFRESH_INTERVAL = 250;
+
+const ENERGY_SERIES: ChartSeries[] = [
+  { label: 'Kinetic', color: '#ff6b6b', value: sample => sample.kinetic },
+  { label: 'Potential', color: '#4dabf7', value: sample => sample.potential },
+  { label: 'Total', color: '#ffd43b', value: sample => sample.kinetic + sample.potential }
+];
+
+const MOMENTUM_SERIES: ChartSeries[] = [
+  { label: 'Momentum', color: '#69db7c', value: sample => sample.momentum }
+];
+
+const BODY_SERIES: ChartSeries[] = [
+  { label: 'Active', color: '#00e676', value: sample => sample.active },
+  { label: 'Sleeping', color: '#5c6bc0', value: sample => sample.sleeping }
+];
+
+const MetricChart: React.FC<MetricChartProps> = ({ title, unit, samples, series, windowSeconds, precision = 2 }) => {
+  const end = samples.length > 0 ? samples[samples.length - 1].time : 0;
+  const start = Math.max(0, end - windowSeconds);
+  const values = series.map(entry => samples.map(entry.value));
+  const all = values.flat();
+  // Zero stays in view so growth and decay read against a fixed baseline
+  const min = Math.min(0, ...all);
+  const max = Math.max(min + 1e-6, ...all);
+
+  const toPoints = (line: number[]) => samples.map((sample, index) => {
+    const x = ((sample.time - start) / Math.max(end - start, METRICS_LIMITS.SAMPLE_INTERVAL)) * CHART_WIDTH;
+    const y = CHART_HEIGHT - ((line[index] - min) / (max - min)) * CHART_HEIGHT;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+
+  return (
+    <div className="scene-chart">
+      <div className="scene-chart-header">
+        <span className="scene-chart-title">{title}</span>
+        <span className="scene-chart-range">{max.toFixed(precision)} {unit}</span>
+      </div>
+      <svg
+        className="scene-chart-plot"
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`${title} chart`}
+      >
+        {min < 0 && (
+          <line
+            className="scene-chart-zero"
+            x1={0}
+            x2={CHART_WIDTH}
+            y1={CHART_HEIGHT + (min / (max - min)) * CHART_HEIGHT}
+            y2={CHART_HEIGHT + (min / (max - min)) * CHART_HEIGHT}
+          />
+        )}
+        {samples.length > 1 && series.map((entry, index) => (
+          <polyline key={entry.label} points={toPoints(values[index])} stroke={entry.color} fill="none" strokeWidth={1.5} />
+        ))}
+      </svg>
+      <div className="scene-chart-legend">
+        {series.map((entry, index) => (
+          <span key={entry.label} className="scene-chart-key">
+            <span className="scene-chart-swatch" style={{ background: entry.color }} />
+            {entry.label}: {samples.length > 0 ? values[index][values[index].length - 1].toFixed(precision) : '–'}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Live charts of the scene's kinetic and potential energy, total momentum and active
+ * versus sleeping bodies over an adjustable window of simulated time
+ */
+const SceneChartsPanel: React.FC<SceneChartsPanelProps> = ({ isVisible, onToggle }) => {
+  const [windowSeconds, setWindowSeconds] = useState<number>(10);
+  const [samples, setSamples] = useState<SceneMetricsSample[]>(() => sceneMetrics.getSamples(10));
+
+  useEffect(() => {
+    if (!isVisible) return;
+    setSamples(sceneMetrics.getSamples(windowSeconds));
+    const interval = setInterval(() => {
+      const next = sceneMetrics.getSamples(windowSeconds);
+      // Skip re-renders while nothing steps
+      setSamples(prev => (
+        prev.length === next.length && prev[prev.length - 1] === next[next.length - 1] ? prev : next
+      ));
+    }, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isVisible, windowSeconds]);
+
+  const energyGain = isVisible ? detectEnergyGain(samples) : null;
+  const gaining = energyGain !== null;
+  // Logged once each time a rise starts
+  useEffect(() => {
+    if (gaining) debugLogger.warn('Scene energy is rising without new objects');
+  }, [gaining]);
+
+  if (!isVisible) {
+    return (
+      <button className="scene-charts-toggle-btn" onClick={onToggle}>
+        📈 Charts
+      </button>
+    );
+  }
+
+  return (
+    <div className="scene-charts-panel">
+      <div className="scene-charts-header">
+        <h3>📈 Scene Charts</h3>
+        <div className="scene-charts-controls">
+          <select
+            className="scene-charts-window"
+            value={windowSeconds}
+            onChange={(e) => setWindowSeconds(Number(e.target.value))}
+            aria-label="Time window"
+          >
+            {CHART_WINDOWS.map(seconds => <option key={seconds} value={seconds}>Last {seconds}s</option>)}
+          </select>
+          <button onClick={onToggle} className="scene-charts-close-btn" aria-label="Close charts">
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {energyGain !== null && (
+        <div className="scene-charts-warning" role="alert">
+          Total energy rose {(energyGain * 100).toFixed(0)}% with no objects added; unless objects were dragged, the simulation may be unstable.
+        </div>
+      )}
+
+      <MetricChart title="Energy" unit="J" samples={samples} series={ENERGY_SERIES} windowSeconds={windowSeconds} />
+      <MetricChart title="Momentum" unit="kg·m/s" samples={samples} series={MOMENTUM_SERIES} windowSeconds={windowSeconds} />
+      <MetricChart title="Bodies" unit="" samples={samples} series={BODY_SERIES} windowSeconds={windowSeconds} precision={0} />
+
+      {samples.length === 0 && <div className="scene-charts-empty">Run the simulation to record data.</div>}
+    </div>
+  );
+};
+
+export default SceneChartsPanel;
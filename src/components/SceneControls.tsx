@@ -0,0 +1,134 @@
+import React, { useRef, useState } from 'react';
+import { SimulationError, ErrorType, logError } from '../utils/errorHandling';
+import { parseScene, getSessionModelIds, LoadedScene, SceneFile } from '../utils/sceneSerialization';
+
+interface SceneControlsProps {
+  // Returns the exported scene so models that were not saved in it can be reported
+  onExportScene: () => SceneFile;
+  onImportScene: (scene: LoadedScene) => void;
+  onError?: (error: SimulationError) => void;
+  disabled?: boolean;
+}
+
+const readFileAsText = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error || new Error('Failed to read scene file'));
+    reader.readAsText(file);
+  });
+};
+
+const SceneControls: React.FC<SceneControlsProps> = ({
+  onExportScene,
+  onImportScene,
+  onError,
+  disabled = false
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  const handleExportClick = () => {
+    setError(null);
+    setSuccess(null);
+    const sessionModels = getSessionModelIds(onExportScene().objects).length;
+    // Loaded model files are not embedded; after a reload the scene loads without them
+    setWarning(sessionModels > 0
+      ? `${sessionModels} GLB model(s) are linked for this session only and are left out if the scene is imported after a reload.`
+      : null);
+  };
+
+  const handleImportClick = () => {
+    fileInputRef.current?.click();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setSuccess(null);
+    setWarning(null);
+
+    try {
+      const contents = await readFileAsText(file);
+      const scene = parseScene(contents);
+      onImportScene(scene);
+      setSuccess(`Loaded ${file.name} (${scene.objects.length} objects)`);
+      const unavailableModels = scene.unavailableModels?.length ?? 0;
+      if (unavailableModels > 0) {
+        setWarning(`${unavailableModels} GLB model(s) from an earlier session were left out. Load their files again to add them.`);
+      }
+      setTimeout(() => setSuccess(null), 4000);
+    } catch (err) {
+      const simulationError = err instanceof SimulationError
+        ? err
+        : new SimulationError(
+            ErrorType.SCENE_INVALID_FORMAT,
+            err instanceof Error ? err : new Error('Unknown error'),
+            { fileName: file.name }
+          );
+      setError(simulationError.userMessage);
+      onError?.(simulationError);
+      logError(simulationError);
+    } finally {
+      // Clear the input so the same file can be selected again
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div className="scene-controls">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFileChange}
+        style={{ display: 'none' }}
+        data-testid="scene-file-input"
+      />
+
+      <div className="button-group">
+        <button
+          className="control-button export-scene"
+          onClick={handleExportClick}
+          title="Save all objects and world settings to a scene file"
+        >
+          Export Scene
+        </button>
+        <button
+          className="control-button import-scene"
+          onClick={handleImportClick}
+          disabled={disabled}
+          title="Replace the current simulation with a saved scene file"
+        >
+          Import Scene
+        </button>
+      </div>
+
+      {error && (
+        <div className="feedback-message error-message">
+          {error}
+        </div>
+      )}
+
+      {warning && (
+        <div className="feedback-message warning-message">
+          {warning}
+        </div>
+      )}
+
+      {success && (
+        <div className="feedback-message success-message">
+          {success}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SceneControls;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { useFrame } from '@react-three/fiber';
+import { bodyRegistry } from '../utils/bodyRegistry';
+import { simulationClock } from '../utils/simulationClock';
+import { computeSceneMetrics, sceneMetrics } from '../utils/sceneMetrics';
+
+interface SceneMetricsSamplerProps {
+  gravity: [number, number, number];
+}
+
+/**
+ * Records scene energy, momentum and sleep totals into the metrics history as the
+ * simulation clock advances. Must be mounted after BodyStateTracker so velocities
+ * belong to the same step.
+ */
+const SceneMetricsSampler: React.FC<SceneMetricsSamplerProps> = ({ gravity }) => {
+  useFrame(() => {
+    const { time } = simulationClock.getSnapshot();
+    if (!sceneMetrics.isDue(time)) return;
+    sceneMetrics.record(computeSceneMetrics(bodyRegistry.getAll(), gravity, time));
+  });
+
+  return null;
+};
+
+export default SceneMetricsSampler;
@@ -0,0 +1,162 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TerrainSettings } from '../types/simulation';
+import { SpawnGhost } from '../hooks/useSpawnPlacement';
+import { bodyRegistry } from '../utils/bodyRegistry';
+import { arenaSurfaces } from '../utils/arenaSurfaces';
+import { getObjectPrimitiveShape, getPrimitiveGeometry } from '../utils/primitiveShapes';
+import { getCursorSpawnPosition, getPatternPosition, getSpawnHalfExtents } from '../utils/spawnPlacement';
+
+interface SpawnPlacerProps {
+  ghost: SpawnGhost;
+  // Ground box the cursor can place onto
+  ground: { position: [number, number, number]; halfExtents: [number, number, number] };
+  // Layout slots are raised over the terrain
+  terrain?: TerrainSettings | null;
+  // Called with the surface point clicked in at-cursor mode
+  onPlace?: (point: [number, number, number]) => void;
+  onCancel?: () => void;
+}
+
+// Pointer travel in pixels past which a press is an orbit drag rather than a click
+const CLICK_TOLERANCE = 5;
+
+// Scratch objects reused every frame
+const pointerNdc = new THREE.Vector2();
+const groundPoint = new THREE.Vector3();
+const groundPlane = new THREE.Plane();
+const raycaster = new THREE.Raycaster();
+
+/**
+ * Ghost preview of where the next spawn will land. In at-cursor mode the ghost follows
+ * the surface under the cursor (spawned objects, arena pieces or the ground) and a click
+ * places the object there; Escape cancels. Drags still orbit the camera.
+ */
+const SpawnPlacer: React.FC<SpawnPlacerProps> = ({ ghost, ground, terrain = null, onPlace, onCancel }) => {
+  const { camera, gl } = useThree();
+  const meshRef = useRef<THREE.Mesh>(null);
+  // Whether the pointer is over the canvas, and where the current press started
+  const hoveringRef = useRef(false);
+  const pressRef = useRef<{ x: number; y: number } | null>(null);
+
+  const halfExtents = useMemo(() => getSpawnHalfExtents(ghost.type, ghost.props), [ghost.type, ghost.props]);
+  const geometry = useMemo(() => {
+    const shape = getObjectPrimitiveShape(ghost.type);
+    if (shape) return getPrimitiveGeometry(shape, ghost.props ?? {}).create();
+    return new THREE.BoxGeometry(halfExtents[0] * 2, halfExtents[1] * 2, halfExtents[2] * 2);
+  }, [ghost.type, ghost.props, halfExtents]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // Latest props for the DOM listeners
+  const onPlaceRef = useRef(onPlace);
+  onPlaceRef.current = onPlace;
+  const onCancelRef = useRef(onCancel);
+  onCancelRef.current = onCancel;
+
+  // Nearest surface point under the pointer, or null when it points at nothing
+  const pickSurface = (): [number, number, number] | null => {
+    raycaster.setFromCamera(pointerNdc, camera);
+    const targets = [...bodyRegistry.getAll().map(body => body.object3D), ...arenaSurfaces.getAll()];
+    const hits = raycaster.intersectObjects(targets, true);
+    let best: { distance: number; point: THREE.Vector3 } | null = hits[0] ?? null;
+
+    const top = ground.position[1] + ground.halfExtents[1];
+    groundPlane.set(new THREE.Vector3(0, 1, 0), -top);
+    if (raycaster.ray.intersectPlane(groundPlane, groundPoint)
+      && Math.abs(groundPoint.x - ground.position[0]) <= ground.halfExtents[0]
+      && Math.abs(groundPoint.z - ground.position[2]) <= ground.halfExtents[2]) {
+      const distance = raycaster.ray.origin.distanceTo(groundPoint);
+      if (!best || distance < best.distance) best = { distance, point: groundPoint };
+    }
+    return best ? [best.point.x, best.point.y, best.point.z] : null;
+  };
+  const pickSurfaceRef = useRef(pickSurface);
+  pickSurfaceRef.current = pickSurface;
+
+  const isCursor = ghost.mode === 'cursor';
+
+  useEffect(() => {
+    if (!isCursor) return;
+    const element = gl.domElement;
+
+    const updatePointer = (event: PointerEvent) => {
+      const rect = element.getBoundingClientRect();
+      pointerNdc.set(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      updatePointer(event);
+      hoveringRef.current = true;
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button !== 0) return;
+      pressRef.current = { x: event.clientX, y: event.clientY };
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      const press = pressRef.current;
+      pressRef.current = null;
+      if (event.button !== 0 || !press) return;
+      if (Math.hypot(event.clientX - press.x, event.clientY - press.y) > CLICK_TOLERANCE) return;
+      updatePointer(event);
+      const point = pickSurfaceRef.current();
+      if (point) onPlaceRef.current?.(point);
+    };
+
+    const handlePointerLeave = () => {
+      hoveringRef.current = false;
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onCancelRef.current?.();
+    };
+
+    element.addEventListener('pointermove', handlePointerMove);
+    element.addEventListener('pointerdown', handlePointerDown);
+    element.addEventListener('pointerup', handlePointerUp);
+    element.addEventListener('pointerleave', handlePointerLeave);
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      element.removeEventListener('pointermove', handlePointerMove);
+      element.removeEventListener('pointerdown', handlePointerDown);
+      element.removeEventListener('pointerup', handlePointerUp);
+      element.removeEventListener('pointerleave', handlePointerLeave);
+      window.removeEventListener('keydown', handleKeyDown);
+      hoveringRef.current = false;
+      pressRef.current = null;
+    };
+  }, [isCursor, gl]);
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    let position: [number, number, number] | null;
+    if (ghost.mode === 'cursor') {
+      const point = hoveringRef.current ? pickSurface() : null;
+      position = point ? getCursorSpawnPosition(point, halfExtents) : null;
+    } else {
+      // Towers move as they settle, so the slot is worked out every frame
+      const bodies = ghost.mode === 'stack' ? bodyRegistry.getAll().map(body => body.object3D) : [];
+      position = getPatternPosition(ghost.mode, ghost.slot, halfExtents, bodies, terrain);
+    }
+
+    mesh.visible = position !== null;
+    if (position) mesh.position.set(...position);
+  });
+
+  return (
+    <mesh ref={meshRef} geometry={geometry} visible={false} raycast={() => null}>
+      <meshBasicMaterial color="#74c0fc" transparent opacity={0.35} depthWrite={false} />
+    </mesh>
+  );
+};
+
+export default SpawnPlacer;
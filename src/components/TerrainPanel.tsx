@@ -0,0 +1,119 @@
+import React from 'react';
+import { Heightmap, TerrainSettings, TerrainSource } from '../types/simulation';
+import { SimulationError } from '../utils/errorHandling';
+import { generateSeed } from '../utils/random';
+import { DEFAULT_TERRAIN, TERRAIN_LIMITS, TERRAIN_SOURCE_LABELS } from '../utils/terrain';
+import HeightmapLoader from './HeightmapLoader';
+
+export interface TerrainPanelProps {
+  terrain: TerrainSettings | null;
+  // The terrain is never wider than the ground
+  groundSize: number;
+  onChange: (terrain: TerrainSettings | null) => void;
+  onError?: (error: SimulationError) => void;
+}
+
+const SOURCES = Object.keys(TERRAIN_SOURCE_LABELS) as TerrainSource[];
+
+/**
+ * Heightfield terrain over the ground: seeded noise or a loaded heightmap, with its
+ * resolution, height and size
+ */
+const TerrainPanel: React.FC<TerrainPanelProps> = ({ terrain, groundSize, onChange, onError }) => {
+  const current = terrain ?? DEFAULT_TERRAIN;
+
+  const handleSourceChange = (value: string) => {
+    onChange(value ? { ...current, source: value as TerrainSource } : null);
+  };
+
+  const handleLoadHeightmap = (heightmap: Heightmap) => {
+    onChange({ ...current, source: 'image', heightmap });
+  };
+
+  return (
+    <div className="terrain">
+      <div className="info-item arena-row">
+        <span className="info-label">Terrain:</span>
+        <select
+          className="material-select"
+          value={terrain?.source ?? ''}
+          onChange={(e) => handleSourceChange(e.target.value)}
+          aria-label="Terrain"
+        >
+          <option value="">Flat</option>
+          {SOURCES.map(source => (
+            <option key={source} value={source} disabled={source === 'image' && !current.heightmap}>
+              {source === 'image' && current.heightmap ? current.heightmap.name : TERRAIN_SOURCE_LABELS[source]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <HeightmapLoader onLoadHeightmap={handleLoadHeightmap} onError={onError} />
+
+      {terrain && (
+        <>
+          {terrain.source === 'noise' && (
+            <div className="info-item arena-row">
+              <span className="info-label">Seed:</span>
+              <span className="info-value" data-testid="terrain-seed">{terrain.seed}</span>
+              <button
+                className="control-button seed-button"
+                onClick={() => onChange({ ...terrain, seed: generateSeed() })}
+                title="Generate different terrain"
+                aria-label="New terrain seed"
+              >
+                New
+              </button>
+            </div>
+          )}
+
+          <div className="info-item arena-row">
+            <span className="info-label">Detail:</span>
+            <input
+              type="range"
+              min={TERRAIN_LIMITS.MIN_RESOLUTION}
+              max={TERRAIN_LIMITS.MAX_RESOLUTION}
+              step={8}
+              value={terrain.resolution}
+              onChange={(e) => onChange({ ...terrain, resolution: Number(e.target.value) })}
+              aria-label="Terrain resolution"
+              title="Height samples along each side"
+            />
+            <span className="info-value">{terrain.resolution}</span>
+          </div>
+
+          <div className="info-item arena-row">
+            <span className="info-label">Height:</span>
+            <input
+              type="range"
+              min={TERRAIN_LIMITS.MIN_AMPLITUDE}
+              max={TERRAIN_LIMITS.MAX_AMPLITUDE}
+              step={0.5}
+              value={terrain.amplitude}
+              onChange={(e) => onChange({ ...terrain, amplitude: Number(e.target.value) })}
+              aria-label="Terrain amplitude"
+            />
+            <span className="info-value">{terrain.amplitude} m</span>
+          </div>
+
+          <div className="info-item arena-row">
+            <span className="info-label">Size:</span>
+            <input
+              type="range"
+              min={TERRAIN_LIMITS.MIN_EXTENT}
+              max={Math.min(TERRAIN_LIMITS.MAX_EXTENT, groundSize)}
+              step={2}
+              value={terrain.extent}
+              onChange={(e) => onChange({ ...terrain, extent: Number(e.target.value) })}
+              aria-label="Terrain extent"
+            />
+            <span className="info-value">{terrain.extent} m</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TerrainPanel;
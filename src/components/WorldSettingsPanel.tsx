@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { GravityPresetName, WorldSettings } from '../types/simulation';
+import { getGravityPresetName, GRAVITY_PRESETS, STEP_RATES, WORLD_LIMITS } from '../utils/worldSettings';
+
+interface WorldSettingsPanelProps {
+  settings: WorldSettings;
+  onChange: (changes: Partial<WorldSettings>) => void;
+  // Deterministic runs use their own fixed stepping
+  deterministic?: boolean;
+}
+
+const AXES = ['X', 'Y', 'Z'] as const;
+
+const toDraft = (gravity: [number, number, number]) => gravity.map(String);
+
+const parseGravity = (draft: string[]): [number, number, number] | null => {
+  const values = draft.map(value => (value.trim() === '' ? NaN : Number(value)));
+  return values.every(value => isFinite(value) && Math.abs(value) <= WORLD_LIMITS.MAX_GRAVITY)
+    ? values as [number, number, number]
+    : null;
+};
+
+/**
+ * Gravity, time scale and stepping of the physics world. Gravity and stepping changes
+ * rebuild the world, so gravity is typed into a draft and applied with a button.
+ */
+const WorldSettingsPanel: React.FC<WorldSettingsPanelProps> = ({ settings, onChange, deterministic = false }) => {
+  const [gravityDraft, setGravityDraft] = useState<string[]>(() => toDraft(settings.gravity));
+
+  // Loaded scenes and presets replace the draft; keyed by value since every update copies the vector
+  const gravityKey = settings.gravity.join(',');
+  useEffect(() => {
+    setGravityDraft(gravityKey.split(','));
+  }, [gravityKey]);
+
+  const activePreset = getGravityPresetName(settings.gravity);
+  const draftGravity = parseGravity(gravityDraft);
+  const draftChanged = !!draftGravity && draftGravity.some((value, axis) => value !== settings.gravity[axis]);
+
+  const stepRate = Math.round(1 / settings.fixedTimeStep);
+  const stepRates: number[] = STEP_RATES.includes(stepRate as typeof STEP_RATES[number])
+    ? [...STEP_RATES]
+    : [...STEP_RATES, stepRate].sort((a, b) => a - b);
+
+  return (
+    <div className="world-settings">
+      <div className="button-group world-presets">
+        {(Object.keys(GRAVITY_PRESETS) as GravityPresetName[]).map(name => (
+          <button
+            key={name}
+            className={`control-button world-preset ${activePreset === name ? 'active' : ''}`}
+            onClick={() => onChange({ gravity: [...GRAVITY_PRESETS[name].gravity] })}
+            aria-pressed={activePreset === name}
+            title={`Gravity ${GRAVITY_PRESETS[name].gravity[1]} m/s²`}
+          >
+            {GRAVITY_PRESETS[name].label}
+          </button>
+        ))}
+      </div>
+
+      <div className="info-item world-gravity">
+        <span className="info-label">Gravity:</span>
+        {AXES.map((axis, index) => (
+          <input
+            key={axis}
+            type="number"
+            step={0.1}
+            className="seed-input"
+            value={gravityDraft[index]}
+            aria-label={`Gravity ${axis}`}
+            onChange={(e) => setGravityDraft(gravityDraft.map((value, i) => (i === index ? e.target.value : value)))}
+            onKeyDown={(e) => { if (e.key === 'Enter' && draftChanged && draftGravity) onChange({ gravity: draftGravity }); }}
+          />
+        ))}
+        <button
+          className="control-button seed-button"
+          onClick={() => draftGravity && onChange({ gravity: draftGravity })}
+          disabled={!draftChanged}
+          title={`Apply this gravity vector (up to ${WORLD_LIMITS.MAX_GRAVITY} m/s² per axis)`}
+        >
+          Apply
+        </button>
+      </div>
+
+      <div className="info-item world-time-scale">
+        <span className="info-label">Time scale:</span>
+        <input
+          type="range"
+          min={WORLD_LIMITS.MIN_TIME_SCALE}
+          max={WORLD_LIMITS.MAX_TIME_SCALE}
+          step={0.05}
+          value={settings.timeScale}
+          onChange={(e) => onChange({ timeScale: Number(e.target.value) })}
+          onDoubleClick={() => onChange({ timeScale: 1 })}
+          aria-label="Time scale"
+          title="Slow motion below 1x, fast-forward above; double-click for real time"
+        />
+        <span className="info-value">{settings.timeScale.toFixed(2)}x</span>
+      </div>
+
+      <div className="info-item world-stepping">
+        <span className="info-label">Step rate:</span>
+        <select
+          className="material-select"
+          value={stepRate}
+          onChange={(e) => onChange({ fixedTimeStep: 1 / Number(e.target.value) })}
+          disabled={deterministic}
+          aria-label="Step rate"
+          title="Physics steps per simulated second"
+        >
+          {stepRates.map(rate => <option key={rate} value={rate}>{rate} Hz</option>)}
+        </select>
+        <span className="info-label">Substeps:</span>
+        <select
+          className="material-select"
+          value={settings.maxSubSteps}
+          onChange={(e) => onChange({ maxSubSteps: Number(e.target.value) })}
+          disabled={deterministic}
+          aria-label="Max substeps"
+          title="Most physics steps taken in one frame to keep up with real time"
+        >
+          {Array.from({ length: WORLD_LIMITS.MAX_SUB_STEPS }, (_, i) => i + 1).map(count => (
+            <option key={count} value={count}>{count}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="world-note">
+        {deterministic
+          ? 'Deterministic mode steps at 60 Hz, one step per frame.'
+          : 'Gravity and stepping changes rebuild the physics world; objects keep their motion.'}
+      </div>
+    </div>
+  );
+};
+
+export default WorldSettingsPanel;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ArenaPanel from '../ArenaPanel';
+import { DEFAULT_ARENA } from '../../utils/arena';
+import { ArenaSettings } from '../../types/simulation';
+
+describe('ArenaPanel', () => {
+  it('changes the ground size and material', () => {
+    const onChange = jest.fn();
+    render(<ArenaPanel settings={DEFAULT_ARENA} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Ground size'), { target: { value: '30' } });
+    expect(onChange).toHaveBeenLastCalledWith({ groundSize: 30 });
+
+    fireEvent.change(screen.getByLabelText('Ground material'), { target: { value: 'ice' } });
+    expect(onChange).toHaveBeenLastCalledWith({ groundMaterial: 'ice' });
+  });
+
+  it('adds pieces from the preset library', () => {
+    const onChange = jest.fn();
+    render(<ArenaPanel settings={DEFAULT_ARENA} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Arena piece'), { target: { value: 'steepRamp' } });
+    fireEvent.click(screen.getByLabelText('Add arena piece'));
+    expect(onChange).toHaveBeenLastCalledWith({
+      pieces: [{ id: 'ramp-0', kind: 'ramp', angle: 30, heading: 0 }]
+    });
+  });
+
+  it('adjusts ramp inclines and removes pieces', () => {
+    const onChange = jest.fn();
+    const settings: ArenaSettings = {
+      ...DEFAULT_ARENA,
+      pieces: [{ id: 'walls', kind: 'walls' }, { id: 'ramp-0', kind: 'ramp', angle: 15, heading: 0 }]
+    };
+    render(<ArenaPanel settings={settings} onChange={onChange} />);
+
+    // Walls are already in place
+    expect(screen.getByLabelText('Add arena piece')).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Ramp 0° incline'), { target: { value: '25' } });
+    expect(onChange).toHaveBeenLastCalledWith({
+      pieces: [settings.pieces[0], { ...settings.pieces[1], angle: 25 }]
+    });
+
+    fireEvent.click(screen.getByLabelText('Remove Glass walls'));
+    expect(onChange).toHaveBeenLastCalledWith({ pieces: [settings.pieces[1]] });
+  });
+});
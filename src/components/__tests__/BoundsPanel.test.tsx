@@ -0,0 +1,36 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import BoundsPanel from '../BoundsPanel';
+import { DEFAULT_WORLD_BOUNDS } from '../../utils/worldBounds';
+
+describe('BoundsPanel', () => {
+  it('changes the policy and size of the bounds', () => {
+    const onChange = jest.fn();
+    render(<BoundsPanel settings={DEFAULT_WORLD_BOUNDS} onChange={onChange} culledCount={0} onResetCount={jest.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Out-of-bounds policy'), { target: { value: 'wrap' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_WORLD_BOUNDS, policy: 'wrap' });
+
+    fireEvent.change(screen.getByLabelText('Bounds half width'), { target: { value: '40' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_WORLD_BOUNDS, halfWidth: 40 });
+  });
+
+  it('disables the size controls when culling is off', () => {
+    render(
+      <BoundsPanel settings={{ ...DEFAULT_WORLD_BOUNDS, policy: 'off' }} onChange={jest.fn()} culledCount={0} onResetCount={jest.fn()} />
+    );
+
+    expect(screen.getByLabelText('Bounds half width')).toBeDisabled();
+    expect(screen.getByLabelText('Bounds floor')).toBeDisabled();
+  });
+
+  it('shows and resets the culled counter', () => {
+    const onResetCount = jest.fn();
+    render(<BoundsPanel settings={DEFAULT_WORLD_BOUNDS} onChange={jest.fn()} culledCount={7} onResetCount={onResetCount} />);
+
+    expect(screen.getByTestId('culled-count')).toHaveTextContent('7');
+    fireEvent.click(screen.getByLabelText('Reset culled count'));
+    expect(onResetCount).toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,8 @@
 import React from 'react';
 import { render } from '@testing-library/react';
-import CollisionTestScene from '../CollisionTestScene';
+import CollisionTestScene, { COLLISION_TEST_IDS } from '../CollisionTestScene';
+import { collisionEvents } from '../../utils/collisionEvents';
+import { CollisionEvent } from '../../types/simulation';
 
 // Mock all physics components
 jest.mock('../PhysicsBall', () => {
@@ -64,6 +66,7 @@ describe('CollisionTestScene', () => {
     const collisionTypes = glbObjects.map(glb => glb.getAttribute('data-collision-type'));
     expect(collisionTypes).toContain('box');
     expect(collisionTypes).toContain('convex');
+    expect(collisionTypes).toContain('mesh');
   });
 
   it('creates both dynamic and static GLB objects', () => {
@@ -107,11 +110,35 @@ describe('CollisionTestScene', () => {
       />
     );
     
-    // The component should render without errors
-    // In a real physics engine, collisions would be detected automatically
     expect(onCollisionDetected).not.toHaveBeenCalled(); // No collisions yet in test
   });
 
+  it('reports contacts that begin between test objects', () => {
+    const onCollisionDetected = jest.fn();
+    const { unmount } = render(<CollisionTestScene onCollisionDetected={onCollisionDetected} />);
+
+    const begin: CollisionEvent = {
+      type: 'begin',
+      objectA: 'ground',
+      objectB: COLLISION_TEST_IDS.RED_BALL,
+      point: [-2, 0, 0],
+      normal: [0, 1, 0],
+      impulse: 9.9,
+      step: 60,
+      time: 1
+    };
+    collisionEvents.emit(begin);
+    collisionEvents.emit({ ...begin, type: 'end' });
+    collisionEvents.emit({ ...begin, objectB: 'unrelated-object' });
+
+    expect(onCollisionDetected).toHaveBeenCalledTimes(1);
+    expect(onCollisionDetected).toHaveBeenCalledWith('ground', COLLISION_TEST_IDS.RED_BALL, begin);
+
+    unmount();
+    collisionEvents.emit(begin);
+    expect(onCollisionDetected).toHaveBeenCalledTimes(1);
+  });
+
   it('handles missing GLB URL gracefully', () => {
     const { queryAllByTestId } = render(<CollisionTestScene />);
     
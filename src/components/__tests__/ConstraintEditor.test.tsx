@@ -0,0 +1,73 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ConstraintEditor from '../ConstraintEditor';
+import { ObjectConstraint, ObjectType, SpawnedObject } from '../../types/simulation';
+
+const door: SpawnedObject = { id: 'box-1-abc', type: ObjectType.BOX, position: [0, 1, 0], timestamp: 1, spawnIndex: 1 };
+const frame: SpawnedObject = { id: 'box-2-def', type: ObjectType.BOX, position: [1, 1, 0], timestamp: 2, spawnIndex: 2 };
+
+const hinge: ObjectConstraint = {
+  id: 'constraint-1',
+  type: 'hinge',
+  bodyA: 'box-1-abc',
+  bodyB: 'box-2-def',
+  anchorA: { position: [0.5, 0, 0], rotation: [0, 0, 0, 1] },
+  anchorB: { position: [-0.5, 0, 0], rotation: [0, 0, 0, 1] }
+};
+
+describe('ConstraintEditor', () => {
+  const onLink = jest.fn();
+  const onRemove = jest.fn();
+  const onClearTarget = jest.fn();
+
+  const renderEditor = (target: SpawnedObject | null, constraints: ObjectConstraint[] = []) => render(
+    <ConstraintEditor object={door} target={target} constraints={constraints}
+      onLink={onLink} onRemove={onRemove} onClearTarget={onClearTarget} />
+  );
+
+  beforeEach(() => {
+    onLink.mockClear();
+    onRemove.mockClear();
+    onClearTarget.mockClear();
+  });
+
+  it('lists existing joints and removes them', () => {
+    renderEditor(null, [hinge]);
+
+    expect(screen.getByText('box-2-def')).toBeInTheDocument();
+    expect(screen.getByText('Shift-click another object to link it')).toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText('Remove constraint-1'));
+    expect(onRemove).toHaveBeenCalledWith('constraint-1');
+  });
+
+  it('links a hinge with limits entered in degrees', () => {
+    renderEditor(frame);
+
+    fireEvent.change(screen.getByLabelText('Lower limit'), { target: { value: '-90' } });
+    fireEvent.change(screen.getByLabelText('Upper limit'), { target: { value: '0' } });
+    fireEvent.click(screen.getByText('Link'));
+
+    expect(onLink).toHaveBeenCalledWith('hinge', { pivot: 'midpoint', limits: { lower: -Math.PI / 2, upper: 0 } });
+  });
+
+  it('requires both limits or neither', () => {
+    renderEditor(frame);
+
+    fireEvent.change(screen.getByLabelText('Lower limit'), { target: { value: '-90' } });
+    fireEvent.click(screen.getByText('Link'));
+
+    expect(onLink).not.toHaveBeenCalled();
+    expect(screen.getByText('Set both limits, or leave both empty for a free joint.')).toBeInTheDocument();
+  });
+
+  it('links springs with their stiffness and damping', () => {
+    renderEditor(frame);
+
+    fireEvent.change(screen.getByLabelText('Joint type'), { target: { value: 'spring' } });
+    fireEvent.change(screen.getByLabelText('Stiffness (N/m)'), { target: { value: '25' } });
+    fireEvent.click(screen.getByText('Link'));
+
+    expect(onLink).toHaveBeenCalledWith('spring', { stiffness: 25, damping: 2 });
+  });
+});
@@ -2,6 +2,8 @@ import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import ControlPanel from '../ControlPanel';
+import { ObjectType } from '../../types/simulation';
+import { MATERIAL_NOTE } from '../../utils/physicsMaterials';
 
 // Mock the usePerformance hook
 jest.mock('../../hooks/usePerformance', () => ({
@@ -117,7 +119,7 @@ describe('ControlPanel', () => {
     expect(boxButton).toHaveAttribute('title', 'Add a physics box to the scene');
   });
 
-  it('disables add buttons when simulation is paused', () => {
+  it('keeps add buttons enabled while paused so objects can be placed between steps', () => {
     render(
       <ControlPanel
         onAddBall={mockOnAddBall}
@@ -133,10 +135,122 @@ describe('ControlPanel', () => {
     const ballButton = screen.getByText('Add Ball');
     const boxButton = screen.getByText('Add Square');
 
-    expect(ballButton).toBeDisabled();
-    expect(boxButton).toBeDisabled();
-    expect(ballButton).toHaveAttribute('title', 'Resume simulation to add objects');
-    expect(boxButton).toHaveAttribute('title', 'Resume simulation to add objects');
+    expect(ballButton).toBeEnabled();
+    expect(boxButton).toBeEnabled();
+    fireEvent.click(ballButton);
+    expect(mockOnAddBall).toHaveBeenCalledTimes(1);
+  });
+
+  it('steps a paused simulation from the buttons and keyboard', () => {
+    const onStep = jest.fn();
+    const { rerender } = render(
+      <ControlPanel
+        onAddBall={mockOnAddBall}
+        onAddBox={mockOnAddBox}
+        onLoadGLB={mockOnLoadGLB}
+        onToggleSimulation={mockOnToggleSimulation}
+        onStep={onStep}
+        onReset={mockOnReset}
+        isRunning={false}
+        objectCount={0}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Step'));
+    expect(onStep).toHaveBeenLastCalledWith(1);
+
+    fireEvent.change(screen.getByLabelText('Steps to advance'), { target: { value: '5' } });
+    fireEvent.click(screen.getByText('Step 5'));
+    expect(onStep).toHaveBeenLastCalledWith(5);
+
+    fireEvent.keyDown(window, { key: '.' });
+    expect(onStep).toHaveBeenLastCalledWith(1);
+    fireEvent.keyDown(window, { key: '>' });
+    expect(onStep).toHaveBeenLastCalledWith(5);
+    expect(screen.getByTestId('simulation-step')).toHaveTextContent('0');
+
+    rerender(
+      <ControlPanel
+        onAddBall={mockOnAddBall}
+        onAddBox={mockOnAddBox}
+        onLoadGLB={mockOnLoadGLB}
+        onToggleSimulation={mockOnToggleSimulation}
+        onStep={onStep}
+        onReset={mockOnReset}
+        isRunning={true}
+        objectCount={0}
+      />
+    );
+
+    expect(screen.getByText('Step')).toBeDisabled();
+    fireEvent.keyDown(window, { key: '.' });
+    expect(onStep).toHaveBeenCalledTimes(4);
+  });
+
+  it('undoes and redoes from the buttons and keyboard shortcuts', () => {
+    const onUndo = jest.fn();
+    const onRedo = jest.fn();
+    render(
+      <ControlPanel
+        onAddBall={mockOnAddBall}
+        onAddBox={mockOnAddBox}
+        onLoadGLB={mockOnLoadGLB}
+        onToggleSimulation={mockOnToggleSimulation}
+        onStep={jest.fn()}
+        onReset={mockOnReset}
+        onUndo={onUndo}
+        onRedo={onRedo}
+        canUndo={true}
+        canRedo={false}
+        undoLabel="Reset"
+        isRunning={true}
+        objectCount={0}
+      />
+    );
+
+    expect(screen.getByText('↶ Undo')).toHaveAttribute('title', 'Undo Reset (Ctrl+Z)');
+    expect(screen.getByText('↷ Redo')).toBeDisabled();
+    fireEvent.click(screen.getByText('↶ Undo'));
+    expect(onUndo).toHaveBeenCalledTimes(1);
+
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true });
+    expect(onUndo).toHaveBeenCalledTimes(2);
+    fireEvent.keyDown(window, { key: 'Z', ctrlKey: true, shiftKey: true });
+    fireEvent.keyDown(window, { key: 'y', metaKey: true });
+    expect(onRedo).toHaveBeenCalledTimes(2);
+
+    // Text fields keep their own undo
+    fireEvent.keyDown(screen.getByLabelText('Steps to advance'), { key: 'z', ctrlKey: true });
+    expect(onUndo).toHaveBeenCalledTimes(2);
+  });
+
+  it('clears objects by type and removes fallen objects', () => {
+    const onClearType = jest.fn();
+    const onRemoveFallen = jest.fn();
+    render(
+      <ControlPanel
+        onAddBall={mockOnAddBall}
+        onAddBox={mockOnAddBox}
+        onLoadGLB={mockOnLoadGLB}
+        onToggleSimulation={mockOnToggleSimulation}
+        onReset={mockOnReset}
+        onClearType={onClearType}
+        onRemoveFallen={onRemoveFallen}
+        typeCounts={{ [ObjectType.BOX]: 2 }}
+        isRunning={true}
+        objectCount={2}
+      />
+    );
+
+    // No balls to clear
+    expect(screen.getByText('Clear')).toBeDisabled();
+    fireEvent.change(screen.getByLabelText('Object type to clear'), { target: { value: ObjectType.BOX } });
+    expect(screen.getByRole('option', { name: 'Boxes (2)' })).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Clear'));
+    expect(onClearType).toHaveBeenCalledWith(ObjectType.BOX);
+
+    fireEvent.click(screen.getByText('Remove Fallen'));
+    expect(onRemoveFallen).toHaveBeenCalledTimes(1);
   });
 
   it('shows Play button when simulation is paused', () => {
@@ -208,4 +322,79 @@ describe('ControlPanel', () => {
     expect(screen.getByText('16.67ms')).toBeInTheDocument(); // Frame time
     expect(screen.getByText('45.2MB')).toBeInTheDocument(); // Memory usage
   });
-});
\ No newline at end of file
+
+  it('spawns objects with the selected material preset', () => {
+    render(
+      <ControlPanel
+        onAddBall={mockOnAddBall}
+        onAddBox={mockOnAddBox}
+        onLoadGLB={mockOnLoadGLB}
+        onToggleSimulation={mockOnToggleSimulation}
+        onReset={mockOnReset}
+        isRunning={true}
+        objectCount={0}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Add Ball'));
+    expect(mockOnAddBall).toHaveBeenLastCalledWith(undefined);
+    expect(screen.queryByText(MATERIAL_NOTE)).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Material:'), { target: { value: 'rubber' } });
+    // Only damping takes effect, which the picker says
+    expect(screen.getByText(MATERIAL_NOTE)).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Add Ball'));
+    fireEvent.click(screen.getByText('Add Square'));
+
+    expect(mockOnAddBall).toHaveBeenLastCalledWith('rubber');
+    expect(mockOnAddBox).toHaveBeenLastCalledWith('rubber');
+  });
+
+  it('spawns extra shapes and disables those at their limit', () => {
+    const mockOnAddShape = jest.fn();
+    render(
+      <ControlPanel
+        onAddBall={mockOnAddBall}
+        onAddBox={mockOnAddBox}
+        onAddShape={mockOnAddShape}
+        canAddShape={(type) => type !== ObjectType.COMPOUND}
+        onLoadGLB={mockOnLoadGLB}
+        onToggleSimulation={mockOnToggleSimulation}
+        onReset={mockOnReset}
+        isRunning={true}
+        objectCount={0}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Capsule'));
+    expect(mockOnAddShape).toHaveBeenLastCalledWith(ObjectType.CAPSULE, undefined);
+    expect(screen.getByRole('button', { name: /Compound/ })).toBeDisabled();
+  });
+
+  it('changes the placement mode and shows the pending cursor placement', () => {
+    const mockOnPlacementModeChange = jest.fn();
+    const mockOnCancelPlacement = jest.fn();
+    render(
+      <ControlPanel
+        onAddBall={mockOnAddBall}
+        onAddBox={mockOnAddBox}
+        onLoadGLB={mockOnLoadGLB}
+        onToggleSimulation={mockOnToggleSimulation}
+        onReset={mockOnReset}
+        isRunning={true}
+        objectCount={0}
+        placementMode="cursor"
+        onPlacementModeChange={mockOnPlacementModeChange}
+        armedSpawnType={ObjectType.BALL}
+        onCancelPlacement={mockOnCancelPlacement}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Placement:'), { target: { value: 'ring' } });
+    expect(mockOnPlacementModeChange).toHaveBeenCalledWith('ring');
+
+    expect(screen.getByRole('status')).toHaveTextContent('Click in the scene to place a ball');
+    fireEvent.click(screen.getByText('Done'));
+    expect(mockOnCancelPlacement).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import DataLogControls from '../DataLogControls';
+
+describe('DataLogControls', () => {
+  const handlers = {
+    setRateHz: jest.fn(),
+    startLogging: jest.fn(),
+    stopLogging: jest.fn(),
+    exportLog: jest.fn()
+  };
+
+  const renderControls = (overrides: Partial<React.ComponentProps<typeof DataLogControls>> = {}) => render(
+    <DataLogControls
+      isLogging={false}
+      rateHz={10}
+      rowCount={0}
+      droppedRows={0}
+      {...handlers}
+      {...overrides}
+    />
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('starts logging at the chosen rate and disables export until there are rows', () => {
+    renderControls();
+
+    fireEvent.change(screen.getByLabelText('Log rate'), { target: { value: '30' } });
+    fireEvent.click(screen.getByText('⏺ Start Log'));
+
+    expect(handlers.setRateHz).toHaveBeenCalledWith(30);
+    expect(handlers.startLogging).toHaveBeenCalled();
+    expect(screen.getByText('Export CSV')).toBeDisabled();
+    expect(screen.getByText('Export JSONL')).toBeDisabled();
+  });
+
+  it('locks the rate while logging and stops on request', () => {
+    renderControls({ isLogging: true, rowCount: 1200 });
+
+    expect(screen.getByLabelText('Log rate')).toBeDisabled();
+    expect(screen.getByText(/1,200/)).toBeInTheDocument();
+    fireEvent.click(screen.getByText('⏹ Stop Log'));
+    expect(handlers.stopLogging).toHaveBeenCalled();
+  });
+
+  it('exports both formats and reports dropped rows', () => {
+    renderControls({ rowCount: 50, droppedRows: 20 });
+
+    fireEvent.click(screen.getByText('Export CSV'));
+    fireEvent.click(screen.getByText('Export JSONL'));
+
+    expect(handlers.exportLog).toHaveBeenNthCalledWith(1, 'csv');
+    expect(handlers.exportLog).toHaveBeenNthCalledWith(2, 'jsonl');
+    expect(screen.getByText('20 oldest rows dropped')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,35 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import DebugPanel from '../DebugPanel';
+
+describe('DebugPanel', () => {
+  it('shows only the toggle button while hidden', () => {
+    render(<DebugPanel isVisible={false} onToggle={jest.fn()} onTogglePhysicsOverlay={jest.fn()} />);
+
+    expect(screen.getByRole('button', { name: /debug/i })).toBeInTheDocument();
+    expect(screen.queryByLabelText('Show collision shapes')).not.toBeInTheDocument();
+  });
+
+  it('toggles the collision shape overlay', () => {
+    const onTogglePhysicsOverlay = jest.fn();
+    const { rerender } = render(
+      <DebugPanel isVisible={true} onToggle={jest.fn()} physicsOverlayEnabled={false} onTogglePhysicsOverlay={onTogglePhysicsOverlay} />
+    );
+
+    const toggle = screen.getByLabelText('Show collision shapes');
+    expect(toggle).not.toBeChecked();
+    expect(screen.queryByText('Asleep')).not.toBeInTheDocument();
+
+    fireEvent.click(toggle);
+    expect(onTogglePhysicsOverlay).toHaveBeenCalledTimes(1);
+
+    rerender(
+      <DebugPanel isVisible={true} onToggle={jest.fn()} physicsOverlayEnabled={true} onTogglePhysicsOverlay={onTogglePhysicsOverlay} />
+    );
+    expect(screen.getByLabelText('Show collision shapes')).toBeChecked();
+    expect(screen.getByText('Asleep')).toBeInTheDocument();
+    expect(screen.getByText('Contact (approx.)')).toBeInTheDocument();
+    expect(screen.getByText(/not read from the physics engine/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,55 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import FrameStepper from '../FrameStepper';
+
+const mockPerformanceInfo = { current: { substepCounter: 0 } };
+let mockFrameCallback: () => void = () => {};
+
+jest.mock('@react-three/fiber', () => ({
+  useFrame: (callback: () => void) => {
+    mockFrameCallback = callback;
+  }
+}));
+
+jest.mock('use-ammojs', () => ({
+  useAmmoPhysicsContext: () => ({ physicsPerformanceInfoRef: mockPerformanceInfo })
+}));
+
+// One rendered frame after the worker has reached the given substep
+const frameAt = (substep: number) => {
+  mockPerformanceInfo.current.substepCounter = substep;
+  mockFrameCallback();
+};
+
+describe('FrameStepper', () => {
+  const onSteppingChange = jest.fn();
+
+  beforeEach(() => {
+    mockPerformanceInfo.current.substepCounter = 100;
+    onSteppingChange.mockClear();
+  });
+
+  it('steps until the worker has taken the requested steps', () => {
+    const { rerender } = render(<FrameStepper request={null} isRunning={false} onSteppingChange={onSteppingChange} />);
+    rerender(<FrameStepper request={{ id: 1, steps: 3 }} isRunning={false} onSteppingChange={onSteppingChange} />);
+    expect(onSteppingChange).toHaveBeenLastCalledWith(true);
+
+    frameAt(101);
+    frameAt(102);
+    expect(onSteppingChange).toHaveBeenCalledTimes(1);
+
+    frameAt(103);
+    expect(onSteppingChange).toHaveBeenLastCalledWith(false, 3);
+  });
+
+  it('reports the steps taken when a slow frame runs past the target', () => {
+    const { rerender } = render(<FrameStepper request={null} isRunning={false} onSteppingChange={onSteppingChange} />);
+    rerender(<FrameStepper request={{ id: 1, steps: 1 }} isRunning={false} onSteppingChange={onSteppingChange} />);
+    rerender(<FrameStepper request={{ id: 2, steps: 2 }} isRunning={false} onSteppingChange={onSteppingChange} />);
+
+    frameAt(105);
+    expect(onSteppingChange).toHaveBeenLastCalledWith(false, 5);
+    frameAt(106);
+    expect(onSteppingChange).toHaveBeenCalledTimes(3);
+  });
+});
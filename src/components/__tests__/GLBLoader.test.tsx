@@ -183,4 +183,25 @@ describe('GLBLoader', () => {
       expect(mockOnLoadGLB).toHaveBeenCalledWith(expect.any(String), file, 'convex');
     });
   });
-});
\ No newline at end of file
+
+  it('passes the decomposition quality for decomposed collision', async () => {
+    (URL.createObjectURL as jest.Mock).mockReturnValue('mock-url');
+    render(<GLBLoader onLoadGLB={mockOnLoadGLB} />);
+
+    expect(screen.queryByLabelText('Decomposition quality')).not.toBeInTheDocument();
+    fireEvent.change(screen.getByDisplayValue('Box Collision'), { target: { value: 'decomposed' } });
+    fireEvent.change(screen.getByLabelText('Decomposition quality'), { target: { value: 'high' } });
+
+    const file = new File(['mock content'], 'test.glb', { type: 'model/gltf-binary' });
+    const fileInput = screen.getByTestId('glb-file-input');
+    Object.defineProperty(fileInput, 'files', {
+      value: [file],
+      writable: false,
+    });
+    fireEvent.change(fileInput);
+
+    await waitFor(() => {
+      expect(mockOnLoadGLB).toHaveBeenCalledWith('mock-url', file, 'decomposed', 'high');
+    });
+  });
+});
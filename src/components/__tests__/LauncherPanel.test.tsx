@@ -0,0 +1,51 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import LauncherPanel from '../LauncherPanel';
+import { DEFAULT_LAUNCH_SETTINGS } from '../../utils/launcher';
+
+describe('LauncherPanel', () => {
+  const handlers = {
+    onChange: jest.fn(),
+    onToggleAim: jest.fn(),
+    onFire: jest.fn()
+  };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('changes speed, spin and spin axis', () => {
+    render(<LauncherPanel settings={DEFAULT_LAUNCH_SETTINGS} aimWithClicks={false} {...handlers} />);
+
+    fireEvent.change(screen.getByLabelText('Launch speed'), { target: { value: '45' } });
+    expect(handlers.onChange).toHaveBeenLastCalledWith({ ...DEFAULT_LAUNCH_SETTINGS, speed: 45 });
+
+    fireEvent.change(screen.getByLabelText('Launch spin'), { target: { value: '-12' } });
+    expect(handlers.onChange).toHaveBeenLastCalledWith({ ...DEFAULT_LAUNCH_SETTINGS, spin: -12 });
+
+    fireEvent.change(screen.getByLabelText('Spin axis'), { target: { value: 'up' } });
+    expect(handlers.onChange).toHaveBeenLastCalledWith({ ...DEFAULT_LAUNCH_SETTINGS, spinAxis: 'up' });
+  });
+
+  it('fires and toggles click aiming', () => {
+    render(<LauncherPanel settings={DEFAULT_LAUNCH_SETTINGS} aimWithClicks={true} {...handlers} />);
+
+    fireEvent.click(screen.getByText('🎯 Fire'));
+    fireEvent.click(screen.getByText('Stop Aiming'));
+
+    expect(handlers.onFire).toHaveBeenCalled();
+    expect(handlers.onToggleAim).toHaveBeenCalled();
+  });
+
+  it('only offers the model once one is loaded', () => {
+    const { rerender } = render(
+      <LauncherPanel settings={{ ...DEFAULT_LAUNCH_SETTINGS, projectile: 'glb' }} aimWithClicks={false} {...handlers} />
+    );
+    expect(screen.getByText('🎯 Fire')).toBeDisabled();
+
+    rerender(
+      <LauncherPanel settings={{ ...DEFAULT_LAUNCH_SETTINGS, projectile: 'glb' }} aimWithClicks={false} modelName="tower.glb" {...handlers} />
+    );
+    expect(screen.getByText('🎯 Fire')).toBeEnabled();
+    expect(screen.getByRole('option', { name: 'tower.glb' })).toBeInTheDocument();
+  });
+});
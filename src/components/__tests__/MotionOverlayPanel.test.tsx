@@ -0,0 +1,61 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import MotionOverlayPanel from '../MotionOverlayPanel';
+import ObjectMotionOverlays from '../ObjectMotionOverlays';
+import { DEFAULT_MOTION_OVERLAYS } from '../../utils/motionOverlays';
+
+describe('MotionOverlayPanel', () => {
+  it('turns overlays on for every object', () => {
+    const onChange = jest.fn();
+    render(<MotionOverlayPanel settings={DEFAULT_MOTION_OVERLAYS} onChange={onChange} />);
+
+    fireEvent.click(screen.getByLabelText('Velocity arrows'));
+
+    expect(onChange).toHaveBeenCalledWith({
+      ...DEFAULT_MOTION_OVERLAYS,
+      all: { velocity: true, angularVelocity: false, trail: false }
+    });
+  });
+
+  it('changes the trail length', () => {
+    const onChange = jest.fn();
+    render(<MotionOverlayPanel settings={DEFAULT_MOTION_OVERLAYS} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Trail length'), { target: { value: '6.5' } });
+
+    expect(onChange).toHaveBeenCalledWith({ ...DEFAULT_MOTION_OVERLAYS, trailLength: 6.5 });
+    expect(screen.getByText('3.0s')).toBeInTheDocument();
+  });
+});
+
+describe('ObjectMotionOverlays', () => {
+  it('toggles overlays for the inspected object', () => {
+    const onToggle = jest.fn();
+    render(
+      <ObjectMotionOverlays
+        flags={{ trail: true }}
+        global={{ velocity: false, angularVelocity: false, trail: false }}
+        onToggle={onToggle}
+      />
+    );
+
+    expect(screen.getByLabelText('Trails')).toBeChecked();
+    fireEvent.click(screen.getByLabelText('Spin indicators'));
+
+    expect(onToggle).toHaveBeenCalledWith('angularVelocity', true);
+  });
+
+  it('shows overlays that are on for every object as locked on', () => {
+    render(
+      <ObjectMotionOverlays
+        flags={{}}
+        global={{ velocity: true, angularVelocity: false, trail: false }}
+        onToggle={jest.fn()}
+      />
+    );
+
+    expect(screen.getByLabelText('Velocity arrows')).toBeChecked();
+    expect(screen.getByLabelText('Velocity arrows')).toBeDisabled();
+  });
+});
@@ -0,0 +1,120 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ObjectInspector from '../ObjectInspector';
+import { ObjectType, SpawnedObject } from '../../types/simulation';
+import { getMaterialProps } from '../../utils/physicsMaterials';
+
+const ball: SpawnedObject = {
+  id: 'ball-1-abc',
+  type: ObjectType.BALL,
+  position: [0, 5, 0],
+  timestamp: 1,
+  spawnIndex: 1,
+  props: { radius: 0.5, mass: 1, color: '#ff6b6b' }
+};
+
+describe('ObjectInspector', () => {
+  const onUpdate = jest.fn();
+  const onClose = jest.fn();
+
+  beforeEach(() => {
+    onUpdate.mockClear();
+    onClose.mockClear();
+  });
+
+  it('shows the object data and notes when the body is not in the world', () => {
+    render(<ObjectInspector object={ball} onUpdate={onUpdate} onClose={onClose} />);
+
+    expect(screen.getByText('BALL Inspector')).toBeInTheDocument();
+    expect(screen.getByText('ball-1-abc')).toBeInTheDocument();
+    expect(screen.getByText('Body not in the physics world yet')).toBeInTheDocument();
+    expect(screen.getByLabelText('Radius')).toHaveValue(0.5);
+  });
+
+  it('applies edited physical properties', () => {
+    render(<ObjectInspector object={ball} onUpdate={onUpdate} onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText('Mass'), { target: { value: '3' } });
+    fireEvent.change(screen.getByLabelText('Radius'), { target: { value: '0.8' } });
+    fireEvent.click(screen.getByText('Apply'));
+
+    expect(onUpdate).toHaveBeenCalledWith('ball-1-abc', { mass: 3, radius: 0.8 }, null);
+  });
+
+  it('does nothing when applied without edits', () => {
+    render(<ObjectInspector object={ball} onUpdate={onUpdate} onClose={onClose} />);
+
+    fireEvent.click(screen.getByText('Apply'));
+
+    expect(onUpdate).not.toHaveBeenCalled();
+  });
+
+  it('keeps the material preset unless a material value is edited', () => {
+    const rubber: SpawnedObject = { ...ball, props: { ...ball.props, ...getMaterialProps('rubber') } };
+    render(<ObjectInspector object={rubber} onUpdate={onUpdate} onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText('Mass'), { target: { value: '2' } });
+    fireEvent.click(screen.getByText('Apply'));
+    expect(onUpdate).toHaveBeenLastCalledWith('ball-1-abc', { mass: 2 }, null);
+
+    fireEvent.change(screen.getByLabelText('Friction'), { target: { value: '0.1' } });
+    fireEvent.click(screen.getByText('Apply'));
+    expect(onUpdate).toHaveBeenLastCalledWith('ball-1-abc', { mass: 2, friction: 0.1, materialPreset: undefined }, null);
+  });
+
+  it('rejects invalid values', () => {
+    render(<ObjectInspector object={ball} onUpdate={onUpdate} onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText('Mass'), { target: { value: '0' } });
+    fireEvent.click(screen.getByText('Apply'));
+
+    expect(onUpdate).not.toHaveBeenCalled();
+    expect(screen.getByText(/Mass must be positive/)).toBeInTheDocument();
+  });
+
+  it('keeps static mesh models at mass 0', () => {
+    const scenery: SpawnedObject = {
+      id: 'glb-1-abc',
+      type: ObjectType.GLB_MODEL,
+      position: [0, 0, 0],
+      timestamp: 1,
+      spawnIndex: 2,
+      props: { url: 'level.glb', collisionType: 'mesh', mass: 0, scale: [1, 1, 1] }
+    };
+    render(<ObjectInspector object={scenery} onUpdate={onUpdate} onClose={onClose} />);
+
+    expect(screen.getByLabelText('Mass')).toBeDisabled();
+    fireEvent.change(screen.getByLabelText('Scale'), { target: { value: '2' } });
+    fireEvent.click(screen.getByText('Apply'));
+
+    // Mass is already 0, so only the scale changes
+    expect(onUpdate).toHaveBeenCalledWith('glb-1-abc', { scale: [2, 2, 2] }, null);
+  });
+
+  it('applies color changes immediately', () => {
+    render(<ObjectInspector object={ball} onUpdate={onUpdate} onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText('Color'), { target: { value: '#00ff00' } });
+
+    expect(onUpdate).toHaveBeenCalledWith('ball-1-abc', { color: '#00ff00' });
+  });
+
+  it('closes from the header button', () => {
+    render(<ObjectInspector object={ball} onUpdate={onUpdate} onClose={onClose} />);
+
+    fireEvent.click(screen.getByLabelText('Close inspector'));
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('duplicates and deletes the object', () => {
+    const onDuplicate = jest.fn();
+    const onDelete = jest.fn();
+    render(<ObjectInspector object={ball} onUpdate={onUpdate} onClose={onClose} onDuplicate={onDuplicate} onDelete={onDelete} />);
+
+    fireEvent.click(screen.getByText('Duplicate'));
+    expect(onDuplicate).toHaveBeenCalledWith('ball-1-abc', null);
+    fireEvent.click(screen.getByText('Delete'));
+    expect(onDelete).toHaveBeenCalledWith('ball-1-abc', null);
+  });
+});
@@ -44,6 +44,7 @@ describe('ObjectSpawner', () => {
         type: ObjectType.BALL,
         position: [1, 2, 3],
         timestamp: Date.now(),
+        spawnIndex: 1,
         props: {
           radius: 0.5,
           mass: 1,
@@ -55,6 +56,7 @@ describe('ObjectSpawner', () => {
         type: ObjectType.BALL,
         position: [4, 5, 6],
         timestamp: Date.now(),
+        spawnIndex: 2,
         props: {
           radius: 0.8,
           mass: 2,
@@ -88,6 +90,7 @@ describe('ObjectSpawner', () => {
         type: ObjectType.BOX,
         position: [1, 2, 3],
         timestamp: Date.now(),
+        spawnIndex: 3,
         props: {
           size: [1, 1, 1],
           mass: 1,
@@ -99,6 +102,7 @@ describe('ObjectSpawner', () => {
         type: ObjectType.BOX,
         position: [7, 8, 9],
         timestamp: Date.now(),
+        spawnIndex: 4,
         props: {
           size: [2, 2, 2],
           mass: 3,
@@ -132,6 +136,7 @@ describe('ObjectSpawner', () => {
         type: ObjectType.BALL,
         position: [1, 2, 3],
         timestamp: Date.now(),
+        spawnIndex: 5,
         props: {
           radius: 0.5,
           mass: 1,
@@ -143,6 +148,7 @@ describe('ObjectSpawner', () => {
         type: ObjectType.BOX,
         position: [4, 5, 6],
         timestamp: Date.now(),
+        spawnIndex: 6,
         props: {
           size: [1, 1, 1],
           mass: 1,
@@ -164,6 +170,7 @@ describe('ObjectSpawner', () => {
         type: ObjectType.BALL,
         position: [1, 2, 3],
         timestamp: Date.now(),
+        spawnIndex: 7,
         props: { radius: 0.5, mass: 1, color: 'red' }
       },
       {
@@ -171,6 +178,7 @@ describe('ObjectSpawner', () => {
         type: ObjectType.BOX,
         position: [4, 5, 6],
         timestamp: Date.now(),
+        spawnIndex: 8,
         props: { size: [1, 1, 1], mass: 1, color: 'blue' }
       }
     ];
@@ -194,7 +202,8 @@ describe('ObjectSpawner', () => {
         id: 'ball-no-props',
         type: ObjectType.BALL,
         position: [1, 2, 3],
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        spawnIndex: 9
         // No props object
       },
       {
@@ -202,6 +211,7 @@ describe('ObjectSpawner', () => {
         type: ObjectType.BOX,
         position: [4, 5, 6],
         timestamp: Date.now(),
+        spawnIndex: 10,
         props: {
           mass: 2
           // Missing size and color
@@ -223,6 +233,7 @@ describe('ObjectSpawner', () => {
         type: ObjectType.BALL,
         position: [1, 2, 3],
         timestamp: Date.now(),
+        spawnIndex: 11,
         props: { radius: 0.5, mass: 1, color: 'red' }
       },
       {
@@ -230,6 +241,7 @@ describe('ObjectSpawner', () => {
         type: 'unknown' as ObjectType,
         position: [4, 5, 6],
         timestamp: Date.now(),
+        spawnIndex: 12,
         props: {}
       }
     ];
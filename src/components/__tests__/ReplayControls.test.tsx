@@ -0,0 +1,96 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ReplayControls from '../ReplayControls';
+import { Recording } from '../../utils/recording';
+import { ObjectType } from '../../types/simulation';
+
+const recording: Recording = {
+  tracks: [{ id: 'ball-1', type: ObjectType.BALL, props: { radius: 0.5 } }],
+  frames: [
+    { time: 0, transforms: new Float32Array([0, 5, 0, 0, 0, 0, 1]) },
+    { time: 0.5, transforms: new Float32Array([0, 4, 0, 0, 0, 0, 1]) },
+    { time: 1, transforms: new Float32Array([0, 2, 0, 0, 0, 0, 1]) }
+  ],
+  duration: 1,
+  truncated: false
+};
+
+describe('ReplayControls', () => {
+  const handlers = {
+    onStartRecording: jest.fn(),
+    onStopRecording: jest.fn(),
+    onEnterReplay: jest.fn(),
+    onExitReplay: jest.fn(),
+    onTogglePlayback: jest.fn(),
+    onSeek: jest.fn(),
+    onStepFrame: jest.fn(),
+    onSpeedChange: jest.fn(),
+    onExport: jest.fn()
+  };
+
+  const renderControls = (overrides: Partial<React.ComponentProps<typeof ReplayControls>> = {}) => render(
+    <ReplayControls
+      isRecording={false}
+      recording={null}
+      isReplaying={false}
+      isPlaying={false}
+      playbackSpeed={1}
+      currentTime={0}
+      {...handlers}
+      {...overrides}
+    />
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('starts and stops recording', () => {
+    const { rerender } = renderControls();
+
+    fireEvent.click(screen.getByText('● Record'));
+    expect(handlers.onStartRecording).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('Replay')).toBeDisabled();
+
+    rerender(
+      <ReplayControls
+        isRecording={true}
+        recording={null}
+        isReplaying={false}
+        isPlaying={false}
+        playbackSpeed={1}
+        currentTime={0}
+        {...handlers}
+      />
+    );
+
+    fireEvent.click(screen.getByText('■ Stop Recording'));
+    expect(handlers.onStopRecording).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows the timeline and playback controls in replay mode', () => {
+    renderControls({ recording, isReplaying: true, currentTime: 0.5 });
+
+    expect(screen.getByText('0.50s / 1.00s')).toBeInTheDocument();
+    expect(screen.getByText('Frame 2/3')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Play'));
+    expect(handlers.onTogglePlayback).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(screen.getByLabelText('Next frame'));
+    expect(handlers.onStepFrame).toHaveBeenCalledWith(1);
+
+    fireEvent.change(screen.getByLabelText('Timeline'), { target: { value: '0.75' } });
+    expect(handlers.onSeek).toHaveBeenCalledWith(0.75);
+
+    fireEvent.change(screen.getByTitle('Playback speed'), { target: { value: '2' } });
+    expect(handlers.onSpeedChange).toHaveBeenCalledWith(2);
+
+    fireEvent.click(screen.getByText('Export Binary'));
+    expect(handlers.onExport).toHaveBeenCalledWith('binary');
+
+    fireEvent.click(screen.getByText('Exit Replay'));
+    expect(handlers.onExitReplay).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,73 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import SceneChartsPanel from '../SceneChartsPanel';
+import { sceneMetrics, SceneMetricsSample } from '../../utils/sceneMetrics';
+
+const sample = (time: number, kinetic: number, potential: number): SceneMetricsSample => ({
+  time,
+  kinetic,
+  potential,
+  momentum: 2,
+  active: 3,
+  sleeping: 1
+});
+
+describe('SceneChartsPanel', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sceneMetrics.clear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    sceneMetrics.clear();
+  });
+
+  it('shows only the toggle button while hidden', () => {
+    const onToggle = jest.fn();
+    render(<SceneChartsPanel isVisible={false} onToggle={onToggle} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /charts/i }));
+    expect(onToggle).toHaveBeenCalled();
+    expect(screen.queryByLabelText('Energy chart')).not.toBeInTheDocument();
+  });
+
+  it('charts the latest samples', () => {
+    render(<SceneChartsPanel isVisible={true} onToggle={jest.fn()} />);
+    expect(screen.getByText('Run the simulation to record data.')).toBeInTheDocument();
+
+    act(() => {
+      sceneMetrics.record(sample(0, 0, 50));
+      sceneMetrics.record(sample(1, 20, 30));
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(screen.getByLabelText('Energy chart')).toBeInTheDocument();
+    expect(screen.getByText('Kinetic: 20.00')).toBeInTheDocument();
+    expect(screen.getByText('Total: 50.00')).toBeInTheDocument();
+    expect(screen.getByText('Active: 3')).toBeInTheDocument();
+    expect(screen.getByText('Sleeping: 1')).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('limits the charts to the chosen window', () => {
+    sceneMetrics.record(sample(0, 100, 0));
+    sceneMetrics.record(sample(20, 5, 0));
+    render(<SceneChartsPanel isVisible={true} onToggle={jest.fn()} />);
+
+    // Only the sample at 20s is within the default 10s window
+    expect(screen.getByText('5.00 J')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Time window'), { target: { value: '30' } });
+    expect(screen.getByText('100.00 J')).toBeInTheDocument();
+  });
+
+  it('warns when the total energy rises without new objects', () => {
+    sceneMetrics.record(sample(0, 10, 10));
+    sceneMetrics.record(sample(1, 40, 10));
+    render(<SceneChartsPanel isVisible={true} onToggle={jest.fn()} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Total energy rose 150%');
+  });
+});
@@ -0,0 +1,55 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import TerrainPanel from '../TerrainPanel';
+import { DEFAULT_TERRAIN } from '../../utils/terrain';
+
+describe('TerrainPanel', () => {
+  it('turns noise terrain on and off', () => {
+    const onChange = jest.fn();
+    const { rerender } = render(<TerrainPanel terrain={null} groundSize={20} onChange={onChange} />);
+
+    expect(screen.queryByLabelText('Terrain amplitude')).not.toBeInTheDocument();
+    // Heightmap terrain needs an image first
+    expect(screen.getByRole('option', { name: 'Heightmap' })).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Terrain'), { target: { value: 'noise' } });
+    expect(onChange).toHaveBeenLastCalledWith(DEFAULT_TERRAIN);
+
+    rerender(<TerrainPanel terrain={DEFAULT_TERRAIN} groundSize={20} onChange={onChange} />);
+    fireEvent.change(screen.getByLabelText('Terrain'), { target: { value: '' } });
+    expect(onChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it('adjusts resolution, amplitude and extent up to the ground size', () => {
+    const onChange = jest.fn();
+    render(<TerrainPanel terrain={DEFAULT_TERRAIN} groundSize={24} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Terrain resolution'), { target: { value: '65' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_TERRAIN, resolution: 65 });
+
+    fireEvent.change(screen.getByLabelText('Terrain amplitude'), { target: { value: '6.5' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_TERRAIN, amplitude: 6.5 });
+
+    expect(screen.getByLabelText('Terrain extent')).toHaveAttribute('max', '24');
+  });
+
+  it('picks a new seed for noise terrain', () => {
+    const onChange = jest.fn();
+    render(<TerrainPanel terrain={DEFAULT_TERRAIN} groundSize={20} onChange={onChange} />);
+
+    expect(screen.getByTestId('terrain-seed')).toHaveTextContent(String(DEFAULT_TERRAIN.seed));
+    fireEvent.click(screen.getByLabelText('New terrain seed'));
+    expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_TERRAIN, seed: expect.any(Number) });
+  });
+
+  it('rejects heightmaps that are not PNG images', () => {
+    const onError = jest.fn();
+    render(<TerrainPanel terrain={null} groundSize={20} onChange={jest.fn()} onError={onError} />);
+
+    fireEvent.change(screen.getByLabelText('Heightmap file'), { target: { files: [new File(['x'], 'hills.jpg', { type: 'image/jpeg' })] } });
+
+    expect(onError).toHaveBeenCalled();
+    expect(screen.getByText('The heightmap could not be read. Use a grayscale PNG image.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,53 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import WorldSettingsPanel from '../WorldSettingsPanel';
+import { DEFAULT_WORLD_SETTINGS } from '../../utils/worldSettings';
+
+describe('WorldSettingsPanel', () => {
+  const onChange = jest.fn();
+
+  beforeEach(() => {
+    onChange.mockClear();
+  });
+
+  it('marks the matching gravity preset and applies others', () => {
+    render(<WorldSettingsPanel settings={DEFAULT_WORLD_SETTINGS} onChange={onChange} />);
+
+    expect(screen.getByText('Earth')).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.click(screen.getByText('Moon'));
+    expect(onChange).toHaveBeenCalledWith({ gravity: [0, -1.62, 0] });
+  });
+
+  it('applies a typed gravity vector only once it changed', () => {
+    render(<WorldSettingsPanel settings={DEFAULT_WORLD_SETTINGS} onChange={onChange} />);
+
+    const apply = screen.getByText('Apply');
+    expect(apply).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Gravity X'), { target: { value: '2' } });
+    fireEvent.click(apply);
+    expect(onChange).toHaveBeenCalledWith({ gravity: [2, -9.81, 0] });
+  });
+
+  it('changes the time scale and stepping', () => {
+    render(<WorldSettingsPanel settings={DEFAULT_WORLD_SETTINGS} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Time scale'), { target: { value: '0.5' } });
+    expect(onChange).toHaveBeenCalledWith({ timeScale: 0.5 });
+
+    fireEvent.change(screen.getByLabelText('Step rate'), { target: { value: '120' } });
+    expect(onChange).toHaveBeenCalledWith({ fixedTimeStep: 1 / 120 });
+
+    fireEvent.change(screen.getByLabelText('Max substeps'), { target: { value: '8' } });
+    expect(onChange).toHaveBeenCalledWith({ maxSubSteps: 8 });
+  });
+
+  it('locks stepping in deterministic mode', () => {
+    render(<WorldSettingsPanel settings={DEFAULT_WORLD_SETTINGS} onChange={onChange} deterministic />);
+
+    expect(screen.getByLabelText('Step rate')).toBeDisabled();
+    expect(screen.getByLabelText('Max substeps')).toBeDisabled();
+    expect(screen.getByLabelText('Time scale')).toBeEnabled();
+  });
+});
@@ -1,6 +1,10 @@
 import { renderHook, act } from '@testing-library/react';
 import { useSimulation } from '../useSimulation';
 import { ObjectType } from '../../types/simulation';
+import { DEFAULT_WORLD_SETTINGS } from '../../utils/worldSettings';
+import { ARENA_LIMITS, DEFAULT_ARENA } from '../../utils/arena';
+import { DEFAULT_TERRAIN } from '../../utils/terrain';
+import { PERFORMANCE_LIMITS, PerformanceOptimizer } from '../../utils/performanceOptimization';
 
 describe('useSimulation', () => {
   it('initializes with empty objects array and running state', () => {
@@ -39,6 +43,23 @@ describe('useSimulation', () => {
     expect(result.current.objectCount).toBe(1);
   });
 
+  it('adds cylinders, capsules, cones and compounds with their defaults', () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.addShape(ObjectType.CAPSULE);
+    });
+    act(() => {
+      result.current.addShape(ObjectType.COMPOUND, { mass: 3 });
+    });
+
+    const [capsule, compound] = result.current.objects;
+    expect(capsule.props).toMatchObject({ radius: 0.4, height: 1.6 });
+    expect(compound.props?.mass).toBe(3);
+    expect(compound.props?.parts?.length).toBeGreaterThan(1);
+    expect(result.current.canAddShape(ObjectType.CONE)).toBe(true);
+  });
+
   it('generates unique IDs for objects', () => {
     const { result } = renderHook(() => useSimulation());
 
@@ -70,6 +91,41 @@ describe('useSimulation', () => {
     expect(z).toBeLessThanOrEqual(4);
   });
 
+  it('drops random spawns from above the terrain', () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.updateArena({
+        terrain: {
+          ...DEFAULT_TERRAIN,
+          source: 'image',
+          amplitude: 4,
+          heightmap: { name: 'plateau.png', size: 2, values: [1, 1, 1, 1] }
+        }
+      });
+    });
+    act(() => {
+      result.current.addBall();
+    });
+
+    const y = result.current.objects[0].position[1];
+    expect(y).toBeGreaterThanOrEqual(4 + 5);
+    expect(y).toBeLessThanOrEqual(4 + 8);
+  });
+
+  it('spawns at an explicit position without drawing a random one', () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.addBox(undefined, [2, 1, -3]);
+    });
+    act(() => {
+      result.current.addShape(ObjectType.CONE, { color: 'red' }, [0, 4, 0]);
+    });
+
+    expect(result.current.objects.map(obj => obj.position)).toEqual([[2, 1, -3], [0, 4, 0]]);
+  });
+
   it('removes all objects when removeAllObjects is called', () => {
     const { result } = renderHook(() => useSimulation());
 
@@ -144,4 +200,665 @@ describe('useSimulation', () => {
 
     expect(result.current.isRunning).toBe(true);
   });
-});
\ No newline at end of file
+
+  it('replaces objects and world settings when a scene is loaded', () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.addBall();
+    });
+
+    const initialResetKey = result.current.resetKey;
+
+    act(() => {
+      result.current.loadScene({
+        world: { ...DEFAULT_WORLD_SETTINGS, gravity: [0, -1.62, 0] },
+        objects: [
+          {
+            id: 'box-saved',
+            type: ObjectType.BOX,
+            position: [1, 2, 3],
+            timestamp: 1,
+            spawnIndex: 1,
+            props: { size: [1, 1, 1], mass: 1, color: 'blue' },
+            initialState: {
+              position: [1, 2, 3],
+              rotation: [0, 0, 0, 1],
+              linearVelocity: [0, -1, 0],
+              angularVelocity: [0, 0, 0]
+            }
+          }
+        ]
+      });
+    });
+
+    expect(result.current.objects).toHaveLength(1);
+    expect(result.current.objects[0].id).toBe('box-saved');
+    expect(result.current.worldSettings.gravity).toEqual([0, -1.62, 0]);
+    expect(result.current.resetKey).toBe(initialResetKey + 1);
+  });
+
+  it('replays the same spawns after a reset with the same seed', () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.setSeed(2024);
+    });
+
+    act(() => {
+      result.current.addBall();
+    });
+    act(() => {
+      result.current.addBox();
+    });
+
+    const firstRun = result.current.objects.map(obj => ({ type: obj.type, position: obj.position }));
+    const firstIds = result.current.objects.map(obj => obj.id);
+
+    act(() => {
+      result.current.removeAllObjects();
+    });
+
+    act(() => {
+      result.current.addBall();
+    });
+    act(() => {
+      result.current.addBox();
+    });
+
+    expect(result.current.seed).toBe(2024);
+    expect(result.current.objects.map(obj => ({ type: obj.type, position: obj.position }))).toEqual(firstRun);
+    // The reset can be undone, so its objects' ids are not handed out again
+    expect(result.current.objects.some(obj => firstIds.includes(obj.id))).toBe(false);
+  });
+
+  it('restarts the run when deterministic mode is toggled', () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.addBall();
+    });
+
+    const initialResetKey = result.current.resetKey;
+    const seed = result.current.seed;
+
+    act(() => {
+      result.current.toggleDeterministic();
+    });
+
+    expect(result.current.deterministic).toBe(true);
+    expect(result.current.seed).toBe(seed);
+    expect(result.current.objects).toHaveLength(0);
+    expect(result.current.resetKey).toBe(initialResetKey + 1);
+  });
+
+  it('orders spawns after loaded objects in deterministic mode', () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.toggleDeterministic();
+    });
+    act(() => {
+      result.current.loadScene({
+        world: DEFAULT_WORLD_SETTINGS,
+        objects: [
+          { id: 'ball-saved', type: ObjectType.BALL, position: [0, 5, 0], timestamp: Date.now(), spawnIndex: 4 }
+        ]
+      });
+    });
+    act(() => {
+      result.current.addBall();
+    });
+    act(() => {
+      result.current.addBox();
+    });
+
+    const [loaded, ball, box] = result.current.objects;
+    expect(ball.spawnIndex).toBe(5);
+    expect(box.spawnIndex).toBe(6);
+    expect(PerformanceOptimizer.getInstance().suggestObjectsForRemoval([box, ball, loaded], 1)).toEqual([loaded.id]);
+  });
+
+  it('links objects and drops their constraints when either one is removed', () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.addBall();
+    });
+    act(() => {
+      result.current.addBox();
+    });
+    act(() => {
+      result.current.addBox();
+    });
+
+    const [ball, boxA, boxB] = result.current.objects.map(obj => obj.id);
+    const anchor = { position: [0, 0, 0] as [number, number, number], rotation: [0, 0, 0, 1] as [number, number, number, number] };
+    const link = (bodyA: string, bodyB: string) => ({ type: 'pointToPoint' as const, bodyA, bodyB, anchorA: anchor, anchorB: anchor });
+
+    act(() => {
+      result.current.addConstraint(link(ball, boxA));
+    });
+    act(() => {
+      result.current.addConstraint(link(boxA, boxB));
+    });
+    expect(result.current.constraints).toHaveLength(2);
+    expect(result.current.constraints[0].id).not.toBe(result.current.constraints[1].id);
+
+    act(() => {
+      result.current.removeObject(ball);
+    });
+
+    expect(result.current.constraints).toHaveLength(1);
+    expect(result.current.constraints[0].bodyA).toBe(boxA);
+  });
+
+  it('refuses constraints on unknown or identical objects', () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.addBall();
+    });
+
+    const id = result.current.objects[0].id;
+    const anchor = { position: [0, 0, 0] as [number, number, number], rotation: [0, 0, 0, 1] as [number, number, number, number] };
+    let added: string | null = 'unset';
+    act(() => {
+      added = result.current.addConstraint({ type: 'fixed', bodyA: id, bodyB: id, anchorA: anchor, anchorB: anchor });
+    });
+    expect(added).toBeNull();
+    act(() => {
+      added = result.current.addConstraint({ type: 'fixed', bodyA: id, bodyB: 'box-9', anchorA: anchor, anchorB: anchor });
+    });
+    expect(added).toBeNull();
+    expect(result.current.constraints).toEqual([]);
+  });
+
+  it('applies visual prop changes without recreating the body', () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.addBall();
+    });
+
+    const id = result.current.objects[0].id;
+
+    act(() => {
+      result.current.updateObjectProps(id, { color: '#ff0000' });
+    });
+
+    expect(result.current.objects[0].props?.color).toBe('#ff0000');
+    expect(result.current.objects[0].revision).toBeUndefined();
+    expect(result.current.isRunning).toBe(true);
+  });
+
+  it('recreates the body from its live state when a physical prop changes', async () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.addBox();
+    });
+
+    const id = result.current.objects[0].id;
+    const liveState = {
+      position: [1, 2, 3] as [number, number, number],
+      rotation: [0, 0, 0, 1] as [number, number, number, number],
+      linearVelocity: [0, -4, 0] as [number, number, number],
+      angularVelocity: [0, 0, 0] as [number, number, number]
+    };
+
+    act(() => {
+      result.current.updateObjectProps(id, { mass: 5 }, liveState);
+    });
+
+    const updated = result.current.objects[0];
+    expect(updated.id).toBe(id);
+    expect(updated.props?.mass).toBe(5);
+    expect(updated.revision).toBe(1);
+    expect(updated.position).toEqual([1, 2, 3]);
+    expect(updated.initialState).toEqual(liveState);
+    expect(result.current.isRunning).toBe(false);
+
+    await act(async () => {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    });
+
+    expect(result.current.isRunning).toBe(true);
+  });
+
+  it('keeps world settings across a reset', () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.updateWorldSettings({ gravity: [0, -3.71, 0], timeScale: 0.25, maxSubSteps: 2 });
+    });
+    act(() => {
+      result.current.removeAllObjects();
+    });
+
+    expect(result.current.worldSettings).toEqual({
+      gravity: [0, -3.71, 0],
+      timeScale: 0.25,
+      fixedTimeStep: DEFAULT_WORLD_SETTINGS.fixedTimeStep,
+      maxSubSteps: 2
+    });
+  });
+
+  it('changes the time scale without rebuilding the world', () => {
+    const { result } = renderHook(() => useSimulation());
+    const initialResetKey = result.current.resetKey;
+
+    act(() => {
+      result.current.updateWorldSettings({ timeScale: 2 });
+    });
+
+    expect(result.current.worldSettings.timeScale).toBe(2);
+    expect(result.current.resetKey).toBe(initialResetKey);
+    expect(result.current.isRunning).toBe(true);
+  });
+
+  it('rebuilds the world from live body states when gravity changes', async () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.addBall();
+    });
+
+    const id = result.current.objects[0].id;
+    const initialResetKey = result.current.resetKey;
+    const liveState = {
+      position: [2, 1, 0] as [number, number, number],
+      rotation: [0, 0, 0, 1] as [number, number, number, number],
+      linearVelocity: [1, 0, 0] as [number, number, number],
+      angularVelocity: [0, 0, 0] as [number, number, number]
+    };
+
+    act(() => {
+      result.current.updateWorldSettings({ gravity: [0, 0, 0] }, (objectId) => (objectId === id ? liveState : null));
+    });
+
+    expect(result.current.worldSettings.gravity).toEqual([0, 0, 0]);
+    expect(result.current.resetKey).toBe(initialResetKey + 1);
+    expect(result.current.objects[0].position).toEqual([2, 1, 0]);
+    expect(result.current.objects[0].initialState).toEqual(liveState);
+    expect(result.current.isRunning).toBe(false);
+
+    await act(async () => {
+      await new Promise(resolve => setTimeout(resolve, 150));
+    });
+
+    expect(result.current.isRunning).toBe(true);
+  });
+
+  it('clamps world settings to their limits', () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.updateWorldSettings({ timeScale: 50, maxSubSteps: 0 });
+    });
+
+    expect(result.current.worldSettings.timeScale).toBe(4);
+    expect(result.current.worldSettings.maxSubSteps).toBe(1);
+  });
+
+  it('only accepts step requests while paused', () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      expect(result.current.stepSimulation(1)).toBe(false);
+    });
+    expect(result.current.stepRequest).toBeNull();
+
+    act(() => {
+      result.current.toggleSimulation();
+    });
+    act(() => {
+      result.current.stepSimulation();
+    });
+    act(() => {
+      result.current.stepSimulation(5000);
+    });
+
+    expect(result.current.stepRequest).toEqual({ id: 2, steps: 600 });
+  });
+
+  it('allows spawning while paused without resuming the simulation', async () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.toggleSimulation();
+    });
+    act(() => {
+      result.current.addBall();
+    });
+
+    expect(result.current.objects).toHaveLength(1);
+
+    await act(async () => {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    });
+
+    expect(result.current.isRunning).toBe(false);
+  });
+
+  describe('undo and redo', () => {
+    const liveState = {
+      position: [2, 0.5, -1] as [number, number, number],
+      rotation: [0, 0, 0, 1] as [number, number, number, number],
+      linearVelocity: [3, 0, 0] as [number, number, number],
+      angularVelocity: [0, 1, 0] as [number, number, number]
+    };
+
+    it('undoes and redoes a spawn', () => {
+      const { result } = renderHook(() => useSimulation());
+
+      act(() => {
+        result.current.addBall();
+      });
+      expect(result.current.canUndo).toBe(true);
+      expect(result.current.undoLabel).toBe(`Add ${result.current.objects[0].id}`);
+      const id = result.current.objects[0].id;
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.objects).toHaveLength(0);
+      expect(result.current.canRedo).toBe(true);
+
+      act(() => {
+        result.current.redo();
+      });
+      expect(result.current.objects.map(obj => obj.id)).toEqual([id]);
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    it('restores a removed object from its live state with its joints', () => {
+      const { result } = renderHook(() => useSimulation());
+
+      act(() => {
+        result.current.addBall();
+      });
+      act(() => {
+        result.current.addBox();
+      });
+      const [ball, box] = result.current.objects.map(obj => obj.id);
+      const anchor = { position: [0, 0, 0] as [number, number, number], rotation: [0, 0, 0, 1] as [number, number, number, number] };
+      act(() => {
+        result.current.addConstraint({ type: 'hinge', bodyA: ball, bodyB: box, anchorA: anchor, anchorB: anchor });
+      });
+
+      act(() => {
+        result.current.removeObject(ball, id => (id === ball ? liveState : null));
+      });
+      expect(result.current.objects).toHaveLength(1);
+      expect(result.current.constraints).toHaveLength(0);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      const restored = result.current.objects.find(obj => obj.id === ball);
+      expect(restored?.position).toEqual(liveState.position);
+      expect(restored?.initialState).toEqual(liveState);
+      expect(result.current.constraints).toHaveLength(1);
+    });
+
+    it('brings back every object after an accidental reset', () => {
+      const { result } = renderHook(() => useSimulation());
+
+      act(() => {
+        result.current.addBall();
+      });
+      act(() => {
+        result.current.addBox();
+      });
+      const ids = result.current.objects.map(obj => obj.id);
+
+      act(() => {
+        result.current.removeAllObjects(() => liveState);
+      });
+      expect(result.current.objects).toHaveLength(0);
+      expect(result.current.undoLabel).toBe('Reset');
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.objects.map(obj => obj.id)).toEqual(ids);
+      expect(result.current.objects.every(obj => obj.initialState === liveState)).toBe(true);
+
+      const resetKey = result.current.resetKey;
+      act(() => {
+        result.current.redo();
+      });
+      expect(result.current.objects).toHaveLength(0);
+      expect(result.current.resetKey).toBe(resetKey + 1);
+    });
+
+    it('brings back a reset after objects were spawned since', () => {
+      const { result } = renderHook(() => useSimulation());
+
+      act(() => {
+        result.current.addBall();
+      });
+      act(() => {
+        result.current.addBox();
+      });
+      const ids = result.current.objects.map(obj => obj.id);
+
+      act(() => {
+        result.current.removeAllObjects();
+      });
+      act(() => {
+        result.current.addBall();
+      });
+      const spawned = result.current.objects[0].id;
+
+      act(() => {
+        result.current.undo();
+      });
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.objects.map(obj => obj.id)).toEqual(ids);
+
+      act(() => {
+        result.current.redo();
+      });
+      act(() => {
+        result.current.redo();
+      });
+      expect(result.current.objects.map(obj => obj.id)).toEqual([spawned]);
+    });
+
+    it('undoes auto-cleanup as its own step', () => {
+      const { result } = renderHook(() => useSimulation());
+      const saved = Array.from({ length: PERFORMANCE_LIMITS.CLEANUP_THRESHOLD }, (_, index) => ({
+        id: `box-saved-${index}`,
+        type: ObjectType.BOX,
+        position: [0, 5, 0] as [number, number, number],
+        timestamp: Date.now(),
+        spawnIndex: index + 1
+      }));
+
+      act(() => {
+        result.current.loadScene({ world: DEFAULT_WORLD_SETTINGS, objects: saved });
+      });
+      act(() => {
+        result.current.addBall();
+      });
+      expect(result.current.objects).toHaveLength(saved.length - 2);
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.objects).toHaveLength(saved.length - 3);
+      expect(result.current.undoLabel).toBe('Remove 3 objects');
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.objects.map(obj => obj.id).sort()).toEqual(saved.map(obj => obj.id).sort());
+    });
+
+    it('undoes prop edits, remounting physical changes from the live state', () => {
+      const { result } = renderHook(() => useSimulation());
+
+      act(() => {
+        result.current.addBall();
+      });
+      const id = result.current.objects[0].id;
+
+      act(() => {
+        result.current.updateObjectProps(id, { mass: 4 });
+      });
+      act(() => {
+        result.current.undo(() => liveState);
+      });
+
+      expect(result.current.objects[0].props?.mass).toBe(1);
+      expect(result.current.objects[0].revision).toBe(2);
+      expect(result.current.objects[0].initialState).toEqual(liveState);
+
+      act(() => {
+        result.current.redo();
+      });
+      expect(result.current.objects[0].props?.mass).toBe(4);
+    });
+
+    it('does not record edits that change nothing', () => {
+      const { result } = renderHook(() => useSimulation());
+
+      act(() => {
+        result.current.addBall();
+      });
+      act(() => {
+        result.current.updateObjectProps(result.current.objects[0].id, { color: 'orange' });
+      });
+
+      expect(result.current.undoLabel).toMatch(/^Add /);
+    });
+
+    it('forgets the history when a new run starts', () => {
+      const { result } = renderHook(() => useSimulation());
+
+      act(() => {
+        result.current.addBall();
+      });
+      act(() => {
+        result.current.randomizeSeed();
+      });
+
+      expect(result.current.canUndo).toBe(false);
+      act(() => {
+        expect(result.current.undo()).toBe(false);
+      });
+    });
+  });
+
+  it('clears every object of a type in one undo step', () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.addBall();
+    });
+    act(() => {
+      result.current.addBall();
+    });
+    act(() => {
+      result.current.addBox();
+    });
+
+    let removed = 0;
+    act(() => {
+      removed = result.current.removeObjectsOfType(ObjectType.BALL);
+    });
+    expect(removed).toBe(2);
+    expect(result.current.objects.map(obj => obj.type)).toEqual([ObjectType.BOX]);
+    expect(result.current.undoLabel).toBe('Remove 2 objects');
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(result.current.objects).toHaveLength(3);
+  });
+
+  it('duplicates an object beside itself with its live motion', () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.addBox({ color: 'red', size: [2, 1, 1] });
+    });
+    const source = result.current.objects[0];
+    const liveState = {
+      position: [1, 0.5, 0] as [number, number, number],
+      rotation: [0, 0.7071, 0, 0.7071] as [number, number, number, number],
+      linearVelocity: [0, 0, 2] as [number, number, number],
+      angularVelocity: [0, 0, 0] as [number, number, number]
+    };
+
+    let copyId: string | null = null;
+    act(() => {
+      copyId = result.current.duplicateObject(source.id, liveState);
+    });
+
+    const copy = result.current.objects.find(obj => obj.id === copyId);
+    expect(copy).toBeDefined();
+    expect(copy?.id).not.toBe(source.id);
+    expect(copy?.props).toEqual(source.props);
+    expect(copy?.position[0]).toBeGreaterThan(liveState.position[0]);
+    expect(copy?.initialState?.rotation).toEqual(liveState.rotation);
+    expect(copy?.initialState?.linearVelocity).toEqual(liveState.linearVelocity);
+    expect(copy?.initialState?.position).toEqual(copy?.position);
+
+    act(() => {
+      expect(result.current.duplicateObject('missing')).toBeNull();
+    });
+  });
+
+  it('despawns culled objects outside the edit history, staying paused', async () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.addBall();
+    });
+    act(() => {
+      result.current.toggleSimulation();
+    });
+    act(() => {
+      result.current.cullObjects([result.current.objects[0].id]);
+    });
+
+    expect(result.current.objects).toHaveLength(0);
+    expect(result.current.undoLabel).toMatch(/^Add /);
+
+    await act(async () => {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    });
+    expect(result.current.isRunning).toBe(false);
+  });
+
+  it('updates the arena, keeping it across resets and replacing it on load', async () => {
+    const { result } = renderHook(() => useSimulation());
+
+    act(() => {
+      result.current.updateArena({ groundSize: 200, pieces: [{ id: 'bowl', kind: 'bowl' }] });
+    });
+    expect(result.current.arena.groundSize).toBe(ARENA_LIMITS.MAX_GROUND_SIZE);
+    expect(result.current.arena.pieces).toEqual([{ id: 'bowl', kind: 'bowl' }]);
+
+    act(() => {
+      result.current.removeAllObjects();
+    });
+    expect(result.current.arena.pieces).toHaveLength(1);
+
+    act(() => {
+      result.current.loadScene({ world: DEFAULT_WORLD_SETTINGS, objects: [] });
+    });
+    expect(result.current.arena).toEqual(DEFAULT_ARENA);
+
+    await act(async () => {
+      await new Promise(resolve => setTimeout(resolve, 150));
+    });
+    expect(result.current.isRunning).toBe(true);
+  });
+});
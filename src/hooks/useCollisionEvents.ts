@@ -0,0 +1,24 @@
+import { useEffect, useRef } from 'react';
+import { CollisionEvent } from '../types/simulation';
+import { collisionEvents } from '../utils/collisionEvents';
+
+/**
+ * Calls the listener for every collision begin/end event, or only for events involving
+ * objectId when it is given. The latest listener is always used, so it need not be memoised.
+ *
+ * The events are approximate. use-ammojs does not pass Bullet's contacts back from its
+ * worker, so they are found on the main thread from sphere and bounding-box proxies of
+ * the bodies (see contactDetection). Concave meshes report contacts anywhere inside their
+ * bounds, and points, normals and impulses are estimates.
+ */
+export const useCollisionEvents = (listener: (event: CollisionEvent) => void, objectId?: string) => {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    return collisionEvents.subscribe(event => {
+      if (objectId && event.objectA !== objectId && event.objectB !== objectId) return;
+      listenerRef.current(event);
+    });
+  }, [objectId]);
+};
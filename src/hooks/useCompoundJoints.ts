@@ -0,0 +1,66 @@
+import { MutableRefObject, useEffect } from 'react';
+import { ConstraintType, useAmmoPhysicsContext } from 'use-ammojs';
+import { MathUtils, Object3D, Quaternion, Vector3 } from 'three';
+import { debugLogger } from '../utils/debugLogger';
+
+const uuidOf = (object: Object3D | null | undefined): string | undefined =>
+  object?.userData?.useAmmo?.rigidBody?.uuid;
+
+/**
+ * Weld the part bodies of a compound together with fixed constraints. Each link is a
+ * pair of part indices; offsets are the parts' starting positions relative to the
+ * root, before any rotation. Linked parts never collide with each other, so parts
+ * that overlap should be linked even when one link would hold them.
+ *
+ * Must be called from the component that renders the parts: child effects run
+ * first, so every part body has been added by the time this effect runs. The layout
+ * is fixed for the lifetime of the bodies; prop changes remount the compound.
+ */
+export const useCompoundJoints = (
+  partObjectsRef: MutableRefObject<Array<Object3D | null>>,
+  localOffsets: Array<[number, number, number]>,
+  links: Array<[number, number]>,
+  objectId?: string
+) => {
+  const { addConstraint, removeConstraint } = useAmmoPhysicsContext();
+
+  useEffect(() => {
+    if (!uuidOf(partObjectsRef.current[0])) {
+      debugLogger.warn('Compound root body missing, parts will not be joined', { objectId });
+      return;
+    }
+
+    const constraintIds: string[] = [];
+    links.forEach(([a, b]) => {
+      const uuidA = uuidOf(partObjectsRef.current[a]);
+      const uuidB = uuidOf(partObjectsRef.current[b]);
+      if (!uuidA || !uuidB) return;
+
+      const constraintId = MathUtils.generateUUID();
+      const offsetA = localOffsets[a];
+      const offsetB = localOffsets[b];
+      addConstraint(constraintId, uuidA, uuidB, {
+        type: ConstraintType.FIXED,
+        frameInA: {
+          position: new Vector3(offsetB[0] - offsetA[0], offsetB[1] - offsetA[1], offsetB[2] - offsetA[2]),
+          rotation: new Quaternion()
+        },
+        frameInB: { position: new Vector3(), rotation: new Quaternion() },
+        disableCollisionsBetweenLinkedBodies: true
+      });
+      constraintIds.push(constraintId);
+    });
+    debugLogger.info('Compound parts joined', { objectId, joints: constraintIds.length });
+
+    return () => {
+      constraintIds.forEach(id => removeConstraint(id));
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+};
+
+/**
+ * Links from the root to every other part
+ */
+export const getRootLinks = (partCount: number): Array<[number, number]> =>
+  Array.from({ length: Math.max(0, partCount - 1) }, (_, i) => [0, i + 1] as [number, number]);
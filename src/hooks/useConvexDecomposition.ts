@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { Object3D } from 'three';
+import { DecompositionQuality } from '../types/simulation';
+import { ConvexPart, DECOMPOSITION_QUALITY } from '../utils/convexDecomposition';
+import { DecompositionService, decompositionService } from '../utils/decompositionService';
+import { extractTrianglesFromGLB } from '../utils/glbPhysics';
+
+export type DecompositionStatus = 'idle' | 'pending' | 'ready' | 'failed';
+
+interface DecompositionState {
+  key: string | null;
+  status: DecompositionStatus;
+  parts: ConvexPart[] | null;
+}
+
+/**
+ * Convex parts for a loaded GLB scene, computed by the decomposition service. Pass a
+ * null scene to skip decomposition. Results are cached per url, scale and quality,
+ * so a model seen before is ready on the first render.
+ */
+export const useConvexDecomposition = (
+  scene: Object3D | null,
+  url: string,
+  scale: [number, number, number],
+  quality: DecompositionQuality
+): { status: DecompositionStatus; parts: ConvexPart[] | null } => {
+  const key = scene ? DecompositionService.getCacheKey(url, scale, quality) : null;
+  const cached = key ? decompositionService.getCached(key) : undefined;
+
+  const [state, setState] = useState<DecompositionState>({ key: null, status: 'idle', parts: null });
+
+  useEffect(() => {
+    if (!scene || !key || decompositionService.getCached(key)) return;
+
+    let cancelled = false;
+    setState({ key, status: 'pending', parts: null });
+    const { positions, indices } = extractTrianglesFromGLB(scene, scale);
+    decompositionService
+      .decompose(key, positions, indices, DECOMPOSITION_QUALITY[quality])
+      .then(parts => {
+        if (!cancelled) setState({ key, status: 'ready', parts });
+      })
+      .catch(() => {
+        // The service has already logged the error
+        if (!cancelled) setState({ key, status: 'failed', parts: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // The key already covers url, scale and quality
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scene, key]);
+
+  if (!key) return { status: 'idle', parts: null };
+  if (cached) return { status: 'ready', parts: cached };
+  // Until the effect has started the current request, the previous state is stale
+  if (state.key !== key) return { status: 'pending', parts: null };
+  return { status: state.status, parts: state.parts };
+};
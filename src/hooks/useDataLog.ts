@@ -0,0 +1,80 @@
+import { useState, useCallback, useEffect } from 'react';
+import { SpawnedObject } from '../types/simulation';
+import { dataLogger, DataLogExportFormat, DEFAULT_DATA_LOG_RATE } from '../utils/dataLogger';
+import { downloadFile } from '../utils/fileDownload';
+import { debugLogger } from '../utils/debugLogger';
+
+// How often the row count shown while logging is refreshed, in ms
+const ROW_COUNT_INTERVAL = 500;
+
+/**
+ * Data logging state. Samples are taken in the canvas by DataLogCapture; this hook
+ * starts and stops the logger and exports what it holds.
+ */
+export const useDataLog = (objects: SpawnedObject[]) => {
+  const [isLogging, setIsLogging] = useState(dataLogger.isLogging);
+  const [rateHz, setRateHz] = useState<number>(DEFAULT_DATA_LOG_RATE);
+  const [rowCount, setRowCount] = useState(dataLogger.rowCount);
+  const [droppedRows, setDroppedRows] = useState(dataLogger.droppedRows);
+
+  // Objects spawned while logging are logged from then on
+  useEffect(() => {
+    if (isLogging) {
+      dataLogger.addObjects(objects);
+    }
+  }, [objects, isLogging]);
+
+  useEffect(() => {
+    if (!isLogging) return;
+    const interval = setInterval(() => {
+      setRowCount(dataLogger.rowCount);
+      setDroppedRows(dataLogger.droppedRows);
+    }, ROW_COUNT_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isLogging]);
+
+  const startLogging = useCallback(() => {
+    dataLogger.start(objects, rateHz);
+    setIsLogging(true);
+    setRowCount(0);
+    setDroppedRows(0);
+  }, [objects, rateHz]);
+
+  const stopLogging = useCallback(() => {
+    dataLogger.stop();
+    setIsLogging(false);
+    setRowCount(dataLogger.rowCount);
+    setDroppedRows(dataLogger.droppedRows);
+  }, []);
+
+  const exportLog = useCallback((format: DataLogExportFormat) => {
+    if (dataLogger.rowCount === 0) return;
+    const filename = `physics-data-log-${Date.now()}`;
+    if (format === 'csv') {
+      downloadFile(dataLogger.toCSV(), `${filename}.csv`, 'text/csv');
+    } else {
+      downloadFile(dataLogger.toJSONLines(), `${filename}.jsonl`, 'application/x-ndjson');
+    }
+    debugLogger.info('Exported data log', { format, rowCount: dataLogger.rowCount });
+  }, []);
+
+  // Stop any active log on unmount
+  useEffect(() => {
+    return () => {
+      if (dataLogger.isLogging) {
+        dataLogger.stop();
+      }
+    };
+  }, []);
+
+  return {
+    isLogging,
+    rateHz,
+    rowCount,
+    droppedRows,
+    setRateHz,
+    startLogging,
+    stopLogging,
+    exportLog
+  };
+};
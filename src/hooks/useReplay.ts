@@ -0,0 +1,160 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { SpawnedObject } from '../types/simulation';
+import {
+  Recording,
+  simulationRecorder,
+  findFrameIndex,
+  serializeRecordingJSON,
+  serializeRecordingBinary
+} from '../utils/recording';
+import { downloadFile } from '../utils/fileDownload';
+import { debugLogger } from '../utils/debugLogger';
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4] as const;
+
+export type RecordingExportFormat = 'json' | 'binary';
+
+/**
+ * Recording and playback state. Recording captures transforms from the live
+ * simulation; replay mode plays them back without the physics engine.
+ */
+export const useReplay = (objects: SpawnedObject[]) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState<number>(1);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  // Latest values for the playback loop without restarting it
+  const speedRef = useRef(playbackSpeed);
+  speedRef.current = playbackSpeed;
+  const timeRef = useRef(currentTime);
+  timeRef.current = currentTime;
+
+  // Objects spawned while recording get their own tracks
+  useEffect(() => {
+    if (isRecording) {
+      simulationRecorder.addTracks(objects);
+    }
+  }, [objects, isRecording]);
+
+  const startRecording = useCallback(() => {
+    simulationRecorder.start(objects);
+    setIsRecording(true);
+  }, [objects]);
+
+  const stopRecording = useCallback(() => {
+    const result = simulationRecorder.stop();
+    setIsRecording(false);
+    setRecording(result);
+    return result;
+  }, []);
+
+  const enterReplay = useCallback((next?: Recording) => {
+    const target = next ?? recording;
+    if (!target) return;
+    if (simulationRecorder.isRecording) {
+      simulationRecorder.stop();
+      setIsRecording(false);
+    }
+    setRecording(target);
+    setCurrentTime(0);
+    setIsPlaying(false);
+    setIsReplaying(true);
+    debugLogger.info('Entered replay mode', { frameCount: target.frames.length, duration: target.duration });
+  }, [recording]);
+
+  const exitReplay = useCallback(() => {
+    setIsPlaying(false);
+    setIsReplaying(false);
+  }, []);
+
+  const togglePlayback = useCallback(() => {
+    if (!recording) return;
+    // Restart from the beginning when play is pressed at the end
+    if (!isPlaying && currentTime >= recording.duration) {
+      setCurrentTime(0);
+    }
+    setIsPlaying(prev => !prev);
+  }, [recording, isPlaying, currentTime]);
+
+  const seek = useCallback((time: number) => {
+    if (!recording) return;
+    setCurrentTime(Math.min(Math.max(time, 0), recording.duration));
+  }, [recording]);
+
+  const stepFrame = useCallback((direction: 1 | -1) => {
+    if (!recording || recording.frames.length === 0) return;
+    setIsPlaying(false);
+    setCurrentTime(prev => {
+      const index = findFrameIndex(recording, prev);
+      // A time between frames steps back to the frame it is sitting on
+      const onFrame = recording.frames[index].time === prev;
+      const target = direction < 0 && !onFrame ? index : index + direction;
+      const clamped = Math.min(Math.max(target, 0), recording.frames.length - 1);
+      return recording.frames[clamped].time;
+    });
+  }, [recording]);
+
+  const exportRecording = useCallback((format: RecordingExportFormat) => {
+    if (!recording) return;
+    const filename = `physics-recording-${Date.now()}`;
+    if (format === 'binary') {
+      downloadFile(serializeRecordingBinary(recording), `${filename}.psrec`, 'application/octet-stream');
+    } else {
+      downloadFile(serializeRecordingJSON(recording), `${filename}.json`);
+    }
+    debugLogger.info('Exported recording', { format, frameCount: recording.frames.length });
+  }, [recording]);
+
+  // Playback loop
+  useEffect(() => {
+    if (!isReplaying || !isPlaying || !recording) return;
+
+    let frameId = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const delta = (now - last) / 1000;
+      last = now;
+      const next = Math.min(timeRef.current + delta * speedRef.current, recording.duration);
+      timeRef.current = next;
+      setCurrentTime(next);
+      if (next >= recording.duration) {
+        setIsPlaying(false);
+        return;
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [isReplaying, isPlaying, recording]);
+
+  // Stop any active recording on unmount
+  useEffect(() => {
+    return () => {
+      if (simulationRecorder.isRecording) {
+        simulationRecorder.stop();
+      }
+    };
+  }, []);
+
+  return {
+    isRecording,
+    recording,
+    isReplaying,
+    isPlaying,
+    playbackSpeed,
+    currentTime,
+    startRecording,
+    stopRecording,
+    enterReplay,
+    exitReplay,
+    togglePlayback,
+    seek,
+    stepFrame,
+    setPlaybackSpeed,
+    exportRecording
+  };
+};
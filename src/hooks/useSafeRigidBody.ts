@@ -3,6 +3,10 @@ import { useRef, useCallback, useEffect } from 'react';
 import * as THREE from 'three';
 import { debugLogger } from '../utils/debugLogger';
 import { addRecentRigidBodyConfig } from '../utils/physicsDebugRegistry';
+import { bodyRegistry } from '../utils/bodyRegistry';
+import { BodyState } from '../types/simulation';
+import { clampDamping, DEFAULT_DAMPING } from '../utils/physicsMaterials';
+import { getContinuousCollisionConfig } from '../utils/continuousCollision';
 
 interface RigidBodyConfig {
   shapeType: ShapeType;
@@ -13,15 +17,31 @@ interface RigidBodyConfig {
     friction: number;
     restitution: number;
   };
+  linearDamping?: number;
+  angularDamping?: number;
   shapeConfig?: any;
+  // Continuous collision detection, set for every dynamic body
+  enableCCD?: boolean;
+  ccdMotionThreshold?: number;
+  ccdSweptSphereRadius?: number;
   // Extra debug fields are ignored by physics lib but useful in logs
   debugId?: string;
 }
 
+interface BodyRegistration {
+  // SpawnedObject id used to look the body up in the body registry
+  objectId?: string;
+  // State to restore right after the body is created
+  initialState?: BodyState;
+  // SpawnedObject the body belongs to when it is one part of a compound
+  ownerId?: string;
+}
+
 export const useSafeRigidBody = (
   configFactory: () => RigidBodyConfig,
   componentName: string = 'Unknown',
-  threeObject?: THREE.Object3D
+  threeObject?: THREE.Object3D,
+  registration: BodyRegistration = {}
 ) => {
   const errorRef = useRef<string | null>(null);
   const cacheRef = useRef<RigidBodyConfig | null>(null);
@@ -38,6 +58,12 @@ export const useSafeRigidBody = (
     if (!(typeof normalized.mass === 'number' && isFinite(normalized.mass) && normalized.mass >= 0)) {
       normalized.mass = 1;
     }
+    if (normalized.linearDamping !== undefined) {
+      normalized.linearDamping = clampDamping(normalized.linearDamping, DEFAULT_DAMPING.LINEAR);
+    }
+    if (normalized.angularDamping !== undefined) {
+      normalized.angularDamping = clampDamping(normalized.angularDamping, DEFAULT_DAMPING.ANGULAR);
+    }
 
     if (normalized.shapeType === ShapeType.SPHERE) {
       const radius = normalized.shapeConfig?.radius;
@@ -53,6 +79,25 @@ export const useSafeRigidBody = (
         normalized.shapeConfig = { ...(normalized.shapeConfig || {}), halfExtents: next };
         debugLogger.warn(`Normalized missing/invalid box halfExtents for ${componentName}`, { prev: he, next });
       }
+    } else if (
+      normalized.shapeType === ShapeType.CYLINDER ||
+      normalized.shapeType === ShapeType.CONE ||
+      normalized.shapeType === ShapeType.CAPSULE
+    ) {
+      const he = normalized.shapeConfig?.halfExtents;
+      // A capsule's half height excludes its caps, so zero is a valid (spherical) capsule
+      const minHalfHeight = normalized.shapeType === ShapeType.CAPSULE ? 0 : Number.MIN_VALUE;
+      const ok = he && typeof he.x === 'number' && he.x > 0 && typeof he.y === 'number' && he.y >= minHalfHeight && typeof he.z === 'number' && he.z > 0;
+      if (!ok) {
+        const next = { x: 0.5, y: 0.5, z: 0.5 };
+        normalized.shapeConfig = { ...(normalized.shapeConfig || {}), halfExtents: next };
+        debugLogger.warn(`Normalized missing/invalid ${normalized.shapeType} halfExtents for ${componentName}`, { prev: he, next });
+      }
+    }
+
+    // Fast bodies are swept so they cannot tunnel through thin boxes or the ground
+    if (normalized.bodyType === BodyType.DYNAMIC && normalized.mass > 0 && normalized.enableCCD === undefined) {
+      Object.assign(normalized, getContinuousCollisionConfig(normalized.shapeType, normalized.shapeConfig));
     }
 
     return normalized;
@@ -157,9 +202,30 @@ export const useSafeRigidBody = (
 
   // Always call useRigidBody - hooks must be called unconditionally
   debugLogger.info(`Calling useRigidBody for ${componentName}`);
-  const [rigidBodyRef] = useRigidBody(safeConfigFactory, threeObject as any);
+  const [rigidBodyRef, rigidBodyApi] = useRigidBody(safeConfigFactory, threeObject as any);
   debugLogger.info(`useRigidBody completed for ${componentName}`);
 
+  // Register the body by SpawnedObject id once useRigidBody has added it to the world
+  const { objectId, ownerId } = registration;
+  const initialStateRef = useRef(registration.initialState);
+  const rigidBodyApiRef = useRef(rigidBodyApi);
+  rigidBodyApiRef.current = rigidBodyApi;
+  useEffect(() => {
+    const object3D = threeObject || rigidBodyRef.current;
+    const registeredConfig = lastConfigRef.current;
+    if (!objectId || !object3D || !registeredConfig) return;
+
+    bodyRegistry.register(objectId, object3D, rigidBodyApiRef.current, registeredConfig, ownerId);
+    if (initialStateRef.current) {
+      bodyRegistry.applyState(objectId, initialStateRef.current);
+    }
+
+    return () => {
+      bodyRegistry.unregister(objectId, object3D);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [objectId]);
+
   // Lifecycle logs to correlate mount/unmount in diagnostics
   useEffect(() => {
     const instId = instanceIdRef.current;
@@ -1,22 +1,120 @@
-import { useState, useCallback, useEffect } from 'react';
-import { SpawnedObject, ObjectType } from '../types/simulation';
-import { PerformanceOptimizer, PERFORMANCE_LIMITS } from '../utils/performanceOptimization';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { SpawnedObject, ObjectType, WorldSettings, BodyState, GLBCollisionType, ObjectConstraint, FrameStepRequest, ArenaSettings, TerrainSettings } from '../types/simulation';
+import { PerformanceOptimizer, PERFORMANCE_LIMITS, getObjectTypeLimit } from '../utils/performanceOptimization';
 import { debugLogger } from '../utils/debugLogger';
+import { LoadedScene } from '../utils/sceneSerialization';
+import { SeededRandom, generateSeed } from '../utils/random';
+import { setSimulationRunInfo } from '../utils/physicsDebugRegistry';
+import { DEFAULT_COMPOUND_PARTS } from '../utils/primitiveShapes';
+import { validateGLBCollision } from '../utils/errorHandling';
+import { constraintsOf, withoutConstraintsOf } from '../utils/constraints';
+import { describeEdit, EditCommand, EditHistory } from '../utils/editHistory';
+import { getDuplicatePosition, getSpawnHalfExtents } from '../utils/spawnPlacement';
+import { DEFAULT_WORLD_SETTINGS, normalizeWorldSettings, requiresWorldRebuild } from '../utils/worldSettings';
+import { MAX_FRAME_STEPS, simulationClock } from '../utils/simulationClock';
+import { DEFAULT_ARENA, normalizeArena } from '../utils/arena';
+import { getTerrainTop } from '../utils/terrain';
+
+// Fixed world stepping used in deterministic mode: exactly one 60Hz step per frame.
+// Overrides the stepping in the world settings.
+export const DETERMINISTIC_PHYSICS = {
+  fixedTimeStep: 1 / 60,
+  maxSubSteps: 1
+} as const;
+
+type ObjectProps = NonNullable<SpawnedObject['props']>;
+
+// Props baked into the rigid body at creation; changing any of them needs a remount.
+// Everything else (e.g. color) only affects rendering and applies in place.
+export const REMOUNT_PROPS: Array<keyof ObjectProps> = [
+  'mass', 'radius', 'height', 'size', 'parts', 'scale', 'friction', 'restitution', 'linearDamping', 'angularDamping', 'collisionType', 'decompositionQuality', 'url'
+];
+
+export const requiresRemount = (current: ObjectProps = {}, changes: Partial<ObjectProps>): boolean => {
+  return REMOUNT_PROPS.some(key =>
+    key in changes && JSON.stringify(changes[key]) !== JSON.stringify(current[key])
+  );
+};
+
+// The object as it is now, so recreating it continues from its live state
+const withLiveState = (obj: SpawnedObject, liveState: BodyState | null): SpawnedObject => liveState ? {
+  ...obj,
+  position: [...liveState.position] as [number, number, number],
+  initialState: liveState
+} : obj;
+
+// Current values of the props an edit changes, for undoing it
+const pickProps = (props: ObjectProps = {}, changes: Partial<ObjectProps>): Partial<ObjectProps> => {
+  const picked: Record<string, unknown> = {};
+  Object.keys(changes).forEach(key => {
+    picked[key] = props[key as keyof ObjectProps];
+  });
+  return picked as Partial<ObjectProps>;
+};
+
+type LiveStateGetter = (id: string) => BodyState | null;
+
+const noLiveState: LiveStateGetter = () => null;
 
 export const useSimulation = () => {
   const [objects, setObjects] = useState<SpawnedObject[]>([]);
+  const [constraints, setConstraints] = useState<ObjectConstraint[]>([]);
   const [isRunning, setIsRunning] = useState(true);
   const [resetKey, setResetKey] = useState(0);
   const [performanceWarnings, setPerformanceWarnings] = useState<string[]>([]);
+  const [worldSettings, setWorldSettings] = useState<WorldSettings>(DEFAULT_WORLD_SETTINGS);
+  const [arena, setArena] = useState<ArenaSettings>(DEFAULT_ARENA);
+  const [seed, setSeedState] = useState<number>(() => generateSeed());
+  const [deterministic, setDeterministic] = useState(false);
+  const [stepRequest, setStepRequest] = useState<FrameStepRequest | null>(null);
+
+  // All spawn randomness goes through the seeded generator so runs can be replayed
+  const rngRef = useRef<SeededRandom>(new SeededRandom(seed));
+  const spawnSequenceRef = useRef(0);
+  // Never restarts, so objects spawned after a reset or a loaded scene are always the newest
+  const spawnIndexRef = useRef(0);
+  // Separate from the spawn sequence so linking objects does not change later spawns
+  const constraintSequenceRef = useRef(0);
+  // Undo/redo of spawns, removals, resets and prop edits. Only the ref holds the stacks;
+  // the version re-renders so canUndo and canRedo stay current.
+  const historyRef = useRef(new EditHistory());
+  const [, setHistoryVersion] = useState(0);
   
   const optimizer = PerformanceOptimizer.getInstance();
 
-  const generateRandomPosition = (): [number, number, number] => {
+  const recordEdit = (command: EditCommand) => {
+    historyRef.current.push(command);
+    setHistoryVersion(prev => prev + 1);
+  };
+
+  const clearHistory = () => {
+    historyRef.current.clear();
+    setHistoryVersion(prev => prev + 1);
+  };
+
+  const restartRandomSequence = (nextSeed: number = rngRef.current.seed) => {
+    rngRef.current = new SeededRandom(nextSeed);
+    spawnSequenceRef.current = 0;
+  };
+
+  // Past every object present, which may come from a loaded scene or an undone removal
+  const nextSpawnIndex = (current: SpawnedObject[]): number => {
+    spawnIndexRef.current = current.reduce((max, obj) => Math.max(max, obj.spawnIndex), spawnIndexRef.current) + 1;
+    return spawnIndexRef.current;
+  };
+
+  const generateRandomPosition = (
+    halfExtents: [number, number, number],
+    terrain: TerrainSettings | null
+  ): [number, number, number] => {
     // Generate random position above the scene for objects to fall
-    const x = (Math.random() - 0.5) * 8; // Random x between -4 and 4
-    const y = Math.random() * 3 + 5; // Random y between 5 and 8 (above scene)
-    const z = (Math.random() - 0.5) * 8; // Random z between -4 and 4
-    const position: [number, number, number] = [x, y, z];
+    const rng = rngRef.current;
+    const x = rng.range(-4, 4); // Random x between -4 and 4
+    const y = rng.range(5, 8); // Random y between 5 and 8 (above scene)
+    const z = rng.range(-4, 4); // Random z between -4 and 4
+    // Measured from the terrain under the object, so it never starts inside a hill
+    const surface = getTerrainTop(terrain, x, z, Math.max(halfExtents[0], halfExtents[2]));
+    const position: [number, number, number] = [x, surface + y, z];
     
     debugLogger.info('Generated random position', { position });
     
@@ -30,8 +128,15 @@ export const useSimulation = () => {
     return validatedPosition;
   };
 
-  const addObject = useCallback((type: ObjectType, customProps?: Partial<SpawnedObject['props']>) => {
-    debugLogger.info('Adding object', { type, customProps, currentObjectCount: objects.length });
+  // Objects drop from a random point above the scene unless a position is given; an
+  // initial state (e.g. a launch velocity) is applied once the body exists
+  const addObject = useCallback((
+    type: ObjectType,
+    customProps?: Partial<SpawnedObject['props']>,
+    position?: [number, number, number],
+    initialState?: BodyState
+  ) => {
+    debugLogger.info('Adding object', { type, customProps, position, currentObjectCount: objects.length });
     
     // Validate input parameters
     if (!type || !Object.values(ObjectType).includes(type)) {
@@ -41,9 +146,7 @@ export const useSimulation = () => {
 
     // Check if we can add more objects based on performance limits
     if (!optimizer.canAddObject(objects, type)) {
-      const typeLimit = type === ObjectType.BALL ? PERFORMANCE_LIMITS.MAX_BALLS :
-                       type === ObjectType.BOX ? PERFORMANCE_LIMITS.MAX_BOXES :
-                       PERFORMANCE_LIMITS.MAX_GLB_MODELS;
+      const typeLimit = getObjectTypeLimit(type);
       
       debugLogger.warn('Object limit reached', { type, typeLimit, currentCount: objects.length });
       
@@ -64,8 +167,18 @@ export const useSimulation = () => {
       });
       // Pause physics during bulk removals to prevent use-ammojs from accessing
       // matrixWorld on nodes that React is unmounting in the same frame
+      const wasRunning = isRunning;
       setIsRunning(false);
 
+      // Undone on its own, after the spawn that caused it
+      recordEdit({
+        type: 'remove',
+        objects: objects.filter(obj => toRemove.includes(obj.id)),
+        constraints: constraintsOf(constraints, toRemove)
+      });
+
+      // Joints go in the same update so they are torn down before their bodies
+      setConstraints(prev => withoutConstraintsOf(prev, toRemove));
       setObjects(prev => {
         const filtered = prev.filter(obj => !toRemove.includes(obj.id));
         debugLogger.info('Objects after cleanup', { 
@@ -75,8 +188,10 @@ export const useSimulation = () => {
         });
         return filtered;
       });
-      // Resume shortly after React commits the unmounts
-      setTimeout(() => setIsRunning(true), 50);
+      // Resume shortly after React commits the unmounts; spawning while paused stays paused
+      if (wasRunning) {
+        setTimeout(() => setIsRunning(true), 50);
+      }
 
       setPerformanceWarnings(prev => [
         ...prev.filter(w => !w.includes('Auto-cleanup')),
@@ -84,20 +199,33 @@ export const useSimulation = () => {
       ]);
     }
 
-    const objectId = `${type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    const position = generateRandomPosition();
+    // Sequence-based ids keep spawn order stable across runs with the same seed;
+    // redraw on the rare clash with an id loaded from a scene file
+    const sequence = ++spawnSequenceRef.current;
+    const existingIds = new Set(objects.map(obj => obj.id));
+    let objectId = `${type}-${sequence}-${rngRef.current.id()}`;
+    while (existingIds.has(objectId)) {
+      objectId = `${type}-${sequence}-${rngRef.current.id()}`;
+    }
+    const spawnPosition = position
+      ? [...position] as [number, number, number]
+      : generateRandomPosition(getSpawnHalfExtents(type, customProps), arena.terrain);
     
-    debugLogger.info('Creating new object', { objectId, type, position });
+    debugLogger.info('Creating new object', { objectId, type, position: spawnPosition });
     
     const newObject: SpawnedObject = {
       id: objectId,
       type,
-      position,
+      position: spawnPosition,
       timestamp: Date.now(),
+      // Age is measured in spawns so auto-cleanup removes the same objects in every run,
+      // whether they were spawned here or loaded from a scene
+      spawnIndex: nextSpawnIndex(objects),
       props: {
         mass: 1,
         ...customProps
-      }
+      },
+      ...(initialState ? { initialState } : {})
     };
 
     // Validate the created object
@@ -119,6 +247,33 @@ export const useSimulation = () => {
         color: 'blue',
         ...newObject.props
       };
+    } else if (type === ObjectType.CYLINDER) {
+      newObject.props = {
+        radius: 0.5,
+        height: 1,
+        color: '#51cf66',
+        ...newObject.props
+      };
+    } else if (type === ObjectType.CAPSULE) {
+      newObject.props = {
+        radius: 0.4,
+        height: 1.6,
+        color: '#cc5de8',
+        ...newObject.props
+      };
+    } else if (type === ObjectType.CONE) {
+      newObject.props = {
+        radius: 0.5,
+        height: 1,
+        color: '#fcc419',
+        ...newObject.props
+      };
+    } else if (type === ObjectType.COMPOUND) {
+      newObject.props = {
+        parts: DEFAULT_COMPOUND_PARTS.map(part => ({ ...part })),
+        color: '#868e96',
+        ...newObject.props
+      };
     }
 
     // Final validation before adding to state
@@ -140,30 +295,190 @@ export const useSimulation = () => {
       });
       return newObjects;
     });
+    recordEdit({ type: 'add', objects: [newObject], constraints: [] });
     
     debugLogger.info('Object creation completed successfully', { objectId });
     return newObject.id;
-  }, [objects, optimizer]);
+  }, [objects, constraints, optimizer, isRunning, arena.terrain]);
 
-  const removeObject = useCallback((id: string) => {
+  const deleteObjects = useCallback((ids: string[]) => {
     // Briefly pause physics to avoid race conditions where the physics loop
     // reads a just-unmounted Three.js node (matrixWorld on null)
+    const wasRunning = isRunning;
+    setIsRunning(false);
+    setConstraints(prev => withoutConstraintsOf(prev, ids));
+    setObjects(prev => prev.filter(obj => !ids.includes(obj.id)));
+    // Resume next tick; removing while paused stays paused
+    if (wasRunning) {
+      setTimeout(() => setIsRunning(true), 50);
+    }
+  }, [isRunning]);
+
+  // Put back removed objects and the joints between them, skipping any whose id is taken
+  const restoreObjects = useCallback((restored: SpawnedObject[], restoredConstraints: ObjectConstraint[]) => {
+    const existingIds = new Set(objects.map(obj => obj.id));
+    const skipped = restored.filter(obj => existingIds.has(obj.id)).map(obj => obj.id);
+    if (skipped.length > 0) {
+      debugLogger.warn('Objects to restore are already in the scene', { ids: skipped });
+    }
+    const added = restored.filter(obj => !existingIds.has(obj.id));
+    added.forEach(obj => existingIds.add(obj.id));
+
+    setObjects(prev => [...prev, ...added]);
+    setConstraints(prev => {
+      const constraintIds = new Set(prev.map(constraint => constraint.id));
+      return [...prev, ...restoredConstraints.filter(constraint =>
+        !constraintIds.has(constraint.id) && existingIds.has(constraint.bodyA) && existingIds.has(constraint.bodyB)
+      )];
+    });
+  }, [objects]);
+
+  // Removals are one undo step. The live state lets undoing one put each body back where
+  // it was, moving as it was.
+  const removeObjects = useCallback((ids: string[], getLiveState: LiveStateGetter = noLiveState) => {
+    const targets = objects.filter(obj => ids.includes(obj.id));
+    if (targets.length === 0) return 0;
+
+    debugLogger.info('Removing objects', { ids: targets.map(obj => obj.id) });
+    recordEdit({
+      type: 'remove',
+      objects: targets.map(obj => withLiveState(obj, getLiveState(obj.id))),
+      constraints: constraintsOf(constraints, ids)
+    });
+    deleteObjects(targets.map(obj => obj.id));
+    return targets.length;
+  }, [objects, constraints, deleteObjects]);
+
+  // Objects culled by the world bounds are not user edits, so they are left out of the history
+  const cullObjects = useCallback((ids: string[]) => {
+    if (ids.length === 0) return;
+    debugLogger.info('Despawning out-of-bounds objects', { ids });
+    deleteObjects(ids);
+  }, [deleteObjects]);
+
+  const removeObject = useCallback((id: string, getLiveState: LiveStateGetter = noLiveState) => {
+    removeObjects([id], getLiveState);
+  }, [removeObjects]);
+
+  const removeObjectsOfType = useCallback((type: ObjectType, getLiveState: LiveStateGetter = noLiveState) => {
+    return removeObjects(objects.filter(obj => obj.type === type).map(obj => obj.id), getLiveState);
+  }, [objects, removeObjects]);
+
+  const applyObjectProps = useCallback((target: SpawnedObject, changes: Partial<ObjectProps>, liveState?: BodyState | null) => {
+    const { id } = target;
+    const remount = requiresRemount(target.props, changes);
+    debugLogger.info('Updating object props', { id, changes, remount });
+
+    if (!remount) {
+      setObjects(prev => prev.map(obj => obj.id === id ? { ...obj, props: { ...obj.props, ...changes } } : obj));
+      return;
+    }
+
+    const wasRunning = isRunning;
     setIsRunning(false);
-    setObjects(prev => prev.filter(obj => obj.id !== id));
-    // Resume next tick
-    setTimeout(() => setIsRunning(true), 50);
+    setObjects(prev => prev.map(obj => obj.id === id ? {
+      ...obj,
+      props: { ...obj.props, ...changes },
+      position: liveState ? [...liveState.position] as [number, number, number] : obj.position,
+      initialState: liveState ?? obj.initialState,
+      revision: (obj.revision ?? 0) + 1
+    } : obj));
+    if (wasRunning) {
+      setTimeout(() => setIsRunning(true), 50);
+    }
+  }, [isRunning]);
+
+  // Edit an object's props. Physical changes recreate the body via the same pause-and-remount
+  // flow as removeObject, restoring the live state so the object continues where it was.
+  const updateObjectProps = useCallback((id: string, changes: Partial<ObjectProps>, liveState?: BodyState | null) => {
+    const target = objects.find(obj => obj.id === id);
+    if (!target) {
+      debugLogger.warn('Cannot update unknown object', { id });
+      return false;
+    }
+
+    const before = pickProps(target.props, changes);
+    if (JSON.stringify(before) !== JSON.stringify(changes)) {
+      recordEdit({ type: 'props', id, before, after: { ...changes } });
+    }
+    applyObjectProps(target, changes, liveState);
+    return true;
+  }, [objects, applyObjectProps]);
+
+  // Link two objects; anchors are computed by the caller from the bodies' live poses
+  const addConstraint = useCallback((constraint: Omit<ObjectConstraint, 'id'>) => {
+    const ids = new Set(objects.map(obj => obj.id));
+    if (constraint.bodyA === constraint.bodyB || !ids.has(constraint.bodyA) || !ids.has(constraint.bodyB)) {
+      debugLogger.warn('Cannot link objects', { bodyA: constraint.bodyA, bodyB: constraint.bodyB });
+      return null;
+    }
+
+    const existingIds = new Set(constraints.map(existing => existing.id));
+    let id = `constraint-${++constraintSequenceRef.current}`;
+    while (existingIds.has(id)) {
+      id = `constraint-${++constraintSequenceRef.current}`;
+    }
+
+    debugLogger.info('Adding constraint', { id, type: constraint.type, bodyA: constraint.bodyA, bodyB: constraint.bodyB });
+    setConstraints(prev => [...prev, { ...constraint, id }]);
+    return id;
+  }, [objects, constraints]);
+
+  const removeConstraint = useCallback((id: string) => {
+    debugLogger.info('Removing constraint', { id });
+    setConstraints(prev => prev.filter(constraint => constraint.id !== id));
   }, []);
 
-  const removeAllObjects = useCallback(() => {
+  // Time scale applies in place. Gravity and stepping are only read when the physics world
+  // mounts, so changing them rebuilds the world with every object restored from its live state.
+  const updateWorldSettings = useCallback((
+    changes: Partial<WorldSettings>,
+    getLiveState: (id: string) => BodyState | null = () => null
+  ) => {
+    const next = normalizeWorldSettings({ ...worldSettings, ...changes }, worldSettings);
+    const rebuild = requiresWorldRebuild(worldSettings, next);
+    debugLogger.info('Updating world settings', { changes, rebuild });
+    setWorldSettings(next);
+    if (!rebuild) return;
+
+    const wasRunning = isRunning;
+    setIsRunning(false);
+    setObjects(prev => prev.map(obj => withLiveState(obj, getLiveState(obj.id))));
+    setResetKey(prev => prev + 1);
+    if (wasRunning) {
+      setTimeout(() => setIsRunning(true), 100);
+    }
+  }, [worldSettings, isRunning]);
+
+  // Arena pieces are static bodies that mount and unmount on their own, so the world is
+  // only paused briefly around the change, as when deleting objects
+  const updateArena = useCallback((changes: Partial<ArenaSettings>) => {
+    const next = normalizeArena({ ...arena, ...changes }, arena);
+    debugLogger.info('Updating arena', { changes });
+    const wasRunning = isRunning;
+    setIsRunning(false);
+    setArena(next);
+    if (wasRunning) {
+      setTimeout(() => setIsRunning(true), 50);
+    }
+  }, [arena, isRunning]);
+
+  const clearScene = useCallback(() => {
     // Pause simulation briefly during reset to prevent physics update errors
     setIsRunning(false);
     setObjects([]);
+    setConstraints([]);
     
     // Clear performance warnings
     setPerformanceWarnings([]);
     
     // Perform cleanup operations
     optimizer.performCleanup();
+
+    // Replay the same spawns after a reset. Ids keep counting, so objects that undoing
+    // the reset brings back never share an id with ones spawned since.
+    rngRef.current = new SeededRandom(rngRef.current.seed);
+    simulationClock.reset();
     
     // Force physics world to remount by changing key
     setResetKey(prev => prev + 1);
@@ -174,38 +489,214 @@ export const useSimulation = () => {
     }, 100);
   }, [optimizer]);
 
-  const addBall = useCallback(() => {
-    return addObject(ObjectType.BALL);
+  // A reset can be undone, bringing every object back in its live state
+  const removeAllObjects = useCallback((getLiveState: LiveStateGetter = noLiveState) => {
+    if (objects.length > 0) {
+      recordEdit({
+        type: 'remove',
+        all: true,
+        objects: objects.map(obj => withLiveState(obj, getLiveState(obj.id))),
+        constraints
+      });
+    }
+    clearScene();
+  }, [objects, constraints, clearScene]);
+
+  const loadScene = useCallback((scene: LoadedScene) => {
+    debugLogger.info('Loading scene', { objectCount: scene.objects.length, world: scene.world });
+
+    // Same pause-and-remount flow as a reset so no bodies from the old scene linger
+    setIsRunning(false);
+    setObjects(scene.objects);
+    setConstraints(scene.constraints ?? []);
+    setWorldSettings(scene.world);
+    // Scenes saved before arenas existed play on the default ground
+    setArena(scene.arena ?? DEFAULT_ARENA);
+    setPerformanceWarnings([]);
+    // Edits of the previous scene no longer apply
+    clearHistory();
+    optimizer.performCleanup();
+    restartRandomSequence();
+    setResetKey(prev => prev + 1);
+    simulationClock.reset();
+
+    setTimeout(() => {
+      setIsRunning(true);
+    }, 100);
+  }, [optimizer]);
+
+  // Start a fresh run with the given seed; the scene is cleared so the run can be replayed from the start
+  const restartRun = useCallback((nextSeed: number, nextDeterministic: boolean) => {
+    debugLogger.info('Restarting simulation run', { seed: nextSeed, deterministic: nextDeterministic });
+
+    setIsRunning(false);
+    setObjects([]);
+    setConstraints([]);
+    setPerformanceWarnings([]);
+    clearHistory();
+    optimizer.performCleanup();
+    restartRandomSequence(nextSeed);
+    simulationClock.reset();
+    setSeedState(nextSeed);
+    setDeterministic(nextDeterministic);
+    setResetKey(prev => prev + 1);
+
+    setTimeout(() => {
+      setIsRunning(true);
+    }, 100);
+  }, [optimizer]);
+
+  // Apply an edit backwards or forwards and return the command that reverses that step.
+  // Objects taken out are snapshotted again so stepping back restores them as they are now.
+  const applyEdit = useCallback((command: EditCommand, direction: 'undo' | 'redo', getLiveState: LiveStateGetter): EditCommand => {
+    if (command.type === 'props') {
+      const target = objects.find(obj => obj.id === command.id);
+      if (target) {
+        applyObjectProps(target, direction === 'undo' ? command.before : command.after, getLiveState(command.id));
+      }
+      return command;
+    }
+
+    // Undoing a removal and redoing a spawn both bring the objects back
+    if ((command.type === 'add') === (direction === 'redo')) {
+      restoreObjects(command.objects, command.constraints);
+      return command;
+    }
+
+    const ids = command.objects.map(obj => obj.id);
+    const next: EditCommand = {
+      ...command,
+      objects: objects.filter(obj => ids.includes(obj.id)).map(obj => withLiveState(obj, getLiveState(obj.id))),
+      constraints: constraintsOf(constraints, ids)
+    };
+    if (command.type === 'remove' && command.all) {
+      clearScene();
+    } else {
+      deleteObjects(ids);
+    }
+    return next;
+  }, [objects, constraints, applyObjectProps, restoreObjects, clearScene, deleteObjects]);
+
+  const undo = useCallback((getLiveState: LiveStateGetter = noLiveState) => {
+    const command = historyRef.current.popUndo();
+    if (!command) return false;
+    debugLogger.info('Undoing edit', { edit: describeEdit(command) });
+    historyRef.current.pushRedo(applyEdit(command, 'undo', getLiveState));
+    setHistoryVersion(prev => prev + 1);
+    return true;
+  }, [applyEdit]);
+
+  const redo = useCallback((getLiveState: LiveStateGetter = noLiveState) => {
+    const command = historyRef.current.popRedo();
+    if (!command) return false;
+    debugLogger.info('Redoing edit', { edit: describeEdit(command) });
+    historyRef.current.pushUndo(applyEdit(command, 'redo', getLiveState));
+    setHistoryVersion(prev => prev + 1);
+    return true;
+  }, [applyEdit]);
+
+  const setSeed = useCallback((nextSeed: number) => {
+    restartRun(nextSeed >>> 0, deterministic);
+  }, [restartRun, deterministic]);
+
+  const randomizeSeed = useCallback(() => {
+    restartRun(generateSeed(), deterministic);
+  }, [restartRun, deterministic]);
+
+  // World stepping is only read when the physics world mounts, so toggling restarts the run
+  const toggleDeterministic = useCallback(() => {
+    restartRun(seed, !deterministic);
+  }, [restartRun, seed, deterministic]);
+
+  const addBall = useCallback((customProps?: Partial<SpawnedObject['props']>, position?: [number, number, number], initialState?: BodyState) => {
+    return addObject(ObjectType.BALL, customProps, position, initialState);
   }, [addObject]);
 
-  const addBox = useCallback(() => {
-    return addObject(ObjectType.BOX);
+  const addBox = useCallback((customProps?: Partial<SpawnedObject['props']>, position?: [number, number, number], initialState?: BodyState) => {
+    return addObject(ObjectType.BOX, customProps, position, initialState);
   }, [addObject]);
 
-  const addGLB = useCallback((url: string, file: File, customProps?: Partial<SpawnedObject['props']>) => {
+  // Copy an object beside itself, turned and moving as the original is now
+  const duplicateObject = useCallback((id: string, liveState?: BodyState | null) => {
+    const source = objects.find(obj => obj.id === id);
+    if (!source) {
+      debugLogger.warn('Cannot duplicate unknown object', { id });
+      return null;
+    }
+
+    const position = getDuplicatePosition(liveState?.position ?? source.position, getSpawnHalfExtents(source.type, source.props));
+    return addObject(source.type, { ...source.props }, position, liveState ? { ...liveState, position } : undefined);
+  }, [objects, addObject]);
+
+  // Cylinders, capsules, cones and compounds share one spawn path
+  const addShape = useCallback((
+    type: ObjectType,
+    customProps?: Partial<SpawnedObject['props']>,
+    position?: [number, number, number],
+    initialState?: BodyState
+  ) => {
+    return addObject(type, customProps, position, initialState);
+  }, [addObject]);
+
+  const canAddShape = useCallback((type: ObjectType) => {
+    return optimizer.canAddObject(objects, type);
+  }, [optimizer, objects]);
+
+  const addGLB = useCallback((
+    url: string,
+    file: File,
+    customProps?: Partial<SpawnedObject['props']>,
+    position?: [number, number, number],
+    initialState?: BodyState
+  ) => {
     return addObject(ObjectType.GLB_MODEL, {
       url,
       scale: [1, 1, 1] as [number, number, number],
       collisionType: 'box' as const,
       mass: 1,
       ...customProps
-    });
+    }, position, initialState);
   }, [addObject]);
 
-  const addGLBWithCollisionType = useCallback((url: string, file: File, collisionType: 'box' | 'convex', customProps?: Partial<SpawnedObject['props']>) => {
-    return addObject(ObjectType.GLB_MODEL, {
+  const addGLBWithCollisionType = useCallback((
+    url: string,
+    file: File,
+    collisionType: GLBCollisionType,
+    customProps?: Partial<SpawnedObject['props']>,
+    position?: [number, number, number],
+    initialState?: BodyState
+  ) => {
+    const props = {
       url,
       scale: [1, 1, 1] as [number, number, number],
       collisionType,
-      mass: 1,
+      // Mesh collision is for static scenery only
+      mass: collisionType === 'mesh' ? 0 : 1,
       ...customProps
-    });
+    };
+    const collisionError = validateGLBCollision(collisionType, props.mass, { url, fileName: file.name });
+    if (collisionError) {
+      throw collisionError;
+    }
+    return addObject(ObjectType.GLB_MODEL, props, position, initialState);
   }, [addObject]);
 
   const toggleSimulation = useCallback(() => {
     setIsRunning(prev => !prev);
   }, []);
 
+  // Advance a paused simulation by about a number of fixed steps (see FrameStepper)
+  const stepSimulation = useCallback((steps: number = 1) => {
+    if (isRunning) {
+      debugLogger.warn('Pause the simulation before stepping it');
+      return false;
+    }
+    const count = Math.min(MAX_FRAME_STEPS, Math.max(1, Math.floor(steps)));
+    if (!isFinite(count)) return false;
+    setStepRequest(prev => ({ id: (prev?.id ?? 0) + 1, steps: count }));
+    return true;
+  }, [isRunning]);
+
   // Performance monitoring effect - only update state if it actually changes
   useEffect(() => {
     const interval = setInterval(() => {
@@ -226,6 +717,18 @@ export const useSimulation = () => {
     return () => clearInterval(interval);
   }, []);
 
+  // Keep the diagnostics export in sync with the current run
+  useEffect(() => {
+    setSimulationRunInfo({
+      seed,
+      deterministic,
+      ...(deterministic ? DETERMINISTIC_PHYSICS : {
+        fixedTimeStep: worldSettings.fixedTimeStep,
+        maxSubSteps: worldSettings.maxSubSteps
+      })
+    });
+  }, [seed, deterministic, worldSettings.fixedTimeStep, worldSettings.maxSubSteps]);
+
   // Cleanup effect
   useEffect(() => {
     return () => {
@@ -237,18 +740,49 @@ export const useSimulation = () => {
     setPerformanceWarnings([]);
   }, []);
 
+  const nextUndo = historyRef.current.peekUndo();
+  const nextRedo = historyRef.current.peekRedo();
+
   return {
     objects,
     isRunning,
     resetKey,
     addObject,
     removeObject,
+    removeObjects,
+    removeObjectsOfType,
+    cullObjects,
+    duplicateObject,
+    updateObjectProps,
+    constraints,
+    addConstraint,
+    removeConstraint,
     removeAllObjects,
+    undo,
+    redo,
+    canUndo: historyRef.current.canUndo,
+    canRedo: historyRef.current.canRedo,
+    undoLabel: nextUndo ? describeEdit(nextUndo) : null,
+    redoLabel: nextRedo ? describeEdit(nextRedo) : null,
+    loadScene,
+    worldSettings,
+    updateWorldSettings,
+    arena,
+    updateArena,
+    seed,
+    setSeed,
+    randomizeSeed,
+    deterministic,
+    toggleDeterministic,
     addBall,
     addBox,
+    addShape,
+    canAddShape,
     addGLB,
     addGLBWithCollisionType,
     toggleSimulation,
+    stepSimulation,
+    stepRequest,
     objectCount: objects.length,
     performanceWarnings,
     clearPerformanceWarnings,
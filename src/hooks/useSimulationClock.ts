@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { simulationClock, SimulationClockSnapshot } from '../utils/simulationClock';
+
+/**
+ * Step count and simulated time of the current run, polled so the physics loop
+ * never has to re-render the UI
+ */
+export const useSimulationClock = (intervalMs: number = 100): SimulationClockSnapshot => {
+  const [snapshot, setSnapshot] = useState<SimulationClockSnapshot>(() => simulationClock.getSnapshot());
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const next = simulationClock.getSnapshot();
+      // Skip re-renders while nothing steps
+      setSnapshot(prev => (prev.steps === next.steps && prev.time === next.time ? prev : next));
+    }, intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return snapshot;
+};
@@ -0,0 +1,90 @@
+import { useState, useCallback, useEffect } from 'react';
+import { BodyState, ObjectType, PlacementMode, SpawnedObject, TerrainSettings } from '../types/simulation';
+import { bodyRegistry } from '../utils/bodyRegistry';
+import { debugLogger } from '../utils/debugLogger';
+import {
+  getCursorSpawnPosition,
+  getPatternPosition,
+  getSpawnHalfExtents,
+  isPatternPlacement,
+  PatternPlacementMode
+} from '../utils/spawnPlacement';
+
+// A spawn waiting for its position; create adds the object and returns its id
+export interface SpawnRequest {
+  type: ObjectType;
+  props?: SpawnedObject['props'];
+  create: (position?: [number, number, number], initialState?: BodyState) => string | null;
+}
+
+// What the ghost preview shows: the object the cursor will place, or the next layout slot
+export type SpawnGhost =
+  | { mode: 'cursor'; type: ObjectType; props?: SpawnedObject['props'] }
+  | { mode: PatternPlacementMode; type: ObjectType; props?: SpawnedObject['props']; slot: number };
+
+/**
+ * Spawn placement state. Random and layout modes spawn straight away; at-cursor mode arms
+ * the spawn and places it on each click in the scene until cancelled. Layouts are raised
+ * over the terrain when there is one.
+ */
+export const useSpawnPlacement = (objectCount: number, terrain: TerrainSettings | null = null) => {
+  const [mode, setModeState] = useState<PlacementMode>('random');
+  const [armed, setArmed] = useState<SpawnRequest | null>(null);
+  // Object shown by the layout ghost: the last one spawned
+  const [preview, setPreview] = useState<Pick<SpawnRequest, 'type' | 'props'>>({ type: ObjectType.BALL });
+  const [slot, setSlot] = useState(0);
+
+  // Layouts start over once the scene is cleared
+  useEffect(() => {
+    if (objectCount === 0) setSlot(0);
+  }, [objectCount]);
+
+  const setMode = useCallback((next: PlacementMode) => {
+    setModeState(next);
+    setArmed(null);
+    setSlot(0);
+    debugLogger.info('Spawn placement mode changed', { mode: next });
+  }, []);
+
+  const spawn = useCallback((request: SpawnRequest) => {
+    setPreview({ type: request.type, props: request.props });
+    if (mode === 'cursor') {
+      setArmed(request);
+      return null;
+    }
+    if (!isPatternPlacement(mode)) {
+      return request.create();
+    }
+
+    const bodies = bodyRegistry.getAll().map(body => body.object3D);
+    const position = getPatternPosition(mode, slot, getSpawnHalfExtents(request.type, request.props), bodies, terrain);
+    const id = request.create(position);
+    if (id) setSlot(prev => prev + 1);
+    return id;
+  }, [mode, slot, terrain]);
+
+  // Spawn the armed object above a point picked in the scene; it stays armed for more clicks
+  const placeAt = useCallback((point: [number, number, number]) => {
+    if (!armed) return null;
+    return armed.create(getCursorSpawnPosition(point, getSpawnHalfExtents(armed.type, armed.props)));
+  }, [armed]);
+
+  const cancel = useCallback(() => setArmed(null), []);
+
+  let ghost: SpawnGhost | null = null;
+  if (mode === 'cursor') {
+    ghost = armed ? { mode, type: armed.type, props: armed.props } : null;
+  } else if (isPatternPlacement(mode)) {
+    ghost = { mode, type: preview.type, props: preview.props, slot };
+  }
+
+  return {
+    mode,
+    setMode,
+    armedType: armed?.type ?? null,
+    ghost,
+    spawn,
+    placeAt,
+    cancel
+  };
+};
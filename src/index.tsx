@@ -4,6 +4,8 @@ import './index.css';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
 import { setupGlobalPhysicsErrorLogging } from './utils/physicsDebugRegistry';
+import { decompositionService } from './utils/decompositionService';
+import { createDecompositionWorker } from './workers/createDecompositionWorker';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
@@ -11,6 +13,8 @@ const root = ReactDOM.createRoot(
 
 // Setup global physics error logging & manual dump helper
 setupGlobalPhysicsErrorLogging();
+// Convex decomposition of GLB models runs in a worker so loading never stalls a frame
+decompositionService.setWorkerFactory(createDecompositionWorker);
 root.render(
   // StrictMode causes double-invocation in dev which can duplicate physics bodies
   // <React.StrictMode>
@@ -20,6 +20,8 @@ export interface PhysicsBodyProps {
   material?: {
     friction?: number;
     restitution?: number;
+    linearDamping?: number;
+    angularDamping?: number;
   };
 }
 
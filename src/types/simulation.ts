@@ -1,25 +1,225 @@
 export enum ObjectType {
   BALL = 'ball',
   BOX = 'box',
-  GLB_MODEL = 'glb'
+  GLB_MODEL = 'glb',
+  CYLINDER = 'cylinder',
+  CAPSULE = 'capsule',
+  CONE = 'cone',
+  COMPOUND = 'compound'
 }
 
+// Shapes that can be used on their own or as parts of a compound body
+export type PrimitiveShape = 'ball' | 'box' | 'cylinder' | 'capsule' | 'cone';
+
+// One rigid piece of a compound body. The first part is the root and defines the
+// compound's origin; the other offsets are local to it.
+export interface CompoundPart {
+  shape: PrimitiveShape;
+  offset: [number, number, number];
+  radius?: number;
+  height?: number;
+  size?: [number, number, number];
+  color?: string;
+}
+
+// How a GLB model collides: its bounding box, one convex hull, several convex hulls
+// from a decomposition of the mesh, or its exact triangles (static models only)
+export type GLBCollisionType = 'box' | 'convex' | 'decomposed' | 'mesh';
+
+// Part and detail budget for decomposed GLB collision
+export type DecompositionQuality = 'low' | 'medium' | 'high';
+
+// Live rigid-body state captured from the physics world
+export interface BodyState {
+  position: [number, number, number];
+  rotation: [number, number, number, number]; // Quaternion (x, y, z, w)
+  linearVelocity: [number, number, number];
+  angularVelocity: [number, number, number];
+}
+
+export type MaterialPresetName = 'rubber' | 'ice' | 'wood' | 'steel';
+
 export interface SpawnedObject {
   id: string;
   type: ObjectType;
   position: [number, number, number];
   timestamp: number;
+  // Spawn order, increasing for every object added or loaded; auto-cleanup removes the
+  // lowest first. Timestamps are wall-clock and cannot be compared across sessions.
+  spawnIndex: number;
   props?: {
     radius?: number;
     size?: [number, number, number];
+    height?: number; // For cylinders, capsules (end to end) and cones
+    parts?: CompoundPart[]; // For compound bodies
     mass?: number;
     color?: string;
+    friction?: number;
+    restitution?: number;
+    linearDamping?: number;
+    angularDamping?: number;
+    materialPreset?: MaterialPresetName; // Preset the material values came from
     url?: string; // For GLB models
     scale?: [number, number, number]; // For GLB models
-    collisionType?: 'box' | 'convex'; // For GLB models
+    collisionType?: GLBCollisionType; // For GLB models
+    decompositionQuality?: DecompositionQuality; // For decomposed GLB models
   };
+  // Body state applied once the rigid body is created (e.g. when loading a scene)
+  initialState?: BodyState;
+  // Bumped when a property change needs the rigid body to be recreated
+  revision?: number;
+}
+
+// Joints between two spawned objects
+export type ConstraintKind = 'fixed' | 'hinge' | 'pointToPoint' | 'slider' | 'spring';
+
+// Where a constraint attaches to a body, in the body's local frame. As in Bullet,
+// hinges turn about the anchor's z axis and sliders move along its x axis.
+export interface ConstraintAnchor {
+  position: [number, number, number];
+  rotation: [number, number, number, number]; // Quaternion (x, y, z, w)
 }
 
+export interface ObjectConstraint {
+  id: string;
+  type: ConstraintKind;
+  // SpawnedObject ids of the linked bodies
+  bodyA: string;
+  bodyB: string;
+  anchorA: ConstraintAnchor;
+  anchorB: ConstraintAnchor;
+  // Hinge angle range in radians or slider travel in metres; unset leaves the joint free
+  limits?: { lower: number; upper: number };
+  // For spring constraints: stiffness in N/m, damping in N·s/m and rest length in metres
+  spring?: { stiffness: number; damping: number; restLength: number };
+}
+
+export interface WorldSettings {
+  gravity: [number, number, number];
+  // Simulated seconds per real second: below 1 is slow motion, above 1 fast-forward
+  timeScale: number;
+  // Physics step length in seconds and the most steps taken per frame to catch up
+  fixedTimeStep: number;
+  maxSubSteps: number;
+}
+
+export type MotionOverlayKind = 'velocity' | 'angularVelocity' | 'trail';
+
+export type MotionOverlayFlags = Record<MotionOverlayKind, boolean>;
+
+// Velocity arrows, spin indicators and trajectory trails drawn over live bodies
+export interface MotionOverlaySettings {
+  // Overlays shown for every object
+  all: MotionOverlayFlags;
+  // Overlays turned on for single objects, by SpawnedObject id
+  perObject: Record<string, Partial<MotionOverlayFlags>>;
+  // Seconds of simulated motion a trail shows
+  trailLength: number;
+}
+
+// Contact between two spawned objects (or an object and the ground) starting or ending.
+// Found from proxy shapes rather than Bullet's contacts (see contactDetection), so it is
+// approximate. The normal points from objectA to objectB; impulse is only estimated for 'begin'.
+export interface CollisionEvent {
+  type: 'begin' | 'end';
+  objectA: string;
+  objectB: string;
+  point: [number, number, number];
+  normal: [number, number, number];
+  // Impulse along the normal in N·s
+  impulse: number;
+  // Physics step and simulated time the contact was seen at
+  step: number;
+  time: number;
+}
+
+// Where new objects appear: a random drop point, the clicked point under the cursor,
+// or the next slot of a grid, tower or ring layout
+export type PlacementMode = 'random' | 'cursor' | 'grid' | 'stack' | 'ring';
+
+export type LaunchProjectile = 'ball' | 'box' | 'glb';
+
+// Axes of the camera view a projectile can spin about
+export type LaunchSpinAxis = 'right' | 'up' | 'forward';
+
+// Projectile launcher settings: launch speed in m/s and spin in rad/s about a view axis
+export interface LaunchSettings {
+  projectile: LaunchProjectile;
+  speed: number;
+  spin: number;
+  spinAxis: LaunchSpinAxis;
+}
+
+// Ask the launcher to fire along the view direction; a new id fires again
+export interface LaunchRequest {
+  id: number;
+}
+
+// Static environment pieces that can be added around the ground
+export type ArenaPieceKind = 'walls' | 'funnel' | 'ramp' | 'bowl';
+
+export interface ArenaPiece {
+  id: string;
+  kind: ArenaPieceKind;
+  // Ramp incline in degrees
+  angle?: number;
+  // Direction a ramp rises toward, in degrees about the vertical axis
+  heading?: number;
+}
+
+// Where terrain heights come from: seeded noise or a grayscale heightmap image
+export type TerrainSource = 'noise' | 'image';
+
+// Grayscale heightmap read from an image, as square rows of heights from 0 to 1
+export interface Heightmap {
+  name: string;
+  size: number;
+  values: number[];
+}
+
+// Heightfield terrain laid over the middle of the ground
+export interface TerrainSettings {
+  source: TerrainSource;
+  // Noise seed; unused for images
+  seed: number;
+  // Height samples along each side
+  resolution: number;
+  // Height of the highest point above the ground in metres
+  amplitude: number;
+  // Width and depth in metres
+  extent: number;
+  heightmap: Heightmap | null;
+}
+
+// Ground and static pieces the simulation takes place in; saved with the scene
+export interface ArenaSettings {
+  // Width and depth of the square ground in metres
+  groundSize: number;
+  groundMaterial: MaterialPresetName | null;
+  pieces: ArenaPiece[];
+  // Terrain over the flat ground, if any
+  terrain: TerrainSettings | null;
+}
+
+// What happens to a body that leaves the world bounds
+export type BoundsPolicy = 'off' | 'despawn' | 'respawn' | 'wrap';
+
+// World bounds volume, centered on the origin: halfWidth along x and z, floor to ceiling in y
+export interface WorldBounds {
+  policy: BoundsPolicy;
+  halfWidth: number;
+  floor: number;
+  ceiling: number;
+}
+
+// Ask a paused simulation to advance by a number of fixed steps; a new id starts a new request
+export interface FrameStepRequest {
+  id: number;
+  steps: number;
+}
+
+export type GravityPresetName = 'earth' | 'moon' | 'mars' | 'zeroG';
+
 export interface SimulationState {
   objects: SpawnedObject[];
   isRunning: boolean;
@@ -27,4 +227,4 @@ export interface SimulationState {
   performance: {
     fps: number;
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,104 @@
+import { Quaternion, Vector3 } from 'three';
+import {
+  addArenaPreset,
+  ARENA_LAYOUT,
+  ARENA_LIMITS,
+  canAddArenaPreset,
+  DEFAULT_ARENA,
+  getArenaBodies,
+  getArenaGround,
+  normalizeArena
+} from '../arena';
+import { DEFAULT_TERRAIN } from '../terrain';
+import { ArenaSettings } from '../../types/simulation';
+
+// Direction of a body's local axis in world space
+const axisOf = (rotation: [number, number, number, number], axis: [number, number, number]) =>
+  new Vector3(...axis).applyQuaternion(new Quaternion(...rotation));
+
+describe('arena', () => {
+  it('sizes the ground with its top at y = 0', () => {
+    const ground = getArenaGround({ ...DEFAULT_ARENA, groundSize: 40 });
+    expect(ground.halfExtents).toEqual([20, 0.5, 20]);
+    expect(ground.position[1] + ground.halfExtents[1]).toBe(0);
+  });
+
+  it('adds each piece once and ramps on free headings', () => {
+    let arena: ArenaSettings = addArenaPreset(DEFAULT_ARENA, 'glassBox');
+    expect(canAddArenaPreset(arena, 'glassBox')).toBe(false);
+    expect(addArenaPreset(arena, 'glassBox')).toBe(arena);
+
+    arena = addArenaPreset(addArenaPreset(arena, 'gentleRamp'), 'steepRamp');
+    expect(arena.pieces.slice(1)).toEqual([
+      { id: 'ramp-0', kind: 'ramp', angle: 15, heading: 0 },
+      { id: 'ramp-90', kind: 'ramp', angle: 30, heading: 90 }
+    ]);
+
+    arena = addArenaPreset(addArenaPreset(arena, 'gentleRamp'), 'gentleRamp');
+    expect(canAddArenaPreset(arena, 'steepRamp')).toBe(false);
+  });
+
+  it('places the glass walls on the ground edges', () => {
+    const walls = getArenaBodies({ ...DEFAULT_ARENA, groundSize: 30, pieces: [{ id: 'walls', kind: 'walls' }] });
+    expect(walls).toHaveLength(4);
+    expect(walls.every(wall => wall.glass)).toBe(true);
+    expect(walls[0].position[0] - walls[0].halfExtents[0]).toBeCloseTo(15);
+    expect(walls[0].halfExtents[1] * 2).toBe(ARENA_LAYOUT.WALL_HEIGHT);
+  });
+
+  it('tags every static box with the piece it belongs to', () => {
+    const bodies = getArenaBodies({ ...DEFAULT_ARENA, pieces: [{ id: 'bowl', kind: 'bowl' }, { id: 'ramp-0', kind: 'ramp', angle: 15, heading: 0 }] });
+    expect(bodies.filter(body => body.pieceId === 'bowl')).toHaveLength(ARENA_LAYOUT.RING_PANELS);
+    expect(bodies.filter(body => body.pieceId === 'ramp-0')).toHaveLength(1);
+  });
+
+  it('tilts ramps to their incline and rises toward their heading', () => {
+    const [ramp] = getArenaBodies({ ...DEFAULT_ARENA, pieces: [{ id: 'ramp-90', kind: 'ramp', angle: 30, heading: 90 }] });
+    const along = axisOf(ramp.rotation, [1, 0, 0]);
+
+    expect(Math.asin(along.y)).toBeCloseTo(Math.PI / 6);
+    // Heading 90 points along -z, away from the origin
+    expect(along.z).toBeLessThan(0);
+    expect(ramp.position[2]).toBeLessThan(-ARENA_LAYOUT.RAMP_START);
+    expect(ramp.position[0]).toBeCloseTo(0);
+  });
+
+  it('builds the funnel as a ring of panels leaning outward', () => {
+    const panels = getArenaBodies({ ...DEFAULT_ARENA, pieces: [{ id: 'funnel', kind: 'funnel' }] });
+    expect(panels).toHaveLength(ARENA_LAYOUT.RING_PANELS);
+
+    panels.forEach(panel => {
+      const up = axisOf(panel.rotation, [0, 1, 0]);
+      const outward = new Vector3(panel.position[0], 0, panel.position[2]).normalize();
+      expect(up.y).toBeGreaterThan(0);
+      expect(up.dot(outward)).toBeGreaterThan(0);
+      expect(panel.position[1]).toBeCloseTo(ARENA_LAYOUT.FUNNEL_ELEVATION + ARENA_LAYOUT.FUNNEL_HEIGHT / 2);
+    });
+  });
+
+  it('clamps loaded settings and drops unknown or duplicate pieces', () => {
+    const arena = normalizeArena({
+      groundSize: 500,
+      groundMaterial: 'ice',
+      pieces: [
+        { id: 'bowl', kind: 'bowl' },
+        { id: 'bowl', kind: 'bowl' },
+        { id: 'slide', kind: 'slide' as any },
+        { id: 'ramp-0', kind: 'ramp', angle: 80, heading: -90 }
+      ]
+    });
+
+    expect(arena.groundSize).toBe(ARENA_LIMITS.MAX_GROUND_SIZE);
+    expect(arena.groundMaterial).toBe('ice');
+    expect(arena.pieces).toEqual([
+      { id: 'bowl', kind: 'bowl' },
+      { id: 'ramp-0', kind: 'ramp', angle: ARENA_LIMITS.MAX_RAMP_ANGLE, heading: 270 }
+    ]);
+  });
+
+  it('shrinks the terrain with the ground', () => {
+    const arena = normalizeArena({ groundSize: 12 }, { ...DEFAULT_ARENA, terrain: { ...DEFAULT_TERRAIN, extent: 20 } });
+    expect(arena.terrain?.extent).toBe(12);
+    expect(normalizeArena({ terrain: null }).terrain).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { CollisionEventBus } from '../collisionEvents';
+import { CollisionEvent } from '../../types/simulation';
+
+const event: CollisionEvent = {
+  type: 'begin',
+  objectA: 'ground',
+  objectB: 'ball-1',
+  point: [0, 0, 0],
+  normal: [0, 1, 0],
+  impulse: 2,
+  step: 10,
+  time: 10 / 60
+};
+
+describe('CollisionEventBus', () => {
+  it('delivers events until a listener unsubscribes', () => {
+    const bus = new CollisionEventBus();
+    const listener = jest.fn();
+    const unsubscribe = bus.subscribe(listener);
+
+    bus.emit(event);
+    unsubscribe();
+    bus.emit(event);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(event);
+    expect(bus.listenerCount).toBe(0);
+  });
+
+  it('keeps delivering to other listeners when one throws', () => {
+    const bus = new CollisionEventBus();
+    const listener = jest.fn();
+    bus.subscribe(() => {
+      throw new Error('listener failed');
+    });
+    bus.subscribe(listener);
+
+    expect(() => bus.emit(event)).not.toThrow();
+    expect(listener).toHaveBeenCalledWith(event);
+  });
+
+  it('keeps the latest geometry of contacts until they end', () => {
+    const bus = new CollisionEventBus();
+    const listener = jest.fn();
+    bus.subscribe(listener);
+
+    bus.emit(event);
+    bus.update({ ...event, point: [0.2, 0, 0], impulse: 0.5 });
+    bus.update({ ...event, objectB: 'never-began' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(bus.getActiveContacts()).toEqual([{ ...event, point: [0.2, 0, 0], impulse: 0.5 }]);
+
+    bus.emit({ ...event, type: 'end' });
+    expect(bus.getActiveContacts()).toEqual([]);
+  });
+});
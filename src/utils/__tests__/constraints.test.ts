@@ -0,0 +1,94 @@
+import { Quaternion, Vector3 } from 'three';
+import { BodyState, ObjectConstraint } from '../../types/simulation';
+import {
+  computeSpringImpulse,
+  createConstraint,
+  getWorldAnchor,
+  isConstraintKind,
+  withoutConstraintsOf
+} from '../constraints';
+
+const stateAt = (position: [number, number, number], rotation: [number, number, number, number] = [0, 0, 0, 1]): BodyState => ({
+  position,
+  rotation,
+  linearVelocity: [0, 0, 0],
+  angularVelocity: [0, 0, 0]
+});
+
+const worldAnchor = (constraint: Omit<ObjectConstraint, 'id'>, side: 'A' | 'B', state: BodyState) =>
+  getWorldAnchor(
+    side === 'A' ? constraint.anchorA : constraint.anchorB,
+    new Vector3(...state.position),
+    new Quaternion(...state.rotation)
+  );
+
+describe('constraints', () => {
+  it('anchors rigid joints at the midpoint in each body frame', () => {
+    // Body B is turned a quarter turn about y
+    const stateA = stateAt([0, 4, 0]);
+    const stateB = stateAt([2, 4, 0], [0, Math.SQRT1_2, 0, Math.SQRT1_2]);
+    const constraint = createConstraint('hinge', { id: 'a', state: stateA }, { id: 'b', state: stateB });
+
+    expect(constraint.anchorA.position).toEqual([1, 0, 0]);
+    expect(worldAnchor(constraint, 'A', stateA).toArray()).toEqual([1, 4, 0]);
+    const pivotB = worldAnchor(constraint, 'B', stateB);
+    expect(pivotB.distanceTo(new Vector3(1, 4, 0))).toBeLessThan(1e-9);
+
+    // Both anchor frames describe the same joint orientation in world space
+    const rotationA = new Quaternion(...stateA.rotation).multiply(new Quaternion(...constraint.anchorA.rotation));
+    const rotationB = new Quaternion(...stateB.rotation).multiply(new Quaternion(...constraint.anchorB.rotation));
+    expect(rotationA.angleTo(rotationB)).toBeLessThan(1e-6);
+  });
+
+  it('places the pivot on either body and keeps limits for hinges and sliders only', () => {
+    const bodyA = { id: 'a', state: stateAt([0, 5, 0]) };
+    const bodyB = { id: 'b', state: stateAt([0, 3, 0]) };
+    const limits = { lower: -0.5, upper: 0.5 };
+
+    const pendulum = createConstraint('pointToPoint', bodyA, bodyB, { pivot: 'bodyA', limits });
+    expect(pendulum.anchorA.position).toEqual([0, 0, 0]);
+    expect(pendulum.anchorB.position).toEqual([0, 2, 0]);
+    expect(pendulum.limits).toBeUndefined();
+
+    expect(createConstraint('slider', bodyA, bodyB, { limits }).limits).toEqual(limits);
+  });
+
+  it('attaches springs at both centres with the current distance as rest length', () => {
+    const spring = createConstraint('spring', { id: 'a', state: stateAt([0, 1, 0]) }, { id: 'b', state: stateAt([3, 5, 0]) }, { stiffness: 10 });
+
+    expect(spring.anchorA.position).toEqual([0, 0, 0]);
+    expect(spring.anchorB.position).toEqual([0, 0, 0]);
+    expect(spring.spring).toEqual({ stiffness: 10, damping: 2, restLength: 5 });
+  });
+
+  it('pulls stretched springs together and damps closing motion', () => {
+    const input = {
+      pointA: new Vector3(0, 0, 0),
+      pointB: new Vector3(3, 0, 0),
+      velocityA: new Vector3(),
+      velocityB: new Vector3(),
+      stiffness: 10,
+      damping: 0,
+      restLength: 2,
+      dt: 0.1
+    };
+
+    expect(computeSpringImpulse(input).toArray()).toEqual([1, 0, 0]);
+    // B moving toward A at the speed that cancels the stretch force
+    expect(computeSpringImpulse({ ...input, damping: 2, velocityB: new Vector3(-5, 0, 0) }).length()).toBeCloseTo(0);
+    expect(computeSpringImpulse({ ...input, pointB: new Vector3() }).length()).toBe(0);
+  });
+
+  it('drops constraints that involve removed objects', () => {
+    const anchor = { position: [0, 0, 0] as [number, number, number], rotation: [0, 0, 0, 1] as [number, number, number, number] };
+    const constraints: ObjectConstraint[] = [
+      { id: 'c1', type: 'fixed', bodyA: 'a', bodyB: 'b', anchorA: anchor, anchorB: anchor },
+      { id: 'c2', type: 'fixed', bodyA: 'b', bodyB: 'c', anchorA: anchor, anchorB: anchor }
+    ];
+
+    expect(withoutConstraintsOf(constraints, ['a']).map(c => c.id)).toEqual(['c2']);
+    expect(withoutConstraintsOf(constraints, ['c', 'a'])).toEqual([]);
+    expect(isConstraintKind('hinge')).toBe(true);
+    expect(isConstraintKind('weld')).toBe(false);
+  });
+});
@@ -0,0 +1,212 @@
+import { BoxGeometry, Mesh, Object3D, Quaternion, Vector3 } from 'three';
+import {
+  CONTACT_MARGIN,
+  ContactCollider,
+  contactPairKey,
+  detectContacts,
+  estimateContactImpulse,
+  findContact,
+  getContactShape,
+  getTerrainCollider
+} from '../contactDetection';
+import { DEFAULT_TERRAIN } from '../terrain';
+import { TerrainSettings } from '../../types/simulation';
+
+const sphere = (objectId: string, center: [number, number, number], radius: number, mass = 1): ContactCollider => ({
+  objectId,
+  center: new Vector3(...center),
+  rotation: new Quaternion(),
+  shape: { kind: 'sphere', radius },
+  inverseMass: mass > 0 ? 1 / mass : 0,
+  velocity: new Vector3()
+});
+
+const box = (
+  objectId: string,
+  center: [number, number, number],
+  halfExtents: [number, number, number],
+  mass = 1,
+  rotation = new Quaternion()
+): ContactCollider => ({
+  objectId,
+  center: new Vector3(...center),
+  rotation,
+  shape: { kind: 'box', halfExtents: new Vector3(...halfExtents) },
+  inverseMass: mass > 0 ? 1 / mass : 0,
+  velocity: new Vector3()
+});
+
+const ground = () => box('ground', [0, -0.5, 0], [10, 0.5, 10], 0);
+
+describe('findContact', () => {
+  it('finds the point and normal between two touching spheres', () => {
+    const contact = findContact(sphere('a', [0, 0, 0], 0.5), sphere('b', [0.9, 0, 0], 0.5));
+
+    expect(contact).not.toBeNull();
+    expect(contact!.normal.x).toBeCloseTo(1);
+    expect(contact!.depth).toBeCloseTo(0.1);
+    expect(contact!.point.x).toBeCloseTo(0.45);
+  });
+
+  it('ignores spheres further apart than the margin', () => {
+    expect(findContact(sphere('a', [0, 0, 0], 0.5), sphere('b', [1.1, 0, 0], 0.5))).toBeNull();
+    expect(findContact(sphere('a', [0, 0, 0], 0.5), sphere('b', [1.03, 0, 0], 0.5), CONTACT_MARGIN.END)).not.toBeNull();
+  });
+
+  it('points the normal from the first collider to the second for boxes and spheres', () => {
+    const resting = sphere('ball', [0, 0.5, 0], 0.5);
+
+    const fromGround = findContact(ground(), resting);
+    expect(fromGround!.normal.y).toBeCloseTo(1);
+    expect(fromGround!.point.y).toBeCloseTo(0);
+
+    const fromBall = findContact(resting, ground());
+    expect(fromBall!.normal.y).toBeCloseTo(-1);
+  });
+
+  it('pushes a sphere whose centre is inside a box out through the nearest face', () => {
+    const contact = findContact(box('crate', [0, 0, 0], [1, 1, 1]), sphere('ball', [0.9, 0, 0], 0.2));
+
+    expect(contact!.normal.x).toBeCloseTo(1);
+    expect(contact!.depth).toBeCloseTo(0.3);
+  });
+
+  it('reports a box resting on the ground on the face normal at its base', () => {
+    const contact = findContact(ground(), box('crate', [2, 0.5, 1], [0.5, 0.5, 0.5]));
+
+    expect(contact!.normal.y).toBeCloseTo(1);
+    expect(contact!.depth).toBeCloseTo(0);
+    expect(contact!.point.x).toBeCloseTo(2);
+    expect(contact!.point.y).toBeCloseTo(0);
+    expect(contact!.point.z).toBeCloseTo(1);
+  });
+
+  it('separates rotated boxes on their edge axes', () => {
+    const tilted = new Quaternion().setFromAxisAngle(new Vector3(0, 0, 1), Math.PI / 4);
+    const corner = Math.SQRT2 * 0.5;
+
+    expect(findContact(box('a', [0, 0, 0], [0.5, 0.5, 0.5]), box('b', [0.5 + corner + 0.1, 0, 0], [0.5, 0.5, 0.5], 1, tilted))).toBeNull();
+
+    const contact = findContact(box('a', [0, 0, 0], [0.5, 0.5, 0.5]), box('b', [0.5 + corner - 0.05, 0, 0], [0.5, 0.5, 0.5], 1, tilted));
+    expect(contact!.normal.x).toBeCloseTo(1);
+    expect(contact!.depth).toBeCloseTo(0.05);
+    expect(contact!.point.x).toBeCloseTo(0.45);
+  });
+});
+
+describe('estimateContactImpulse', () => {
+  it('stops the closing speed along the normal with the reduced mass', () => {
+    const falling = sphere('ball', [0, 0.5, 0], 0.5, 2);
+    falling.velocity.set(1, -3, 0);
+    const impulse = estimateContactImpulse(falling, ground(), new Vector3(0, -1, 0));
+
+    expect(impulse).toBeCloseTo(6);
+  });
+
+  it('is zero for bodies moving apart or without mass', () => {
+    const rising = sphere('ball', [0, 0.5, 0], 0.5);
+    rising.velocity.set(0, 2, 0);
+
+    expect(estimateContactImpulse(rising, ground(), new Vector3(0, -1, 0))).toBe(0);
+    expect(estimateContactImpulse(ground(), box('wall', [0, 0, 0], [1, 1, 1], 0), new Vector3(0, 1, 0))).toBe(0);
+  });
+});
+
+describe('detectContacts', () => {
+  it('keys pairs by object and orders them by id', () => {
+    const contacts = detectContacts([sphere('zeta', [0, 0.5, 0], 0.5), ground()]);
+
+    expect(Array.from(contacts.keys())).toEqual([contactPairKey('zeta', 'ground')]);
+    const contact = contacts.get('ground|zeta')!;
+    expect(contact.objectA).toBe('ground');
+    expect(contact.objectB).toBe('zeta');
+    expect(contact.normal.y).toBeCloseTo(1);
+  });
+
+  it('skips static pairs, parts of one object and ignored pairs', () => {
+    const colliders = [
+      ground(),
+      box('shelf', [0, 0.5, 0], [1, 0.5, 1], 0),
+      sphere('compound', [3, 0.5, 0], 0.5),
+      sphere('compound', [3.8, 0.5, 0], 0.5)
+    ];
+    const contacts = detectContacts(colliders, () => false, key => key === contactPairKey('compound', 'ground'));
+
+    expect(contacts.size).toBe(0);
+  });
+
+  it('merges the parts of an object into their deepest contact', () => {
+    const contacts = detectContacts([
+      ground(),
+      sphere('compound', [0, 0.49, 0], 0.5),
+      sphere('compound', [1, 0.4, 0], 0.5)
+    ]);
+
+    expect(contacts.size).toBe(1);
+    expect(contacts.get('compound|ground')!.depth).toBeCloseTo(0.1);
+  });
+
+  it('holds touching pairs until they separate past the release margin', () => {
+    const hovering = [ground(), sphere('ball', [0, 0.53, 0], 0.5)];
+
+    expect(detectContacts(hovering).size).toBe(0);
+    expect(detectContacts(hovering, () => true).size).toBe(1);
+  });
+});
+
+describe('getTerrainCollider', () => {
+  const plateau: TerrainSettings = {
+    ...DEFAULT_TERRAIN,
+    source: 'image',
+    amplitude: 2,
+    heightmap: { name: 'plateau.png', size: 2, values: [1, 1, 1, 1] }
+  };
+
+  it('reports bodies resting on the terrain rather than the ground below it', () => {
+    const ball = sphere('ball', [1, 2.5, 1], 0.5);
+    const terrain = getTerrainCollider(plateau, ball, 'terrain')!;
+    const contacts = detectContacts([ground(), ball, terrain]);
+
+    expect(Array.from(contacts.keys())).toEqual([contactPairKey('ball', 'terrain')]);
+    expect(contacts.get('ball|terrain')!.point.y).toBeCloseTo(2);
+    expect(contacts.get('ball|terrain')!.normal.y).toBeCloseTo(-1);
+  });
+
+  it('leaves bodies off the terrain to the ground', () => {
+    expect(getTerrainCollider(plateau, sphere('ball', [15, 0.5, 0], 0.5), 'terrain')).toBeNull();
+  });
+});
+
+describe('getContactShape', () => {
+  it('uses the sphere radius and primitive half extents', () => {
+    const object3D = new Object3D();
+
+    expect(getContactShape('sphere', { radius: 0.4 }, object3D)!.shape).toEqual({ kind: 'sphere', radius: 0.4 });
+
+    const cylinder = getContactShape('cylinder', { halfExtents: new Vector3(0.5, 1, 0.5) }, object3D)!;
+    expect(cylinder.shape.kind).toBe('box');
+    expect(cylinder.shape.kind === 'box' && cylinder.shape.halfExtents.toArray()).toEqual([0.5, 1, 0.5]);
+  });
+
+  it('extends capsules over their caps', () => {
+    const capsule = getContactShape('capsule', { halfExtents: new Vector3(0.3, 0.5, 0.3) }, new Object3D())!;
+
+    expect(capsule.shape.kind === 'box' && capsule.shape.halfExtents.y).toBeCloseTo(0.8);
+  });
+
+  it('measures meshes for shapes without extents, including the body scale', () => {
+    const object3D = new Object3D();
+    const mesh = new Mesh(new BoxGeometry(2, 1, 1));
+    mesh.position.set(0, 0.5, 0);
+    object3D.add(mesh);
+    object3D.scale.set(2, 2, 2);
+
+    const hull = getContactShape('hull', {}, object3D)!;
+    expect(hull.shape.kind === 'box' && hull.shape.halfExtents.toArray()).toEqual([2, 1, 1]);
+    expect(hull.offset.toArray()).toEqual([0, 1, 0]);
+  });
+
+  it('returns null while there is nothing to measure', () => {
+    expect(getContactShape('mesh', {}, new Object3D())).toBeNull();
+  });
+});
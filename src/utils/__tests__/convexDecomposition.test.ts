@@ -0,0 +1,95 @@
+import * as THREE from 'three';
+import { DECOMPOSITION_QUALITY, decomposeConvex } from '../convexDecomposition';
+import { computeConvexHull, getConvexHullVolume } from '../convexHull';
+
+// Non-indexed triangle soup of several boxes, like a GLB built from parts
+const boxesMesh = (boxes: Array<{ size: [number, number, number]; at: [number, number, number] }>): number[] => {
+  const positions: number[] = [];
+  boxes.forEach(({ size, at }) => {
+    const geometry = new THREE.BoxGeometry(...size).toNonIndexed();
+    geometry.translate(...at);
+    positions.push(...Array.from(geometry.getAttribute('position').array as Float32Array));
+  });
+  return positions;
+};
+
+// A cup modelled from overlapping parts: floor plus four walls around an open top
+const cupMesh = () => boxesMesh([
+  { size: [1.9, 0.2, 1.9], at: [0, 0.1, 0] },
+  { size: [0.2, 2, 2], at: [-0.9, 1, 0] },
+  { size: [0.2, 2, 2], at: [0.9, 1, 0] },
+  { size: [1.8, 2, 0.2], at: [0, 1, -0.9] },
+  { size: [1.8, 2, 0.2], at: [0, 1, 0.9] }
+]);
+
+// An L-shaped bracket extruded from one outline, so its triangles are all connected
+const bracketMesh = () => {
+  const outline = new THREE.Shape([
+    new THREE.Vector2(0, 0),
+    new THREE.Vector2(2, 0),
+    new THREE.Vector2(2, 0.5),
+    new THREE.Vector2(0.5, 0.5),
+    new THREE.Vector2(0.5, 2),
+    new THREE.Vector2(0, 2)
+  ]);
+  const geometry = new THREE.ExtrudeGeometry(outline, { depth: 1, bevelEnabled: false });
+  return Array.from(geometry.getAttribute('position').array as Float32Array);
+};
+
+describe('convexDecomposition', () => {
+  it('keeps a convex model in one part', () => {
+    const parts = decomposeConvex(boxesMesh([{ size: [1, 2, 3], at: [0, 0, 0] }]), null, DECOMPOSITION_QUALITY.medium);
+
+    expect(parts).toHaveLength(1);
+    expect(parts[0].volume).toBeCloseTo(6, 1);
+    expect(parts[0].center.map(v => Math.round(v * 100) / 100 + 0)).toEqual([0, 0, 0]);
+  });
+
+  it('cuts a connected concave mesh at its inner corner', () => {
+    const parts = decomposeConvex(bracketMesh(), null, DECOMPOSITION_QUALITY.medium);
+    const totalVolume = parts.reduce((sum, part) => sum + part.volume, 0);
+
+    expect(parts).toHaveLength(2);
+    // 1.75 units of material; a single hull would be 2.875
+    expect(totalVolume).toBeGreaterThan(1.6);
+    expect(totalVolume).toBeLessThan(2);
+  });
+
+  it('splits a model built from parts into parts that leave its opening free', () => {
+    const positions = cupMesh();
+    const parts = decomposeConvex(positions, null, DECOMPOSITION_QUALITY.medium);
+    const singleHullVolume = getConvexHullVolume(computeConvexHull(positions)!);
+    const totalVolume = parts.reduce((sum, part) => sum + part.volume, 0);
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.length).toBeLessThanOrEqual(DECOMPOSITION_QUALITY.medium.maxParts);
+    // The walls and floor are about 1.5 units of material inside a hull of 8
+    expect(singleHullVolume).toBeCloseTo(8, 1);
+    expect(totalVolume).toBeLessThan(0.5 * singleHullVolume);
+
+    // No part fills the middle of the cup
+    parts.forEach(part => {
+      const inside = part.vertices.some((_, i) => i % 3 === 0 &&
+        Math.abs(part.vertices[i] + part.center[0]) < 0.5 &&
+        part.vertices[i + 1] + part.center[1] > 0.8 &&
+        Math.abs(part.vertices[i + 2] + part.center[2]) < 0.5);
+      expect(inside).toBe(false);
+    });
+  });
+
+  it('respects the part and vertex budgets and orders parts largest first', () => {
+    const parts = decomposeConvex(cupMesh(), null, DECOMPOSITION_QUALITY.low);
+
+    expect(parts.length).toBeLessThanOrEqual(DECOMPOSITION_QUALITY.low.maxParts);
+    parts.forEach(part => {
+      expect(part.vertices.length / 3).toBeLessThanOrEqual(DECOMPOSITION_QUALITY.low.maxVerticesPerPart);
+    });
+    const volumes = parts.map(part => part.volume);
+    expect(volumes).toEqual([...volumes].sort((a, b) => b - a));
+  });
+
+  it('returns no parts for empty or flat meshes', () => {
+    expect(decomposeConvex([], null, DECOMPOSITION_QUALITY.low)).toEqual([]);
+    expect(decomposeConvex([0, 0, 0, 1, 0, 0, 0, 1, 0], null, DECOMPOSITION_QUALITY.low)).toEqual([]);
+  });
+});
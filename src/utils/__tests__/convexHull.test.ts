@@ -0,0 +1,83 @@
+import { computeConvexHull, getConvexHullVolume, reduceToExtremePoints } from '../convexHull';
+import { SeededRandom } from '../random';
+
+const boundsOf = (points: number[]) => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < points.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], points[i + axis]);
+      max[axis] = Math.max(max[axis], points[i + axis]);
+    }
+  }
+  return { min, max, volume: (max[0] - min[0]) * (max[1] - min[1]) * (max[2] - min[2]) };
+};
+
+// Points on a sphere plus some inside it, like the vertices of a rounded mesh
+const spherePoints = (radius: number, count: number) => {
+  const rng = new SeededRandom(7);
+  const points: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const z = rng.range(-1, 1);
+    const angle = rng.range(0, Math.PI * 2);
+    const ring = Math.sqrt(1 - z * z);
+    const r = i % 4 === 0 ? radius * rng.next() : radius;
+    points.push(Math.cos(angle) * ring * r, z * r, Math.sin(angle) * ring * r);
+  }
+  return points;
+};
+
+describe('convexHull', () => {
+  it('matches the bounds volume for a box with interior points', () => {
+    const corners = [0, 0, 0, 2, 0, 0, 0, 3, 0, 2, 3, 0, 0, 0, 4, 2, 0, 4, 0, 3, 4, 2, 3, 4];
+    const interior = [1, 1, 1, 0.5, 2, 3, 1.5, 0.1, 3.9];
+    const hull = computeConvexHull([...interior, ...corners]);
+
+    expect(hull).not.toBeNull();
+    expect(hull!.vertices).toHaveLength(24);
+    expect(getConvexHullVolume(hull!)).toBeCloseTo(boundsOf(corners).volume);
+  });
+
+  it('stays inside the bounds and close to the true volume for a rounded mesh', () => {
+    const points = spherePoints(1.5, 2000);
+    const hull = computeConvexHull(points)!;
+    const volume = getConvexHullVolume(hull);
+
+    expect(volume).toBeLessThanOrEqual(boundsOf(points).volume);
+    expect(volume).toBeGreaterThan(0.95 * (4 / 3) * Math.PI * 1.5 ** 3);
+    expect(volume).toBeLessThanOrEqual((4 / 3) * Math.PI * 1.5 ** 3);
+  });
+
+  it('winds every face outward', () => {
+    const hull = computeConvexHull(spherePoints(1, 300))!;
+    hull.faces.forEach(([a, b, c]) => {
+      const p = (i: number) => hull.vertices.slice(i * 3, i * 3 + 3);
+      const [pa, pb, pc] = [p(a), p(b), p(c)];
+      const u = [pb[0] - pa[0], pb[1] - pa[1], pb[2] - pa[2]];
+      const v = [pc[0] - pa[0], pc[1] - pa[1], pc[2] - pa[2]];
+      const normal = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+      // The sphere is centred on the origin, so outward normals point away from it
+      expect(normal[0] * pa[0] + normal[1] * pa[1] + normal[2] * pa[2]).toBeGreaterThan(0);
+    });
+  });
+
+  it('returns null for flat or degenerate input', () => {
+    expect(computeConvexHull([0, 0, 0, 1, 0, 0, 0, 1, 0])).toBeNull();
+    expect(computeConvexHull([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0])).toBeNull();
+    expect(computeConvexHull(Array.from({ length: 30 }, (_, i) => i))).toBeNull();
+  });
+
+  it('keeps the extreme points when reducing', () => {
+    const points = spherePoints(2, 1500);
+    const reduced = reduceToExtremePoints(points, 32);
+
+    expect(reduced.length / 3).toBeLessThanOrEqual(32);
+    expect(boundsOf(reduced)).toEqual(boundsOf(points));
+    // Every kept point lies on the sphere, none from the interior
+    for (let i = 0; i < reduced.length; i += 3) {
+      expect(Math.hypot(reduced[i], reduced[i + 1], reduced[i + 2])).toBeCloseTo(2);
+    }
+    const hullVolume = getConvexHullVolume(computeConvexHull(reduced)!);
+    expect(hullVolume).toBeGreaterThan(0.75 * (4 / 3) * Math.PI * 8);
+  });
+});
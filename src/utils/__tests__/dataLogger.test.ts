@@ -0,0 +1,92 @@
+import { DataLogger, DATA_LOG_COLUMNS, DATA_LOG_FORMAT, MAX_DATA_LOG_ROWS } from '../dataLogger';
+import { BodyState, ObjectType, SpawnedObject } from '../../types/simulation';
+
+const objects: SpawnedObject[] = [
+  { id: 'ball-1', type: ObjectType.BALL, position: [0, 5, 0], timestamp: 0, spawnIndex: 1, props: { radius: 0.5, mass: 2 } },
+  { id: 'box-1', type: ObjectType.BOX, position: [1, 5, 0], timestamp: 0, spawnIndex: 2, props: { size: [1, 1, 1] } }
+];
+
+const state = (y: number): BodyState => ({
+  position: [0, y, 0],
+  rotation: [0, 0, 0, 1],
+  linearVelocity: [0, -1, 0],
+  angularVelocity: [0, 0, 0]
+});
+
+describe('DataLogger', () => {
+  it('samples every object at the configured rate of simulated time', () => {
+    const logger = new DataLogger();
+    logger.start(objects, 10);
+
+    // 60 Hz steps for one simulated second
+    for (let step = 0; step <= 60; step++) {
+      logger.sample(step / 60, step, () => state(5 - step / 60));
+    }
+
+    expect(logger.rowCount).toBe(11 * objects.length);
+  });
+
+  it('skips objects without state and stops sampling once stopped', () => {
+    const logger = new DataLogger();
+    logger.start(objects, 60);
+
+    logger.sample(0, 0, (id) => (id === 'ball-1' ? state(5) : null));
+    logger.stop();
+    expect(logger.sample(1, 60, () => state(4))).toBe(false);
+
+    expect(logger.rowCount).toBe(1);
+    expect(logger.isLogging).toBe(false);
+  });
+
+  it('keeps only the newest rows once the limit is passed', () => {
+    const logger = new DataLogger();
+    logger.start([objects[0]], 60);
+
+    const samples = MAX_DATA_LOG_ROWS * 1.2;
+    for (let step = 0; step < samples; step++) {
+      logger.sample(step / 60, step, () => state(step));
+    }
+
+    expect(logger.rowCount).toBeLessThanOrEqual(MAX_DATA_LOG_ROWS * 1.1);
+    expect(logger.droppedRows).toBeGreaterThan(0);
+    const [header, ...rows] = logger.toJSONLines().trim().split('\n');
+    expect(rows).toHaveLength(MAX_DATA_LOG_ROWS);
+    expect(JSON.parse(header).droppedRows).toBe(samples - MAX_DATA_LOG_ROWS);
+    expect(JSON.parse(rows[rows.length - 1]).step).toBe(samples - 1);
+  });
+
+  it('exports CSV with object metadata in comment lines and one row per object per sample', () => {
+    const logger = new DataLogger();
+    logger.start(objects, 10);
+    logger.sample(0, 0, () => state(5));
+
+    const lines = logger.toCSV().trim().split('\n');
+    const comments = lines.filter(line => line.startsWith('#'));
+    const [columns, ...rows] = lines.filter(line => !line.startsWith('#'));
+
+    expect(JSON.parse(comments[0].slice(2)).format).toBe(DATA_LOG_FORMAT);
+    expect(JSON.parse(comments[1].replace('# object ', ''))).toEqual({
+      id: 'ball-1',
+      type: ObjectType.BALL,
+      props: { radius: 0.5, mass: 2 }
+    });
+    expect(columns).toBe(DATA_LOG_COLUMNS.join(','));
+    expect(rows).toEqual([
+      '0,0,ball-1,ball,0,5,0,0,0,0,1,0,0,0,0,-1,0,0,0,0',
+      '0,0,box-1,box,0,5,0,0,0,0,1,0,0,0,0,-1,0,0,0,0'
+    ]);
+  });
+
+  it('exports JSON lines with a metadata header', () => {
+    const logger = new DataLogger();
+    logger.start(objects, 10);
+    logger.addObjects([{ id: 'ball-2', type: ObjectType.BALL, position: [0, 1, 0], timestamp: 0, spawnIndex: 3 }]);
+    logger.sample(0.5, 30, (id) => (id === 'ball-2' ? state(1) : null));
+
+    const [header, row] = logger.toJSONLines().trim().split('\n').map(line => JSON.parse(line));
+
+    expect(header.rateHz).toBe(10);
+    expect(header.objects.map((obj: { id: string }) => obj.id)).toEqual(['ball-1', 'box-1', 'ball-2']);
+    expect(row).toEqual({ time: 0.5, step: 30, id: 'ball-2', ...state(1) });
+  });
+});
@@ -0,0 +1,75 @@
+import { BoxGeometry, BufferGeometry, Mesh, Object3D, Vector3 } from 'three';
+import { collectBodyVertices, createShapeWireframe } from '../debugShapes';
+
+const boundsOf = (geometry: BufferGeometry) => {
+  geometry.computeBoundingBox();
+  return geometry.boundingBox!;
+};
+
+const modelWithBox = (size: [number, number, number], offset: [number, number, number] = [0, 0, 0]) => {
+  const object3D = new Object3D();
+  const mesh = new Mesh(new BoxGeometry(...size));
+  mesh.position.set(...offset);
+  object3D.add(mesh);
+  return object3D;
+};
+
+describe('createShapeWireframe', () => {
+  it('outlines primitives from their shape config', () => {
+    const object3D = new Object3D();
+
+    const sphere = createShapeWireframe('sphere', { radius: 0.5 }, object3D)!;
+    expect(boundsOf(sphere).max.y).toBeCloseTo(0.5);
+
+    const box = createShapeWireframe('box', { halfExtents: new Vector3(1, 0.25, 0.5) }, object3D)!;
+    expect(boundsOf(box).max.toArray()).toEqual([1, 0.25, 0.5]);
+    // Twelve edges, two points each
+    expect(box.getAttribute('position').count).toBe(24);
+  });
+
+  it('draws the configured box, not the model, for a GLB fallback', () => {
+    const model = modelWithBox([4, 4, 4]);
+    const wireframe = createShapeWireframe('box', { halfExtents: { x: 0.5, y: 0.5, z: 0.5 } }, model)!;
+
+    expect(boundsOf(wireframe).max.toArray()).toEqual([0.5, 0.5, 0.5]);
+  });
+
+  it('closes capsules over their caps', () => {
+    const capsule = createShapeWireframe('capsule', { halfExtents: new Vector3(0.3, 0.5, 0.3) }, new Object3D())!;
+
+    expect(boundsOf(capsule).max.y).toBeCloseTo(0.8);
+  });
+
+  it('outlines hulls and meshes from the model in the body frame', () => {
+    const model = modelWithBox([2, 1, 1], [0, 0.5, 0]);
+    model.scale.set(2, 2, 2);
+
+    const hull = createShapeWireframe('hull', { hullMaxVertices: 64 }, model)!;
+    expect(boundsOf(hull).min.toArray()).toEqual([-2, 0, -1]);
+    expect(boundsOf(hull).max.toArray()).toEqual([2, 2, 1]);
+
+    const mesh = createShapeWireframe('mesh', {}, model)!;
+    expect(boundsOf(mesh).max.toArray()).toEqual([2, 2, 1]);
+  });
+
+  it('returns null for shapes without anything to draw', () => {
+    expect(createShapeWireframe('sphere', {}, new Object3D())).toBeNull();
+    expect(createShapeWireframe('hull', {}, new Object3D())).toBeNull();
+    expect(createShapeWireframe('mesh', {}, new Object3D())).toBeNull();
+    expect(createShapeWireframe('compound', {}, modelWithBox([1, 1, 1]))).toBeNull();
+  });
+});
+
+describe('collectBodyVertices', () => {
+  it('returns mesh vertices with child transforms and scale applied', () => {
+    const model = modelWithBox([1, 1, 1], [1, 0, 0]);
+    model.scale.set(3, 3, 3);
+    model.position.set(10, 0, 0);
+
+    const vertices = collectBodyVertices(model);
+    const xs = vertices.filter((_, index) => index % 3 === 0);
+
+    expect(Math.min(...xs)).toBeCloseTo(1.5);
+    expect(Math.max(...xs)).toBeCloseTo(4.5);
+  });
+});
@@ -0,0 +1,87 @@
+import * as THREE from 'three';
+import { DecompositionService } from '../decompositionService';
+import { ConvexPart, DECOMPOSITION_QUALITY, decomposeConvex } from '../convexDecomposition';
+import { ErrorType, SimulationError } from '../errorHandling';
+
+const boxTriangles = () => {
+  const geometry = new THREE.BoxGeometry(1, 1, 1);
+  return {
+    positions: new Float32Array(geometry.getAttribute('position').array as Float32Array),
+    indices: new Uint32Array(geometry.getIndex()!.array as ArrayLike<number>)
+  };
+};
+
+// Stands in for the worker, answering every request on the next tick
+class FakeWorker {
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  requests = 0;
+
+  constructor(private respond: (data: any) => unknown) {}
+
+  postMessage(data: any) {
+    this.requests++;
+    setTimeout(() => this.onmessage?.({ data: this.respond(data) }), 0);
+  }
+
+  terminate() {}
+}
+
+describe('DecompositionService', () => {
+  let service: DecompositionService;
+
+  beforeEach(() => {
+    service = new DecompositionService();
+  });
+
+  it('decomposes on the main thread without a worker and caches the parts', async () => {
+    const { positions, indices } = boxTriangles();
+    const parts = await service.decompose('box', positions, indices, DECOMPOSITION_QUALITY.low);
+
+    expect(parts).toHaveLength(1);
+    expect(service.getCached('box')).toBe(parts);
+    await expect(service.decompose('box', new Float32Array(), null, DECOMPOSITION_QUALITY.low)).resolves.toBe(parts);
+  });
+
+  it('shares one worker request between callers of the same model', async () => {
+    const worker = new FakeWorker(({ id, positions, indices, options }) => ({
+      id,
+      parts: decomposeConvex(positions, indices, options)
+    }));
+    service.setWorkerFactory(() => worker as unknown as Worker);
+
+    const first = boxTriangles();
+    const second = boxTriangles();
+    const [a, b] = await Promise.all([
+      service.decompose('box', first.positions, first.indices, DECOMPOSITION_QUALITY.low),
+      service.decompose('box', second.positions, second.indices, DECOMPOSITION_QUALITY.low)
+    ]);
+
+    expect(worker.requests).toBe(1);
+    expect(a).toBe(b);
+    expect(a[0].volume).toBeCloseTo(1, 1);
+  });
+
+  it('rejects with a parsing error when the worker fails', async () => {
+    service.setWorkerFactory(() => new FakeWorker(({ id }) => ({ id, error: 'out of memory' })) as unknown as Worker);
+    const { positions, indices } = boxTriangles();
+
+    const request = service.decompose('broken', positions, indices, DECOMPOSITION_QUALITY.low);
+    await expect(request).rejects.toBeInstanceOf(SimulationError);
+    await expect(request).rejects.toMatchObject({ type: ErrorType.GLB_PARSING_FAILED });
+    expect(service.getCached('broken')).toBeUndefined();
+  });
+
+  it('builds cache keys from the url, scale and quality', () => {
+    const key = DecompositionService.getCacheKey('blob:model', [2, 2, 2], 'high');
+    expect(key).not.toBe(DecompositionService.getCacheKey('blob:model', [1, 1, 1], 'high'));
+    expect(key).not.toBe(DecompositionService.getCacheKey('blob:model', [2, 2, 2], 'low'));
+  });
+
+  it('returns parts with hull points centred on each part', async () => {
+    const { positions, indices } = boxTriangles();
+    const [part]: ConvexPart[] = await service.decompose('centred', positions, indices, DECOMPOSITION_QUALITY.low);
+    const xs = part.vertices.filter((_, i) => i % 3 === 0);
+    expect(Math.min(...xs) + Math.max(...xs)).toBeCloseTo(0);
+  });
+});
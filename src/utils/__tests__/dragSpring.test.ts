@@ -0,0 +1,68 @@
+import { Vector3 } from 'three';
+import { computeDragImpulse, DRAG_SPRING } from '../dragSpring';
+
+const gravity = new Vector3(0, -9.81, 0);
+
+describe('computeDragImpulse', () => {
+  it('cancels gravity when the grab point is at the target and at rest', () => {
+    const impulse = computeDragImpulse({
+      mass: 2,
+      grabPoint: new Vector3(1, 2, 3),
+      target: new Vector3(1, 2, 3),
+      velocity: new Vector3(),
+      gravity,
+      dt: 1 / 60
+    });
+
+    expect(impulse.x).toBeCloseTo(0);
+    expect(impulse.y).toBeCloseTo(2 * 9.81 / 60);
+    expect(impulse.z).toBeCloseTo(0);
+  });
+
+  it('pulls toward the target and damps existing velocity', () => {
+    const pull = computeDragImpulse({
+      mass: 1,
+      grabPoint: new Vector3(0, 0, 0),
+      target: new Vector3(0.1, 0, 0),
+      velocity: new Vector3(),
+      gravity: new Vector3(),
+      dt: 1 / 60
+    });
+    expect(pull.x).toBeCloseTo(DRAG_SPRING.STIFFNESS * 0.1 / 60);
+
+    const damped = computeDragImpulse({
+      mass: 1,
+      grabPoint: new Vector3(0, 0, 0),
+      target: new Vector3(0, 0, 0),
+      velocity: new Vector3(0, 0, 1),
+      gravity: new Vector3(),
+      dt: 1 / 60
+    });
+    expect(damped.z).toBeLessThan(0);
+  });
+
+  it('limits the acceleration for far away targets', () => {
+    const impulse = computeDragImpulse({
+      mass: 1,
+      grabPoint: new Vector3(0, 0, 0),
+      target: new Vector3(1000, 0, 0),
+      velocity: new Vector3(),
+      gravity: new Vector3(),
+      dt: 1
+    });
+
+    expect(impulse.length()).toBeCloseTo(DRAG_SPRING.MAX_ACCELERATION);
+  });
+
+  it('does nothing for static bodies or zero time steps', () => {
+    const input = {
+      grabPoint: new Vector3(),
+      target: new Vector3(1, 0, 0),
+      velocity: new Vector3(),
+      gravity
+    };
+
+    expect(computeDragImpulse({ ...input, mass: 0, dt: 1 / 60 }).length()).toBe(0);
+    expect(computeDragImpulse({ ...input, mass: 1, dt: 0 }).length()).toBe(0);
+  });
+});
@@ -0,0 +1,100 @@
+import { describeEdit, EditCommand, EditHistory, HISTORY_MERGE_WINDOW } from '../editHistory';
+import { ObjectType, SpawnedObject } from '../../types/simulation';
+
+const makeObject = (id: string): SpawnedObject => ({
+  id,
+  type: ObjectType.BALL,
+  position: [0, 5, 0],
+  timestamp: 0,
+  spawnIndex: 1,
+  props: { radius: 0.5 }
+});
+
+const add = (id: string): EditCommand => ({ type: 'add', objects: [makeObject(id)], constraints: [] });
+
+describe('EditHistory', () => {
+  it('undoes and redoes edits in order', () => {
+    const history = new EditHistory();
+    history.push(add('a'));
+    history.push(add('b'));
+
+    const undone = history.popUndo();
+    expect(undone).toEqual(add('b'));
+    history.pushRedo(undone!);
+    expect(history.canUndo).toBe(true);
+    expect(history.canRedo).toBe(true);
+
+    const redone = history.popRedo();
+    expect(redone).toEqual(add('b'));
+    history.pushUndo(redone!);
+    expect(history.undoSize).toBe(2);
+    expect(history.canRedo).toBe(false);
+  });
+
+  it('drops redo steps once a new edit is made', () => {
+    const history = new EditHistory();
+    history.push(add('a'));
+    history.pushRedo(history.popUndo()!);
+
+    history.push(add('b'));
+
+    expect(history.canRedo).toBe(false);
+    expect(history.peekUndo()).toEqual(add('b'));
+  });
+
+  it('keeps at most the limit, dropping the oldest edits', () => {
+    const history = new EditHistory(3);
+    ['a', 'b', 'c', 'd'].forEach(id => history.push(add(id)));
+
+    expect(history.undoSize).toBe(3);
+    const ids: string[] = [];
+    while (history.canUndo) {
+      const command = history.popUndo()!;
+      if (command.type === 'add') ids.push(command.objects[0].id);
+    }
+    expect(ids).toEqual(['d', 'c', 'b']);
+  });
+
+  it('merges quick edits of the same props into one step', () => {
+    const history = new EditHistory();
+    history.push({ type: 'props', id: 'a', before: { color: 'red' }, after: { color: 'green' } }, 0);
+    history.push({ type: 'props', id: 'a', before: { color: 'green' }, after: { color: 'blue' } }, 100);
+
+    expect(history.undoSize).toBe(1);
+    expect(history.peekUndo()).toEqual({ type: 'props', id: 'a', before: { color: 'red' }, after: { color: 'blue' } });
+
+    // Later or different edits stay separate
+    history.push({ type: 'props', id: 'a', before: { color: 'blue' }, after: { color: 'white' } }, 100 + HISTORY_MERGE_WINDOW + 1);
+    history.push({ type: 'props', id: 'a', before: { mass: 1 }, after: { mass: 2 } }, 100 + HISTORY_MERGE_WINDOW + 2);
+    expect(history.undoSize).toBe(3);
+  });
+
+  it('does not merge an edit into one that was undone and redone', () => {
+    const history = new EditHistory();
+    history.push({ type: 'props', id: 'a', before: { color: 'red' }, after: { color: 'green' } }, 0);
+    history.pushRedo(history.popUndo()!);
+    history.pushUndo(history.popRedo()!);
+    history.push({ type: 'props', id: 'a', before: { color: 'green' }, after: { color: 'blue' } }, 10);
+
+    expect(history.undoSize).toBe(2);
+  });
+
+  it('clears both stacks', () => {
+    const history = new EditHistory();
+    history.push(add('a'));
+    history.push(add('b'));
+    history.pushRedo(history.popUndo()!);
+
+    history.clear();
+
+    expect(history.canUndo).toBe(false);
+    expect(history.canRedo).toBe(false);
+  });
+
+  it('describes edits for the undo buttons', () => {
+    expect(describeEdit(add('ball-1'))).toBe('Add ball-1');
+    expect(describeEdit({ type: 'remove', objects: [makeObject('a'), makeObject('b')], constraints: [], all: true })).toBe('Reset');
+    expect(describeEdit({ type: 'remove', objects: [makeObject('a'), makeObject('b')], constraints: [] })).toBe('Remove 2 objects');
+    expect(describeEdit({ type: 'props', id: 'a', before: {}, after: {} })).toBe('Edit a');
+  });
+});
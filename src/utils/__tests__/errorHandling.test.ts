@@ -4,6 +4,8 @@ import {
   detectErrorType,
   createSimulationError,
   validateGLBFile,
+  validateGLBCollision,
+  validateHeightmapFile,
   formatFileSize
 } from '../errorHandling';
 
@@ -110,6 +112,29 @@ describe('errorHandling', () => {
     });
   });
 
+  describe('validateHeightmapFile', () => {
+    it('accepts PNG images and rejects other files', () => {
+      expect(validateHeightmapFile(new File(['test'], 'hills.PNG', { type: 'image/png' }))).toBeNull();
+      expect(validateHeightmapFile(new File(['test'], 'hills.jpg', { type: 'image/jpeg' }))?.type)
+        .toBe(ErrorType.HEIGHTMAP_INVALID_FORMAT);
+    });
+  });
+
+  describe('validateGLBCollision', () => {
+    it('accepts mesh collision on static models', () => {
+      expect(validateGLBCollision('mesh', 0)).toBeNull();
+      expect(validateGLBCollision('convex', 1)).toBeNull();
+    });
+
+    it('rejects mesh collision on dynamic models', () => {
+      const error = validateGLBCollision('mesh', 1, { url: 'level.glb' });
+
+      expect(error).toBeInstanceOf(SimulationError);
+      expect(error?.type).toBe(ErrorType.GLB_MESH_COLLISION_DYNAMIC);
+      expect(validateGLBCollision('mesh', undefined)?.type).toBe(ErrorType.GLB_MESH_COLLISION_DYNAMIC);
+    });
+  });
+
   describe('formatFileSize', () => {
     it('formats bytes correctly', () => {
       expect(formatFileSize(0)).toBe('0 Bytes');
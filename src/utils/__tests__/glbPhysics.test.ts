@@ -1,11 +1,14 @@
 import * as THREE from 'three';
 import {
   extractVerticesFromGLB,
+  extractTrianglesFromGLB,
+  countGLBTriangles,
   calculateGLBDimensions,
   simplifyVertices,
   validateCollisionShape,
   createCollisionShapeFromGLB,
-  testCollisionCompatibility
+  testCollisionCompatibility,
+  CONVEX_HULL_MAX_VERTICES
 } from '../glbPhysics';
 
 // Mock Three.js objects for testing
@@ -60,6 +63,25 @@ describe('GLB Physics Utilities', () => {
     });
   });
 
+  describe('extractTrianglesFromGLB', () => {
+    it('merges indexed and non-indexed meshes into one scaled triangle list', () => {
+      const scene = new THREE.Object3D();
+      const indexed = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1));
+      indexed.position.set(2, 0, 0);
+      scene.add(indexed);
+      scene.add(createMockScene([0, 0, 0, 1, 0, 0, 0, 1, 0]));
+
+      const { positions, indices } = extractTrianglesFromGLB(scene, [2, 1, 1]);
+
+      // 24 box vertices and 12 triangles, then the loose triangle
+      expect(positions).toHaveLength((24 + 3) * 3);
+      expect(indices).toHaveLength((12 + 1) * 3);
+      expect(Array.from(indices.slice(-3))).toEqual([24, 25, 26]);
+      expect(Math.min(...Array.from(positions.slice(0, 72)).filter((_, i) => i % 3 === 0))).toBeCloseTo(3);
+      expect(Array.from(positions.slice(-6, -3))).toEqual([2, 0, 0]);
+    });
+  });
+
   describe('calculateGLBDimensions', () => {
     it('should calculate correct dimensions for a simple box', () => {
       // Create a 2x2x2 box centered at origin
@@ -113,6 +135,21 @@ describe('GLB Physics Utilities', () => {
       expect(simplified.length % 3).toBe(0); // Should be divisible by 3
     });
 
+    it('should keep the extreme points of the model', () => {
+      // Dense grid inside a unit cube plus the eight corners at the end
+      const vertices: number[] = [];
+      for (let i = 0; i < 500; i++) {
+        vertices.push((i % 10) / 10 + 0.05, (Math.floor(i / 10) % 10) / 10 + 0.05, Math.floor(i / 100) / 5 + 0.05);
+      }
+      [0, 1].forEach(x => [0, 1].forEach(y => [0, 1].forEach(z => vertices.push(x, y, z))));
+
+      const simplified = simplifyVertices(vertices, 8);
+      expect(simplified).toHaveLength(24);
+      for (let i = 0; i < simplified.length; i++) {
+        expect([0, 1]).toContain(simplified[i]);
+      }
+    });
+
     it('should maintain vertex format (groups of 3)', () => {
       const vertices = Array.from({ length: 150 }, (_, i) => i); // 50 vertices
       const simplified = simplifyVertices(vertices, 10);
@@ -176,6 +213,62 @@ describe('GLB Physics Utilities', () => {
       expect(shape?.vertices).toBeDefined();
     });
 
+    it('should build a scaled hull that fills but never exceeds the mesh bounds', () => {
+      const scene = new THREE.Object3D();
+      const geometry = new THREE.SphereGeometry(1, 24, 16);
+      geometry.translate(0, 1, 0); // Model origin at its base, as exported from most tools
+      scene.add(new THREE.Mesh(geometry));
+      const scale: [number, number, number] = [2, 1, 1];
+
+      const shape = createCollisionShapeFromGLB(scene, 'convex', scale);
+      expect(shape?.shapeType).toBe('convex');
+      expect(validateCollisionShape(shape!)).toBe(true);
+      expect(shape!.vertices!.length / 3).toBeLessThanOrEqual(CONVEX_HULL_MAX_VERTICES);
+
+      // Hull points are centred, and the centre records the base-origin offset
+      const bounds = new THREE.Box3().setFromArray(Array.from(shape!.vertices!));
+      const size = bounds.getSize(new THREE.Vector3());
+      expect(size.x).toBeCloseTo(4, 3);
+      expect(size.y).toBeCloseTo(2, 3);
+      expect(size.z).toBeCloseTo(2, 3);
+      expect(shape!.center![1]).toBeCloseTo(1, 3);
+
+      // An ellipsoid fills about half of its bounding box
+      const boundsVolume = size.x * size.y * size.z;
+      expect(shape!.volume!).toBeLessThanOrEqual(boundsVolume);
+      expect(shape!.volume!).toBeGreaterThan(0.4 * boundsVolume);
+    });
+
+    it('should create mesh collision shape data from every child mesh', () => {
+      const scene = new THREE.Object3D();
+      scene.add(new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1)));
+      scene.add(new THREE.Mesh(new THREE.PlaneGeometry(4, 4).toNonIndexed()));
+      expect(countGLBTriangles(scene)).toBe(14);
+
+      const shape = createCollisionShapeFromGLB(scene, 'mesh', [2, 1, 1]);
+      expect(shape?.shapeType).toBe('mesh');
+      expect(shape?.triangleCount).toBe(14);
+      expect(shape?.dimensions).toEqual([8, 4, 1]);
+      expect(validateCollisionShape(shape!)).toBe(true);
+    });
+
+    it('should fallback to box for mesh collision without triangles', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const shape = createCollisionShapeFromGLB(new THREE.Object3D(), 'mesh');
+      expect(shape?.shapeType).toBe('box');
+      warn.mockRestore();
+    });
+
+    it('should fallback to box for flat models', () => {
+      const scene = createMockScene([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0]);
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const shape = createCollisionShapeFromGLB(scene, 'convex');
+      expect(shape?.shapeType).toBe('box');
+      warn.mockRestore();
+    });
+
     it('should fallback to box for empty convex shape', () => {
       const scene = new THREE.Object3D(); // Empty scene
       
@@ -0,0 +1,19 @@
+import { GROUND, hasFallenOffGround } from '../ground';
+
+describe('hasFallenOffGround', () => {
+  it('counts bodies below the underside of the ground', () => {
+    const bottom = GROUND.position[1] - GROUND.halfExtents[1];
+
+    expect(hasFallenOffGround([0, 0.5, 0])).toBe(false);
+    expect(hasFallenOffGround([0, bottom - 0.1, 0])).toBe(true);
+  });
+
+  it('ignores bodies in the air beside the ground', () => {
+    expect(hasFallenOffGround([GROUND.halfExtents[0] + 5, 3, 0])).toBe(false);
+  });
+
+  it('takes the ground to check against', () => {
+    const raised = { position: [0, 10, 0] as [number, number, number], halfExtents: [5, 1, 5] as [number, number, number] };
+    expect(hasFallenOffGround([0, 8.5, 0], raised)).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+import { Quaternion, Vector3 } from 'three';
+import { clampLaunchSettings, computeLaunchState, DEFAULT_LAUNCH_SETTINGS, LAUNCH_LIMITS } from '../launcher';
+import { getContinuousCollisionConfig, CCD_SETTINGS } from '../continuousCollision';
+
+// Camera at the origin looking down -z, as three.js cameras do by default
+const origin = new Vector3(0, 2, 0);
+const forward = new Vector3(0, 0, -1);
+const identity = new Quaternion();
+
+describe('launcher', () => {
+  it('starts projectiles in front of the camera moving along the aim', () => {
+    const state = computeLaunchState(origin, forward, identity, { ...DEFAULT_LAUNCH_SETTINGS, speed: 30 });
+
+    expect(state.position).toEqual([0, 2, -LAUNCH_LIMITS.SPAWN_DISTANCE]);
+    expect(state.linearVelocity[2]).toBeCloseTo(-30);
+    expect(state.angularVelocity).toEqual([0, 0, 0]);
+  });
+
+  it('spins about axes of the view', () => {
+    // Camera turned 90 degrees to look down -x; its right axis is then -z
+    const turned = new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), Math.PI / 2);
+    const aim = new Vector3(-1, 0, 0);
+
+    const backspin = computeLaunchState(origin, aim, turned, { ...DEFAULT_LAUNCH_SETTINGS, spin: 10, spinAxis: 'right' });
+    expect(backspin.angularVelocity[2]).toBeCloseTo(-10);
+
+    const spiral = computeLaunchState(origin, aim, turned, { ...DEFAULT_LAUNCH_SETTINGS, spin: -5, spinAxis: 'forward' });
+    expect(spiral.angularVelocity[0]).toBeCloseTo(5);
+  });
+
+  it('clamps speed and spin to the launcher limits', () => {
+    const clamped = clampLaunchSettings({ ...DEFAULT_LAUNCH_SETTINGS, speed: 1000, spin: -1000 });
+    expect(clamped.speed).toBe(LAUNCH_LIMITS.MAX_SPEED);
+    expect(clamped.spin).toBe(-LAUNCH_LIMITS.MAX_SPIN);
+    expect(clampLaunchSettings({ ...DEFAULT_LAUNCH_SETTINGS, speed: NaN }).speed).toBe(DEFAULT_LAUNCH_SETTINGS.speed);
+  });
+});
+
+describe('getContinuousCollisionConfig', () => {
+  it('sweeps a sphere that fits inside the thinnest part of the shape', () => {
+    expect(getContinuousCollisionConfig('sphere', { radius: 0.5 })).toEqual({
+      enableCCD: true,
+      ccdMotionThreshold: 0.5,
+      ccdSweptSphereRadius: 0.5 * CCD_SETTINGS.SWEPT_SPHERE_SCALE
+    });
+    expect(getContinuousCollisionConfig('box', { halfExtents: { x: 1, y: 0.05, z: 1 } }).ccdMotionThreshold).toBe(0.05);
+    // A capsule's half height excludes its caps
+    expect(getContinuousCollisionConfig('capsule', { halfExtents: { x: 0.4, y: 0, z: 0.4 } }).ccdMotionThreshold).toBe(0.4);
+    expect(getContinuousCollisionConfig('hull', {}).ccdMotionThreshold).toBe(CCD_SETTINGS.FALLBACK_HALF_EXTENT);
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  clampTrailLength,
+  DEFAULT_MOTION_OVERLAYS,
+  getObjectOverlays,
+  pruneMotionOverlays,
+  setObjectOverlay,
+  Trail,
+  TRAIL_LIMITS
+} from '../motionOverlays';
+
+const readTrail = (trail: Trail) => {
+  const points = new Float32Array(TRAIL_LIMITS.POINTS * 3);
+  const count = trail.copyTo(points);
+  return Array.from(points.slice(0, count * 3));
+};
+
+describe('motion overlay settings', () => {
+  it('combines overlays for every object with the object\'s own', () => {
+    const settings = setObjectOverlay(
+      { ...DEFAULT_MOTION_OVERLAYS, all: { velocity: true, angularVelocity: false, trail: false } },
+      'ball-1',
+      'trail',
+      true
+    );
+
+    expect(getObjectOverlays(settings, 'ball-1')).toEqual({ velocity: true, angularVelocity: false, trail: true });
+    expect(getObjectOverlays(settings, 'ball-2')).toEqual({ velocity: true, angularVelocity: false, trail: false });
+  });
+
+  it('forgets objects once their last overlay is turned off', () => {
+    const on = setObjectOverlay(DEFAULT_MOTION_OVERLAYS, 'box-1', 'velocity', true);
+    const off = setObjectOverlay(on, 'box-1', 'velocity', false);
+
+    expect(on.perObject).toEqual({ 'box-1': { velocity: true } });
+    expect(off.perObject).toEqual({});
+    expect(DEFAULT_MOTION_OVERLAYS.perObject).toEqual({});
+  });
+
+  it('prunes removed objects and keeps settings unchanged otherwise', () => {
+    const settings = setObjectOverlay(setObjectOverlay(DEFAULT_MOTION_OVERLAYS, 'a', 'trail', true), 'b', 'trail', true);
+
+    expect(pruneMotionOverlays(settings, ['a', 'b'])).toBe(settings);
+    expect(Object.keys(pruneMotionOverlays(settings, ['b']).perObject)).toEqual(['b']);
+  });
+
+  it('clamps the trail length', () => {
+    expect(clampTrailLength(0)).toBe(TRAIL_LIMITS.MIN_LENGTH);
+    expect(clampTrailLength(60)).toBe(TRAIL_LIMITS.MAX_LENGTH);
+    expect(clampTrailLength(NaN)).toBe(DEFAULT_MOTION_OVERLAYS.trailLength);
+  });
+});
+
+describe('Trail', () => {
+  it('keeps points no older than the trail length', () => {
+    const trail = new Trail();
+    for (let step = 0; step <= 10; step++) {
+      trail.sample(step, 0, 0, step * 0.5, 2);
+    }
+
+    // Points at 3, 3.5, 4, 4.5 and 5 seconds
+    expect(readTrail(trail).filter((_, index) => index % 3 === 0)).toEqual([6, 7, 8, 9, 10]);
+  });
+
+  it('spaces points so a trail never holds more than its budget', () => {
+    const trail = new Trail();
+    const length = 2;
+    for (let step = 0; step < 1000; step++) {
+      trail.sample(step, 0, 0, step / 240, length);
+    }
+
+    expect(trail.length).toBeLessThanOrEqual(TRAIL_LIMITS.POINTS);
+    expect(trail.length).toBeGreaterThan(TRAIL_LIMITS.POINTS / 2);
+    // Samples closer together than length / POINTS are skipped
+    const before = trail.length;
+    trail.sample(0, 0, 0, 1000 / 240 + 0.001, length);
+    expect(trail.length).toBe(before);
+  });
+
+  it('restarts when simulated time goes back', () => {
+    const trail = new Trail();
+    trail.sample(1, 1, 1, 5, 3);
+    trail.sample(2, 2, 2, 6, 3);
+    trail.sample(0, 0, 0, 0, 3);
+
+    expect(readTrail(trail)).toEqual([0, 0, 0]);
+  });
+});
@@ -21,6 +21,7 @@ describe('PerformanceOptimizer', () => {
         type: ObjectType.BALL,
         position: [0, 0, 0],
         timestamp: Date.now() - 1000,
+        spawnIndex: 1,
         props: { radius: 0.5, mass: 1, color: 'red' }
       },
       {
@@ -28,6 +29,7 @@ describe('PerformanceOptimizer', () => {
         type: ObjectType.BOX,
         position: [1, 0, 0],
         timestamp: Date.now() - 500,
+        spawnIndex: 2,
         props: { size: [1, 1, 1], mass: 1, color: 'blue' }
       }
     ];
@@ -48,7 +50,8 @@ describe('PerformanceOptimizer', () => {
         id: `obj-${i}`,
         type: ObjectType.BALL,
         position: [0, 0, 0] as [number, number, number],
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        spawnIndex: i + 1
       }));
 
       expect(optimizer.canAddObject(maxObjects, ObjectType.BALL)).toBe(false);
@@ -59,7 +62,8 @@ describe('PerformanceOptimizer', () => {
         id: `ball-${i}`,
         type: ObjectType.BALL,
         position: [0, 0, 0] as [number, number, number],
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        spawnIndex: i + 1
       }));
 
       expect(optimizer.canAddObject(maxBalls, ObjectType.BALL)).toBe(false);
@@ -82,7 +86,8 @@ describe('PerformanceOptimizer', () => {
         id: `obj-${i}`,
         type: ObjectType.BALL,
         position: [0, 0, 0] as [number, number, number],
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        spawnIndex: i + 1
       }));
 
       const status = optimizer.getPerformanceStatus(manyObjects, 60, 50);
@@ -0,0 +1,37 @@
+import { MATERIAL_PRESETS, getMaterialProps, isMaterialPresetName, clampDamping } from '../physicsMaterials';
+
+describe('physicsMaterials', () => {
+  it('returns object props tagged with the preset name', () => {
+    expect(getMaterialProps('rubber')).toEqual({
+      friction: MATERIAL_PRESETS.rubber.friction,
+      restitution: MATERIAL_PRESETS.rubber.restitution,
+      linearDamping: MATERIAL_PRESETS.rubber.linearDamping,
+      angularDamping: MATERIAL_PRESETS.rubber.angularDamping,
+      materialPreset: 'rubber'
+    });
+  });
+
+  it('keeps every preset within valid physical ranges', () => {
+    Object.values(MATERIAL_PRESETS).forEach(preset => {
+      expect(preset.friction).toBeGreaterThanOrEqual(0);
+      expect(preset.restitution).toBeGreaterThanOrEqual(0);
+      expect(preset.restitution).toBeLessThanOrEqual(1);
+      expect(clampDamping(preset.linearDamping, -1)).toBe(preset.linearDamping);
+      expect(clampDamping(preset.angularDamping, -1)).toBe(preset.angularDamping);
+    });
+  });
+
+  it('recognises preset names', () => {
+    expect(isMaterialPresetName('ice')).toBe(true);
+    expect(isMaterialPresetName('glass')).toBe(false);
+    expect(isMaterialPresetName('toString')).toBe(false);
+    expect(isMaterialPresetName(undefined)).toBe(false);
+  });
+
+  it('clamps damping to [0, 1] and falls back for invalid values', () => {
+    expect(clampDamping(1.5, 0.01)).toBe(1);
+    expect(clampDamping(-0.2, 0.01)).toBe(0);
+    expect(clampDamping(NaN, 0.01)).toBe(0.01);
+    expect(clampDamping('0.5', 0.01)).toBe(0.01);
+  });
+});
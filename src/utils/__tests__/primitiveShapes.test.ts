@@ -0,0 +1,66 @@
+import {
+  DEFAULT_COMPOUND_PARTS,
+  getCollisionHalfExtents,
+  getCompoundLocalOffsets,
+  getCompoundPartState,
+  getPrimitiveVolume,
+  isPrimitiveShape,
+  normalizeDimensions,
+  splitCompoundMass
+} from '../primitiveShapes';
+
+describe('primitiveShapes', () => {
+  it('sizes capsule collision shapes without the end caps', () => {
+    const halfExtents = getCollisionHalfExtents('capsule', { radius: 0.4, height: 1.6 });
+    expect(halfExtents.x).toBe(0.4);
+    expect(halfExtents.y).toBeCloseTo(0.4);
+  });
+
+  it('uses radius and half height for cylinders and cones', () => {
+    expect(getCollisionHalfExtents('cylinder', { radius: 0.5, height: 2 })).toEqual({ x: 0.5, y: 1, z: 0.5 });
+    expect(getCollisionHalfExtents('cone', {})).toEqual({ x: 0.5, y: 0.5, z: 0.5 });
+  });
+
+  it('falls back to defaults for invalid dimensions and keeps capsules at least a sphere', () => {
+    expect(normalizeDimensions('cylinder', { radius: -1, height: NaN })).toEqual({ radius: 0.5, height: 1, size: [1, 1, 1] });
+    expect(normalizeDimensions('capsule', { radius: 1, height: 0.5 }).height).toBe(2);
+  });
+
+  it('computes volumes and splits compound mass by volume', () => {
+    expect(getPrimitiveVolume('cone', { radius: 1, height: 3 })).toBeCloseTo(Math.PI);
+    const masses = splitCompoundMass([
+      { shape: 'box', offset: [0, 0, 0], size: [1, 1, 1] },
+      { shape: 'box', offset: [1, 0, 0], size: [1, 1, 3] }
+    ], 8);
+    expect(masses).toEqual([2, 6]);
+    expect(splitCompoundMass(DEFAULT_COMPOUND_PARTS, 1).reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+  });
+
+  it('lays out parts relative to the root part', () => {
+    expect(getCompoundLocalOffsets([
+      { shape: 'ball', offset: [1, 1, 0] },
+      { shape: 'box', offset: [2, 1, 0] }
+    ])).toEqual([[0, 0, 0], [1, 0, 0]]);
+  });
+
+  it('moves attached parts with the root rotation and spin', () => {
+    // Root turned 90 degrees about y and spinning about y at 2 rad/s
+    const s = Math.SQRT1_2;
+    const state = getCompoundPartState({
+      position: [0, 1, 0],
+      rotation: [0, s, 0, s],
+      linearVelocity: [1, 0, 0],
+      angularVelocity: [0, 2, 0]
+    }, [1, 0, 0]);
+
+    [0, 1, -1].forEach((value, axis) => expect(state.position[axis]).toBeCloseTo(value));
+    [-1, 0, 0].forEach((value, axis) => expect(state.linearVelocity[axis]).toBeCloseTo(value));
+    expect(state.angularVelocity).toEqual([0, 2, 0]);
+  });
+
+  it('recognises primitive shape names', () => {
+    expect(isPrimitiveShape('capsule')).toBe(true);
+    expect(isPrimitiveShape('compound')).toBe(false);
+    expect(isPrimitiveShape('toString')).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import { SeededRandom, normalizeSeed, generateSeed } from '../random';
+
+describe('SeededRandom', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = new SeededRandom(1234);
+    const b = new SeededRandom(1234);
+
+    const sequenceA = Array.from({ length: 10 }, () => a.next());
+    const sequenceB = Array.from({ length: 10 }, () => b.next());
+
+    expect(sequenceA).toEqual(sequenceB);
+  });
+
+  it('produces different sequences for different seeds', () => {
+    const a = new SeededRandom(1);
+    const b = new SeededRandom(2);
+
+    expect(a.next()).not.toBe(b.next());
+  });
+
+  it('keeps values in [0, 1) and ranges within bounds', () => {
+    const rng = new SeededRandom(42);
+
+    for (let i = 0; i < 1000; i++) {
+      const value = rng.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+
+      const ranged = rng.range(-4, 4);
+      expect(ranged).toBeGreaterThanOrEqual(-4);
+      expect(ranged).toBeLessThan(4);
+    }
+  });
+
+  it('restarts the sequence on reset', () => {
+    const rng = new SeededRandom(99);
+    const first = [rng.next(), rng.next(), rng.id()];
+
+    rng.reset();
+
+    expect([rng.next(), rng.next(), rng.id()]).toEqual(first);
+  });
+
+  it('generates base-36 id tokens of the requested length', () => {
+    const rng = new SeededRandom(7);
+
+    expect(rng.id()).toMatch(/^[0-9a-z]{9}$/);
+    expect(rng.id(4)).toMatch(/^[0-9a-z]{4}$/);
+  });
+});
+
+describe('seed helpers', () => {
+  it('normalizes user input into 32-bit seeds', () => {
+    expect(normalizeSeed('1234')).toBe(1234);
+    expect(normalizeSeed(' 56 ')).toBe(56);
+    expect(normalizeSeed(-12.7)).toBe(12);
+    expect(normalizeSeed('')).toBeNull();
+    expect(normalizeSeed('abc')).toBeNull();
+  });
+
+  it('generates unsigned 32-bit seeds', () => {
+    const seed = generateSeed();
+
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThanOrEqual(0xffffffff);
+  });
+});
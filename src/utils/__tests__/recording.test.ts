@@ -0,0 +1,144 @@
+import { TextEncoder, TextDecoder } from 'util';
+import {
+  SimulationRecorder,
+  findFrameIndex,
+  getTrackTransform,
+  serializeRecordingJSON,
+  serializeRecordingBinary,
+  parseRecording,
+  MAX_RECORDING_FRAMES
+} from '../recording';
+import { SimulationError, ErrorType } from '../errorHandling';
+import { SpawnedObject, ObjectType, BodyState } from '../../types/simulation';
+
+// jsdom does not provide the encoding API used by the binary format
+Object.assign(global, { TextEncoder, TextDecoder });
+
+const ball: SpawnedObject = {
+  id: 'ball-1',
+  type: ObjectType.BALL,
+  position: [0, 5, 0],
+  timestamp: 1,
+  spawnIndex: 1,
+  props: { radius: 0.5, mass: 1, color: 'orange' }
+};
+
+const box: SpawnedObject = {
+  id: 'box-2',
+  type: ObjectType.BOX,
+  position: [1, 6, 0],
+  timestamp: 2,
+  spawnIndex: 2,
+  props: { size: [1, 1, 1], mass: 1, color: 'blue' }
+};
+
+const stateAt = (y: number): BodyState => ({
+  position: [0, y, 0],
+  rotation: [0, 0, 0, 1],
+  linearVelocity: [0, 0, 0],
+  angularVelocity: [0, 0, 0]
+});
+
+const toArrayBuffer = (text: string): ArrayBuffer => {
+  const bytes = new TextEncoder().encode(text);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+};
+
+const recordSample = () => {
+  const recorder = new SimulationRecorder();
+  recorder.start([ball]);
+  recorder.capture(0, () => stateAt(5));
+  recorder.capture(1 / 60, () => stateAt(4.9));
+  // A box spawned mid-recording gets its own track
+  recorder.addTracks([ball, box]);
+  recorder.capture(2 / 60, (id) => (id === 'ball-1' ? stateAt(4.7) : stateAt(6)));
+  return recorder.stop();
+};
+
+describe('SimulationRecorder', () => {
+  it('captures frames for every track and pads late tracks', () => {
+    const recording = recordSample();
+
+    expect(recording.tracks.map(track => track.id)).toEqual(['ball-1', 'box-2']);
+    expect(recording.frames).toHaveLength(3);
+    expect(recording.duration).toBeCloseTo(2 / 60);
+    expect(getTrackTransform(recording.frames[0], 0)).toEqual([0, 5, 0, 0, 0, 0, 1]);
+    // The box did not exist in the first frames
+    expect(getTrackTransform(recording.frames[0], 1)).toBeNull();
+    expect(getTrackTransform(recording.frames[2], 1)?.[1]).toBe(6);
+  });
+
+  it('ignores captures when not recording', () => {
+    const recorder = new SimulationRecorder();
+    recorder.capture(0, () => stateAt(1));
+
+    expect(recorder.frameCount).toBe(0);
+  });
+
+  it('stops capturing at the frame limit', () => {
+    const recorder = new SimulationRecorder();
+    recorder.start([ball]);
+    for (let i = 0; i <= MAX_RECORDING_FRAMES; i++) {
+      recorder.capture(i / 60, () => stateAt(1));
+    }
+    const recording = recorder.stop();
+
+    expect(recording.frames).toHaveLength(MAX_RECORDING_FRAMES);
+    expect(recording.truncated).toBe(true);
+  });
+});
+
+describe('findFrameIndex', () => {
+  it('returns the last frame at or before the time', () => {
+    const recording = recordSample();
+
+    expect(findFrameIndex(recording, -1)).toBe(0);
+    expect(findFrameIndex(recording, 0)).toBe(0);
+    expect(findFrameIndex(recording, 1.5 / 60)).toBe(1);
+    expect(findFrameIndex(recording, 10)).toBe(2);
+  });
+});
+
+describe('recording export', () => {
+  it('round-trips through JSON', () => {
+    const recording = recordSample();
+    const parsed = parseRecording(toArrayBuffer(serializeRecordingJSON(recording)));
+
+    expect(parsed.tracks).toEqual(recording.tracks);
+    expect(parsed.frames).toHaveLength(3);
+    expect(getTrackTransform(parsed.frames[1], 0)?.[1]).toBeCloseTo(4.9);
+    expect(getTrackTransform(parsed.frames[1], 1)).toBeNull();
+  });
+
+  it('round-trips through the binary format', () => {
+    const recording = recordSample();
+    const parsed = parseRecording(serializeRecordingBinary(recording));
+
+    expect(parsed.tracks).toEqual(recording.tracks);
+    parsed.frames.forEach((frame, index) => {
+      expect(frame.time).toBeCloseTo(recording.frames[index].time);
+    });
+    expect(getTrackTransform(parsed.frames[2], 1)?.[1]).toBe(6);
+    expect(getTrackTransform(parsed.frames[0], 1)).toBeNull();
+  });
+
+  it('produces a smaller binary file than JSON', () => {
+    const recording = recordSample();
+
+    expect(serializeRecordingBinary(recording).byteLength)
+      .toBeLessThan(new TextEncoder().encode(serializeRecordingJSON(recording)).length);
+  });
+
+  it('rejects files that are not recordings', () => {
+    expect(() => parseRecording(toArrayBuffer(JSON.stringify({ format: 'physics-simulation-scene' }))))
+      .toThrow(SimulationError);
+
+    let caught: unknown;
+    try {
+      parseRecording(toArrayBuffer('{broken'));
+    } catch (err) {
+      caught = err;
+    }
+    expect((caught as SimulationError).type).toBe(ErrorType.RECORDING_INVALID_FORMAT);
+  });
+});
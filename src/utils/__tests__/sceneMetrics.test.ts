@@ -0,0 +1,116 @@
+import { Object3D, Vector3 } from 'three';
+import { RegisteredBody, SLEEP_ESTIMATE } from '../bodyRegistry';
+import {
+  computeSceneMetrics,
+  detectEnergyGain,
+  METRICS_LIMITS,
+  SceneMetricsHistory,
+  SceneMetricsSample
+} from '../sceneMetrics';
+
+const makeBody = (
+  mass: number,
+  position: [number, number, number],
+  velocity: [number, number, number],
+  options: { bodyType?: string; restingTime?: number; angularVelocity?: [number, number, number] } = {}
+): RegisteredBody => {
+  const object3D = new Object3D();
+  object3D.position.set(...position);
+  return {
+    id: `body-${Math.random()}`,
+    object3D,
+    api: {} as RegisteredBody['api'],
+    config: { shapeType: 'sphere', bodyType: options.bodyType ?? 'dynamic', mass, shapeConfig: { radius: 0.5 } },
+    linearVelocity: new Vector3(...velocity),
+    angularVelocity: new Vector3(...(options.angularVelocity ?? [0, 0, 0])),
+    lastPosition: object3D.position.clone(),
+    lastQuaternion: object3D.quaternion.clone(),
+    restingTime: options.restingTime ?? 0
+  };
+};
+
+const sample = (time: number, energy: number, bodies = 1): SceneMetricsSample => ({
+  time,
+  kinetic: energy,
+  potential: 0,
+  momentum: 0,
+  active: bodies,
+  sleeping: 0
+});
+
+describe('computeSceneMetrics', () => {
+  it('sums kinetic and potential energy and momentum of dynamic bodies', () => {
+    const metrics = computeSceneMetrics([
+      makeBody(2, [0, 5, 0], [3, 0, 0]),
+      makeBody(1, [0, 1, 0], [-1, 0, 0]),
+      makeBody(0, [0, 10, 0], [0, 0, 0], { bodyType: 'static' })
+    ], [0, -10, 0], 1.5);
+
+    expect(metrics.time).toBe(1.5);
+    expect(metrics.kinetic).toBeCloseTo(0.5 * 2 * 9 + 0.5 * 1 * 1);
+    expect(metrics.potential).toBeCloseTo(2 * 10 * 5 + 1 * 10 * 1);
+    expect(metrics.momentum).toBeCloseTo(5);
+  });
+
+  it('includes rotational energy and has no potential energy in zero-g', () => {
+    const metrics = computeSceneMetrics([makeBody(1, [0, 4, 0], [0, 0, 0], { angularVelocity: [0, 2, 0] })], [0, 0, 0], 0);
+
+    // Solid sphere: I = 0.4 m r²
+    expect(metrics.kinetic).toBeCloseTo(0.5 * 0.4 * 0.25 * 4);
+    expect(metrics.potential).toBeCloseTo(0);
+  });
+
+  it('counts active and sleeping bodies', () => {
+    const metrics = computeSceneMetrics([
+      makeBody(1, [0, 0.5, 0], [0, 0, 0], { restingTime: SLEEP_ESTIMATE.TIME_TO_SLEEP }),
+      makeBody(1, [0, 0.5, 0], [0, 0, 0], { restingTime: 0.5 }),
+      makeBody(1, [0, 3, 0], [0, -2, 0])
+    ], [0, -9.81, 0], 0);
+
+    expect(metrics.active).toBe(2);
+    expect(metrics.sleeping).toBe(1);
+  });
+});
+
+describe('detectEnergyGain', () => {
+  it('ignores energy that stays level or drains away', () => {
+    expect(detectEnergyGain([sample(0, 50), sample(1, 40), sample(2, 40)])).toBeNull();
+  });
+
+  it('reports a rise above the lowest energy of the run', () => {
+    expect(detectEnergyGain([sample(0, 50), sample(1, 20), sample(2, 30)])).toBeCloseTo(0.5);
+  });
+
+  it('only compares samples since the body count last changed', () => {
+    expect(detectEnergyGain([sample(0, 10, 1), sample(1, 60, 2), sample(2, 60, 2)])).toBeNull();
+  });
+
+  it('ignores small absolute changes', () => {
+    expect(detectEnergyGain([sample(0, 0.1), sample(1, 0.5)])).toBeNull();
+  });
+});
+
+describe('SceneMetricsHistory', () => {
+  it('keeps samples at least one interval apart within the longest window', () => {
+    const history = new SceneMetricsHistory();
+    for (let step = 0; step <= 600 * 60; step++) {
+      history.record(sample(step / 240, 1));
+    }
+
+    const samples = history.getSamples();
+    expect(samples[samples.length - 1].time).toBeGreaterThan(150 - METRICS_LIMITS.SAMPLE_INTERVAL);
+    expect(samples[0].time).toBeGreaterThanOrEqual(150 - METRICS_LIMITS.MAX_WINDOW);
+    expect(samples[1].time - samples[0].time).toBeGreaterThanOrEqual(METRICS_LIMITS.SAMPLE_INTERVAL - 1e-9);
+    expect(history.getSamples(10).every(entry => entry.time >= 140)).toBe(true);
+  });
+
+  it('starts over when simulated time goes back', () => {
+    const history = new SceneMetricsHistory();
+    history.record(sample(5, 1));
+    history.record(sample(6, 1));
+    expect(history.record(sample(0, 2))).toBe(true);
+
+    expect(history.getSamples()).toEqual([sample(0, 2)]);
+    expect(history.getLatest()).toEqual(sample(0, 2));
+  });
+});
@@ -0,0 +1,327 @@
+import {
+  serializeScene,
+  parseScene,
+  migrateScene,
+  getSessionModelIds,
+  SCENE_FILE_FORMAT,
+  SCENE_FORMAT_VERSION
+} from '../sceneSerialization';
+import { SimulationError, ErrorType } from '../errorHandling';
+import { DEFAULT_WORLD_SETTINGS } from '../worldSettings';
+import { ARENA_LIMITS, DEFAULT_ARENA } from '../arena';
+import { DEFAULT_TERRAIN } from '../terrain';
+import { sessionModels } from '../sessionModels';
+import { SpawnedObject, ObjectType, BodyState, ObjectConstraint, WorldSettings, ArenaSettings, TerrainSettings } from '../../types/simulation';
+
+const world: WorldSettings = { gravity: [0, -9.81, 0], timeScale: 0.5, fixedTimeStep: 1 / 120, maxSubSteps: 2 };
+
+const objects: SpawnedObject[] = [
+  {
+    id: 'ball-1',
+    type: ObjectType.BALL,
+    position: [1, 5, 0],
+    timestamp: 1000,
+    spawnIndex: 1,
+    props: { radius: 0.5, mass: 1, color: 'orange' }
+  },
+  {
+    id: 'box-1',
+    type: ObjectType.BOX,
+    position: [0, 6, 2],
+    timestamp: 2000,
+    spawnIndex: 2,
+    props: { size: [1, 1, 1], mass: 2, color: 'blue' }
+  }
+];
+
+const liveState: BodyState = {
+  position: [1, 0.5, 0],
+  rotation: [0, 0.7071, 0, 0.7071],
+  linearVelocity: [0.5, -1, 0],
+  angularVelocity: [0, 2, 0]
+};
+
+const hinge: ObjectConstraint = {
+  id: 'constraint-1',
+  type: 'hinge',
+  bodyA: 'ball-1',
+  bodyB: 'box-1',
+  anchorA: { position: [0, 0.5, 1], rotation: [0, 0, 0, 1] },
+  anchorB: { position: [0, 0, -1], rotation: [0, 0, 0, 1] },
+  limits: { lower: -1, upper: 1 }
+};
+
+const expectSceneError = (fn: () => void, type: ErrorType) => {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(SimulationError);
+    expect((err as SimulationError).type).toBe(type);
+    return;
+  }
+  throw new Error('Expected a SimulationError to be thrown');
+};
+
+describe('sceneSerialization', () => {
+  describe('serializeScene', () => {
+    it('writes a versioned scene with world settings', () => {
+      const scene = serializeScene(objects, world);
+
+      expect(scene.format).toBe(SCENE_FILE_FORMAT);
+      expect(scene.version).toBe(SCENE_FORMAT_VERSION);
+      expect(scene.world.gravity).toEqual([0, -9.81, 0]);
+      expect(scene.objects).toHaveLength(2);
+    });
+
+    it('uses live body state when available', () => {
+      const scene = serializeScene(objects, world, (id) => (id === 'ball-1' ? liveState : null));
+
+      expect(scene.objects[0].state).toEqual(liveState);
+      // Falls back to the spawn position at rest
+      expect(scene.objects[1].state).toEqual({
+        position: [0, 6, 2],
+        rotation: [0, 0, 0, 1],
+        linearVelocity: [0, 0, 0],
+        angularVelocity: [0, 0, 0]
+      });
+    });
+  });
+
+  describe('parseScene', () => {
+    it('round-trips a serialized scene', () => {
+      const json = JSON.stringify(serializeScene(objects, world, () => liveState));
+      const loaded = parseScene(json);
+
+      expect(loaded.world).toEqual(world);
+      expect(loaded.objects).toHaveLength(2);
+      expect(loaded.objects[0].id).toBe('ball-1');
+      expect(loaded.objects[0].props).toEqual({ radius: 0.5, mass: 1, color: 'orange' });
+      expect(loaded.objects[0].position).toEqual(liveState.position);
+      expect(loaded.objects[0].initialState).toEqual(liveState);
+    });
+
+    it('keeps spawn order, numbering objects saved without one by their place in the file', () => {
+      const scene = serializeScene([{ ...objects[0], spawnIndex: 7 }, objects[1]], world);
+      expect(parseScene(JSON.stringify(scene)).objects.map(obj => obj.spawnIndex)).toEqual([7, 2]);
+
+      scene.objects.forEach(obj => delete (obj as any).spawnIndex);
+      expect(parseScene(JSON.stringify(scene)).objects.map(obj => obj.spawnIndex)).toEqual([1, 2]);
+    });
+
+    it('gives older scenes without time scale or stepping the default world settings', () => {
+      const scene = serializeScene(objects, world);
+      (scene as any).world = { gravity: [0, -1.62, 0] };
+
+      expect(parseScene(JSON.stringify(scene)).world).toEqual({ ...DEFAULT_WORLD_SETTINGS, gravity: [0, -1.62, 0] });
+    });
+
+    it('rejects invalid world stepping', () => {
+      const scene = serializeScene(objects, world);
+      (scene.world as any).maxSubSteps = -1;
+      expectSceneError(() => parseScene(JSON.stringify(scene)), ErrorType.SCENE_INVALID_FORMAT);
+    });
+
+    it('round-trips constraints between objects', () => {
+      const json = JSON.stringify(serializeScene(objects, world, () => null, [hinge]));
+      expect(parseScene(json).constraints).toEqual([hinge]);
+    });
+
+    it('loads scenes saved without constraints', () => {
+      const scene = serializeScene(objects, world);
+      delete scene.constraints;
+      expect(parseScene(JSON.stringify(scene)).constraints).toEqual([]);
+    });
+
+    it('rejects constraints on objects missing from the scene', () => {
+      const scene = serializeScene(objects, world, () => null, [{ ...hinge, bodyB: 'box-9' }]);
+      expectSceneError(() => parseScene(JSON.stringify(scene)), ErrorType.SCENE_INVALID_FORMAT);
+    });
+
+    it('rejects springs without spring settings', () => {
+      const scene = serializeScene(objects, world, () => null, [{ ...hinge, type: 'spring', limits: undefined }]);
+      expectSceneError(() => parseScene(JSON.stringify(scene)), ErrorType.SCENE_INVALID_FORMAT);
+    });
+
+    it('round-trips the arena', () => {
+      const arena: ArenaSettings = {
+        groundSize: 30,
+        groundMaterial: 'wood',
+        pieces: [{ id: 'walls', kind: 'walls' }, { id: 'ramp-90', kind: 'ramp', angle: 20, heading: 90 }],
+        terrain: null
+      };
+      const json = JSON.stringify(serializeScene(objects, world, () => null, [], arena));
+      expect(parseScene(json).arena).toEqual(arena);
+    });
+
+    it('loads scenes saved without an arena', () => {
+      expect(parseScene(JSON.stringify(serializeScene(objects, world))).arena).toBeUndefined();
+    });
+
+    it('clamps arena sizes and rejects unknown arena pieces', () => {
+      const scene = serializeScene(objects, world, () => null, [], { groundSize: 1000, groundMaterial: null, pieces: [], terrain: null });
+      expect(parseScene(JSON.stringify(scene)).arena?.groundSize).toBe(ARENA_LIMITS.MAX_GROUND_SIZE);
+
+      (scene.arena as any).pieces = [{ id: 'slide', kind: 'slide' }];
+      expectSceneError(() => parseScene(JSON.stringify(scene)), ErrorType.SCENE_INVALID_FORMAT);
+    });
+
+    it('round-trips heightmap terrain and rejects malformed heightmaps', () => {
+      const terrain: TerrainSettings = {
+        ...DEFAULT_TERRAIN,
+        source: 'image',
+        heightmap: { name: 'hills.png', size: 2, values: [0, 0.5, 1, 0.25] }
+      };
+      const scene = serializeScene(objects, world, () => null, [], { ...DEFAULT_ARENA, terrain });
+      expect(parseScene(JSON.stringify(scene)).arena?.terrain).toEqual(terrain);
+
+      (scene.arena!.terrain!.heightmap as any).values = [0, 0.5, 1];
+      expectSceneError(() => parseScene(JSON.stringify(scene)), ErrorType.SCENE_INVALID_FORMAT);
+    });
+
+    it('rejects invalid JSON', () => {
+      expectSceneError(() => parseScene('{not json'), ErrorType.SCENE_INVALID_FORMAT);
+    });
+
+    it('rejects files that are not scenes', () => {
+      expectSceneError(() => parseScene(JSON.stringify({ logs: [] })), ErrorType.SCENE_INVALID_FORMAT);
+    });
+
+    it('rejects scenes from a newer version', () => {
+      const scene = { ...serializeScene(objects, world), version: SCENE_FORMAT_VERSION + 1 };
+      expectSceneError(() => parseScene(JSON.stringify(scene)), ErrorType.SCENE_VERSION_UNSUPPORTED);
+    });
+
+    it('rejects unknown object types', () => {
+      const scene = serializeScene(objects, world);
+      (scene.objects[0] as any).type = 'teapot';
+      expectSceneError(() => parseScene(JSON.stringify(scene)), ErrorType.SCENE_INVALID_FORMAT);
+    });
+
+    it('rejects duplicate object ids', () => {
+      const scene = serializeScene(objects, world);
+      scene.objects[1].id = 'ball-1';
+      expectSceneError(() => parseScene(JSON.stringify(scene)), ErrorType.SCENE_INVALID_FORMAT);
+    });
+
+    it('rejects malformed body state', () => {
+      const scene = serializeScene(objects, world);
+      (scene.objects[0].state as any).rotation = [0, 0, 1];
+      expectSceneError(() => parseScene(JSON.stringify(scene)), ErrorType.SCENE_INVALID_FORMAT);
+    });
+
+    it('rejects unknown material presets', () => {
+      const scene = serializeScene(objects, world);
+      (scene.objects[0].props as any).materialPreset = 'glass';
+      expectSceneError(() => parseScene(JSON.stringify(scene)), ErrorType.SCENE_INVALID_FORMAT);
+    });
+
+    it('rejects unknown decomposition qualities', () => {
+      const scene = serializeScene([
+        {
+          id: 'glb-1',
+          type: ObjectType.GLB_MODEL,
+          position: [0, 5, 0],
+          timestamp: 1,
+          spawnIndex: 3,
+          props: { url: 'model.glb', collisionType: 'decomposed', decompositionQuality: 'ultra' as any }
+        }
+      ], world);
+      expectSceneError(() => parseScene(JSON.stringify(scene)), ErrorType.SCENE_INVALID_FORMAT);
+    });
+
+    it('rejects dynamic GLB objects with mesh collision', () => {
+      const scene = serializeScene([
+        {
+          id: 'glb-1',
+          type: ObjectType.GLB_MODEL,
+          position: [0, 0, 0],
+          timestamp: 1,
+          spawnIndex: 4,
+          props: { url: 'level.glb', collisionType: 'mesh', mass: 2 }
+        }
+      ], world);
+      expectSceneError(() => parseScene(JSON.stringify(scene)), ErrorType.SCENE_INVALID_FORMAT);
+    });
+
+    it('rejects GLB objects without a url', () => {
+      const scene = serializeScene([
+        { id: 'glb-1', type: ObjectType.GLB_MODEL, position: [0, 5, 0], timestamp: 1, spawnIndex: 5, props: { mass: 1 } }
+      ], world);
+      expectSceneError(() => parseScene(JSON.stringify(scene)), ErrorType.SCENE_INVALID_FORMAT);
+    });
+  });
+
+  describe('session models', () => {
+    const model: SpawnedObject = {
+      id: 'glb-1',
+      type: ObjectType.GLB_MODEL,
+      position: [0, 5, 0],
+      timestamp: 1,
+      spawnIndex: 3,
+      props: { url: 'blob:http://localhost/1234', collisionType: 'box' }
+    };
+
+    it('lists GLB models whose files only last for this session', () => {
+      expect(getSessionModelIds([...objects, model, { ...model, id: 'glb-2', props: { url: 'models/duck.glb' } }])).toEqual(['glb-1']);
+    });
+
+    afterEach(() => {
+      sessionModels.clear();
+    });
+
+    it('round-trips GLB models loaded in this session', () => {
+      sessionModels.register(model.props!.url!);
+      const loaded = parseScene(JSON.stringify(serializeScene([...objects, model], world)));
+
+      expect(loaded.unavailableModels).toBeUndefined();
+      expect(loaded.objects[2]).toEqual({
+        ...model,
+        position: [0, 5, 0],
+        initialState: { position: [0, 5, 0], rotation: [0, 0, 0, 1], linearVelocity: [0, 0, 0], angularVelocity: [0, 0, 0] }
+      });
+    });
+
+    it('leaves out models from an earlier session with their joints', () => {
+      const joint: ObjectConstraint = { ...hinge, id: 'constraint-2', bodyB: 'glb-1' };
+      const loaded = parseScene(JSON.stringify(serializeScene([...objects, model], world, () => null, [hinge, joint])));
+
+      expect(loaded.unavailableModels).toEqual(['glb-1']);
+      expect(loaded.objects.map(obj => obj.id)).toEqual(['ball-1', 'box-1']);
+      expect(loaded.constraints).toEqual([hinge]);
+    });
+  });
+
+  describe('migrateScene', () => {
+    it('fills in what version 1 files were saved without', () => {
+      const scene = serializeScene(objects, world, () => null, [], { groundSize: 30, groundMaterial: null, pieces: [] } as any);
+      const legacy = JSON.parse(JSON.stringify({ ...scene, version: 1, world: { gravity: [0, -1.62, 0] } }));
+      delete legacy.constraints;
+      legacy.objects.forEach((obj: any) => delete obj.spawnIndex);
+
+      const migrated = migrateScene(legacy);
+      expect(migrated.version).toBe(SCENE_FORMAT_VERSION);
+      expect(migrated.world).toEqual({ ...DEFAULT_WORLD_SETTINGS, gravity: [0, -1.62, 0] });
+      expect(migrated.objects).toEqual([
+        expect.objectContaining({ spawnIndex: 1 }),
+        expect.objectContaining({ spawnIndex: 2 })
+      ]);
+      expect(migrated.constraints).toEqual([]);
+      expect(migrated.arena).toEqual(expect.objectContaining({ terrain: null }));
+      expect(parseScene(JSON.stringify(legacy)).arena?.groundSize).toBe(30);
+    });
+
+    it('applies migrations in order up to the current version', () => {
+      const migrations = {
+        [SCENE_FORMAT_VERSION - 1]: (scene: any) => ({ ...scene, migrated: true })
+      };
+
+      const migrated = migrateScene({ version: SCENE_FORMAT_VERSION - 1 }, migrations);
+      expect(migrated.version).toBe(SCENE_FORMAT_VERSION);
+      expect(migrated.migrated).toBe(true);
+    });
+
+    it('reports versions without a migration path', () => {
+      expectSceneError(() => migrateScene({ version: SCENE_FORMAT_VERSION - 1 }, {}), ErrorType.SCENE_VERSION_UNSUPPORTED);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { BoxGeometry, Mesh } from 'three';
+import {
+  getCursorSpawnPosition,
+  getDuplicatePosition,
+  getPatternPosition,
+  getSpawnHalfExtents,
+  getTowerTop,
+  PLACEMENT_LAYOUT
+} from '../spawnPlacement';
+import { ObjectType, TerrainSettings } from '../../types/simulation';
+import { DEFAULT_TERRAIN } from '../terrain';
+
+const block = (x: number, y: number, z: number) => {
+  const mesh = new Mesh(new BoxGeometry(1, 1, 1));
+  mesh.position.set(x, y, z);
+  mesh.updateMatrixWorld();
+  return mesh;
+};
+
+describe('spawnPlacement', () => {
+  it('sizes objects from their props and the spawn defaults', () => {
+    expect(getSpawnHalfExtents(ObjectType.BALL)).toEqual([0.5, 0.5, 0.5]);
+    expect(getSpawnHalfExtents(ObjectType.BOX, { size: [2, 4, 1] })).toEqual([1, 2, 0.5]);
+    // Capsule heights include the caps
+    expect(getSpawnHalfExtents(ObjectType.CAPSULE, { radius: 0.4, height: 1.6 })[1]).toBeCloseTo(0.8);
+    expect(getSpawnHalfExtents(ObjectType.GLB_MODEL, { scale: [2, 2, 2] })).toEqual([1, 1, 1]);
+
+    // The default dumbbell spans its bar and both weights
+    const [x, y] = getSpawnHalfExtents(ObjectType.COMPOUND);
+    expect(x).toBeCloseTo(1.05);
+    expect(y).toBeCloseTo(0.35);
+  });
+
+  it('drops cursor spawns just above the picked point', () => {
+    expect(getCursorSpawnPosition([1, 2, 3], [0.5, 0.5, 0.5])).toEqual([1, 2 + 0.5 + PLACEMENT_LAYOUT.DROP_GAP, 3]);
+  });
+
+  it('lays grids and rings out in layers', () => {
+    const half: [number, number, number] = [0.5, 0.5, 0.5];
+    const { GRID_SPACING, GRID_COLUMNS, RING_RADIUS, RING_SLOTS, DROP_GAP } = PLACEMENT_LAYOUT;
+
+    const first = getPatternPosition('grid', 0, half);
+    const second = getPatternPosition('grid', 1, half);
+    expect(second[0] - first[0]).toBeCloseTo(GRID_SPACING);
+    expect(getPatternPosition('grid', GRID_COLUMNS * GRID_COLUMNS, half)).toEqual([first[0], first[1] + GRID_SPACING, first[2]]);
+
+    const ring = getPatternPosition('ring', RING_SLOTS / 4, half);
+    expect(ring[0]).toBeCloseTo(0);
+    expect(ring[1]).toBeCloseTo(0.5 + DROP_GAP);
+    expect(ring[2]).toBeCloseTo(RING_RADIUS);
+  });
+
+  it('raises layouts over the terrain', () => {
+    const half: [number, number, number] = [0.5, 0.5, 0.5];
+    const terrain: TerrainSettings = {
+      ...DEFAULT_TERRAIN,
+      source: 'image',
+      amplitude: 2,
+      heightmap: { name: 'plateau.png', size: 2, values: [1, 1, 1, 1] }
+    };
+
+    for (const mode of ['grid', 'ring'] as const) {
+      const [x, y, z] = getPatternPosition(mode, 3, half);
+      expect(getPatternPosition(mode, 3, half, [], terrain)).toEqual([x, y + 2, z]);
+    }
+    expect(getPatternPosition('stack', 0, half, [], terrain)[1]).toBeCloseTo(2 + 0.5 + PLACEMENT_LAYOUT.STACK_GAP);
+  });
+
+  it('builds towers on top of the bodies at the origin', () => {
+    expect(getTowerTop([])).toBe(0);
+    // The block off to the side is not part of the tower
+    const bodies = [block(0, 0.5, 0), block(0.1, 1.5, 0), block(4, 6, 0)];
+    expect(getTowerTop(bodies)).toBeCloseTo(2);
+
+    const position = getPatternPosition('stack', 2, [0.5, 0.5, 0.5], bodies);
+    expect(position[0]).toBe(0);
+    expect(position[1]).toBeCloseTo(2 + 0.5 + PLACEMENT_LAYOUT.STACK_GAP);
+  });
+
+  it('puts duplicates clear of the original however it is turned', () => {
+    const half: [number, number, number] = [0.5, 0.5, 0.5];
+    const position = getDuplicatePosition([1, 2, 3], half);
+
+    expect(position[1]).toBe(2);
+    expect(position[2]).toBe(3);
+    // Bounding spheres of the two boxes do not touch
+    expect(position[0] - 1).toBeGreaterThan(Math.hypot(...half) * 2);
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  createHeightmap,
+  DEFAULT_TERRAIN,
+  generateNoiseHeights,
+  getTerrainHeights,
+  getTerrainKey,
+  getTerrainSpacing,
+  getTerrainTop,
+  normalizeTerrain,
+  TERRAIN_LIMITS
+} from '../terrain';
+import { TerrainSettings } from '../../types/simulation';
+
+// RGBA pixels of a gray image
+const grayPixels = (grays: number[]) => grays.flatMap(gray => [gray, gray, gray, 255]);
+
+describe('terrain', () => {
+  it('generates the same noise for the same seed, spanning 0 to 1', () => {
+    const heights = generateNoiseHeights(42, 17);
+    expect(heights).toHaveLength(17 * 17);
+    expect(generateNoiseHeights(42, 17)).toEqual(heights);
+    expect(generateNoiseHeights(43, 17)).not.toEqual(heights);
+    expect(Math.min(...heights)).toBe(0);
+    expect(Math.max(...heights)).toBe(1);
+  });
+
+  it('reads heightmaps from pixel brightness', () => {
+    const heightmap = createHeightmap('ramp.png', grayPixels([0, 255, 0, 255]), 2, 2);
+    expect(heightmap).toEqual({ name: 'ramp.png', size: 2, values: [0, 1, 0, 1] });
+  });
+
+  it('scales large images down to the stored heightmap size', () => {
+    const size = TERRAIN_LIMITS.HEIGHTMAP_SIZE * 2;
+    const pixels = grayPixels(Array.from({ length: size * size }, (_, index) => (index % size) * 2));
+    const heightmap = createHeightmap('big.png', pixels, size, size);
+
+    expect(heightmap.size).toBe(TERRAIN_LIMITS.HEIGHTMAP_SIZE);
+    expect(heightmap.values[0]).toBe(0);
+    expect(heightmap.values[heightmap.size - 1]).toBeCloseTo(((size - 1) * 2) / 255, 2);
+  });
+
+  it('lays heights out as rows along z scaled by the amplitude', () => {
+    const terrain: TerrainSettings = {
+      ...DEFAULT_TERRAIN,
+      source: 'image',
+      resolution: 3,
+      amplitude: 4,
+      heightmap: { name: 'slope.png', size: 2, values: [0, 0, 1, 1] }
+    };
+    // Rows run along z, so the slope rises from row to row
+    expect(getTerrainHeights(terrain)).toEqual([[0, 0, 0], [2, 2, 2], [4, 4, 4]]);
+    expect(getTerrainSpacing({ ...terrain, extent: 20 })).toBe(10);
+  });
+
+  it('finds the highest point under a footprint', () => {
+    const terrain: TerrainSettings = {
+      ...DEFAULT_TERRAIN,
+      source: 'image',
+      resolution: 3,
+      amplitude: 4,
+      extent: 20,
+      heightmap: { name: 'slope.png', size: 2, values: [0, 0, 1, 1] }
+    };
+    expect(getTerrainTop(null, 0, 0)).toBe(0);
+    expect(getTerrainTop(terrain, 0, -10)).toBe(0);
+    expect(getTerrainTop(terrain, 0, 0)).toBe(2);
+    // Anything reaching into the next row stands on its highest point
+    expect(getTerrainTop(terrain, 0, 1)).toBe(4);
+    expect(getTerrainTop(terrain, 0, -1, 2)).toBe(4);
+    expect(getTerrainTop(terrain, 0, 30)).toBe(0);
+  });
+
+  it('keeps settings in range and the terrain within the ground', () => {
+    const terrain = normalizeTerrain({ ...DEFAULT_TERRAIN, resolution: 1000, amplitude: -1, extent: 50 }, 30);
+    expect(terrain.resolution).toBe(TERRAIN_LIMITS.MAX_RESOLUTION);
+    expect(terrain.amplitude).toBe(TERRAIN_LIMITS.MIN_AMPLITUDE);
+    expect(terrain.extent).toBe(30);
+  });
+
+  it('falls back to noise for image terrain without a heightmap', () => {
+    expect(normalizeTerrain({ ...DEFAULT_TERRAIN, source: 'image', heightmap: null }, 20).source).toBe('noise');
+  });
+
+  it('changes its key whenever the shape changes', () => {
+    const key = getTerrainKey(DEFAULT_TERRAIN);
+    expect(getTerrainKey({ ...DEFAULT_TERRAIN })).toBe(key);
+    expect(getTerrainKey({ ...DEFAULT_TERRAIN, seed: 2 })).not.toBe(key);
+    expect(getTerrainKey({ ...DEFAULT_TERRAIN, amplitude: 5 })).not.toBe(key);
+
+    const image = (values: number[]): TerrainSettings => ({
+      ...DEFAULT_TERRAIN,
+      source: 'image',
+      heightmap: { name: 'map.png', size: 2, values }
+    });
+    expect(getTerrainKey(image([0, 1, 0, 0]))).not.toBe(getTerrainKey(image([0, 0, 1, 0])));
+  });
+});
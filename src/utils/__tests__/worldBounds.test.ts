@@ -0,0 +1,75 @@
+import {
+  BOUNDS_LIMITS,
+  clampWorldBounds,
+  DEFAULT_WORLD_BOUNDS,
+  getBoundsAction,
+  getMinBoundsHalfWidth,
+  isOutOfBounds
+} from '../worldBounds';
+import { WorldBounds } from '../../types/simulation';
+
+const bounds = (policy: WorldBounds['policy']): WorldBounds => ({ policy, halfWidth: 20, floor: -10, ceiling: 50 });
+
+describe('worldBounds', () => {
+  it('detects bodies outside the volume on any side', () => {
+    const box = bounds('despawn');
+    expect(isOutOfBounds([0, 1, 0], box)).toBe(false);
+    expect(isOutOfBounds([20.5, 1, 0], box)).toBe(true);
+    expect(isOutOfBounds([0, 1, -21], box)).toBe(true);
+    expect(isOutOfBounds([0, -10.1, 0], box)).toBe(true);
+    expect(isOutOfBounds([0, 51, 0], box)).toBe(true);
+  });
+
+  it('leaves bodies alone when off or inside the bounds', () => {
+    expect(getBoundsAction([0, -50, 0], bounds('off'))).toBeNull();
+    expect(getBoundsAction([5, 2, 5], bounds('despawn'))).toBeNull();
+  });
+
+  it('despawns bodies that leave', () => {
+    expect(getBoundsAction([0, -11, 0], bounds('despawn'))).toEqual({ type: 'despawn' });
+  });
+
+  it('respawns bodies above the origin, stacking a batch apart', () => {
+    const first = getBoundsAction([8, -11, 3], bounds('respawn'));
+    expect(first).toEqual({ type: 'move', offset: [-8, BOUNDS_LIMITS.RESPAWN_HEIGHT + 11, -3], stop: true });
+
+    const second = getBoundsAction([8, -11, 3], bounds('respawn'), 1);
+    expect(second?.type === 'move' && second.offset[1]).toBeCloseTo(BOUNDS_LIMITS.RESPAWN_HEIGHT + BOUNDS_LIMITS.RESPAWN_SPACING + 11);
+  });
+
+  it('respawns bodies above the terrain at the origin', () => {
+    const action = getBoundsAction([8, -11, 3], bounds('respawn'), 0, 3);
+    expect(action).toEqual({ type: 'move', offset: [-8, 3 + BOUNDS_LIMITS.RESPAWN_HEIGHT + 11, -3], stop: true });
+  });
+
+  it('wraps bodies to the opposite side, keeping their motion', () => {
+    const action = getBoundsAction([21, 3, -22], bounds('wrap'));
+    expect(action?.type).toBe('move');
+    if (action?.type !== 'move') return;
+
+    expect(action.stop).toBe(false);
+    expect(21 + action.offset[0]).toBeCloseTo(-19);
+    expect(action.offset[1]).toBe(0);
+    expect(-22 + action.offset[2]).toBeCloseTo(18);
+  });
+
+  it('despawns wrapping bodies that leave through the floor or ceiling', () => {
+    expect(getBoundsAction([0, -12, 0], bounds('wrap'))).toEqual({ type: 'despawn' });
+    expect(getBoundsAction([21, -12, 0], bounds('wrap'))).toEqual({ type: 'despawn' });
+    expect(getBoundsAction([0, 51, 0], bounds('wrap'))).toEqual({ type: 'despawn' });
+  });
+
+  it('keeps the bounds clear of the ground and in range', () => {
+    const clamped = clampWorldBounds({ policy: 'wrap', halfWidth: 1, floor: 5, ceiling: NaN });
+    expect(clamped.policy).toBe('wrap');
+    expect(clamped.halfWidth).toBe(BOUNDS_LIMITS.MIN_HALF_WIDTH);
+    expect(clamped.floor).toBe(BOUNDS_LIMITS.MAX_FLOOR);
+    expect(clamped.ceiling).toBe(DEFAULT_WORLD_BOUNDS.ceiling);
+  });
+
+  it('widens the bounds to fit a larger ground', () => {
+    const ground = { position: [0, -0.5, 0] as [number, number, number], halfExtents: [30, 0.5, 30] as [number, number, number] };
+    expect(getMinBoundsHalfWidth(ground)).toBe(30);
+    expect(clampWorldBounds(DEFAULT_WORLD_BOUNDS, ground).halfWidth).toBe(30);
+  });
+});
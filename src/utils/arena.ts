@@ -0,0 +1,243 @@
+// Arena: the ground, its optional terrain (see terrain.ts) and the static pieces placed
+// around it (walls, a funnel, ramps, a bowl).
+// Pieces come from a small preset library and can be combined; each one is built from
+// static boxes, since use-ammojs has no compound or concave static shapes for primitives.
+import { Euler, Quaternion } from 'three';
+import { ArenaPiece, ArenaPieceKind, ArenaSettings, MaterialPresetName } from '../types/simulation';
+import { GroundBox } from './ground';
+import { isMaterialPresetName } from './physicsMaterials';
+import { normalizeTerrain } from './terrain';
+
+export const ARENA_LIMITS = {
+  MIN_GROUND_SIZE: 10,
+  MAX_GROUND_SIZE: 60,
+  MIN_RAMP_ANGLE: 5,
+  MAX_RAMP_ANGLE: 45
+} as const;
+
+export const ARENA_LAYOUT = {
+  PANEL_THICKNESS: 0.2,
+  GROUND_THICKNESS: 1,
+  WALL_HEIGHT: 4,
+  // Funnel hangs above the origin with an opening at the bottom
+  FUNNEL_TOP_RADIUS: 4,
+  FUNNEL_BOTTOM_RADIUS: 1,
+  FUNNEL_HEIGHT: 3,
+  FUNNEL_ELEVATION: 4,
+  // Bowl sits on the ground at the origin, so the ground is its floor
+  BOWL_TOP_RADIUS: 3.5,
+  BOWL_BOTTOM_RADIUS: 1.5,
+  BOWL_HEIGHT: 1.5,
+  RING_PANELS: 12,
+  RAMP_LENGTH: 8,
+  RAMP_WIDTH: 3,
+  // Ramps start this far from the origin and rise outward
+  RAMP_START: 3
+} as const;
+
+// Ramps face one of these headings, so up to four fit around the origin
+export const RAMP_HEADINGS = [0, 90, 180, 270] as const;
+
+export const DEFAULT_ARENA: ArenaSettings = {
+  groundSize: 20,
+  groundMaterial: null,
+  pieces: [],
+  terrain: null
+};
+
+export type ArenaPresetName = 'glassBox' | 'funnel' | 'gentleRamp' | 'steepRamp' | 'bowl';
+
+export interface ArenaPreset {
+  label: string;
+  kind: ArenaPieceKind;
+  angle?: number;
+}
+
+export const ARENA_PRESETS: Record<ArenaPresetName, ArenaPreset> = {
+  glassBox: { label: 'Glass walls', kind: 'walls' },
+  funnel: { label: 'Funnel', kind: 'funnel' },
+  gentleRamp: { label: 'Ramp 15°', kind: 'ramp', angle: 15 },
+  steepRamp: { label: 'Ramp 30°', kind: 'ramp', angle: 30 },
+  bowl: { label: 'Bowl', kind: 'bowl' }
+};
+
+export const ARENA_PIECE_LABELS: Record<ArenaPieceKind, string> = {
+  walls: 'Glass walls',
+  funnel: 'Funnel',
+  ramp: 'Ramp',
+  bowl: 'Bowl'
+};
+
+// Ground colors for the material presets; the default ground stays light grey
+export const GROUND_COLORS: Record<MaterialPresetName | 'default', string> = {
+  default: '#cccccc',
+  rubber: '#495057',
+  ice: '#d0ebff',
+  wood: '#b08968',
+  steel: '#adb5bd'
+};
+
+// One static box of an arena piece
+export interface ArenaBody {
+  position: [number, number, number];
+  rotation: [number, number, number, number];
+  halfExtents: [number, number, number];
+  // Drawn see-through, like the glass walls
+  glass?: boolean;
+}
+
+export const isArenaPieceKind = (value: unknown): value is ArenaPieceKind =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ARENA_PIECE_LABELS, value);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+export const clampRampAngle = (angle: number): number =>
+  clamp(angle, ARENA_LIMITS.MIN_RAMP_ANGLE, ARENA_LIMITS.MAX_RAMP_ANGLE);
+
+/**
+ * Ground box of an arena, with its top at y = 0
+ */
+export const getArenaGround = (arena: ArenaSettings): GroundBox => {
+  const half = arena.groundSize / 2;
+  const halfThickness = ARENA_LAYOUT.GROUND_THICKNESS / 2;
+  return { position: [0, -halfThickness, 0], halfExtents: [half, halfThickness, half] };
+};
+
+/**
+ * Whether a preset can be added: walls, the funnel and the bowl only once, and as many
+ * ramps as there are headings
+ */
+export const canAddArenaPreset = (arena: ArenaSettings, name: ArenaPresetName): boolean => {
+  const { kind } = ARENA_PRESETS[name];
+  const count = arena.pieces.filter(piece => piece.kind === kind).length;
+  return kind === 'ramp' ? count < RAMP_HEADINGS.length : count === 0;
+};
+
+/**
+ * The arena with a piece from the preset library added, or unchanged when it cannot be
+ */
+export const addArenaPreset = (arena: ArenaSettings, name: ArenaPresetName): ArenaSettings => {
+  if (!canAddArenaPreset(arena, name)) return arena;
+  const { kind, angle } = ARENA_PRESETS[name];
+
+  if (kind !== 'ramp') {
+    return { ...arena, pieces: [...arena.pieces, { id: kind, kind }] };
+  }
+  const used = new Set(arena.pieces.filter(piece => piece.kind === 'ramp').map(piece => piece.heading));
+  const heading = RAMP_HEADINGS.find(value => !used.has(value)) ?? 0;
+  return { ...arena, pieces: [...arena.pieces, { id: `ramp-${heading}`, kind, angle, heading }] };
+};
+
+/**
+ * Arena settings with every field in range; unknown pieces and duplicates are dropped
+ */
+export const normalizeArena = (arena: Partial<ArenaSettings>, fallback: ArenaSettings = DEFAULT_ARENA): ArenaSettings => {
+  const groundSize = isFiniteNumber(arena.groundSize)
+    ? clamp(arena.groundSize, ARENA_LIMITS.MIN_GROUND_SIZE, ARENA_LIMITS.MAX_GROUND_SIZE)
+    : fallback.groundSize;
+  const groundMaterial = arena.groundMaterial === null || isMaterialPresetName(arena.groundMaterial)
+    ? arena.groundMaterial
+    : fallback.groundMaterial;
+
+  const seenIds = new Set<string>();
+  const pieces: ArenaPiece[] = [];
+  (Array.isArray(arena.pieces) ? arena.pieces : fallback.pieces).forEach(piece => {
+    if (!piece || !isArenaPieceKind(piece.kind) || typeof piece.id !== 'string' || seenIds.has(piece.id)) return;
+    seenIds.add(piece.id);
+    pieces.push(piece.kind === 'ramp' ? {
+      id: piece.id,
+      kind: piece.kind,
+      angle: clampRampAngle(isFiniteNumber(piece.angle) ? piece.angle : ARENA_PRESETS.gentleRamp.angle!),
+      heading: isFiniteNumber(piece.heading) ? ((piece.heading % 360) + 360) % 360 : 0
+    } : { id: piece.id, kind: piece.kind });
+  });
+
+  // Terrain is kept within the ground, so it shrinks with it
+  const terrainSettings = arena.terrain === undefined ? fallback.terrain : arena.terrain;
+  const terrain = terrainSettings ? normalizeTerrain(terrainSettings, groundSize, fallback.terrain ?? undefined) : null;
+
+  return { groundSize, groundMaterial, pieces, terrain };
+};
+
+const toRotation = (euler: Euler): [number, number, number, number] => {
+  const quaternion = new Quaternion().setFromEuler(euler);
+  return [quaternion.x, quaternion.y, quaternion.z, quaternion.w];
+};
+
+// A cone of panels around the vertical axis, leaning out from the bottom radius to the top
+const getRingPanels = (bottomRadius: number, topRadius: number, bottomY: number, height: number): ArenaBody[] => {
+  const { PANEL_THICKNESS, RING_PANELS } = ARENA_LAYOUT;
+  const slant = Math.hypot(topRadius - bottomRadius, height);
+  const lean = Math.atan2(topRadius - bottomRadius, height);
+  const middleRadius = (bottomRadius + topRadius) / 2;
+  // Sized for the top edge so neighbouring panels leave no gaps
+  const halfWidth = (Math.PI * topRadius) / RING_PANELS * 1.05;
+
+  return Array.from({ length: RING_PANELS }, (_, index) => {
+    const around = (index / RING_PANELS) * Math.PI * 2;
+    return {
+      position: [middleRadius * Math.cos(around), bottomY + height / 2, middleRadius * Math.sin(around)],
+      // Local x points out from the axis and local y up the slope
+      rotation: toRotation(new Euler(0, -around, -lean, 'YXZ')),
+      halfExtents: [PANEL_THICKNESS / 2, slant / 2, halfWidth]
+    };
+  });
+};
+
+const getWalls = (groundSize: number): ArenaBody[] => {
+  const { WALL_HEIGHT, PANEL_THICKNESS } = ARENA_LAYOUT;
+  const half = groundSize / 2;
+  const offset = half + PANEL_THICKNESS / 2;
+  const rotation: [number, number, number, number] = [0, 0, 0, 1];
+  return [
+    { position: [offset, WALL_HEIGHT / 2, 0], rotation, halfExtents: [PANEL_THICKNESS / 2, WALL_HEIGHT / 2, half + PANEL_THICKNESS], glass: true },
+    { position: [-offset, WALL_HEIGHT / 2, 0], rotation, halfExtents: [PANEL_THICKNESS / 2, WALL_HEIGHT / 2, half + PANEL_THICKNESS], glass: true },
+    { position: [0, WALL_HEIGHT / 2, offset], rotation, halfExtents: [half + PANEL_THICKNESS, WALL_HEIGHT / 2, PANEL_THICKNESS / 2], glass: true },
+    { position: [0, WALL_HEIGHT / 2, -offset], rotation, halfExtents: [half + PANEL_THICKNESS, WALL_HEIGHT / 2, PANEL_THICKNESS / 2], glass: true }
+  ];
+};
+
+const getRamp = (angle: number, heading: number): ArenaBody => {
+  const { RAMP_LENGTH, RAMP_WIDTH, RAMP_START, PANEL_THICKNESS } = ARENA_LAYOUT;
+  const incline = (clampRampAngle(angle) * Math.PI) / 180;
+  const turn = (heading * Math.PI) / 180;
+  const reach = RAMP_START + (RAMP_LENGTH / 2) * Math.cos(incline);
+  return {
+    // Heading 0 rises toward +x; the low edge rests on the ground
+    position: [
+      reach * Math.cos(turn),
+      (RAMP_LENGTH / 2) * Math.sin(incline) + (PANEL_THICKNESS / 2) * Math.cos(incline),
+      -reach * Math.sin(turn)
+    ],
+    rotation: toRotation(new Euler(0, turn, incline, 'YXZ')),
+    halfExtents: [RAMP_LENGTH / 2, PANEL_THICKNESS / 2, RAMP_WIDTH / 2]
+  };
+};
+
+/**
+ * Static boxes making up one arena piece, in world space
+ */
+export const getArenaPieceBodies = (piece: ArenaPiece, groundSize: number): ArenaBody[] => {
+  const layout = ARENA_LAYOUT;
+  switch (piece.kind) {
+    case 'walls':
+      return getWalls(groundSize);
+    case 'funnel':
+      return getRingPanels(layout.FUNNEL_BOTTOM_RADIUS, layout.FUNNEL_TOP_RADIUS, layout.FUNNEL_ELEVATION, layout.FUNNEL_HEIGHT);
+    case 'bowl':
+      return getRingPanels(layout.BOWL_BOTTOM_RADIUS, layout.BOWL_TOP_RADIUS, 0, layout.BOWL_HEIGHT);
+    case 'ramp':
+      return [getRamp(piece.angle ?? ARENA_PRESETS.gentleRamp.angle!, piece.heading ?? 0)];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Static boxes making up all of an arena's pieces, tagged with the piece they belong to.
+ * The ground is separate (see getArenaGround).
+ */
+export const getArenaBodies = (arena: ArenaSettings): Array<ArenaBody & { pieceId: string }> =>
+  arena.pieces.flatMap(piece => getArenaPieceBodies(piece, arena.groundSize).map(body => ({ ...body, pieceId: piece.id })));
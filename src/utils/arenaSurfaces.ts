@@ -0,0 +1,34 @@
+// Meshes of the arena's static bodies (pieces and terrain). They are not spawned objects,
+// so they stay out of the body registry and its consumers (culling, inspection, scene
+// export); at-cursor placement raycasts against them here (see SpawnPlacer).
+import { Object3D } from 'three';
+
+export class ArenaSurfaceRegistry {
+  private static instance: ArenaSurfaceRegistry;
+  private surfaces = new Set<Object3D>();
+
+  static getInstance(): ArenaSurfaceRegistry {
+    if (!ArenaSurfaceRegistry.instance) {
+      ArenaSurfaceRegistry.instance = new ArenaSurfaceRegistry();
+    }
+    return ArenaSurfaceRegistry.instance;
+  }
+
+  // Returns a function that removes the surface again
+  register(surface: Object3D): () => void {
+    this.surfaces.add(surface);
+    return () => {
+      this.surfaces.delete(surface);
+    };
+  }
+
+  getAll(): Object3D[] {
+    return Array.from(this.surfaces);
+  }
+
+  clear() {
+    this.surfaces.clear();
+  }
+}
+
+export const arenaSurfaces = ArenaSurfaceRegistry.getInstance();
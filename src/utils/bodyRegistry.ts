@@ -0,0 +1,222 @@
+// Registry of live rigid bodies keyed by SpawnedObject id. Compound parts other than
+// the root are registered as `<id>/part-<n>` with ownerId set to the compound's id.
+// use-ammojs only mirrors transforms back to the main thread, so velocities are
+// estimated here from consecutive physics steps (see BodyStateTracker).
+import { Object3D, Quaternion, Vector3 } from 'three';
+import { RigidbodyApi } from 'use-ammojs';
+import { BodyState } from '../types/simulation';
+import { debugLogger } from './debugLogger';
+
+// The parts of a use-ammojs shape config read back from registered bodies
+export interface BodyShapeConfig {
+  radius?: number;
+  halfExtents?: { x: number; y: number; z: number };
+  hullMaxVertices?: number;
+}
+
+export interface RegisteredBodyConfig {
+  shapeType: string;
+  bodyType: string;
+  mass: number;
+  shapeConfig?: BodyShapeConfig;
+}
+
+// Bullet's deactivation rules with the use-ammojs default thresholds: a body goes to
+// sleep after staying below both speed thresholds for TIME_TO_SLEEP seconds
+export const SLEEP_ESTIMATE = {
+  LINEAR_THRESHOLD: 1.6,
+  ANGULAR_THRESHOLD: 2.5,
+  TIME_TO_SLEEP: 2
+} as const;
+
+export type SleepState = 'awake' | 'settling' | 'asleep';
+
+export interface RegisteredBody {
+  id: string;
+  // Id of the SpawnedObject this body is a part of; unset when the body is the object itself
+  ownerId?: string;
+  object3D: Object3D;
+  api: RigidbodyApi;
+  config: RegisteredBodyConfig;
+  linearVelocity: Vector3;
+  angularVelocity: Vector3;
+  lastPosition: Vector3;
+  lastQuaternion: Quaternion;
+  // Simulated seconds spent below the sleep thresholds
+  restingTime: number;
+}
+
+// Rough scalar moment of inertia, good enough to turn a target spin into an impulse
+export const estimateInertia = (config: RegisteredBodyConfig): number => {
+  const mass = config.mass > 0 ? config.mass : 1;
+  const radius = config.shapeConfig?.radius;
+  if (typeof radius === 'number' && radius > 0) {
+    return 0.4 * mass * radius * radius;
+  }
+  const he = config.shapeConfig?.halfExtents;
+  if (he && typeof he.x === 'number' && typeof he.y === 'number' && typeof he.z === 'number') {
+    return (2 * mass * (he.x * he.x + he.y * he.y + he.z * he.z)) / 9;
+  }
+  return 0.4 * mass * 0.25;
+};
+
+export class BodyRegistry {
+  private static instance: BodyRegistry;
+  private bodies = new Map<string, RegisteredBody>();
+
+  // Scratch objects reused across samples, created on first use so importing the registry stays cheap
+  private deltaQuaternion?: Quaternion;
+  private inverseQuaternion?: Quaternion;
+
+  static getInstance(): BodyRegistry {
+    if (!BodyRegistry.instance) {
+      BodyRegistry.instance = new BodyRegistry();
+    }
+    return BodyRegistry.instance;
+  }
+
+  register(id: string, object3D: Object3D, api: RigidbodyApi, config: RegisteredBodyConfig, ownerId?: string): RegisteredBody {
+    const body: RegisteredBody = {
+      id,
+      ownerId,
+      object3D,
+      api,
+      config,
+      linearVelocity: new Vector3(),
+      angularVelocity: new Vector3(),
+      lastPosition: object3D.position.clone(),
+      lastQuaternion: object3D.quaternion.clone(),
+      restingTime: 0
+    };
+    object3D.userData.spawnedObjectId = id;
+    this.bodies.set(id, body);
+    debugLogger.info('Body registered', { id, shapeType: config.shapeType, mass: config.mass });
+    return body;
+  }
+
+  // Only removes the entry if it still belongs to the given object (remounts re-register first)
+  unregister(id: string, object3D?: Object3D) {
+    const body = this.bodies.get(id);
+    if (!body || (object3D && body.object3D !== object3D)) return;
+    this.bodies.delete(id);
+    debugLogger.info('Body unregistered', { id });
+  }
+
+  get(id: string): RegisteredBody | undefined {
+    return this.bodies.get(id);
+  }
+
+  getAll(): RegisteredBody[] {
+    return Array.from(this.bodies.values());
+  }
+
+  // Resolve a raycast hit (possibly a nested mesh inside a GLB) to the body that owns it
+  findOwner(object: Object3D | null): RegisteredBody | undefined {
+    let current = object;
+    while (current) {
+      const id = current.userData?.spawnedObjectId;
+      const body = typeof id === 'string' ? this.bodies.get(id) : undefined;
+      if (body && body.object3D === current) return body;
+      current = current.parent;
+    }
+    return undefined;
+  }
+
+  // Update velocity estimates; dt is the simulated time since the previous sample
+  sample(dt: number) {
+    if (!(dt > 0) || !isFinite(dt)) return;
+    const deltaQuaternion = this.deltaQuaternion ??= new Quaternion();
+    const inverseQuaternion = this.inverseQuaternion ??= new Quaternion();
+
+    this.bodies.forEach(body => {
+      const { object3D } = body;
+      body.linearVelocity
+        .copy(object3D.position)
+        .sub(body.lastPosition)
+        .divideScalar(dt);
+
+      inverseQuaternion.copy(body.lastQuaternion).invert();
+      deltaQuaternion.copy(object3D.quaternion).multiply(inverseQuaternion).normalize();
+      if (deltaQuaternion.w < 0) {
+        deltaQuaternion.set(-deltaQuaternion.x, -deltaQuaternion.y, -deltaQuaternion.z, -deltaQuaternion.w);
+      }
+      const angle = 2 * Math.acos(Math.min(1, deltaQuaternion.w));
+      const sinHalf = Math.sqrt(Math.max(0, 1 - deltaQuaternion.w * deltaQuaternion.w));
+      if (sinHalf < 1e-6) {
+        body.angularVelocity.set(0, 0, 0);
+      } else {
+        body.angularVelocity
+          .set(deltaQuaternion.x, deltaQuaternion.y, deltaQuaternion.z)
+          .divideScalar(sinHalf)
+          .multiplyScalar(angle / dt);
+      }
+
+      const resting = body.linearVelocity.length() < SLEEP_ESTIMATE.LINEAR_THRESHOLD &&
+        body.angularVelocity.length() < SLEEP_ESTIMATE.ANGULAR_THRESHOLD;
+      body.restingTime = resting ? body.restingTime + dt : 0;
+
+      body.lastPosition.copy(object3D.position);
+      body.lastQuaternion.copy(object3D.quaternion);
+    });
+  }
+
+  // The worker does not report activation state, so sleep is estimated from motion
+  getSleepState(id: string): SleepState | null {
+    const body = this.bodies.get(id);
+    if (!body) return null;
+    if (body.restingTime >= SLEEP_ESTIMATE.TIME_TO_SLEEP) return 'asleep';
+    return body.restingTime > 0 ? 'settling' : 'awake';
+  }
+
+  getState(id: string): BodyState | null {
+    const body = this.bodies.get(id);
+    if (!body) return null;
+
+    const { position, quaternion } = body.object3D;
+    return {
+      position: [position.x, position.y, position.z],
+      rotation: [quaternion.x, quaternion.y, quaternion.z, quaternion.w],
+      linearVelocity: [body.linearVelocity.x, body.linearVelocity.y, body.linearVelocity.z],
+      angularVelocity: [body.angularVelocity.x, body.angularVelocity.y, body.angularVelocity.z]
+    };
+  }
+
+  // Push a captured state into the physics world for a registered body
+  applyState(id: string, state: BodyState) {
+    const body = this.bodies.get(id);
+    if (!body) {
+      debugLogger.warn('Cannot apply state to unregistered body', { id });
+      return;
+    }
+
+    const position = new Vector3(...state.position);
+    const rotation = new Quaternion(...state.rotation).normalize();
+    body.api.setMotionState(position, rotation);
+    body.api.setLinearVelocity(new Vector3(...state.linearVelocity));
+    this.applyAngularVelocity(body, new Vector3(...state.angularVelocity));
+
+    body.lastPosition.copy(position);
+    body.lastQuaternion.copy(rotation);
+    body.restingTime = 0;
+  }
+
+  // The ammo worker ignores SET_ANGULAR_VELOCITY, so spin is produced with an
+  // opposing impulse couple: J at +r and -J at -r yields a pure torque impulse 2(r x J).
+  private applyAngularVelocity(body: RegisteredBody, omega: Vector3) {
+    const angularImpulse = omega.clone().multiplyScalar(estimateInertia(body.config));
+    if (angularImpulse.lengthSq() < 1e-12) return;
+
+    const helper = Math.abs(angularImpulse.x) < 0.9 * angularImpulse.length() ? new Vector3(1, 0, 0) : new Vector3(0, 1, 0);
+    const lever = new Vector3().crossVectors(angularImpulse, helper).normalize();
+    const impulse = new Vector3().crossVectors(angularImpulse, lever).multiplyScalar(0.5);
+
+    body.api.applyImpulse(impulse, lever);
+    body.api.applyImpulse(impulse.clone().negate(), lever.clone().negate());
+  }
+
+  clear() {
+    this.bodies.clear();
+  }
+}
+
+export const bodyRegistry = BodyRegistry.getInstance();
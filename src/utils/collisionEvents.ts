@@ -0,0 +1,72 @@
+// Global bus for collision begin/end events (see CollisionEventTracker). Listeners are
+// called synchronously from the render loop, so they should only record or schedule work.
+import { CollisionEvent } from '../types/simulation';
+import { debugLogger } from './debugLogger';
+import { contactPairKey } from './contactDetection';
+
+// objectA/objectB value used for contacts with the ground plane
+export const GROUND_ID = 'ground';
+
+// objectA/objectB value used for contacts with the arena's terrain
+export const TERRAIN_ID = 'terrain';
+
+// objectA/objectB value used for contacts with a static arena piece
+export const getArenaPieceContactId = (pieceId: string): string => `arena/${pieceId}`;
+
+export type CollisionListener = (event: CollisionEvent) => void;
+
+export class CollisionEventBus {
+  private static instance: CollisionEventBus;
+  private listeners = new Set<CollisionListener>();
+  // Latest geometry of each contact that has begun and not yet ended
+  private active = new Map<string, CollisionEvent>();
+
+  static getInstance(): CollisionEventBus {
+    if (!CollisionEventBus.instance) {
+      CollisionEventBus.instance = new CollisionEventBus();
+    }
+    return CollisionEventBus.instance;
+  }
+
+  // Returns a function that removes the listener again
+  subscribe(listener: CollisionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(event: CollisionEvent) {
+    const key = contactPairKey(event.objectA, event.objectB);
+    if (event.type === 'begin') {
+      this.active.set(key, event);
+    } else {
+      this.active.delete(key);
+    }
+
+    // Copy so listeners can unsubscribe while being called
+    Array.from(this.listeners).forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        debugLogger.error('Collision listener failed', { error, objectA: event.objectA, objectB: event.objectB });
+      }
+    });
+  }
+
+  // Refresh the point, normal and impulse of an ongoing contact without notifying listeners
+  update(event: CollisionEvent) {
+    const key = contactPairKey(event.objectA, event.objectB);
+    if (this.active.has(key)) this.active.set(key, event);
+  }
+
+  getActiveContacts(): CollisionEvent[] {
+    return Array.from(this.active.values());
+  }
+
+  get listenerCount(): number {
+    return this.listeners.size;
+  }
+}
+
+export const collisionEvents = CollisionEventBus.getInstance();
@@ -0,0 +1,161 @@
+// Joints between spawned objects. Anchors are stored in each body's local frame so a
+// constraint can be rebuilt after either body is recreated or a scene is reloaded.
+// Springs are applied as impulses every frame (see PhysicsConstraints): the use-ammojs
+// 6DOF spring keeps its linear axes locked, so a Bullet spring would never stretch.
+import { Matrix4, Quaternion, Vector3 } from 'three';
+import { BodyState, ConstraintAnchor, ConstraintKind, ObjectConstraint } from '../types/simulation';
+
+export const CONSTRAINT_LABELS: Record<ConstraintKind, string> = {
+  fixed: 'Fixed',
+  hinge: 'Hinge',
+  pointToPoint: 'Ball joint',
+  slider: 'Slider',
+  spring: 'Spring'
+};
+
+export const CONSTRAINT_KINDS = Object.keys(CONSTRAINT_LABELS) as ConstraintKind[];
+
+export const isConstraintKind = (value: unknown): value is ConstraintKind =>
+  typeof value === 'string' && CONSTRAINT_KINDS.includes(value as ConstraintKind);
+
+export const DEFAULT_SPRING = {
+  STIFFNESS: 40,
+  DAMPING: 2
+} as const;
+
+// Where rigid joints are placed between the two bodies
+export type ConstraintPivot = 'midpoint' | 'bodyA' | 'bodyB';
+
+export interface ConstraintOptions {
+  pivot?: ConstraintPivot;
+  limits?: ObjectConstraint['limits'];
+  stiffness?: number;
+  damping?: number;
+}
+
+// Joint orientation in world space: x points from A to B, z stays as level as possible
+const getJointRotation = (from: Vector3, to: Vector3): Quaternion => {
+  const x = to.clone().sub(from);
+  if (x.lengthSq() < 1e-12) x.set(1, 0, 0);
+  x.normalize();
+  const helper = Math.abs(x.y) > 0.9 ? new Vector3(0, 0, 1) : new Vector3(0, 1, 0);
+  const z = new Vector3().crossVectors(x, helper).normalize();
+  const y = new Vector3().crossVectors(z, x);
+  return new Quaternion().setFromRotationMatrix(new Matrix4().makeBasis(x, y, z));
+};
+
+// Express a world-space joint frame in a body's local frame
+const toLocalAnchor = (state: BodyState, point: Vector3, rotation: Quaternion): ConstraintAnchor => {
+  const inverse = new Quaternion(...state.rotation).normalize().invert();
+  const position = point.clone().sub(new Vector3(...state.position)).applyQuaternion(inverse);
+  const local = inverse.multiply(rotation);
+  return {
+    position: [position.x, position.y, position.z],
+    rotation: [local.x, local.y, local.z, local.w]
+  };
+};
+
+/**
+ * Build a constraint between two bodies in their current poses. Rigid joints share
+ * one pivot (the midpoint by default) so the bodies keep their relative placement;
+ * springs attach at both centres with the current distance as their rest length.
+ */
+export const createConstraint = (
+  type: ConstraintKind,
+  bodyA: { id: string; state: BodyState },
+  bodyB: { id: string; state: BodyState },
+  options: ConstraintOptions = {}
+): Omit<ObjectConstraint, 'id'> => {
+  const positionA = new Vector3(...bodyA.state.position);
+  const positionB = new Vector3(...bodyB.state.position);
+  const rotation = getJointRotation(positionA, positionB);
+
+  if (type === 'spring') {
+    return {
+      type,
+      bodyA: bodyA.id,
+      bodyB: bodyB.id,
+      anchorA: toLocalAnchor(bodyA.state, positionA, rotation),
+      anchorB: toLocalAnchor(bodyB.state, positionB, rotation),
+      spring: {
+        stiffness: options.stiffness ?? DEFAULT_SPRING.STIFFNESS,
+        damping: options.damping ?? DEFAULT_SPRING.DAMPING,
+        restLength: positionA.distanceTo(positionB)
+      }
+    };
+  }
+
+  const pivot = options.pivot === 'bodyA'
+    ? positionA
+    : options.pivot === 'bodyB' ? positionB : positionA.clone().lerp(positionB, 0.5);
+
+  return {
+    type,
+    bodyA: bodyA.id,
+    bodyB: bodyB.id,
+    anchorA: toLocalAnchor(bodyA.state, pivot, rotation),
+    anchorB: toLocalAnchor(bodyB.state, pivot, rotation),
+    ...((type === 'hinge' || type === 'slider') && options.limits ? { limits: { ...options.limits } } : {})
+  };
+};
+
+/**
+ * World position of an anchor on a body with the given pose
+ */
+export const getWorldAnchor = (
+  anchor: ConstraintAnchor,
+  position: Vector3,
+  quaternion: Quaternion,
+  target: Vector3 = new Vector3()
+): Vector3 => target.set(...anchor.position).applyQuaternion(quaternion).add(position);
+
+/**
+ * Constraints that do not involve any of the given objects
+ */
+export const withoutConstraintsOf = (constraints: ObjectConstraint[], objectIds: Iterable<string>): ObjectConstraint[] => {
+  const removed = new Set(objectIds);
+  return constraints.filter(constraint => !removed.has(constraint.bodyA) && !removed.has(constraint.bodyB));
+};
+
+/**
+ * Constraints attached to any of the given objects
+ */
+export const constraintsOf = (constraints: ObjectConstraint[], objectIds: Iterable<string>): ObjectConstraint[] => {
+  const ids = new Set(objectIds);
+  return constraints.filter(constraint => ids.has(constraint.bodyA) || ids.has(constraint.bodyB));
+};
+
+export interface SpringImpulseInput {
+  pointA: Vector3;
+  pointB: Vector3;
+  velocityA: Vector3;
+  velocityB: Vector3;
+  stiffness: number;
+  damping: number;
+  restLength: number;
+  dt: number;
+}
+
+/**
+ * Impulse on body A from a damped spring between the two anchor points; body B
+ * receives the opposite impulse. Zero when the anchors coincide.
+ */
+export const computeSpringImpulse = ({
+  pointA,
+  pointB,
+  velocityA,
+  velocityB,
+  stiffness,
+  damping,
+  restLength,
+  dt
+}: SpringImpulseInput): Vector3 => {
+  const direction = pointB.clone().sub(pointA);
+  const length = direction.length();
+  if (length < 1e-9 || !(dt > 0)) return new Vector3();
+  direction.divideScalar(length);
+
+  const closingSpeed = velocityB.clone().sub(velocityA).dot(direction);
+  const force = stiffness * (length - restLength) + damping * closingSpeed;
+  return direction.multiplyScalar(force * dt);
+};
@@ -0,0 +1,329 @@
+// Contacts between the registered bodies, found from their poses after each physics step.
+// use-ammojs 0.2.x keeps Bullet's contact manifolds inside its worker (the partner indices
+// it copies out are private to the library), so each body is given a simple proxy here:
+// spheres are exact, every other shape is its oriented bounding box. Concave triangle
+// meshes therefore report contacts anywhere inside their bounds, and the terrain is a box
+// under each body topped at the highest ground beneath it.
+import { Box3, Matrix4, Mesh, Object3D, Quaternion, Vector3 } from 'three';
+import { TerrainSettings } from '../types/simulation';
+import { getTerrainTop } from './terrain';
+import { BodyShapeConfig } from './bodyRegistry';
+
+export type ContactShape =
+  | { kind: 'sphere'; radius: number }
+  | { kind: 'box'; halfExtents: Vector3 };
+
+export interface ContactCollider {
+  // SpawnedObject the body belongs to; compound parts share their owner's id
+  objectId: string;
+  // World centre and rotation of the proxy
+  center: Vector3;
+  rotation: Quaternion;
+  shape: ContactShape;
+  // Zero for static bodies
+  inverseMass: number;
+  velocity: Vector3;
+}
+
+export interface Contact {
+  objectA: string;
+  objectB: string;
+  point: Vector3;
+  // Unit normal from objectA to objectB
+  normal: Vector3;
+  // Penetration depth; negative while the bodies are still a small gap apart
+  depth: number;
+  // Estimated impulse needed to stop the bodies closing, in N·s
+  impulse: number;
+}
+
+export const CONTACT_MARGIN = {
+  // Bodies closer than this are touching; resting bodies sit at or just inside zero
+  BEGIN: 0.02,
+  // Touching bodies must separate this far to stop touching, so resting contacts do not flicker
+  END: 0.05
+} as const;
+
+const EPSILON = 1e-9;
+
+export const contactPairKey = (objectA: string, objectB: string): string =>
+  objectA < objectB ? `${objectA}|${objectB}` : `${objectB}|${objectA}`;
+
+const getBoundingRadius = (shape: ContactShape): number =>
+  shape.kind === 'sphere' ? shape.radius : shape.halfExtents.length();
+
+const boxAxes = (rotation: Quaternion): Vector3[] => [
+  new Vector3(1, 0, 0).applyQuaternion(rotation),
+  new Vector3(0, 1, 0).applyQuaternion(rotation),
+  new Vector3(0, 0, 1).applyQuaternion(rotation)
+];
+
+// Half the length of a box's shadow on an axis
+const projectBox = (axes: Vector3[], half: Vector3, axis: Vector3): number =>
+  Math.abs(axes[0].dot(axis)) * half.x + Math.abs(axes[1].dot(axis)) * half.y + Math.abs(axes[2].dot(axis)) * half.z;
+
+const boxCorners = (center: Vector3, axes: Vector3[], half: Vector3): Vector3[] => {
+  const corners: Vector3[] = [];
+  for (const sx of [-1, 1]) {
+    for (const sy of [-1, 1]) {
+      for (const sz of [-1, 1]) {
+        corners.push(center.clone()
+          .addScaledVector(axes[0], sx * half.x)
+          .addScaledVector(axes[1], sy * half.y)
+          .addScaledVector(axes[2], sz * half.z));
+      }
+    }
+  }
+  return corners;
+};
+
+const isInsideBox = (point: Vector3, center: Vector3, axes: Vector3[], half: Vector3, margin: number): boolean => {
+  const offset = point.clone().sub(center);
+  return Math.abs(offset.dot(axes[0])) <= half.x + margin &&
+    Math.abs(offset.dot(axes[1])) <= half.y + margin &&
+    Math.abs(offset.dot(axes[2])) <= half.z + margin;
+};
+
+type ContactGeometry = Pick<Contact, 'point' | 'normal' | 'depth'>;
+
+const sphereSphere = (a: ContactCollider, radiusA: number, b: ContactCollider, radiusB: number, margin: number): ContactGeometry | null => {
+  const delta = b.center.clone().sub(a.center);
+  const distance = delta.length();
+  const depth = radiusA + radiusB - distance;
+  if (depth < -margin) return null;
+  const normal = distance > EPSILON ? delta.divideScalar(distance) : new Vector3(0, 1, 0);
+  return { point: a.center.clone().addScaledVector(normal, radiusA - depth / 2), normal, depth };
+};
+
+// Normal points from the box to the sphere
+const boxSphere = (box: ContactCollider, half: Vector3, sphere: ContactCollider, radius: number, margin: number): ContactGeometry | null => {
+  const inverse = box.rotation.clone().invert();
+  const local = sphere.center.clone().sub(box.center).applyQuaternion(inverse);
+  const closest = local.clone().clamp(half.clone().negate(), half);
+  const offset = local.clone().sub(closest);
+  const distance = offset.length();
+
+  let normal: Vector3;
+  let depth: number;
+  if (distance > EPSILON) {
+    normal = offset.divideScalar(distance);
+    depth = radius - distance;
+  } else {
+    // Centre inside the box: push out through the nearest face
+    let axis = 0;
+    let gap = Infinity;
+    for (let i = 0; i < 3; i++) {
+      const faceGap = half.getComponent(i) - Math.abs(local.getComponent(i));
+      if (faceGap < gap) {
+        gap = faceGap;
+        axis = i;
+      }
+    }
+    const sign = local.getComponent(axis) < 0 ? -1 : 1;
+    normal = new Vector3().setComponent(axis, sign);
+    closest.setComponent(axis, sign * half.getComponent(axis));
+    depth = radius + gap;
+  }
+
+  if (depth < -margin) return null;
+  return {
+    point: closest.applyQuaternion(box.rotation).add(box.center),
+    normal: normal.applyQuaternion(box.rotation),
+    depth
+  };
+};
+
+// Separating axis test; the contact normal is the axis of least overlap
+const boxBox = (a: ContactCollider, halfA: Vector3, b: ContactCollider, halfB: Vector3, margin: number): ContactGeometry | null => {
+  const axesA = boxAxes(a.rotation);
+  const axesB = boxAxes(b.rotation);
+  const delta = b.center.clone().sub(a.center);
+
+  const candidates = [...axesA, ...axesB];
+  for (const axisA of axesA) {
+    for (const axisB of axesB) {
+      const cross = new Vector3().crossVectors(axisA, axisB);
+      if (cross.lengthSq() > 1e-6) candidates.push(cross.normalize());
+    }
+  }
+
+  let normal: Vector3 | null = null;
+  let depth = Infinity;
+  for (const axis of candidates) {
+    const distance = delta.dot(axis);
+    const overlap = projectBox(axesA, halfA, axis) + projectBox(axesB, halfB, axis) - Math.abs(distance);
+    if (overlap < -margin) return null;
+    // Face axes come first and win ties, which keeps resting contacts on the face normal
+    if (overlap < depth - 1e-6) {
+      depth = overlap;
+      normal = distance < 0 ? axis.clone().negate() : axis.clone();
+    }
+  }
+  if (!normal) return null;
+
+  // Corners of either box touching the other; edge-on-edge contacts fall back to the
+  // point between the two faces along the normal
+  const touching = [
+    ...boxCorners(a.center, axesA, halfA).filter(corner => isInsideBox(corner, b.center, axesB, halfB, margin)),
+    ...boxCorners(b.center, axesB, halfB).filter(corner => isInsideBox(corner, a.center, axesA, halfA, margin))
+  ];
+  const point = touching.length > 0
+    ? touching.reduce((sum, corner) => sum.add(corner), new Vector3()).divideScalar(touching.length)
+    : a.center.clone().addScaledVector(normal, projectBox(axesA, halfA, normal) - depth / 2);
+
+  return { point, normal, depth };
+};
+
+/**
+ * Contact between two proxies that are touching or within the margin of each other
+ */
+export const findContact = (a: ContactCollider, b: ContactCollider, margin: number = CONTACT_MARGIN.BEGIN): ContactGeometry | null => {
+  if (a.shape.kind === 'sphere' && b.shape.kind === 'sphere') {
+    return sphereSphere(a, a.shape.radius, b, b.shape.radius, margin);
+  }
+  if (a.shape.kind === 'box' && b.shape.kind === 'sphere') {
+    return boxSphere(a, a.shape.halfExtents, b, b.shape.radius, margin);
+  }
+  if (a.shape.kind === 'sphere' && b.shape.kind === 'box') {
+    const contact = boxSphere(b, b.shape.halfExtents, a, a.shape.radius, margin);
+    return contact && { ...contact, normal: contact.normal.negate() };
+  }
+  if (a.shape.kind === 'box' && b.shape.kind === 'box') {
+    return boxBox(a, a.shape.halfExtents, b, b.shape.halfExtents, margin);
+  }
+  return null;
+};
+
+/**
+ * Impulse that stops the two bodies closing along the normal. Bullet bodies here have no
+ * restitution (see physicsMaterials), so this is the reduced mass times the closing speed.
+ */
+export const estimateContactImpulse = (a: ContactCollider, b: ContactCollider, normal: Vector3): number => {
+  const inverseMass = a.inverseMass + b.inverseMass;
+  if (!(inverseMass > 0)) return 0;
+  const closingSpeed = a.velocity.clone().sub(b.velocity).dot(normal);
+  return Math.max(0, closingSpeed) / inverseMass;
+};
+
+/**
+ * All touching pairs of objects, keyed by contactPairKey. Pairs already touching are held
+ * with the wider release margin; compound parts are merged into their deepest contact.
+ */
+export const detectContacts = (
+  colliders: ContactCollider[],
+  isTouching: (key: string) => boolean = () => false,
+  isIgnored: (key: string) => boolean = () => false
+): Map<string, Contact> => {
+  const contacts = new Map<string, Contact>();
+  const radii = colliders.map(collider => getBoundingRadius(collider.shape));
+
+  for (let i = 0; i < colliders.length; i++) {
+    for (let j = i + 1; j < colliders.length; j++) {
+      const first = colliders[i];
+      const second = colliders[j];
+      if (first.objectId === second.objectId || (first.inverseMass === 0 && second.inverseMass === 0)) continue;
+
+      const key = contactPairKey(first.objectId, second.objectId);
+      if (isIgnored(key)) continue;
+      const margin = isTouching(key) ? CONTACT_MARGIN.END : CONTACT_MARGIN.BEGIN;
+      if (first.center.distanceTo(second.center) > radii[i] + radii[j] + margin) continue;
+
+      // objectA is always the smaller id so a pair is reported the same way every step
+      const [a, b] = first.objectId < second.objectId ? [first, second] : [second, first];
+      const contact = findContact(a, b, margin);
+      if (!contact) continue;
+
+      const existing = contacts.get(key);
+      if (!existing || contact.depth > existing.depth) {
+        contacts.set(key, {
+          objectA: a.objectId,
+          objectB: b.objectId,
+          ...contact,
+          impulse: estimateContactImpulse(a, b, contact.normal)
+        });
+      }
+    }
+  }
+
+  return contacts;
+};
+
+/**
+ * Proxy for the terrain under a body: a static box as wide as the body's bounding sphere,
+ * topped at the highest terrain point beneath it (see getTerrainTop). Null where the body
+ * is over flat ground or off the terrain, since the ground box covers those.
+ */
+export const getTerrainCollider = (terrain: TerrainSettings, body: ContactCollider, objectId: string): ContactCollider | null => {
+  const radius = getBoundingRadius(body.shape);
+  const top = getTerrainTop(terrain, body.center.x, body.center.z, radius);
+  if (top <= 0) return null;
+  return {
+    objectId,
+    center: new Vector3(body.center.x, top - radius, body.center.z),
+    rotation: new Quaternion(),
+    shape: { kind: 'box', halfExtents: new Vector3(radius, radius, radius) },
+    inverseMass: 0,
+    velocity: new Vector3()
+  };
+};
+
+/**
+ * Matrix taking world coordinates into a body's frame: its own position and axes, in
+ * world units. The body's scale stays baked in, like the shape of a scaled rigid body.
+ */
+export const getBodyFrameInverse = (object3D: Object3D): Matrix4 => {
+  object3D.updateWorldMatrix(true, true);
+  const position = new Vector3();
+  const rotation = new Quaternion();
+  object3D.matrixWorld.decompose(position, rotation, new Vector3());
+  return new Matrix4().compose(position, rotation, new Vector3(1, 1, 1)).invert();
+};
+
+/**
+ * Bounds of the meshes under a body, in the body's frame (see getBodyFrameInverse)
+ */
+export const computeLocalBounds = (object3D: Object3D): Box3 => {
+  const inverse = getBodyFrameInverse(object3D);
+  const relative = new Matrix4();
+  const part = new Box3();
+  const bounds = new Box3();
+
+  object3D.traverse(child => {
+    if (!(child instanceof Mesh) || !child.geometry) return;
+    if (!child.geometry.boundingBox) child.geometry.computeBoundingBox();
+    if (!child.geometry.boundingBox) return;
+    part.copy(child.geometry.boundingBox).applyMatrix4(relative.multiplyMatrices(inverse, child.matrixWorld));
+    bounds.union(part);
+  });
+
+  return bounds;
+};
+
+/**
+ * Contact proxy for a body from its rigid body config, and where the proxy's centre sits
+ * in the body's frame. Null while a shape without extents has nothing to measure yet.
+ */
+export const getContactShape = (
+  shapeType: string,
+  shapeConfig: BodyShapeConfig | undefined,
+  object3D: Object3D
+): { shape: ContactShape; offset: Vector3 } | null => {
+  const radius = shapeConfig?.radius;
+  if (shapeType === 'sphere' && typeof radius === 'number' && radius > 0) {
+    return { shape: { kind: 'sphere', radius }, offset: new Vector3() };
+  }
+
+  const he = shapeConfig?.halfExtents;
+  if (he && [he.x, he.y, he.z].every(value => typeof value === 'number' && isFinite(value) && value >= 0)) {
+    // Capsule half extents stop at the cap centres
+    const halfExtents = shapeType === 'capsule' ? new Vector3(he.x, he.y + he.x, he.z) : new Vector3(he.x, he.y, he.z);
+    return { shape: { kind: 'box', halfExtents }, offset: new Vector3() };
+  }
+
+  const bounds = computeLocalBounds(object3D);
+  if (bounds.isEmpty()) return null;
+  return {
+    shape: { kind: 'box', halfExtents: bounds.getSize(new Vector3()).multiplyScalar(0.5) },
+    offset: bounds.getCenter(new Vector3())
+  };
+};
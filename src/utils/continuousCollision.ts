@@ -0,0 +1,48 @@
+// Continuous collision detection (CCD) settings for dynamic bodies. Bullet only sweeps a
+// body when it moves further than its motion threshold in one step, so slow bodies pay
+// nothing and fast ones (launched projectiles, thrown objects) cannot tunnel through thin
+// boxes or the ground.
+import { BodyShapeConfig } from './bodyRegistry';
+
+export interface ContinuousCollisionConfig {
+  enableCCD: true;
+  // Distance per step above which the body is swept
+  ccdMotionThreshold: number;
+  // Radius of the sphere swept along the motion; kept inside the shape
+  ccdSweptSphereRadius: number;
+}
+
+export const CCD_SETTINGS = {
+  // Share of the smallest half extent used as the swept sphere radius
+  SWEPT_SPHERE_SCALE: 0.8,
+  // Size used for shapes whose extent is not in their config (hulls and meshes)
+  FALLBACK_HALF_EXTENT: 0.1
+} as const;
+
+const positive = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value > 0;
+
+/**
+ * Smallest half extent of a collision shape, which bounds how far the body can move in a
+ * step before a discrete test could miss a collision
+ */
+export const getMinHalfExtent = (shapeType: string, shapeConfig: BodyShapeConfig = {}): number => {
+  if (shapeType === 'sphere' && positive(shapeConfig.radius)) {
+    return shapeConfig.radius;
+  }
+  const he = shapeConfig.halfExtents;
+  if (he && positive(he.x) && positive(he.z)) {
+    // Capsule half heights exclude the caps, so the radius is the thinnest part
+    if (shapeType === 'capsule') return Math.min(he.x, he.z);
+    if (positive(he.y)) return Math.min(he.x, he.y, he.z);
+  }
+  return CCD_SETTINGS.FALLBACK_HALF_EXTENT;
+};
+
+export const getContinuousCollisionConfig = (shapeType: string, shapeConfig?: BodyShapeConfig): ContinuousCollisionConfig => {
+  const halfExtent = getMinHalfExtent(shapeType, shapeConfig);
+  return {
+    enableCCD: true,
+    ccdMotionThreshold: halfExtent,
+    ccdSweptSphereRadius: halfExtent * CCD_SETTINGS.SWEPT_SPHERE_SCALE
+  };
+};
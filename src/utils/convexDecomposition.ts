@@ -0,0 +1,390 @@
+// Approximate convex decomposition in the spirit of V-HACD: each connected piece of
+// the mesh is voxelized, then the piece whose convex hull wastes the most volume is
+// repeatedly cut by the axis-aligned plane that best reduces that waste. Each final
+// piece becomes a hull.
+// Runs in a Web Worker (see DecompositionService), so it only uses plain arrays.
+import { computeConvexHull, getConvexHullVolume, reduceToExtremePoints } from './convexHull';
+import { DecompositionQuality } from '../types/simulation';
+
+export interface DecompositionOptions {
+  // Voxels along the longest side of the model
+  resolution: number;
+  maxParts: number;
+  maxVerticesPerPart: number;
+  // Stop splitting once every piece wastes less than this fraction of the model's hull volume
+  concavityThreshold?: number;
+  // Candidate cutting planes tried per axis
+  planesPerAxis?: number;
+}
+
+export interface ConvexPart {
+  // Hull points, centred on the part's bounding box
+  vertices: number[];
+  // Where the part's centre sits in the model's frame
+  center: [number, number, number];
+  volume: number;
+}
+
+export const DECOMPOSITION_QUALITY: Record<DecompositionQuality, DecompositionOptions> = {
+  low: { resolution: 16, maxParts: 4, maxVerticesPerPart: 24 },
+  medium: { resolution: 24, maxParts: 8, maxVerticesPerPart: 32 },
+  high: { resolution: 32, maxParts: 16, maxVerticesPerPart: 48 }
+};
+
+export const DEFAULT_DECOMPOSITION_QUALITY: DecompositionQuality = 'medium';
+
+export const isDecompositionQuality = (value: unknown): value is DecompositionQuality =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(DECOMPOSITION_QUALITY, value);
+
+const DEFAULT_CONCAVITY_THRESHOLD = 0.02;
+const DEFAULT_PLANES_PER_AXIS = 8;
+
+interface VoxelGrid {
+  dims: [number, number, number];
+  origin: [number, number, number];
+  size: number;
+  // Indices of voxels inside or on the surface of the mesh
+  solid: number[];
+  // Sample points per surface voxel: the extremes along each axis
+  samples: Map<number, number[]>;
+}
+
+interface Piece {
+  grid: VoxelGrid;
+  voxels: number[];
+  concavity: number;
+  hullVolume: number;
+}
+
+const getLongestSide = (positions: ArrayLike<number>): number => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i + 2 < positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], positions[i + axis]);
+      max[axis] = Math.max(max[axis], positions[i + axis]);
+    }
+  }
+  return Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+};
+
+/**
+ * Group triangles into connected islands. Vertices are welded by position first,
+ * since exported meshes duplicate them wherever normals or UVs change.
+ */
+const findIslands = (positions: ArrayLike<number>, indices: ArrayLike<number>, tolerance: number): number[][] => {
+  const welded = new Map<string, number>();
+  const weld = (index: number) => {
+    const key = [0, 1, 2].map(axis => Math.round(positions[index * 3 + axis] / tolerance)).join(',');
+    let id = welded.get(key);
+    if (id === undefined) {
+      id = welded.size;
+      welded.set(key, id);
+    }
+    return id;
+  };
+
+  const parent: number[] = [];
+  const find = (id: number): number => {
+    while (parent[id] !== id) {
+      parent[id] = parent[parent[id]];
+      id = parent[id];
+    }
+    return id;
+  };
+  const triangleVertices: number[] = [];
+  for (let t = 0; t + 2 < indices.length; t += 3) {
+    const ids = [weld(indices[t]), weld(indices[t + 1]), weld(indices[t + 2])];
+    ids.forEach(id => {
+      if (parent[id] === undefined) parent[id] = id;
+    });
+    parent[find(ids[1])] = find(ids[0]);
+    parent[find(ids[2])] = find(ids[0]);
+    triangleVertices.push(...ids);
+  }
+
+  const islands = new Map<number, number[]>();
+  for (let t = 0; t + 2 < indices.length; t += 3) {
+    const root = find(triangleVertices[t]);
+    const island = islands.get(root) ?? [];
+    island.push(indices[t], indices[t + 1], indices[t + 2]);
+    islands.set(root, island);
+  }
+  return Array.from(islands.values());
+};
+
+/**
+ * Mark the voxels the mesh surface passes through, sampling each triangle at half
+ * the voxel size, then flood fill from outside to find the enclosed voxels
+ */
+const voxelize = (positions: ArrayLike<number>, indices: ArrayLike<number>, size: number): VoxelGrid => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < indices.length; i++) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], positions[indices[i] * 3 + axis]);
+      max[axis] = Math.max(max[axis], positions[indices[i] * 3 + axis]);
+    }
+  }
+
+  // One voxel of empty padding on every side so the flood fill can get around the model
+  const origin: [number, number, number] = [min[0] - size, min[1] - size, min[2] - size];
+  const dims = [0, 1, 2].map(axis => Math.floor((max[axis] - min[axis]) / size) + 3) as [number, number, number];
+  const voxelIndex = (x: number, y: number, z: number) => {
+    const ix = Math.min(dims[0] - 2, Math.max(1, Math.floor((x - origin[0]) / size)));
+    const iy = Math.min(dims[1] - 2, Math.max(1, Math.floor((y - origin[1]) / size)));
+    const iz = Math.min(dims[2] - 2, Math.max(1, Math.floor((z - origin[2]) / size)));
+    return ix + dims[0] * (iy + dims[1] * iz);
+  };
+
+  const samples = new Map<number, number[]>();
+  const addSample = (x: number, y: number, z: number) => {
+    const index = voxelIndex(x, y, z);
+    const extremes = samples.get(index);
+    if (!extremes) {
+      samples.set(index, [x, y, z, x, y, z, x, y, z, x, y, z, x, y, z, x, y, z]);
+      return;
+    }
+    // Slots hold the min and max point along x, y and z
+    const point = [x, y, z];
+    for (let axis = 0; axis < 3; axis++) {
+      if (point[axis] < extremes[axis * 6 + axis]) extremes.splice(axis * 6, 3, x, y, z);
+      if (point[axis] > extremes[axis * 6 + 3 + axis]) extremes.splice(axis * 6 + 3, 3, x, y, z);
+    }
+  };
+
+  const step = size / 2;
+  for (let t = 0; t + 2 < indices.length; t += 3) {
+    const a = indices[t] * 3;
+    const b = indices[t + 1] * 3;
+    const c = indices[t + 2] * 3;
+    const edge = (p: number, q: number) => Math.hypot(
+      positions[p] - positions[q], positions[p + 1] - positions[q + 1], positions[p + 2] - positions[q + 2]
+    );
+    const divisions = Math.max(1, Math.ceil(Math.max(edge(a, b), edge(b, c), edge(c, a)) / step));
+    for (let i = 0; i <= divisions; i++) {
+      for (let j = 0; i + j <= divisions; j++) {
+        const u = i / divisions;
+        const v = j / divisions;
+        const w = 1 - u - v;
+        addSample(
+          positions[a] * w + positions[b] * u + positions[c] * v,
+          positions[a + 1] * w + positions[b + 1] * u + positions[c + 1] * v,
+          positions[a + 2] * w + positions[b + 2] * u + positions[c + 2] * v
+        );
+      }
+    }
+  }
+
+  // Flood fill the outside; whatever it cannot reach is surface or interior
+  const total = dims[0] * dims[1] * dims[2];
+  const outside = new Uint8Array(total);
+  const stack = [0];
+  outside[0] = 1;
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    const x = index % dims[0];
+    const y = Math.floor(index / dims[0]) % dims[1];
+    const z = Math.floor(index / (dims[0] * dims[1]));
+    const neighbours = [
+      x > 0 ? index - 1 : -1,
+      x < dims[0] - 1 ? index + 1 : -1,
+      y > 0 ? index - dims[0] : -1,
+      y < dims[1] - 1 ? index + dims[0] : -1,
+      z > 0 ? index - dims[0] * dims[1] : -1,
+      z < dims[2] - 1 ? index + dims[0] * dims[1] : -1
+    ];
+    for (const neighbour of neighbours) {
+      if (neighbour >= 0 && !outside[neighbour] && !samples.has(neighbour)) {
+        outside[neighbour] = 1;
+        stack.push(neighbour);
+      }
+    }
+  }
+
+  const solid: number[] = [];
+  for (let i = 0; i < total; i++) {
+    if (!outside[i]) solid.push(i);
+  }
+  return { dims, origin, size, solid, samples };
+};
+
+const voxelCoordinate = (grid: VoxelGrid, voxel: number, axis: number): number => {
+  if (axis === 0) return voxel % grid.dims[0];
+  if (axis === 1) return Math.floor(voxel / grid.dims[0]) % grid.dims[1];
+  return Math.floor(voxel / (grid.dims[0] * grid.dims[1]));
+};
+
+/**
+ * Surface sample points of a piece; these follow the mesh, so they make the final hulls
+ */
+const collectSurfacePoints = ({ grid, voxels }: Piece): number[] => {
+  const points: number[] = [];
+  for (const voxel of voxels) {
+    const extremes = grid.samples.get(voxel);
+    if (extremes) points.push(...extremes);
+  }
+  return points;
+};
+
+/**
+ * Corners of the first and last voxel in every x row of a piece. Their hull is the
+ * hull of the voxels themselves, so it can be compared with the voxel volume.
+ */
+const collectVoxelCorners = (grid: VoxelGrid, voxels: number[]): number[] => {
+  const rows = new Map<number, [number, number]>();
+  for (const voxel of voxels) {
+    const x = voxel % grid.dims[0];
+    const row = (voxel - x) / grid.dims[0];
+    const span = rows.get(row);
+    if (!span) {
+      rows.set(row, [x, x]);
+    } else {
+      span[0] = Math.min(span[0], x);
+      span[1] = Math.max(span[1], x);
+    }
+  }
+
+  const points: number[] = [];
+  rows.forEach(([minX, maxX], row) => {
+    const y = row % grid.dims[1];
+    const z = (row - y) / grid.dims[1];
+    for (const x of [minX, maxX + 1]) {
+      for (const [dy, dz] of [[0, 0], [1, 0], [0, 1], [1, 1]]) {
+        points.push(
+          grid.origin[0] + x * grid.size,
+          grid.origin[1] + (y + dy) * grid.size,
+          grid.origin[2] + (z + dz) * grid.size
+        );
+      }
+    }
+  });
+  return points;
+};
+
+/**
+ * Hull volume not filled by voxels; zero for pieces that are already convex
+ */
+const createPiece = (grid: VoxelGrid, voxels: number[]): Piece => {
+  const hull = computeConvexHull(collectVoxelCorners(grid, voxels));
+  const concavity = hull ? Math.max(0, getConvexHullVolume(hull) - voxels.length * grid.size ** 3) : 0;
+  return { grid, voxels, concavity, hullVolume: hull ? getConvexHullVolume(hull) : 0 };
+};
+
+/**
+ * Best axis-aligned cut of a piece, or null when it is too small to cut
+ */
+const splitPiece = (piece: Piece, planesPerAxis: number): [Piece, Piece] | null => {
+  const { grid } = piece;
+  let best: { cost: number; pieces: [Piece, Piece] } | null = null;
+
+  for (let axis = 0; axis < 3; axis++) {
+    let low = Infinity;
+    let high = -Infinity;
+    for (const voxel of piece.voxels) {
+      const coordinate = voxelCoordinate(grid, voxel, axis);
+      low = Math.min(low, coordinate);
+      high = Math.max(high, coordinate);
+    }
+    const span = high - low;
+    if (span < 1) continue;
+
+    const planeCount = Math.min(planesPerAxis, span);
+    for (let p = 1; p <= planeCount; p++) {
+      // Voxels with a coordinate below the plane go to the first piece
+      const plane = low + Math.round((p * (span + 1)) / (planeCount + 1));
+      if (plane <= low || plane > high) continue;
+
+      const below: number[] = [];
+      const above: number[] = [];
+      for (const voxel of piece.voxels) {
+        (voxelCoordinate(grid, voxel, axis) < plane ? below : above).push(voxel);
+      }
+      if (below.length === 0 || above.length === 0) continue;
+
+      const pieces: [Piece, Piece] = [createPiece(grid, below), createPiece(grid, above)];
+      // Slight preference for even cuts so repeated splits stay balanced
+      const balance = Math.abs(below.length - above.length) / piece.voxels.length;
+      const cost = pieces[0].concavity + pieces[1].concavity + balance * 0.05 * piece.concavity;
+      if (!best || cost < best.cost) {
+        best = { cost, pieces };
+      }
+    }
+  }
+
+  return best ? best.pieces : null;
+};
+
+const toConvexPart = (points: number[], maxVertices: number): ConvexPart | null => {
+  const hull = computeConvexHull(points);
+  if (!hull) return null;
+
+  const reduced = reduceToExtremePoints(hull.vertices, maxVertices);
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < reduced.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], reduced[i + axis]);
+      max[axis] = Math.max(max[axis], reduced[i + axis]);
+    }
+  }
+  const center: [number, number, number] = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+  const vertices = reduced.map((value, i) => value - center[i % 3]);
+  const reducedHull = computeConvexHull(vertices);
+
+  return { vertices, center, volume: getConvexHullVolume(reducedHull ?? hull) };
+};
+
+/**
+ * Split a triangle mesh into convex parts. Positions are a flat xyz array; indices
+ * default to consecutive triangles for non-indexed meshes. Parts are ordered largest
+ * first, so the first part is a sensible root for a compound body.
+ */
+export const decomposeConvex = (
+  positions: ArrayLike<number>,
+  indices: ArrayLike<number> | null | undefined,
+  options: DecompositionOptions
+): ConvexPart[] => {
+  const triangleIndices = indices ?? Array.from({ length: Math.floor(positions.length / 3) }, (_, i) => i);
+  const longest = getLongestSide(positions);
+  if (!(longest > 0) || !isFinite(longest) || !computeConvexHull(positions)) return [];
+
+  // Separate islands are the cheapest split there is, unless there are more than parts to spend
+  const size = longest / Math.max(4, Math.round(options.resolution));
+  let islands = findIslands(positions, triangleIndices, longest * 1e-5);
+  if (islands.length > options.maxParts) islands = [Array.from(triangleIndices)];
+
+  const pieces = islands
+    .map(island => {
+      const grid = voxelize(positions, island, size);
+      return createPiece(grid, grid.solid);
+    })
+    .filter(piece => piece.hullVolume > 0);
+  if (pieces.length === 0) return [];
+
+  const totalHullVolume = pieces.reduce((sum, piece) => sum + piece.hullVolume, 0);
+  const threshold = (options.concavityThreshold ?? DEFAULT_CONCAVITY_THRESHOLD) * totalHullVolume;
+  const planesPerAxis = options.planesPerAxis ?? DEFAULT_PLANES_PER_AXIS;
+  // Pieces that could not be cut further
+  const settled = new Set<Piece>();
+
+  while (pieces.length < options.maxParts) {
+    const candidates = pieces.filter(piece => !settled.has(piece) && piece.concavity > threshold);
+    if (candidates.length === 0) break;
+
+    const worst = candidates.reduce((a, b) => (b.concavity > a.concavity ? b : a));
+    const split = splitPiece(worst, planesPerAxis);
+    if (!split) {
+      settled.add(worst);
+      continue;
+    }
+    pieces.splice(pieces.indexOf(worst), 1, ...split);
+  }
+
+  return pieces
+    // Flat islands, such as a ground plane, keep a hull one voxel thick
+    .map(piece => toConvexPart(collectSurfacePoints(piece), options.maxVerticesPerPart) ??
+      toConvexPart(collectVoxelCorners(piece.grid, piece.voxels), options.maxVerticesPerPart))
+    .filter((part): part is ConvexPart => part !== null)
+    .sort((a, b) => b.volume - a.volume);
+};
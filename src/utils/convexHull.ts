@@ -0,0 +1,313 @@
+// Convex hulls for GLB collision shapes.
+// Points are flat [x, y, z, x, y, z, ...] arrays, the layout of a BufferGeometry
+// position attribute, so mesh data can be passed in without conversion.
+
+export interface ConvexHull {
+  // Hull vertices as a flat xyz array
+  vertices: number[];
+  // Triangles indexing into vertices, wound counter-clockwise seen from outside
+  faces: Array<[number, number, number]>;
+}
+
+type Vec3 = [number, number, number];
+
+interface HullFace {
+  vertices: [number, number, number];
+  normal: Vec3;
+  offset: number;
+  outside: number[];
+}
+
+const getPoint = (points: ArrayLike<number>, index: number): Vec3 =>
+  [points[index * 3], points[index * 3 + 1], points[index * 3 + 2]];
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0]
+];
+const length = (a: Vec3) => Math.sqrt(dot(a, a));
+
+/**
+ * Tolerance for coplanarity tests, relative to the size of the point cloud
+ */
+const computeEpsilon = (points: ArrayLike<number>, count: number): number => {
+  let maxAbs = 0;
+  for (let i = 0; i < count * 3; i++) {
+    maxAbs = Math.max(maxAbs, Math.abs(points[i]));
+  }
+  return 3 * Number.EPSILON * maxAbs * 1e4;
+};
+
+/**
+ * Indices of the points with the smallest and largest x, y and z
+ */
+const findAxisExtremes = (points: ArrayLike<number>, count: number): number[] => {
+  const extremes = [0, 0, 0, 0, 0, 0];
+  for (let i = 1; i < count; i++) {
+    for (let axis = 0; axis < 3; axis++) {
+      if (points[i * 3 + axis] < points[extremes[axis * 2] * 3 + axis]) extremes[axis * 2] = i;
+      if (points[i * 3 + axis] > points[extremes[axis * 2 + 1] * 3 + axis]) extremes[axis * 2 + 1] = i;
+    }
+  }
+  return extremes;
+};
+
+/**
+ * Starting tetrahedron from the extreme points, or null when the points are
+ * coincident, collinear or coplanar
+ */
+const findInitialSimplex = (points: ArrayLike<number>, count: number, epsilon: number): number[] | null => {
+  const extremes = findAxisExtremes(points, count);
+
+  // Widest pair of axis extremes
+  let a = extremes[0];
+  let b = extremes[1];
+  let widest = -1;
+  for (let axis = 0; axis < 3; axis++) {
+    const span = points[extremes[axis * 2 + 1] * 3 + axis] - points[extremes[axis * 2] * 3 + axis];
+    if (span > widest) {
+      widest = span;
+      a = extremes[axis * 2];
+      b = extremes[axis * 2 + 1];
+    }
+  }
+  if (widest <= epsilon) return null;
+
+  // Farthest point from the line ab
+  const pa = getPoint(points, a);
+  const ab = sub(getPoint(points, b), pa);
+  let c = -1;
+  let maxLineDistance = epsilon;
+  for (let i = 0; i < count; i++) {
+    const distance = length(cross(ab, sub(getPoint(points, i), pa))) / length(ab);
+    if (distance > maxLineDistance) {
+      maxLineDistance = distance;
+      c = i;
+    }
+  }
+  if (c < 0) return null;
+
+  // Farthest point from the plane abc
+  const normal = cross(ab, sub(getPoint(points, c), pa));
+  const normalLength = length(normal);
+  let d = -1;
+  let maxPlaneDistance = epsilon;
+  for (let i = 0; i < count; i++) {
+    const distance = Math.abs(dot(normal, sub(getPoint(points, i), pa))) / normalLength;
+    if (distance > maxPlaneDistance) {
+      maxPlaneDistance = distance;
+      d = i;
+    }
+  }
+  if (d < 0) return null;
+
+  return [a, b, c, d];
+};
+
+/**
+ * Convex hull of a point cloud using quickhull. Returns null when the points do not
+ * span a volume (fewer than four points, or all of them collinear or coplanar).
+ */
+export const computeConvexHull = (points: ArrayLike<number>): ConvexHull | null => {
+  const count = Math.floor(points.length / 3);
+  if (count < 4) return null;
+
+  const epsilon = computeEpsilon(points, count);
+  const simplex = findInitialSimplex(points, count, epsilon);
+  if (!simplex) return null;
+
+  const createFace = (a: number, b: number, c: number): HullFace => {
+    const pa = getPoint(points, a);
+    const normal = cross(sub(getPoint(points, b), pa), sub(getPoint(points, c), pa));
+    const normalLength = length(normal);
+    const unit: Vec3 = [normal[0] / normalLength, normal[1] / normalLength, normal[2] / normalLength];
+    return { vertices: [a, b, c], normal: unit, offset: dot(unit, pa), outside: [] };
+  };
+  const distanceTo = (face: HullFace, index: number) => dot(face.normal, getPoint(points, index)) - face.offset;
+
+  // Directed edge "a,b" -> the live face that has it; the neighbour across it owns "b,a"
+  const edgeOwners = new Map<string, HullFace>();
+  const linkFace = (face: HullFace) => {
+    const [a, b, c] = face.vertices;
+    edgeOwners.set(`${a},${b}`, face);
+    edgeOwners.set(`${b},${c}`, face);
+    edgeOwners.set(`${c},${a}`, face);
+  };
+  const unlinkFace = (face: HullFace) => {
+    const [a, b, c] = face.vertices;
+    edgeOwners.delete(`${a},${b}`);
+    edgeOwners.delete(`${b},${c}`);
+    edgeOwners.delete(`${c},${a}`);
+  };
+
+  // Wind the tetrahedron so every face points away from its centroid
+  const [s0, s1, s2, s3] = simplex;
+  let faces: HullFace[] = [
+    createFace(s0, s1, s2),
+    createFace(s0, s3, s1),
+    createFace(s0, s2, s3),
+    createFace(s1, s3, s2)
+  ];
+  if (distanceTo(faces[0], s3) > 0) {
+    faces = [
+      createFace(s0, s2, s1),
+      createFace(s0, s1, s3),
+      createFace(s0, s3, s2),
+      createFace(s1, s2, s3)
+    ];
+  }
+  faces.forEach(linkFace);
+
+  // Assign each point to the face it lies furthest in front of; the rest are inside
+  const assign = (candidates: Iterable<number>, targets: HullFace[]) => {
+    for (const index of Array.from(candidates)) {
+      let bestFace: HullFace | null = null;
+      let bestDistance = epsilon;
+      for (const face of targets) {
+        const distance = distanceTo(face, index);
+        if (distance > bestDistance) {
+          bestDistance = distance;
+          bestFace = face;
+        }
+      }
+      bestFace?.outside.push(index);
+    }
+  };
+  const simplexSet = new Set(simplex);
+  assign(Array.from({ length: count }, (_, i) => i).filter(i => !simplexSet.has(i)), faces);
+
+  const removed = new Set<HullFace>();
+  const pending = faces.filter(face => face.outside.length > 0);
+  while (pending.length > 0) {
+    const face = pending.pop()!;
+    if (removed.has(face) || face.outside.length === 0) continue;
+
+    // Farthest outside point becomes the next hull vertex
+    let eye = face.outside[0];
+    let eyeDistance = distanceTo(face, eye);
+    for (const index of face.outside) {
+      const distance = distanceTo(face, index);
+      if (distance > eyeDistance) {
+        eyeDistance = distance;
+        eye = index;
+      }
+    }
+
+    // Faces the eye can see form a connected patch around the starting face
+    const visible = new Set<HullFace>([face]);
+    const queue = [face];
+    while (queue.length > 0) {
+      const [a, b, c] = queue.pop()!.vertices;
+      for (const [from, to] of [[a, b], [b, c], [c, a]]) {
+        const neighbour = edgeOwners.get(`${to},${from}`);
+        if (neighbour && !visible.has(neighbour) && distanceTo(neighbour, eye) > epsilon) {
+          visible.add(neighbour);
+          queue.push(neighbour);
+        }
+      }
+    }
+
+    // Horizon edges border exactly one visible face; each one is joined to the eye
+    const horizon: Array<[number, number]> = [];
+    visible.forEach(({ vertices: [a, b, c] }) => {
+      for (const [from, to] of [[a, b], [b, c], [c, a]]) {
+        const neighbour = edgeOwners.get(`${to},${from}`);
+        if (!neighbour || !visible.has(neighbour)) horizon.push([from, to]);
+      }
+    });
+
+    const orphans: number[] = [];
+    visible.forEach(dead => {
+      unlinkFace(dead);
+      removed.add(dead);
+      dead.outside.forEach(index => {
+        if (index !== eye) orphans.push(index);
+      });
+    });
+
+    const newFaces = horizon.map(([from, to]) => createFace(from, to, eye));
+    newFaces.forEach(linkFace);
+    // Orphans not in front of any new face are inside the grown hull
+    assign(orphans, newFaces);
+    for (const created of newFaces) {
+      faces.push(created);
+      if (created.outside.length > 0) pending.push(created);
+    }
+  }
+  faces = faces.filter(face => !removed.has(face));
+
+  // Compact to the points actually used by the hull
+  const remap = new Map<number, number>();
+  const vertices: number[] = [];
+  const hullFaces = faces.map(({ vertices: corners }) => corners.map(index => {
+    let mapped = remap.get(index);
+    if (mapped === undefined) {
+      mapped = remap.size;
+      remap.set(index, mapped);
+      vertices.push(...getPoint(points, index));
+    }
+    return mapped;
+  }) as [number, number, number]);
+
+  return { vertices, faces: hullFaces };
+};
+
+/**
+ * Enclosed volume of a hull, summed over tetrahedra from its first vertex
+ */
+export const getConvexHullVolume = (hull: ConvexHull): number => {
+  if (hull.faces.length === 0) return 0;
+  const origin = getPoint(hull.vertices, 0);
+  const volume = hull.faces.reduce((sum, [a, b, c]) => {
+    const pa = sub(getPoint(hull.vertices, a), origin);
+    const pb = sub(getPoint(hull.vertices, b), origin);
+    const pc = sub(getPoint(hull.vertices, c), origin);
+    return sum + dot(pa, cross(pb, pc)) / 6;
+  }, 0);
+  return Math.abs(volume);
+};
+
+/**
+ * Reduce a point cloud to at most maxPoints points that all lie on its hull. The
+ * points furthest along each axis are kept first, so the reduced set has the same
+ * bounds, then the hull vertex furthest from everything kept so far is added until
+ * the budget is used, which spreads the points evenly over the surface.
+ */
+export const reduceToExtremePoints = (points: ArrayLike<number>, maxPoints: number): number[] => {
+  const count = Math.floor(points.length / 3);
+  if (count <= maxPoints) return Array.from(points).slice(0, count * 3);
+
+  // Only hull vertices are candidates; flat input has no hull, so every point is one
+  const candidates = computeConvexHull(points)?.vertices ?? Array.from(points).slice(0, count * 3);
+  const candidateCount = candidates.length / 3;
+  if (candidateCount <= maxPoints) return candidates;
+
+  const chosen = Array.from(new Set(findAxisExtremes(candidates, candidateCount))).slice(0, Math.max(0, maxPoints));
+  // Squared distance from each candidate to the nearest chosen point
+  const nearest = new Array<number>(candidateCount).fill(Infinity);
+  const updateNearest = (added: number) => {
+    const point = getPoint(candidates, added);
+    for (let i = 0; i < candidateCount; i++) {
+      const offset = sub(getPoint(candidates, i), point);
+      nearest[i] = Math.min(nearest[i], dot(offset, offset));
+    }
+  };
+  chosen.forEach(updateNearest);
+
+  while (chosen.length < maxPoints) {
+    let furthest = -1;
+    for (let i = 0; i < candidateCount; i++) {
+      if (nearest[i] > 0 && (furthest < 0 || nearest[i] > nearest[furthest])) furthest = i;
+    }
+    if (furthest < 0) break;
+    chosen.push(furthest);
+    updateNearest(furthest);
+  }
+
+  const reduced: number[] = [];
+  chosen.sort((a, b) => a - b).forEach(index => reduced.push(...getPoint(candidates, index)));
+  return reduced;
+};
@@ -0,0 +1,207 @@
+// Data logging of per-object body state for analysis in spreadsheets and notebooks.
+// Rows hold one object's state at one sample; like debugLogger the oldest rows are
+// dropped once MAX_DATA_LOG_ROWS is reached, so a long run keeps its latest data.
+import { Euler, MathUtils, Quaternion } from 'three';
+import { BodyState, ObjectType, SpawnedObject } from '../types/simulation';
+import { debugLogger } from './debugLogger';
+
+export const DATA_LOG_FORMAT = 'physics-simulation-data-log';
+export const DATA_LOG_FORMAT_VERSION = 1;
+export const MAX_DATA_LOG_ROWS = 100000;
+// Samples per simulated second
+export const DATA_LOG_RATES = [1, 5, 10, 30, 60] as const;
+export const DEFAULT_DATA_LOG_RATE = 10;
+
+export type DataLogExportFormat = 'csv' | 'jsonl';
+
+export interface DataLogObject {
+  id: string;
+  type: ObjectType;
+  props: NonNullable<SpawnedObject['props']>;
+}
+
+export interface DataLogRow {
+  // Simulated seconds and physics steps since the run started
+  time: number;
+  step: number;
+  objectId: string;
+  state: BodyState;
+}
+
+export const DATA_LOG_COLUMNS = [
+  'time', 'step', 'object_id', 'type',
+  'px', 'py', 'pz',
+  'qx', 'qy', 'qz', 'qw',
+  'rx_deg', 'ry_deg', 'rz_deg',
+  'vx', 'vy', 'vz',
+  'wx', 'wy', 'wz'
+] as const;
+
+// Quote fields that would otherwise break the row
+const csvField = (value: string): string =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toEulerDegrees = (rotation: BodyState['rotation']): [number, number, number] => {
+  const euler = new Euler().setFromQuaternion(new Quaternion(...rotation));
+  return [MathUtils.radToDeg(euler.x), MathUtils.radToDeg(euler.y), MathUtils.radToDeg(euler.z)];
+};
+
+export class DataLogger {
+  private static instance: DataLogger;
+  private objects = new Map<string, DataLogObject>();
+  private rows: DataLogRow[] = [];
+  private logging = false;
+  private rate: number = DEFAULT_DATA_LOG_RATE;
+  private lastSampleTime = -Infinity;
+  private dropped = 0;
+  private startedAt: string | null = null;
+
+  static getInstance(): DataLogger {
+    if (!DataLogger.instance) {
+      DataLogger.instance = new DataLogger();
+    }
+    return DataLogger.instance;
+  }
+
+  get isLogging(): boolean {
+    return this.logging;
+  }
+
+  get rowCount(): number {
+    return this.rows.length;
+  }
+
+  // Rows dropped to stay within MAX_DATA_LOG_ROWS
+  get droppedRows(): number {
+    return this.dropped;
+  }
+
+  get rateHz(): number {
+    return this.rate;
+  }
+
+  start(objects: SpawnedObject[], rateHz: number = DEFAULT_DATA_LOG_RATE) {
+    this.objects.clear();
+    this.rows = [];
+    this.dropped = 0;
+    this.rate = rateHz > 0 && isFinite(rateHz) ? rateHz : DEFAULT_DATA_LOG_RATE;
+    this.lastSampleTime = -Infinity;
+    this.startedAt = new Date().toISOString();
+    this.logging = true;
+    this.addObjects(objects);
+    debugLogger.info('Data logging started', { objectCount: this.objects.size, rateHz: this.rate });
+  }
+
+  // Objects spawned while logging are added; removed objects keep their metadata
+  addObjects(objects: SpawnedObject[]) {
+    objects.forEach(obj => {
+      if (this.objects.has(obj.id)) return;
+      this.objects.set(obj.id, { id: obj.id, type: obj.type, props: { ...obj.props } });
+    });
+  }
+
+  /**
+   * Log every object's state if a sample is due at this simulated time. A clock that
+   * went back (a reset) is logged straight away.
+   */
+  sample(time: number, step: number, getState: (id: string) => BodyState | null): boolean {
+    if (!this.logging) return false;
+    const interval = 1 / this.rate;
+    // Tolerate float drift so a 60 Hz log of a 60 Hz world samples every step
+    if (time >= this.lastSampleTime && time - this.lastSampleTime < interval * (1 - 1e-6)) return false;
+    this.lastSampleTime = time;
+
+    this.objects.forEach((_, objectId) => {
+      const state = getState(objectId);
+      if (state) this.rows.push({ time, step, objectId, state });
+    });
+
+    // Trim in batches rather than on every sample
+    const excess = this.rows.length - MAX_DATA_LOG_ROWS;
+    if (excess > MAX_DATA_LOG_ROWS / 10) {
+      if (this.dropped === 0) {
+        debugLogger.warn('Data log row limit reached, dropping the oldest rows', { maxRows: MAX_DATA_LOG_ROWS });
+      }
+      this.rows.splice(0, excess);
+      this.dropped += excess;
+    }
+    return true;
+  }
+
+  stop() {
+    this.logging = false;
+    debugLogger.info('Data logging stopped', { rowCount: this.rowCount, droppedRows: this.dropped });
+  }
+
+  clear() {
+    this.logging = false;
+    this.objects.clear();
+    this.rows = [];
+    this.dropped = 0;
+    this.startedAt = null;
+  }
+
+  private getRows(): DataLogRow[] {
+    return this.rows.length > MAX_DATA_LOG_ROWS ? this.rows.slice(-MAX_DATA_LOG_ROWS) : this.rows;
+  }
+
+  private buildHeader() {
+    const rows = this.getRows();
+    return {
+      format: DATA_LOG_FORMAT,
+      version: DATA_LOG_FORMAT_VERSION,
+      startedAt: this.startedAt,
+      rateHz: this.rate,
+      rowCount: rows.length,
+      droppedRows: this.dropped + (this.rows.length - rows.length),
+      objects: Array.from(this.objects.values())
+    };
+  }
+
+  /**
+   * CSV with one row per object per sample. Metadata comes first as `#` comment lines
+   * holding JSON, which spreadsheet imports and pandas (`comment='#'`) can skip.
+   */
+  toCSV(): string {
+    const header = this.buildHeader();
+    const lines = [
+      `# ${JSON.stringify({ format: header.format, version: header.version, startedAt: header.startedAt, rateHz: header.rateHz, rowCount: header.rowCount, droppedRows: header.droppedRows })}`,
+      ...header.objects.map(obj => `# object ${JSON.stringify(obj)}`),
+      DATA_LOG_COLUMNS.join(',')
+    ];
+
+    this.getRows().forEach(row => {
+      const { position, rotation, linearVelocity, angularVelocity } = row.state;
+      lines.push([
+        String(row.time),
+        String(row.step),
+        csvField(row.objectId),
+        csvField(this.objects.get(row.objectId)?.type ?? ''),
+        ...[...position, ...rotation, ...toEulerDegrees(rotation), ...linearVelocity, ...angularVelocity].map(String)
+      ].join(','));
+    });
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * JSON lines: a header object with the object metadata, then one object per row
+   */
+  toJSONLines(): string {
+    const lines = [JSON.stringify(this.buildHeader())];
+    this.getRows().forEach(row => {
+      lines.push(JSON.stringify({
+        time: row.time,
+        step: row.step,
+        id: row.objectId,
+        position: row.state.position,
+        rotation: row.state.rotation,
+        linearVelocity: row.state.linearVelocity,
+        angularVelocity: row.state.angularVelocity
+      }));
+    });
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+export const dataLogger = DataLogger.getInstance();
@@ -0,0 +1,159 @@
+// Wireframes of rigid body collision shapes for the physics debug overlay.
+// Shapes are rebuilt from the config each body was created with, so a wireframe that
+// does not line up with the rendered model shows what the physics world is really using
+// (e.g. a GLB that fell back to a 0.5 half-extent box).
+import {
+  BoxGeometry,
+  BufferAttribute,
+  BufferGeometry,
+  CapsuleGeometry,
+  ConeGeometry,
+  CylinderGeometry,
+  EdgesGeometry,
+  Matrix4,
+  Mesh,
+  Object3D,
+  SphereGeometry,
+  Vector3,
+  WireframeGeometry
+} from 'three';
+import { computeConvexHull, reduceToExtremePoints } from './convexHull';
+import { getBodyFrameInverse } from './contactDetection';
+import { BodyShapeConfig, SleepState } from './bodyRegistry';
+
+// Line colours of the overlay, by how the body is moving
+export const DEBUG_COLORS = {
+  awake: '#00e676',
+  settling: '#ffd600',
+  asleep: '#5c6bc0',
+  static: '#9e9e9e',
+  aabb: '#ff9100',
+  contact: '#ff1744',
+  normal: '#00b0ff'
+} as const;
+
+export type DebugColorKey = SleepState | 'static';
+
+// Segments for curved outlines; enough to read the shape without hiding the model
+const CURVE_SEGMENTS = 16;
+
+const readHalfExtents = (shapeConfig: BodyShapeConfig | undefined): Vector3 | null => {
+  const he = shapeConfig?.halfExtents;
+  if (!he || ![he.x, he.y, he.z].every(value => typeof value === 'number' && isFinite(value) && value >= 0)) return null;
+  return new Vector3(he.x, he.y, he.z);
+};
+
+/**
+ * Vertices of every mesh under a body as a flat xyz array in the body's frame
+ */
+export const collectBodyVertices = (object3D: Object3D): number[] => {
+  const inverse = getBodyFrameInverse(object3D);
+  const relative = new Matrix4();
+  const point = new Vector3();
+  const vertices: number[] = [];
+
+  object3D.traverse(child => {
+    if (!(child instanceof Mesh) || !child.geometry) return;
+    const positions = child.geometry.getAttribute('position');
+    if (!positions) return;
+    relative.multiplyMatrices(inverse, child.matrixWorld);
+    for (let i = 0; i < positions.count; i++) {
+      point.fromBufferAttribute(positions, i).applyMatrix4(relative);
+      vertices.push(point.x, point.y, point.z);
+    }
+  });
+
+  return vertices;
+};
+
+// Triangle soup of every mesh under a body in the body's frame, as Bullet's triangle mesh sees it
+const collectBodyTriangles = (object3D: Object3D): BufferGeometry | null => {
+  const inverse = getBodyFrameInverse(object3D);
+  const relative = new Matrix4();
+  const parts: BufferGeometry[] = [];
+
+  object3D.traverse(child => {
+    if (!(child instanceof Mesh) || !child.geometry?.getAttribute('position')) return;
+    relative.multiplyMatrices(inverse, child.matrixWorld);
+    const part = child.geometry.index ? child.geometry.toNonIndexed() : child.geometry.clone();
+    parts.push(part.applyMatrix4(relative));
+  });
+  if (parts.length === 0) return null;
+
+  const total = parts.reduce((sum, part) => sum + part.getAttribute('position').count, 0);
+  const positions = new Float32Array(total * 3);
+  let offset = 0;
+  parts.forEach(part => {
+    const array = part.getAttribute('position').array as ArrayLike<number>;
+    positions.set(array, offset);
+    offset += array.length;
+    part.dispose();
+  });
+
+  const merged = new BufferGeometry();
+  merged.setAttribute('position', new BufferAttribute(positions, 3));
+  return merged;
+};
+
+const createHullGeometry = (object3D: Object3D, maxVertices?: number): BufferGeometry | null => {
+  let points = collectBodyVertices(object3D);
+  if (typeof maxVertices === 'number' && maxVertices >= 4) {
+    points = reduceToExtremePoints(points, maxVertices);
+  }
+  const hull = computeConvexHull(points);
+  if (!hull) return null;
+
+  const geometry = new BufferGeometry();
+  geometry.setAttribute('position', new BufferAttribute(Float32Array.from(hull.vertices), 3));
+  geometry.setIndex(hull.faces.flat());
+  return geometry;
+};
+
+// Only the outline of each part: hard edges for flat faces, a light mesh for curved ones
+const toLines = (geometry: BufferGeometry, curved: boolean): BufferGeometry => {
+  const lines = curved ? new WireframeGeometry(geometry) : new EdgesGeometry(geometry, 1);
+  geometry.dispose();
+  return lines;
+};
+
+/**
+ * Line segments outlining a body's collision shape in the body's frame, or null when
+ * the shape cannot be drawn (yet), e.g. a model without meshes.
+ */
+export const createShapeWireframe = (
+  shapeType: string,
+  shapeConfig: BodyShapeConfig | undefined,
+  object3D: Object3D
+): BufferGeometry | null => {
+  const radius = shapeConfig?.radius;
+  const he = readHalfExtents(shapeConfig);
+
+  switch (shapeType) {
+    case 'sphere':
+      if (typeof radius !== 'number' || !(radius > 0)) return null;
+      return toLines(new SphereGeometry(radius, CURVE_SEGMENTS, CURVE_SEGMENTS / 2), true);
+    case 'box':
+      if (!he) return null;
+      return toLines(new BoxGeometry(he.x * 2, he.y * 2, he.z * 2), false);
+    case 'cylinder':
+      if (!he) return null;
+      return toLines(new CylinderGeometry(he.x, he.x, he.y * 2, CURVE_SEGMENTS, 1), true);
+    case 'cone':
+      if (!he) return null;
+      return toLines(new ConeGeometry(he.x, he.y * 2, CURVE_SEGMENTS, 1), true);
+    case 'capsule':
+      // Capsule half extents stop at the cap centres
+      if (!he) return null;
+      return toLines(new CapsuleGeometry(he.x, he.y * 2, CURVE_SEGMENTS / 4, CURVE_SEGMENTS), true);
+    case 'hull': {
+      const hull = createHullGeometry(object3D, shapeConfig?.hullMaxVertices);
+      return hull && toLines(hull, false);
+    }
+    case 'mesh': {
+      const triangles = collectBodyTriangles(object3D);
+      return triangles && toLines(triangles, true);
+    }
+    default:
+      return null;
+  }
+};
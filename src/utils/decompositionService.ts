@@ -0,0 +1,175 @@
+import { DecompositionQuality } from '../types/simulation';
+import { ConvexPart, DecompositionOptions, decomposeConvex } from './convexDecomposition';
+import { SimulationError, ErrorType, logError } from './errorHandling';
+import { debugLogger } from './debugLogger';
+
+// Messages exchanged with the decomposition worker
+export interface DecompositionRequest {
+  id: number;
+  positions: Float32Array;
+  indices: Uint32Array | null;
+  options: DecompositionOptions;
+}
+
+export type DecompositionResponse =
+  | { id: number; parts: ConvexPart[] }
+  | { id: number; error: string };
+
+type WorkerFactory = () => Worker;
+
+interface PendingRequest {
+  resolve: (parts: ConvexPart[]) => void;
+  reject: (error: Error) => void;
+}
+
+// Decompositions kept for reuse; each one is a few kilobytes of hull points
+const MAX_CACHED_MODELS = 32;
+
+/**
+ * Runs convex decompositions off the main thread and caches the parts per model,
+ * so duplicates, remounts and replays of a model reuse the first result. Without a
+ * worker factory (tests, or browsers that refuse module workers) the decomposition
+ * runs on the main thread after the current frame.
+ */
+export class DecompositionService {
+  private static instance: DecompositionService;
+  private createWorker: WorkerFactory | null = null;
+  private worker: Worker | null = null;
+  private nextRequestId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private results = new Map<string, ConvexPart[]>();
+  private inFlight = new Map<string, Promise<ConvexPart[]>>();
+
+  static getInstance(): DecompositionService {
+    if (!DecompositionService.instance) {
+      DecompositionService.instance = new DecompositionService();
+    }
+    return DecompositionService.instance;
+  }
+
+  static getCacheKey(url: string, scale: [number, number, number], quality: DecompositionQuality): string {
+    return `${url}|${scale.join(',')}|${quality}`;
+  }
+
+  setWorkerFactory(factory: WorkerFactory | null): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.createWorker = factory;
+  }
+
+  getCached(key: string): ConvexPart[] | undefined {
+    return this.results.get(key);
+  }
+
+  decompose(
+    key: string,
+    positions: Float32Array,
+    indices: Uint32Array | null,
+    options: DecompositionOptions
+  ): Promise<ConvexPart[]> {
+    const cached = this.results.get(key);
+    if (cached) return Promise.resolve(cached);
+
+    const running = this.inFlight.get(key);
+    if (running) return running;
+
+    const startTime = performance.now();
+    const request = this.run(positions, indices, options)
+      .then(parts => {
+        debugLogger.info('Convex decomposition finished', {
+          key,
+          parts: parts.length,
+          duration: Math.round(performance.now() - startTime)
+        });
+        this.results.set(key, parts);
+        if (this.results.size > MAX_CACHED_MODELS) {
+          this.results.delete(this.results.keys().next().value as string);
+        }
+        return parts;
+      })
+      .catch(err => {
+        const error = err instanceof SimulationError
+          ? err
+          : new SimulationError(
+              ErrorType.GLB_PARSING_FAILED,
+              err instanceof Error ? err : new Error('Convex decomposition failed'),
+              { key }
+            );
+        logError(error);
+        throw error;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  clearCache(): void {
+    this.results.clear();
+  }
+
+  private run(positions: Float32Array, indices: Uint32Array | null, options: DecompositionOptions): Promise<ConvexPart[]> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return new Promise((resolve, reject) => {
+        setTimeout(() => {
+          try {
+            resolve(decomposeConvex(positions, indices, options));
+          } catch (err) {
+            reject(err);
+          }
+        }, 0);
+      });
+    }
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextRequestId++;
+      this.pending.set(id, { resolve, reject });
+      const message: DecompositionRequest = { id, positions, indices, options };
+      const transfer: ArrayBuffer[] = [positions.buffer as ArrayBuffer];
+      if (indices) transfer.push(indices.buffer as ArrayBuffer);
+      worker.postMessage(message, transfer);
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || !this.createWorker) return this.worker;
+
+    try {
+      this.worker = this.createWorker();
+      this.worker.onmessage = (event: MessageEvent<DecompositionResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event: ErrorEvent) => this.handleWorkerError(event);
+    } catch (err) {
+      debugLogger.warn('Could not start the decomposition worker, using the main thread', err);
+      this.createWorker = null;
+      this.worker = null;
+    }
+    return this.worker;
+  }
+
+  private handleMessage(response: DecompositionResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+    this.pending.delete(response.id);
+
+    if ('error' in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.parts);
+    }
+  }
+
+  // An uncaught worker error leaves its requests unanswered; fail them and start afresh next time
+  private handleWorkerError(event: ErrorEvent): void {
+    debugLogger.error('Decomposition worker crashed', { message: event.message });
+    const error = new Error(event.message || 'Decomposition worker crashed');
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
+
+export const decompositionService = DecompositionService.getInstance();
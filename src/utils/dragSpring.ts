@@ -0,0 +1,55 @@
+// Spring used to drag bodies with the mouse.
+// use-ammojs cannot move a constraint's world anchor after creation (and kinematic
+// bodies are not synced from the main thread), so the point-to-point spring is
+// applied as an impulse at the grab point every frame instead of as a Bullet constraint.
+import { Vector3 } from 'three';
+
+export const DRAG_SPRING = {
+  // Natural frequency squared (1/s^2); independent of mass so heavy objects feel the same
+  STIFFNESS: 150,
+  // Damping ratio, 1 = critically damped
+  DAMPING_RATIO: 1,
+  // Cap on acceleration so fast flicks cannot launch bodies through the ground
+  MAX_ACCELERATION: 400
+} as const;
+
+export interface DragSpringInput {
+  mass: number;
+  grabPoint: Vector3;
+  target: Vector3;
+  velocity: Vector3;
+  gravity: Vector3;
+  dt: number;
+  stiffness?: number;
+  dampingRatio?: number;
+  maxAcceleration?: number;
+}
+
+/**
+ * Impulse that pulls the grab point toward the target with a damped spring,
+ * cancelling gravity so the object hangs at the cursor instead of below it
+ */
+export const computeDragImpulse = ({
+  mass,
+  grabPoint,
+  target,
+  velocity,
+  gravity,
+  dt,
+  stiffness = DRAG_SPRING.STIFFNESS,
+  dampingRatio = DRAG_SPRING.DAMPING_RATIO,
+  maxAcceleration = DRAG_SPRING.MAX_ACCELERATION
+}: DragSpringInput): Vector3 => {
+  if (!(mass > 0) || !(dt > 0)) return new Vector3();
+
+  const damping = 2 * dampingRatio * Math.sqrt(stiffness);
+  const acceleration = target.clone().sub(grabPoint).multiplyScalar(stiffness)
+    .addScaledVector(velocity, -damping)
+    .sub(gravity);
+
+  if (acceleration.length() > maxAcceleration) {
+    acceleration.setLength(maxAcceleration);
+  }
+
+  return acceleration.multiplyScalar(mass * dt);
+};
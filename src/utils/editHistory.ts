@@ -0,0 +1,116 @@
+// Undo/redo history of scene edits. Commands are plain data that useSimulation applies in
+// either direction; removals carry the objects' last live state so undoing one puts each
+// body back where it was, moving as it was, rather than at its spawn point.
+import { ObjectConstraint, SpawnedObject } from '../types/simulation';
+
+export const HISTORY_LIMIT = 100;
+// Prop edits of the same object and fields this close together (e.g. dragging a color
+// picker) undo as one step, in ms
+export const HISTORY_MERGE_WINDOW = 1000;
+
+type ObjectProps = NonNullable<SpawnedObject['props']>;
+
+export type EditCommand =
+  | { type: 'add'; objects: SpawnedObject[]; constraints: ObjectConstraint[] }
+  // `all` marks a reset, which also restarts the run when redone
+  | { type: 'remove'; objects: SpawnedObject[]; constraints: ObjectConstraint[]; all?: boolean }
+  | { type: 'props'; id: string; before: Partial<ObjectProps>; after: Partial<ObjectProps> };
+
+export const EDIT_LABELS: Record<EditCommand['type'], string> = {
+  add: 'Add',
+  remove: 'Remove',
+  props: 'Edit'
+};
+
+export const describeEdit = (command: EditCommand): string => {
+  if (command.type === 'props') return `${EDIT_LABELS.props} ${command.id}`;
+  if (command.type === 'remove' && command.all) return 'Reset';
+  const [first] = command.objects;
+  return command.objects.length === 1 && first
+    ? `${EDIT_LABELS[command.type]} ${first.id}`
+    : `${EDIT_LABELS[command.type]} ${command.objects.length} objects`;
+};
+
+const sameKeys = (a: object, b: object): boolean => {
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every(key => keysB.includes(key));
+};
+
+export class EditHistory {
+  private undoStack: EditCommand[] = [];
+  private redoStack: EditCommand[] = [];
+  private lastPushedAt = -Infinity;
+
+  constructor(private limit: number = HISTORY_LIMIT) {}
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  get undoSize(): number {
+    return this.undoStack.length;
+  }
+
+  get redoSize(): number {
+    return this.redoStack.length;
+  }
+
+  peekUndo(): EditCommand | undefined {
+    return this.undoStack[this.undoStack.length - 1];
+  }
+
+  peekRedo(): EditCommand | undefined {
+    return this.redoStack[this.redoStack.length - 1];
+  }
+
+  /**
+   * Record a new edit. Anything that was undone can no longer be redone, and the oldest
+   * edit is dropped once the limit is reached.
+   */
+  push(command: EditCommand, now: number = Date.now()) {
+    const previous = this.peekUndo();
+    if (previous?.type === 'props' && command.type === 'props'
+      && previous.id === command.id
+      && sameKeys(previous.after, command.after)
+      && now - this.lastPushedAt <= HISTORY_MERGE_WINDOW) {
+      this.undoStack[this.undoStack.length - 1] = { ...previous, after: command.after };
+    } else {
+      this.undoStack.push(command);
+      if (this.undoStack.length > this.limit) this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.lastPushedAt = now;
+  }
+
+  // Take the latest edit to undo; the caller hands back its inverse with pushRedo
+  popUndo(): EditCommand | undefined {
+    this.lastPushedAt = -Infinity;
+    return this.undoStack.pop();
+  }
+
+  popRedo(): EditCommand | undefined {
+    this.lastPushedAt = -Infinity;
+    return this.redoStack.pop();
+  }
+
+  pushUndo(command: EditCommand) {
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.limit) this.undoStack.shift();
+  }
+
+  pushRedo(command: EditCommand) {
+    this.redoStack.push(command);
+    if (this.redoStack.length > this.limit) this.redoStack.shift();
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.lastPushedAt = -Infinity;
+  }
+}
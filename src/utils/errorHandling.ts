@@ -4,11 +4,16 @@ export enum ErrorType {
   GLB_PARSING_FAILED = 'GLB_PARSING_FAILED',
   GLB_TOO_LARGE = 'GLB_TOO_LARGE',
   GLB_INVALID_FORMAT = 'GLB_INVALID_FORMAT',
+  GLB_MESH_COLLISION_DYNAMIC = 'GLB_MESH_COLLISION_DYNAMIC',
   PHYSICS_INITIALIZATION_FAILED = 'PHYSICS_INITIALIZATION_FAILED',
   PHYSICS_SIMULATION_ERROR = 'PHYSICS_SIMULATION_ERROR',
   WEBGL_NOT_SUPPORTED = 'WEBGL_NOT_SUPPORTED',
   MEMORY_LIMIT_EXCEEDED = 'MEMORY_LIMIT_EXCEEDED',
   NETWORK_ERROR = 'NETWORK_ERROR',
+  SCENE_INVALID_FORMAT = 'SCENE_INVALID_FORMAT',
+  SCENE_VERSION_UNSUPPORTED = 'SCENE_VERSION_UNSUPPORTED',
+  RECORDING_INVALID_FORMAT = 'RECORDING_INVALID_FORMAT',
+  HEIGHTMAP_INVALID_FORMAT = 'HEIGHTMAP_INVALID_FORMAT',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR'
 }
 
@@ -59,6 +64,14 @@ const ERROR_MESSAGES: Record<ErrorType, { message: string; userMessage: string;
       'Try a different file'
     ]
   },
+  [ErrorType.GLB_MESH_COLLISION_DYNAMIC]: {
+    message: 'Triangle-mesh collision requires a static GLB model',
+    userMessage: 'Mesh collision only works for static scenery. Set the mass to 0 or pick another collision type.',
+    suggestions: [
+      'Set the model mass to 0 to use it as fixed scenery',
+      'Use Convex Hull or Convex Decomposition collision for models that move'
+    ]
+  },
   [ErrorType.PHYSICS_INITIALIZATION_FAILED]: {
     message: 'Physics engine initialization failed',
     userMessage: 'Unable to start the physics simulation. Please refresh the page.',
@@ -104,6 +117,40 @@ const ERROR_MESSAGES: Record<ErrorType, { message: string; userMessage: string;
       'Try again in a few moments'
     ]
   },
+  [ErrorType.SCENE_INVALID_FORMAT]: {
+    message: 'Invalid scene file',
+    userMessage: 'The scene file could not be read. It may be damaged or not a scene export.',
+    suggestions: [
+      'Make sure the file was created with Export Scene',
+      'Check that the file is valid JSON and has not been edited by hand',
+      'Try exporting the scene again'
+    ]
+  },
+  [ErrorType.SCENE_VERSION_UNSUPPORTED]: {
+    message: 'Unsupported scene file version',
+    userMessage: 'This scene file was saved by a newer version of the app and cannot be loaded.',
+    suggestions: [
+      'Update the app to the latest version',
+      'Export the scene again from the version that created it'
+    ]
+  },
+  [ErrorType.RECORDING_INVALID_FORMAT]: {
+    message: 'Invalid recording file',
+    userMessage: 'The recording could not be read. It may be damaged or from a newer version of the app.',
+    suggestions: [
+      'Make sure the file was created with the recording export',
+      'Export the recording again as JSON or binary'
+    ]
+  },
+  [ErrorType.HEIGHTMAP_INVALID_FORMAT]: {
+    message: 'Invalid heightmap image',
+    userMessage: 'The heightmap could not be read. Use a grayscale PNG image.',
+    suggestions: [
+      'Make sure the file has a .png extension',
+      'Use an image at least 2 pixels wide and tall, and under 10MB',
+      'Brighter pixels become higher ground'
+    ]
+  },
   [ErrorType.UNKNOWN_ERROR]: {
     message: 'An unknown error occurred',
     userMessage: 'Something unexpected happened. Please try refreshing the page.',
@@ -204,6 +251,39 @@ export const validateGLBFile = (file: File): SimulationError | null => {
   return null;
 };
 
+// Validate a heightmap image before reading its pixels
+export const validateHeightmapFile = (file: File): SimulationError | null => {
+  const fileName = file.name.toLowerCase();
+  if (!fileName.endsWith('.png')) {
+    return new SimulationError(ErrorType.HEIGHTMAP_INVALID_FORMAT, undefined, { fileName });
+  }
+
+  const maxSize = 10 * 1024 * 1024; // 10MB
+  if (file.size > maxSize) {
+    return new SimulationError(ErrorType.HEIGHTMAP_INVALID_FORMAT, undefined, {
+      fileSize: file.size,
+      maxSize,
+      fileName
+    });
+  }
+
+  return null;
+};
+
+// Triangle-mesh collision is exact but only supported for static (mass 0) models
+export const validateGLBCollision = (
+  collisionType: string | undefined,
+  mass: number | undefined,
+  context?: Record<string, unknown>
+): SimulationError | null => {
+  if (collisionType !== 'mesh' || mass === 0) return null;
+  return new SimulationError(
+    ErrorType.GLB_MESH_COLLISION_DYNAMIC,
+    new Error(`Triangle-mesh collision needs mass 0, got ${mass ?? 'the default mass'}`),
+    { ...context, collisionType, mass }
+  );
+};
+
 // Format file size for display
 export const formatFileSize = (bytes: number): string => {
   if (bytes === 0) return '0 Bytes';
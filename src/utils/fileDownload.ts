@@ -0,0 +1,13 @@
+// Trigger a client-side download of generated content
+export function downloadFile(content: BlobPart, filename: string, mimeType: string = 'application/json') {
+  if (typeof window === 'undefined') return;
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
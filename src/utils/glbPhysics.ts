@@ -1,15 +1,37 @@
 import * as THREE from 'three';
+import type { ShapeType } from 'use-ammojs';
+import { BodyShapeConfig } from './bodyRegistry';
+import { computeConvexHull, getConvexHullVolume, reduceToExtremePoints } from './convexHull';
 
 /**
  * Utility functions for GLB physics integration
  */
 
 export interface CollisionShapeData {
-  shapeType: 'box' | 'convex';
+  shapeType: 'box' | 'convex' | 'mesh';
+  // Convex hull points, centred on the hull's bounding box
   vertices?: Float32Array;
+  // Where the hull's centre sits in the scaled model's frame
+  center?: [number, number, number];
+  // Enclosed volume of the hull
+  volume?: number;
   dimensions?: [number, number, number];
+  // Triangles a mesh shape is built from
+  triangleCount?: number;
 }
 
+// Rigid body shape a GLB model is given, built from its collision shape data
+export interface GLBBodyShape {
+  shapeType: ShapeType;
+  shapeConfig: BodyShapeConfig;
+  // Points the hull body is built from, for convex shapes
+  hullVertices?: CollisionShapeData['vertices'];
+  center?: CollisionShapeData['center'];
+}
+
+// Bullet advises keeping convex hulls under 100 points
+export const CONVEX_HULL_MAX_VERTICES = 64;
+
 /**
  * Extract vertices from a GLB scene for convex hull collision detection
  */
@@ -48,6 +70,59 @@ export const extractVerticesFromGLB = (scene: THREE.Object3D): number[] => {
   return vertices;
 };
 
+/**
+ * Extract the triangles of every mesh in a GLB scene, in scaled world coordinates,
+ * for convex decomposition. Indices are offset so all meshes share one position array.
+ */
+export const extractTrianglesFromGLB = (
+  scene: THREE.Object3D,
+  scale: [number, number, number] = [1, 1, 1]
+): { positions: Float32Array; indices: Uint32Array } => {
+  const positions: number[] = [];
+  const indices: number[] = [];
+
+  scene.updateMatrixWorld(true);
+  scene.traverse((child) => {
+    if (!(child instanceof THREE.Mesh) || !child.geometry) return;
+
+    const geometry: THREE.BufferGeometry = child.geometry;
+    const positionAttribute = geometry.getAttribute('position');
+    if (!positionAttribute) return;
+
+    const base = positions.length / 3;
+    const vertex = new THREE.Vector3();
+    for (let i = 0; i < positionAttribute.count; i++) {
+      vertex.fromBufferAttribute(positionAttribute, i).applyMatrix4(child.matrixWorld);
+      positions.push(vertex.x * scale[0], vertex.y * scale[1], vertex.z * scale[2]);
+    }
+
+    const index = geometry.getIndex();
+    const count = index ? index.count : positionAttribute.count;
+    for (let i = 0; i + 2 < count; i += 3) {
+      for (let corner = 0; corner < 3; corner++) {
+        indices.push(base + (index ? index.getX(i + corner) : i + corner));
+      }
+    }
+  });
+
+  return { positions: new Float32Array(positions), indices: new Uint32Array(indices) };
+};
+
+/**
+ * Number of triangles over all meshes in a GLB scene
+ */
+export const countGLBTriangles = (scene: THREE.Object3D): number => {
+  let triangles = 0;
+  scene.traverse((child) => {
+    if (!(child instanceof THREE.Mesh) || !child.geometry) return;
+    const geometry: THREE.BufferGeometry = child.geometry;
+    const index = geometry.getIndex();
+    const positionAttribute = geometry.getAttribute('position');
+    triangles += Math.floor((index ? index.count : positionAttribute?.count ?? 0) / 3);
+  });
+  return triangles;
+};
+
 /**
  * Calculate accurate bounding box dimensions from GLB scene
  */
@@ -68,24 +143,15 @@ export const calculateGLBDimensions = (
 
 /**
  * Simplify vertices for better convex hull performance
- * Reduces vertex count while maintaining shape approximation
+ * Keeps only hull points, starting with the extremes along each axis, so the
+ * simplified shape has the same bounds as the original
  */
 export const simplifyVertices = (vertices: number[], maxVertices: number = 100): number[] => {
   if (vertices.length / 3 <= maxVertices) {
     return vertices;
   }
-  
-  // Simple decimation - take every nth vertex
-  const step = Math.ceil((vertices.length / 3) / maxVertices);
-  const simplified: number[] = [];
-  
-  for (let i = 0; i < vertices.length; i += step * 3) {
-    if (i + 2 < vertices.length) {
-      simplified.push(vertices[i], vertices[i + 1], vertices[i + 2]);
-    }
-  }
-  
-  return simplified;
+
+  return reduceToExtremePoints(vertices, maxVertices);
 };
 
 /**
@@ -97,6 +163,10 @@ export const validateCollisionShape = (shapeData: CollisionShapeData): boolean =
            shapeData.dimensions.every(d => d > 0 && isFinite(d));
   }
   
+  if (shapeData.shapeType === 'mesh') {
+    return shapeData.triangleCount !== undefined && shapeData.triangleCount > 0;
+  }
+
   if (shapeData.shapeType === 'convex') {
     return shapeData.vertices !== undefined && 
            shapeData.vertices.length >= 12 && // At least 4 vertices (tetrahedron)
@@ -111,7 +181,7 @@ export const validateCollisionShape = (shapeData: CollisionShapeData): boolean =
  */
 export const createCollisionShapeFromGLB = (
   scene: THREE.Object3D,
-  collisionType: 'box' | 'convex',
+  collisionType: 'box' | 'convex' | 'mesh',
   scale: [number, number, number] = [1, 1, 1]
 ): CollisionShapeData | null => {
   try {
@@ -123,19 +193,47 @@ export const createCollisionShapeFromGLB = (
       };
     }
     
+    if (collisionType === 'mesh') {
+      // The physics engine reads the triangles from the model itself, see PhysicsGLB
+      const triangleCount = countGLBTriangles(scene);
+      if (triangleCount === 0) {
+        console.warn('No triangles found for mesh collision, falling back to box');
+        return createCollisionShapeFromGLB(scene, 'box', scale);
+      }
+      return {
+        shapeType: 'mesh',
+        triangleCount,
+        dimensions: calculateGLBDimensions(scene, scale)
+      };
+    }
+
     if (collisionType === 'convex') {
       const vertices = extractVerticesFromGLB(scene);
       if (vertices.length === 0) {
         console.warn('No vertices found for convex hull, falling back to box');
         return createCollisionShapeFromGLB(scene, 'box', scale);
       }
-      
+
+      // Scale before building the hull so the physics shape matches the rendered model
+      const scaledVertices = vertices.map((value, i) => value * scale[i % 3]);
+      const hull = computeConvexHull(scaledVertices);
+      if (!hull) {
+        console.warn('Model has no volume for a convex hull, falling back to box');
+        return createCollisionShapeFromGLB(scene, 'box', scale);
+      }
+
       // Simplify vertices for performance
-      const simplifiedVertices = simplifyVertices(vertices, 50);
-      
+      const hullPoints = simplifyVertices(hull.vertices, CONVEX_HULL_MAX_VERTICES);
+      const bounds = new THREE.Box3().setFromArray(hullPoints);
+      const center = bounds.getCenter(new THREE.Vector3());
+      const centered = hullPoints.map((value, i) => value - center.getComponent(i % 3));
+      const simplifiedHull = computeConvexHull(centered);
+
       return {
         shapeType: 'convex',
-        vertices: new Float32Array(simplifiedVertices)
+        vertices: new Float32Array(centered),
+        center: [center.x, center.y, center.z],
+        volume: simplifiedHull ? getConvexHullVolume(simplifiedHull) : getConvexHullVolume(hull)
       };
     }
     
@@ -154,8 +252,8 @@ export const testCollisionCompatibility = (
   objectB: { type: string; shapeType?: string }
 ): boolean => {
   // All combinations should work with proper physics engine
-  const supportedTypes = ['ball', 'box', 'glb'];
-  const supportedShapes = ['sphere', 'box', 'convex'];
+  const supportedTypes = ['ball', 'box', 'glb', 'cylinder', 'capsule', 'cone', 'compound'];
+  const supportedShapes = ['sphere', 'box', 'convex', 'mesh', 'cylinder', 'capsule', 'cone'];
   
   const typeAValid = supportedTypes.includes(objectA.type);
   const typeBValid = supportedTypes.includes(objectB.type);
@@ -0,0 +1,19 @@
+// The static ground box objects land on. Shared by its rigid body, the collision events,
+// spawn placement and the cleanup of objects that fell off it.
+
+export interface GroundBox {
+  position: [number, number, number];
+  halfExtents: [number, number, number];
+}
+
+export const GROUND: GroundBox = {
+  position: [0, -0.5, 0],
+  halfExtents: [10, 0.5, 10]
+};
+
+/**
+ * Whether a body has dropped below the underside of the ground, which it can only do by
+ * going over an edge. Bodies still in the air beside the ground are not counted.
+ */
+export const hasFallenOffGround = (position: [number, number, number], ground: GroundBox = GROUND): boolean =>
+  position[1] < ground.position[1] - ground.halfExtents[1];
@@ -0,0 +1,71 @@
+// Projectile launcher: launch settings and the initial body state of a projectile fired
+// from the camera (see ProjectileLauncher).
+import { Quaternion, Vector3 } from 'three';
+import { BodyState, LaunchProjectile, LaunchSettings, LaunchSpinAxis } from '../types/simulation';
+
+export const LAUNCH_LIMITS = {
+  MIN_SPEED: 1,
+  MAX_SPEED: 100,
+  // Spin in either direction about the chosen axis, in rad/s
+  MAX_SPIN: 50,
+  // Projectiles start this far in front of the camera so they are not clipped at launch
+  SPAWN_DISTANCE: 1.5
+} as const;
+
+export const DEFAULT_LAUNCH_SETTINGS: LaunchSettings = {
+  projectile: 'ball',
+  speed: 20,
+  spin: 0,
+  spinAxis: 'right'
+};
+
+export const LAUNCH_PROJECTILE_LABELS: Record<LaunchProjectile, string> = {
+  ball: 'Ball',
+  box: 'Box',
+  glb: 'Loaded model'
+};
+
+// Positive spin about the right axis is backspin
+export const LAUNCH_SPIN_AXIS_LABELS: Record<LaunchSpinAxis, string> = {
+  right: 'Backspin / topspin',
+  up: 'Sidespin',
+  forward: 'Spiral'
+};
+
+const clamp = (value: number, min: number, max: number, fallback: number) =>
+  isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+export const clampLaunchSettings = (settings: LaunchSettings): LaunchSettings => ({
+  ...settings,
+  speed: clamp(settings.speed, LAUNCH_LIMITS.MIN_SPEED, LAUNCH_LIMITS.MAX_SPEED, DEFAULT_LAUNCH_SETTINGS.speed),
+  spin: clamp(settings.spin, -LAUNCH_LIMITS.MAX_SPIN, LAUNCH_LIMITS.MAX_SPIN, DEFAULT_LAUNCH_SETTINGS.spin)
+});
+
+/**
+ * Initial state of a projectile fired from a camera along a direction. The projectile is
+ * oriented like the camera, so spin axes follow the view: right and up are the screen's
+ * axes and forward is the flight direction.
+ */
+export const computeLaunchState = (
+  origin: Vector3,
+  direction: Vector3,
+  cameraQuaternion: Quaternion,
+  settings: LaunchSettings
+): BodyState => {
+  const forward = direction.clone().normalize();
+  const { speed, spin } = clampLaunchSettings(settings);
+  const position = origin.clone().addScaledVector(forward, LAUNCH_LIMITS.SPAWN_DISTANCE);
+  const velocity = forward.clone().multiplyScalar(speed);
+
+  const axis = settings.spinAxis === 'forward'
+    ? forward.clone()
+    : new Vector3(settings.spinAxis === 'right' ? 1 : 0, settings.spinAxis === 'up' ? 1 : 0, 0).applyQuaternion(cameraQuaternion);
+  const angularVelocity = axis.multiplyScalar(spin);
+
+  return {
+    position: [position.x, position.y, position.z],
+    rotation: [cameraQuaternion.x, cameraQuaternion.y, cameraQuaternion.z, cameraQuaternion.w],
+    linearVelocity: [velocity.x, velocity.y, velocity.z],
+    angularVelocity: [angularVelocity.x, angularVelocity.y, angularVelocity.z]
+  };
+};
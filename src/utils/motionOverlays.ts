@@ -0,0 +1,142 @@
+// Settings and trail sampling for the motion overlays (see MotionOverlays).
+// Overlays read the body registry every frame, so nothing here is React state except
+// the settings themselves.
+import { MotionOverlayFlags, MotionOverlayKind, MotionOverlaySettings } from '../types/simulation';
+
+export const MOTION_OVERLAY_KINDS: MotionOverlayKind[] = ['velocity', 'angularVelocity', 'trail'];
+
+export const MOTION_OVERLAY_LABELS: Record<MotionOverlayKind, string> = {
+  velocity: 'Velocity arrows',
+  angularVelocity: 'Spin indicators',
+  trail: 'Trails'
+};
+
+export const TRAIL_LIMITS = {
+  MIN_LENGTH: 0.5,
+  MAX_LENGTH: 10,
+  // Points kept per trail whatever its length, so long trails are sampled more sparsely
+  POINTS: 120
+} as const;
+
+export const OVERLAY_SCALE = {
+  // Arrow length per m/s and per rad/s; arrows are capped so fast bodies stay readable
+  VELOCITY: 0.25,
+  ANGULAR_VELOCITY: 0.2,
+  MAX_ARROW_LENGTH: 5,
+  // Slower motion than this draws no arrow
+  MIN_SPEED: 0.05
+} as const;
+
+export const NO_MOTION_OVERLAYS: MotionOverlayFlags = { velocity: false, angularVelocity: false, trail: false };
+
+export const DEFAULT_MOTION_OVERLAYS: MotionOverlaySettings = {
+  all: NO_MOTION_OVERLAYS,
+  perObject: {},
+  trailLength: 3
+};
+
+export const clampTrailLength = (length: number): number =>
+  isFinite(length) ? Math.min(TRAIL_LIMITS.MAX_LENGTH, Math.max(TRAIL_LIMITS.MIN_LENGTH, length)) : DEFAULT_MOTION_OVERLAYS.trailLength;
+
+/**
+ * Overlays shown for one object: those turned on for everything plus its own
+ */
+export const getObjectOverlays = (settings: MotionOverlaySettings, id: string): MotionOverlayFlags => {
+  const own = settings.perObject[id];
+  return {
+    velocity: settings.all.velocity || !!own?.velocity,
+    angularVelocity: settings.all.angularVelocity || !!own?.angularVelocity,
+    trail: settings.all.trail || !!own?.trail
+  };
+};
+
+export const hasAnyOverlay = (flags: Partial<MotionOverlayFlags>): boolean =>
+  MOTION_OVERLAY_KINDS.some(kind => flags[kind]);
+
+export const setObjectOverlay = (
+  settings: MotionOverlaySettings,
+  id: string,
+  kind: MotionOverlayKind,
+  enabled: boolean
+): MotionOverlaySettings => {
+  const own = { ...settings.perObject[id], [kind]: enabled };
+  const perObject = { ...settings.perObject };
+  if (hasAnyOverlay(own)) {
+    perObject[id] = own;
+  } else {
+    delete perObject[id];
+  }
+  return { ...settings, perObject };
+};
+
+/**
+ * Drops per-object overlays of objects that no longer exist; returns the same settings
+ * when there is nothing to drop
+ */
+export const pruneMotionOverlays = (settings: MotionOverlaySettings, ids: Iterable<string>): MotionOverlaySettings => {
+  const live = new Set(ids);
+  const stale = Object.keys(settings.perObject).filter(id => !live.has(id));
+  if (stale.length === 0) return settings;
+  const perObject = { ...settings.perObject };
+  stale.forEach(id => delete perObject[id]);
+  return { ...settings, perObject };
+};
+
+/**
+ * Recent positions of one body, oldest first, spaced so the last `length` simulated
+ * seconds fit in TRAIL_LIMITS.POINTS points
+ */
+export class Trail {
+  private readonly positions = new Float32Array(TRAIL_LIMITS.POINTS * 3);
+  private readonly times = new Float64Array(TRAIL_LIMITS.POINTS);
+  private start = 0;
+  private count = 0;
+
+  get length(): number {
+    return this.count;
+  }
+
+  // Record a position seen at simulated time `time`; a clock that went back (reset) restarts the trail
+  sample(x: number, y: number, z: number, time: number, length: number) {
+    if (this.count > 0) {
+      const newest = this.times[(this.start + this.count - 1) % TRAIL_LIMITS.POINTS];
+      if (time < newest) {
+        this.clear();
+      } else if (time - newest < length / TRAIL_LIMITS.POINTS) {
+        return;
+      }
+    }
+
+    // Forget points older than the trail length, then make room
+    while (this.count > 0 && this.times[this.start] < time - length) this.shift();
+    if (this.count === TRAIL_LIMITS.POINTS) this.shift();
+
+    const index = (this.start + this.count) % TRAIL_LIMITS.POINTS;
+    this.positions[index * 3] = x;
+    this.positions[index * 3 + 1] = y;
+    this.positions[index * 3 + 2] = z;
+    this.times[index] = time;
+    this.count++;
+  }
+
+  // Copy the points, oldest first, into a flat xyz array; returns how many were written
+  copyTo(target: Float32Array | number[]): number {
+    for (let i = 0; i < this.count; i++) {
+      const index = ((this.start + i) % TRAIL_LIMITS.POINTS) * 3;
+      target[i * 3] = this.positions[index];
+      target[i * 3 + 1] = this.positions[index + 1];
+      target[i * 3 + 2] = this.positions[index + 2];
+    }
+    return this.count;
+  }
+
+  clear() {
+    this.start = 0;
+    this.count = 0;
+  }
+
+  private shift() {
+    this.start = (this.start + 1) % TRAIL_LIMITS.POINTS;
+    this.count--;
+  }
+}
@@ -1,5 +1,5 @@
 import { Material, BufferGeometry, Mesh } from 'three';
-import { SpawnedObject } from '../types/simulation';
+import { SpawnedObject, ObjectType } from '../types/simulation';
 
 // Configuration for performance limits
 export const PERFORMANCE_LIMITS = {
@@ -7,11 +7,38 @@ export const PERFORMANCE_LIMITS = {
   MAX_BALLS: 25,
   MAX_BOXES: 25,
   MAX_GLB_MODELS: 10,
+  MAX_CYLINDERS: 20,
+  MAX_CAPSULES: 20,
+  MAX_CONES: 20,
+  MAX_COMPOUNDS: 10, // Each compound is several bodies joined by constraints
   CLEANUP_THRESHOLD: 45, // Start cleanup when approaching limit
   MEMORY_WARNING_THRESHOLD: 100, // MB
   FPS_WARNING_THRESHOLD: 30
 } as const;
 
+// Per-type spawn limit, or undefined for unknown types
+export const getObjectTypeLimit = (type: string): number | undefined => {
+  switch (type.toLowerCase()) {
+    case ObjectType.BALL:
+      return PERFORMANCE_LIMITS.MAX_BALLS;
+    case ObjectType.BOX:
+      return PERFORMANCE_LIMITS.MAX_BOXES;
+    case ObjectType.GLB_MODEL:
+    case 'glb_model':
+      return PERFORMANCE_LIMITS.MAX_GLB_MODELS;
+    case ObjectType.CYLINDER:
+      return PERFORMANCE_LIMITS.MAX_CYLINDERS;
+    case ObjectType.CAPSULE:
+      return PERFORMANCE_LIMITS.MAX_CAPSULES;
+    case ObjectType.CONE:
+      return PERFORMANCE_LIMITS.MAX_CONES;
+    case ObjectType.COMPOUND:
+      return PERFORMANCE_LIMITS.MAX_COMPOUNDS;
+    default:
+      return undefined;
+  }
+};
+
 // Material cache for reusing materials across objects
 class MaterialCache {
   private static instance: MaterialCache;
@@ -110,18 +137,8 @@ export class PerformanceOptimizer {
     // Normalize type to handle both enum values and string values
     const normalizedType = type.toLowerCase();
     const typeCount = objects.filter(obj => obj.type.toLowerCase() === normalizedType).length;
-    
-    switch (normalizedType) {
-      case 'ball':
-        return typeCount < PERFORMANCE_LIMITS.MAX_BALLS;
-      case 'box':
-        return typeCount < PERFORMANCE_LIMITS.MAX_BOXES;
-      case 'glb':
-      case 'glb_model':
-        return typeCount < PERFORMANCE_LIMITS.MAX_GLB_MODELS;
-      default:
-        return false;
-    }
+    const typeLimit = getObjectTypeLimit(normalizedType);
+    return typeLimit !== undefined && typeCount < typeLimit;
   }
 
   // Get performance status and warnings
@@ -186,8 +203,8 @@ export class PerformanceOptimizer {
 
   // Clean up oldest objects when approaching limits
   suggestObjectsForRemoval(objects: SpawnedObject[], count: number = 5): string[] {
-    return objects
-      .sort((a, b) => a.timestamp - b.timestamp) // Oldest first
+    return [...objects]
+      .sort((a, b) => a.spawnIndex - b.spawnIndex) // Oldest first
       .slice(0, count)
       .map(obj => obj.id);
   }
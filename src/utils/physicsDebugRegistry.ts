@@ -49,11 +49,30 @@ export function logRecentRigidBodyConfigs(label: string = "Recent RigidBody Conf
   console.groupEnd();
 }
 
+export type SimulationRunInfo = {
+  seed: number;
+  deterministic: boolean;
+  fixedTimeStep?: number;
+  maxSubSteps?: number;
+};
+
+let runInfo: SimulationRunInfo | null = null;
+
+// Record the settings needed to replay the current run exactly
+export function setSimulationRunInfo(info: SimulationRunInfo) {
+  runInfo = { ...info };
+}
+
+export function getSimulationRunInfo(): SimulationRunInfo | null {
+  return runInfo;
+}
+
 export function exportPhysicsDiagnostics(filename: string = `physics-diagnostics-${Date.now()}.json`) {
   if (typeof window === 'undefined') return;
   const payload = {
     exportedAt: new Date().toISOString(),
     userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'node',
+    run: getSimulationRunInfo(),
     recentRigidBodyConfigs: getRecentRigidBodyConfigs(),
     debugLogs: debugLogger.getLogs(),
   };
@@ -73,7 +92,7 @@ export function setupGlobalPhysicsErrorLogging() {
   if (initialized || typeof window === 'undefined') return;
   initialized = true;
 
-  // Expose a manual dump helper for the console
+  // Expose a manual dump helper for the console; the object inspector is the main way to inspect single bodies
   try {
     // @ts-ignore
     (window as any).__dumpRigidBodies = (label?: string) => logRecentRigidBodyConfigs(label || 'Manual dump');
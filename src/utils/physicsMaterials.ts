@@ -0,0 +1,49 @@
+// Named physics materials offered when spawning objects.
+// use-ammojs 0.2.x only forwards damping to Bullet; friction and restitution are
+// kept on the object (and in saved scenes) so they apply once the worker supports them.
+import { MaterialPresetName } from '../types/simulation';
+
+export interface PhysicsMaterial {
+  friction: number;
+  restitution: number;
+  linearDamping: number;
+  angularDamping: number;
+}
+
+export interface MaterialPreset extends PhysicsMaterial {
+  label: string;
+}
+
+// Shown wherever friction and restitution can be chosen, so presets are not mistaken for
+// working bounce and slip
+export const MATERIAL_NOTE = 'Friction and restitution are saved with the object, but the bundled use-ammojs build does not apply them yet; only damping takes effect.';
+
+// Bullet's own defaults for damping, used when an object has no material
+export const DEFAULT_DAMPING = {
+  LINEAR: 0.01,
+  ANGULAR: 0.01
+} as const;
+
+export const MATERIAL_PRESETS: Record<MaterialPresetName, MaterialPreset> = {
+  rubber: { label: 'Rubber', friction: 0.9, restitution: 0.8, linearDamping: 0.05, angularDamping: 0.1 },
+  ice: { label: 'Ice', friction: 0.02, restitution: 0.05, linearDamping: 0, angularDamping: 0.01 },
+  wood: { label: 'Wood', friction: 0.5, restitution: 0.3, linearDamping: 0.02, angularDamping: 0.05 },
+  steel: { label: 'Steel', friction: 0.4, restitution: 0.55, linearDamping: 0.01, angularDamping: 0.01 }
+};
+
+export const isMaterialPresetName = (value: unknown): value is MaterialPresetName =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(MATERIAL_PRESETS, value);
+
+/**
+ * Object props for a preset, tagged with the preset name so it can be shown and saved
+ */
+export const getMaterialProps = (name: MaterialPresetName) => {
+  const { label, ...material } = MATERIAL_PRESETS[name];
+  return { ...material, materialPreset: name };
+};
+
+/**
+ * Damping is a fraction of velocity removed per second, so Bullet only accepts [0, 1]
+ */
+export const clampDamping = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
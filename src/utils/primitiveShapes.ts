@@ -0,0 +1,175 @@
+// Collision extents, render geometry and volumes for the primitive object types.
+// New primitives size their collision shapes manually rather than fitting the
+// render mesh, because Bullet's capsule height excludes the end caps.
+import {
+  BufferGeometry,
+  BoxGeometry,
+  CapsuleGeometry,
+  ConeGeometry,
+  CylinderGeometry,
+  SphereGeometry,
+  Quaternion,
+  Vector3
+} from 'three';
+import { BodyState, CompoundPart, ObjectType, PrimitiveShape } from '../types/simulation';
+import { createGeometryKey } from './performanceOptimization';
+
+export interface PrimitiveDimensions {
+  radius?: number;
+  height?: number;
+  size?: [number, number, number];
+}
+
+export const PRIMITIVE_DEFAULTS = {
+  RADIUS: 0.5,
+  HEIGHT: 1,
+  SIZE: [1, 1, 1] as [number, number, number],
+  SEGMENTS: 32
+} as const;
+
+const PRIMITIVE_OBJECT_TYPES: Record<PrimitiveShape, ObjectType> = {
+  ball: ObjectType.BALL,
+  box: ObjectType.BOX,
+  cylinder: ObjectType.CYLINDER,
+  capsule: ObjectType.CAPSULE,
+  cone: ObjectType.CONE
+};
+
+export const PRIMITIVE_SHAPES = Object.keys(PRIMITIVE_OBJECT_TYPES) as PrimitiveShape[];
+
+export const isPrimitiveShape = (value: unknown): value is PrimitiveShape =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PRIMITIVE_OBJECT_TYPES, value);
+
+export const getPrimitiveObjectType = (shape: PrimitiveShape): ObjectType => PRIMITIVE_OBJECT_TYPES[shape];
+
+// Primitive shape spawned for an object type; compounds and GLB models have none
+export const getObjectPrimitiveShape = (type: ObjectType): PrimitiveShape | undefined =>
+  PRIMITIVE_SHAPES.find(shape => PRIMITIVE_OBJECT_TYPES[shape] === type);
+
+const positiveOr = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && isFinite(value) && value > 0 ? value : fallback;
+
+/**
+ * Fill in missing or invalid dimensions with the defaults
+ */
+export const normalizeDimensions = (shape: PrimitiveShape, dims: PrimitiveDimensions = {}): Required<PrimitiveDimensions> => {
+  const radius = positiveOr(dims.radius, PRIMITIVE_DEFAULTS.RADIUS);
+  const size = Array.isArray(dims.size) && dims.size.length === 3
+    ? dims.size.map((v, i) => positiveOr(v, PRIMITIVE_DEFAULTS.SIZE[i])) as [number, number, number]
+    : [...PRIMITIVE_DEFAULTS.SIZE] as [number, number, number];
+  // A capsule is at least a sphere
+  const minHeight = shape === 'capsule' ? 2 * radius : 0;
+  const height = Math.max(positiveOr(dims.height, shape === 'capsule' ? 2 * radius + PRIMITIVE_DEFAULTS.HEIGHT : PRIMITIVE_DEFAULTS.HEIGHT), minHeight);
+  return { radius, height, size };
+};
+
+/**
+ * Half extents of a primitive's collision shape. Round shapes are aligned to the y axis.
+ */
+export const getCollisionHalfExtents = (shape: PrimitiveShape, dims: PrimitiveDimensions = {}): { x: number; y: number; z: number } => {
+  const { radius, height, size } = normalizeDimensions(shape, dims);
+
+  switch (shape) {
+    case 'ball':
+      return { x: radius, y: radius, z: radius };
+    case 'box':
+      return { x: size[0] / 2, y: size[1] / 2, z: size[2] / 2 };
+    case 'cylinder':
+    case 'cone':
+      return { x: radius, y: height / 2, z: radius };
+    case 'capsule':
+      // Bullet measures capsule height between the cap centres
+      return { x: radius, y: (height - 2 * radius) / 2, z: radius };
+  }
+};
+
+/**
+ * Cache key and factory for the render geometry of a primitive
+ */
+export const getPrimitiveGeometry = (shape: PrimitiveShape, dims: PrimitiveDimensions = {}): { key: string; create: () => BufferGeometry } => {
+  const { radius, height, size } = normalizeDimensions(shape, dims);
+  const segments = PRIMITIVE_DEFAULTS.SEGMENTS;
+
+  switch (shape) {
+    case 'ball':
+      return { key: createGeometryKey('sphere', [radius, segments, segments]), create: () => new SphereGeometry(radius, segments, segments) };
+    case 'box':
+      return { key: createGeometryKey('box', size), create: () => new BoxGeometry(...size) };
+    case 'cylinder':
+      return { key: createGeometryKey('cylinder', [radius, height, segments]), create: () => new CylinderGeometry(radius, radius, height, segments) };
+    case 'cone':
+      return { key: createGeometryKey('cone', [radius, height, segments]), create: () => new ConeGeometry(radius, height, segments) };
+    case 'capsule':
+      return {
+        key: createGeometryKey('capsule', [radius, height, segments]),
+        create: () => new CapsuleGeometry(radius, height - 2 * radius, 8, segments)
+      };
+  }
+};
+
+/**
+ * Volume of a primitive, used to split a compound's mass between its parts
+ */
+export const getPrimitiveVolume = (shape: PrimitiveShape, dims: PrimitiveDimensions = {}): number => {
+  const { radius, height, size } = normalizeDimensions(shape, dims);
+  const sphere = (4 / 3) * Math.PI * radius ** 3;
+
+  switch (shape) {
+    case 'ball':
+      return sphere;
+    case 'box':
+      return size[0] * size[1] * size[2];
+    case 'cylinder':
+      return Math.PI * radius * radius * height;
+    case 'cone':
+      return (Math.PI * radius * radius * height) / 3;
+    case 'capsule':
+      return sphere + Math.PI * radius * radius * (height - 2 * radius);
+  }
+};
+
+/**
+ * Share a compound's total mass between its parts in proportion to their volume
+ */
+export const splitCompoundMass = (parts: CompoundPart[], totalMass: number): number[] => {
+  const volumes = parts.map(part => getPrimitiveVolume(part.shape, part));
+  const totalVolume = volumes.reduce((sum, volume) => sum + volume, 0);
+  if (!(totalVolume > 0)) return parts.map(() => totalMass / Math.max(parts.length, 1));
+  return volumes.map(volume => (totalMass * volume) / totalVolume);
+};
+
+// Dumbbell spawned by the compound button: a bar with a weight on each end
+export const DEFAULT_COMPOUND_PARTS: CompoundPart[] = [
+  { shape: 'box', offset: [0, 0, 0], size: [1.2, 0.2, 0.2], color: '#adb5bd' },
+  { shape: 'ball', offset: [-0.7, 0, 0], radius: 0.35 },
+  { shape: 'ball', offset: [0.7, 0, 0], radius: 0.35 }
+];
+
+/**
+ * Offsets of each part from the root part, which is the compound's origin
+ */
+export const getCompoundLocalOffsets = (parts: CompoundPart[]): Array<[number, number, number]> => {
+  const root = parts[0]?.offset ?? [0, 0, 0];
+  return parts.map(part => [
+    part.offset[0] - root[0],
+    part.offset[1] - root[1],
+    part.offset[2] - root[2]
+  ]);
+};
+
+/**
+ * State of a rigidly attached part given the root body's state: the part shares the
+ * root's rotation and spin, and moves with v + w x r
+ */
+export const getCompoundPartState = (root: BodyState, localOffset: [number, number, number]): BodyState => {
+  const rotation = new Quaternion(...root.rotation);
+  const arm = new Vector3(...localOffset).applyQuaternion(rotation);
+  const position = new Vector3(...root.position).add(arm);
+  const velocity = new Vector3(...root.angularVelocity).cross(arm).add(new Vector3(...root.linearVelocity));
+  return {
+    position: [position.x, position.y, position.z],
+    rotation: [...root.rotation] as [number, number, number, number],
+    linearVelocity: [velocity.x, velocity.y, velocity.z],
+    angularVelocity: [...root.angularVelocity] as [number, number, number]
+  };
+};
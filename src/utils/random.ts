@@ -0,0 +1,52 @@
+/**
+ * Seedable pseudo-random number generator so simulation runs can be reproduced
+ */
+
+const MAX_SEED = 0xffffffff;
+
+// Pick a fresh seed for a new run; this is the only place that uses Math.random
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * MAX_SEED) >>> 0;
+};
+
+// Coerce user input into a valid 32-bit seed, or null if it isn't a number
+export const normalizeSeed = (value: string | number): number | null => {
+  if (typeof value === 'string' && value.trim() === '') return null;
+  const parsed = Number(value);
+  if (!isFinite(parsed)) return null;
+  return Math.floor(Math.abs(parsed)) >>> 0;
+};
+
+export class SeededRandom {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // mulberry32: small, fast and good enough for spawn placement
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Short base-36 token for object ids
+  id(length: number = 9): string {
+    let token = '';
+    while (token.length < length) {
+      token += Math.floor(this.next() * 36).toString(36);
+    }
+    return token;
+  }
+
+  reset(): void {
+    this.state = this.seed >>> 0;
+  }
+}
@@ -0,0 +1,305 @@
+// Recording of per-frame body transforms for physics-free playback.
+// Frames store one [px, py, pz, qx, qy, qz, qw] block per track, with NaN marking
+// bodies that did not exist yet (or had been removed) when the frame was captured.
+import { SpawnedObject, ObjectType, BodyState } from '../types/simulation';
+import { SimulationError, ErrorType } from './errorHandling';
+import { debugLogger } from './debugLogger';
+
+export const RECORDING_FILE_FORMAT = 'physics-simulation-recording';
+export const RECORDING_FORMAT_VERSION = 1;
+export const TRANSFORM_STRIDE = 7;
+// Two minutes at 60fps; capture stops once the limit is reached
+export const MAX_RECORDING_FRAMES = 7200;
+
+// Binary layout: magic, version, header length, JSON header, then float32 frames
+const BINARY_MAGIC = 0x43525350; // "PSRC" little-endian
+const BINARY_PREAMBLE_BYTES = 12;
+
+export interface RecordingTrack {
+  id: string;
+  type: ObjectType;
+  props: NonNullable<SpawnedObject['props']>;
+}
+
+export interface RecordingFrame {
+  time: number;
+  transforms: Float32Array;
+}
+
+export interface Recording {
+  tracks: RecordingTrack[];
+  frames: RecordingFrame[];
+  duration: number;
+  truncated: boolean;
+}
+
+export type TrackTransform = [number, number, number, number, number, number, number];
+
+const invalidRecording = (reason: string, context?: Record<string, unknown>): SimulationError => {
+  return new SimulationError(ErrorType.RECORDING_INVALID_FORMAT, new Error(reason), { reason, ...context });
+};
+
+export class SimulationRecorder {
+  private static instance: SimulationRecorder;
+  private tracks: RecordingTrack[] = [];
+  private trackIndex = new Map<string, number>();
+  private frames: RecordingFrame[] = [];
+  private recording = false;
+  private truncated = false;
+
+  static getInstance(): SimulationRecorder {
+    if (!SimulationRecorder.instance) {
+      SimulationRecorder.instance = new SimulationRecorder();
+    }
+    return SimulationRecorder.instance;
+  }
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  start(objects: SpawnedObject[]) {
+    this.tracks = [];
+    this.trackIndex.clear();
+    this.frames = [];
+    this.truncated = false;
+    this.recording = true;
+    this.addTracks(objects);
+    debugLogger.info('Recording started', { trackCount: this.tracks.length });
+  }
+
+  // Objects spawned mid-recording get new tracks; removed objects keep theirs
+  addTracks(objects: SpawnedObject[]) {
+    objects.forEach(obj => {
+      if (this.trackIndex.has(obj.id)) return;
+      this.trackIndex.set(obj.id, this.tracks.length);
+      this.tracks.push({ id: obj.id, type: obj.type, props: { ...obj.props } });
+    });
+  }
+
+  capture(time: number, getState: (id: string) => BodyState | null) {
+    if (!this.recording) return;
+
+    if (this.frames.length >= MAX_RECORDING_FRAMES) {
+      if (!this.truncated) {
+        this.truncated = true;
+        debugLogger.warn('Recording frame limit reached, further frames are dropped', { maxFrames: MAX_RECORDING_FRAMES });
+      }
+      return;
+    }
+
+    const transforms = new Float32Array(this.tracks.length * TRANSFORM_STRIDE).fill(NaN);
+    this.tracks.forEach((track, index) => {
+      const state = getState(track.id);
+      if (!state) return;
+      transforms.set([...state.position, ...state.rotation], index * TRANSFORM_STRIDE);
+    });
+    this.frames.push({ time, transforms });
+  }
+
+  stop(): Recording {
+    this.recording = false;
+    const recording = buildRecording(this.tracks, this.frames, this.truncated);
+    debugLogger.info('Recording stopped', {
+      trackCount: recording.tracks.length,
+      frameCount: recording.frames.length,
+      duration: recording.duration
+    });
+    return recording;
+  }
+}
+
+export const simulationRecorder = SimulationRecorder.getInstance();
+
+// Pad every frame to the final track count so frames can be indexed uniformly
+const buildRecording = (tracks: RecordingTrack[], frames: RecordingFrame[], truncated: boolean): Recording => {
+  const width = tracks.length * TRANSFORM_STRIDE;
+  const paddedFrames = frames.map(frame => {
+    if (frame.transforms.length === width) return frame;
+    const transforms = new Float32Array(width).fill(NaN);
+    transforms.set(frame.transforms);
+    return { time: frame.time, transforms };
+  });
+
+  return {
+    tracks: tracks.map(track => ({ ...track, props: { ...track.props } })),
+    frames: paddedFrames,
+    duration: paddedFrames.length > 0 ? paddedFrames[paddedFrames.length - 1].time : 0,
+    truncated
+  };
+};
+
+/**
+ * Index of the last frame captured at or before the given time
+ */
+export const findFrameIndex = (recording: Recording, time: number): number => {
+  const { frames } = recording;
+  if (frames.length === 0) return -1;
+  if (time <= frames[0].time) return 0;
+
+  let low = 0;
+  let high = frames.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (frames[mid].time <= time) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+};
+
+export const getTrackTransform = (frame: RecordingFrame, trackIndex: number): TrackTransform | null => {
+  const offset = trackIndex * TRANSFORM_STRIDE;
+  if (offset + TRANSFORM_STRIDE > frame.transforms.length || isNaN(frame.transforms[offset])) {
+    return null;
+  }
+  return Array.from(frame.transforms.subarray(offset, offset + TRANSFORM_STRIDE)) as TrackTransform;
+};
+
+const buildHeader = (recording: Recording) => ({
+  format: RECORDING_FILE_FORMAT,
+  version: RECORDING_FORMAT_VERSION,
+  recordedAt: new Date().toISOString(),
+  duration: recording.duration,
+  truncated: recording.truncated,
+  tracks: recording.tracks,
+  frameCount: recording.frames.length
+});
+
+/**
+ * JSON export; absent bodies are written as null so the file stays valid JSON
+ */
+export const serializeRecordingJSON = (recording: Recording): string => {
+  return JSON.stringify({
+    ...buildHeader(recording),
+    frames: recording.frames.map(frame => ({
+      time: frame.time,
+      transforms: recording.tracks.map((_, index) => getTrackTransform(frame, index))
+    }))
+  });
+};
+
+/**
+ * Compact binary export: a JSON header followed by (1 + tracks * 7) float32 values per frame
+ */
+export const serializeRecordingBinary = (recording: Recording): ArrayBuffer => {
+  const headerBytes = new TextEncoder().encode(JSON.stringify(buildHeader(recording)));
+  const headerPadded = Math.ceil(headerBytes.length / 4) * 4;
+  const frameFloats = 1 + recording.tracks.length * TRANSFORM_STRIDE;
+  const buffer = new ArrayBuffer(BINARY_PREAMBLE_BYTES + headerPadded + recording.frames.length * frameFloats * 4);
+
+  const view = new DataView(buffer);
+  view.setUint32(0, BINARY_MAGIC, true);
+  view.setUint32(4, RECORDING_FORMAT_VERSION, true);
+  view.setUint32(8, headerBytes.length, true);
+  new Uint8Array(buffer, BINARY_PREAMBLE_BYTES, headerBytes.length).set(headerBytes);
+
+  const body = new Float32Array(buffer, BINARY_PREAMBLE_BYTES + headerPadded);
+  recording.frames.forEach((frame, index) => {
+    body[index * frameFloats] = frame.time;
+    body.set(frame.transforms, index * frameFloats + 1);
+  });
+
+  return buffer;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+// Checks the fields both file layouts share and returns the header with its tracks
+const validateHeader = (header: unknown): Record<string, unknown> & { tracks: RecordingTrack[] } => {
+  if (!isObject(header) || header.format !== RECORDING_FILE_FORMAT) {
+    throw invalidRecording('File is not a physics simulation recording');
+  }
+  if (header.version !== RECORDING_FORMAT_VERSION) {
+    throw invalidRecording('Unsupported recording version', { version: header.version });
+  }
+  const tracks = header.tracks;
+  if (!Array.isArray(tracks) || tracks.some((track: unknown) =>
+    !isObject(track) || typeof track.id !== 'string' || !Object.values(ObjectType).includes(track.type as ObjectType))) {
+    throw invalidRecording('Recording tracks are invalid');
+  }
+  return { ...header, tracks };
+};
+
+const parseRecordingBinary = (buffer: ArrayBuffer): Recording => {
+  if (buffer.byteLength < BINARY_PREAMBLE_BYTES) {
+    throw invalidRecording('Recording file is too short');
+  }
+  const view = new DataView(buffer);
+  const headerLength = view.getUint32(8, true);
+  const headerPadded = Math.ceil(headerLength / 4) * 4;
+  if (BINARY_PREAMBLE_BYTES + headerPadded > buffer.byteLength) {
+    throw invalidRecording('Recording header is truncated');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, BINARY_PREAMBLE_BYTES, headerLength)));
+  } catch {
+    throw invalidRecording('Recording header is not valid JSON');
+  }
+  const header = validateHeader(parsed);
+
+  const frameFloats = 1 + header.tracks.length * TRANSFORM_STRIDE;
+  const body = new Float32Array(buffer.slice(BINARY_PREAMBLE_BYTES + headerPadded));
+  const frameCount = header.frameCount;
+  if (typeof frameCount !== 'number' || body.length !== frameCount * frameFloats) {
+    throw invalidRecording('Recording frame data does not match its header', { frameCount });
+  }
+
+  const frames: RecordingFrame[] = [];
+  for (let i = 0; i < frameCount; i++) {
+    const start = i * frameFloats;
+    frames.push({ time: body[start], transforms: body.slice(start + 1, start + frameFloats) });
+  }
+  return buildRecording(header.tracks, frames, !!header.truncated);
+};
+
+const parseRecordingJSON = (json: string): Recording => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw invalidRecording('Recording is not valid JSON');
+  }
+  const raw = validateHeader(parsed);
+  if (!Array.isArray(raw.frames)) {
+    throw invalidRecording('Recording frames must be an array');
+  }
+
+  const trackCount = raw.tracks.length;
+  const frames: RecordingFrame[] = raw.frames.map((frame: unknown, index: number) => {
+    if (!isObject(frame) || typeof frame.time !== 'number' || !Array.isArray(frame.transforms) || frame.transforms.length !== trackCount) {
+      throw invalidRecording('Recording frame is invalid', { index });
+    }
+    const transforms = new Float32Array(trackCount * TRANSFORM_STRIDE).fill(NaN);
+    frame.transforms.forEach((transform: unknown, trackIndex: number) => {
+      if (transform === null) return;
+      if (!Array.isArray(transform) || transform.length !== TRANSFORM_STRIDE || !transform.every((v: unknown) => typeof v === 'number')) {
+        throw invalidRecording('Recording transform is invalid', { index, trackIndex });
+      }
+      transforms.set(transform, trackIndex * TRANSFORM_STRIDE);
+    });
+    return { time: frame.time, transforms };
+  });
+
+  return buildRecording(raw.tracks, frames, !!raw.truncated);
+};
+
+/**
+ * Read a recording exported as either binary or JSON
+ */
+export const parseRecording = (data: ArrayBuffer): Recording => {
+  if (data.byteLength >= 4 && new DataView(data).getUint32(0, true) === BINARY_MAGIC) {
+    return parseRecordingBinary(data);
+  }
+  return parseRecordingJSON(new TextDecoder().decode(data));
+};
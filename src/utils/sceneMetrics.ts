@@ -0,0 +1,138 @@
+// Energy, momentum and sleep totals of the live bodies over simulated time, for the
+// scene charts. Sampled by SceneMetricsSampler after physics steps; only dynamic bodies
+// count, and compound parts count as the bodies they are.
+import { Vector3 } from 'three';
+import { estimateInertia, RegisteredBody, SLEEP_ESTIMATE } from './bodyRegistry';
+
+export interface SceneMetricsSample {
+  // Simulated seconds since the run started
+  time: number;
+  // Translational plus rotational kinetic energy in J
+  kinetic: number;
+  // Gravitational potential energy in J, zero on the ground plane (y = 0)
+  potential: number;
+  // Magnitude of the total linear momentum in kg·m/s
+  momentum: number;
+  // Dynamic bodies moving, and estimated to be asleep (see SLEEP_ESTIMATE)
+  active: number;
+  sleeping: number;
+}
+
+export const METRICS_LIMITS = {
+  // Simulated seconds between samples
+  SAMPLE_INTERVAL: 1 / 30,
+  // Longest window that can be charted; older samples are dropped
+  MAX_WINDOW: 120
+} as const;
+
+export const CHART_WINDOWS = [5, 10, 30, 60, 120] as const;
+
+export const ENERGY_GAIN_WARNING = {
+  // Growth of the total energy, relative and absolute, that counts as a gain
+  RATIO: 0.1,
+  MIN_JOULES: 1
+} as const;
+
+/**
+ * Totals for the given bodies at this moment. Potential energy is measured against
+ * the ground plane along the gravity vector, so it is zero in zero-g.
+ */
+export const computeSceneMetrics = (
+  bodies: RegisteredBody[],
+  gravity: [number, number, number],
+  time: number
+): SceneMetricsSample => {
+  const g = new Vector3(...gravity);
+  const momentum = new Vector3();
+  const sample: SceneMetricsSample = { time, kinetic: 0, potential: 0, momentum: 0, active: 0, sleeping: 0 };
+
+  bodies.forEach(body => {
+    const { mass, bodyType } = body.config;
+    if (bodyType !== 'dynamic' || !(mass > 0)) return;
+
+    sample.kinetic += 0.5 * mass * body.linearVelocity.lengthSq() +
+      0.5 * estimateInertia(body.config) * body.angularVelocity.lengthSq();
+    sample.potential -= mass * g.dot(body.object3D.position);
+    momentum.addScaledVector(body.linearVelocity, mass);
+
+    if (body.restingTime >= SLEEP_ESTIMATE.TIME_TO_SLEEP) {
+      sample.sleeping++;
+    } else {
+      sample.active++;
+    }
+  });
+
+  sample.momentum = momentum.length();
+  return sample;
+};
+
+/**
+ * Relative rise of the total energy since the body count last changed, or null when
+ * it did not rise by more than ENERGY_GAIN_WARNING. Without outside input (dragging,
+ * springs) a rise means the solver is adding energy, e.g. from deep interpenetration.
+ */
+export const detectEnergyGain = (samples: SceneMetricsSample[]): number | null => {
+  if (samples.length < 2) return null;
+  const last = samples[samples.length - 1];
+  const bodies = last.active + last.sleeping;
+
+  // Spawned and removed objects change the energy legitimately
+  let first = samples.length - 1;
+  while (first > 0 && samples[first - 1].active + samples[first - 1].sleeping === bodies) first--;
+
+  let lowest = Infinity;
+  for (let i = first; i < samples.length; i++) {
+    lowest = Math.min(lowest, samples[i].kinetic + samples[i].potential);
+  }
+  const gain = last.kinetic + last.potential - lowest;
+  const scale = Math.max(Math.abs(lowest), ENERGY_GAIN_WARNING.MIN_JOULES);
+  return gain > ENERGY_GAIN_WARNING.MIN_JOULES && gain / scale > ENERGY_GAIN_WARNING.RATIO ? gain / scale : null;
+};
+
+export class SceneMetricsHistory {
+  private static instance: SceneMetricsHistory;
+  private samples: SceneMetricsSample[] = [];
+
+  static getInstance(): SceneMetricsHistory {
+    if (!SceneMetricsHistory.instance) {
+      SceneMetricsHistory.instance = new SceneMetricsHistory();
+    }
+    return SceneMetricsHistory.instance;
+  }
+
+  // Whether a sample taken at this time would be kept
+  isDue(time: number): boolean {
+    const last = this.samples[this.samples.length - 1];
+    return !last || time < last.time || time - last.time >= METRICS_LIMITS.SAMPLE_INTERVAL;
+  }
+
+  // Samples closer together than SAMPLE_INTERVAL are skipped; a clock that went back starts a new run
+  record(sample: SceneMetricsSample): boolean {
+    if (!this.isDue(sample.time)) return false;
+    const last = this.samples[this.samples.length - 1];
+    if (last && sample.time < last.time) this.samples = [];
+
+    this.samples.push(sample);
+    const oldest = sample.time - METRICS_LIMITS.MAX_WINDOW;
+    const stale = this.samples.findIndex(entry => entry.time >= oldest);
+    if (stale > 0) this.samples.splice(0, stale);
+    return true;
+  }
+
+  // Samples from the last `window` simulated seconds, oldest first
+  getSamples(window: number = METRICS_LIMITS.MAX_WINDOW): SceneMetricsSample[] {
+    const last = this.samples[this.samples.length - 1];
+    if (!last) return [];
+    return this.samples.filter(sample => sample.time >= last.time - window);
+  }
+
+  getLatest(): SceneMetricsSample | null {
+    return this.samples[this.samples.length - 1] ?? null;
+  }
+
+  clear() {
+    this.samples = [];
+  }
+}
+
+export const sceneMetrics = SceneMetricsHistory.getInstance();
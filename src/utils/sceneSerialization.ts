@@ -0,0 +1,477 @@
+import { SpawnedObject, ObjectType, BodyState, WorldSettings, ObjectConstraint, ArenaSettings, GLBCollisionType } from '../types/simulation';
+import { SimulationError, ErrorType } from './errorHandling';
+import { PERFORMANCE_LIMITS } from './performanceOptimization';
+import { isMaterialPresetName } from './physicsMaterials';
+import { isDecompositionQuality } from './convexDecomposition';
+import { isPrimitiveShape } from './primitiveShapes';
+import { isConstraintKind } from './constraints';
+import { DEFAULT_WORLD_SETTINGS, normalizeWorldSettings } from './worldSettings';
+import { isArenaPieceKind, normalizeArena } from './arena';
+import { isHeightmap, TERRAIN_SOURCE_LABELS } from './terrain';
+import { sessionModels } from './sessionModels';
+
+/**
+ * Versioned scene file format for saving and restoring a full simulation
+ */
+
+export const SCENE_FILE_FORMAT = 'physics-simulation-scene';
+export const SCENE_FORMAT_VERSION = 2;
+
+export interface SceneObject {
+  id: string;
+  type: ObjectType;
+  timestamp: number;
+  spawnIndex: number;
+  props: NonNullable<SpawnedObject['props']>;
+  state: BodyState;
+}
+
+export interface SceneFile {
+  format: typeof SCENE_FILE_FORMAT;
+  version: number;
+  savedAt: string;
+  world: WorldSettings;
+  objects: SceneObject[];
+  // Joints between objects; older files have none
+  constraints?: ObjectConstraint[];
+  // Ground and static pieces; older files play on the default ground
+  arena?: ArenaSettings;
+}
+
+export interface LoadedScene {
+  world: WorldSettings;
+  objects: SpawnedObject[];
+  constraints?: ObjectConstraint[];
+  arena?: ArenaSettings;
+  // GLB models left out because their files were linked in an earlier session
+  unavailableModels?: string[];
+}
+
+// A scene file as read, before it is migrated and validated
+export interface SerializedScene {
+  version: number;
+  [field: string]: unknown;
+}
+
+type SceneMigration = (scene: SerializedScene) => SerializedScene;
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+// Each entry upgrades a scene from version N to version N + 1
+export const SCENE_MIGRATIONS: Record<number, SceneMigration> = {
+  // Version 2 added joints, world stepping, the arena with its terrain and spawn order;
+  // version 1 files without them get what they played with
+  1: (scene) => ({
+    ...scene,
+    world: isObject(scene.world)
+      ? {
+        timeScale: DEFAULT_WORLD_SETTINGS.timeScale,
+        fixedTimeStep: DEFAULT_WORLD_SETTINGS.fixedTimeStep,
+        maxSubSteps: DEFAULT_WORLD_SETTINGS.maxSubSteps,
+        ...scene.world
+      }
+      : scene.world,
+    objects: Array.isArray(scene.objects)
+      ? scene.objects.map((entry: unknown, index: number) => isObject(entry) ? { spawnIndex: index + 1, ...entry } : entry)
+      : scene.objects,
+    constraints: scene.constraints ?? [],
+    ...(isObject(scene.arena) && { arena: { terrain: null, ...scene.arena } })
+  })
+};
+
+const isObjectType = (value: unknown): value is ObjectType =>
+  Object.values(ObjectType).includes(value as ObjectType);
+
+const isGLBCollisionType = (value: unknown): value is GLBCollisionType =>
+  typeof value === 'string' && ['box', 'convex', 'decomposed', 'mesh'].includes(value);
+
+// Object URLs of loaded GLB files only last for the session that created them
+const isSessionUrl = (url: unknown): url is string => typeof url === 'string' && url.startsWith('blob:');
+
+// Linked in an earlier session, so its file can no longer be read
+const isUnavailableModel = (obj: SpawnedObject): boolean => {
+  const url = obj.props?.url;
+  return obj.type === ObjectType.GLB_MODEL && isSessionUrl(url) && !sessionModels.has(url);
+};
+
+/**
+ * Ids of the GLB models whose files are not saved in a scene file, so they are left out
+ * when that scene is imported after a reload
+ */
+export const getSessionModelIds = (objects: Array<Pick<SpawnedObject, 'id' | 'type' | 'props'>>): string[] => {
+  return objects
+    .filter(obj => obj.type === ObjectType.GLB_MODEL && isSessionUrl(obj.props?.url))
+    .map(obj => obj.id);
+};
+
+const invalidScene = (reason: string, context?: Record<string, unknown>): SimulationError => {
+  return new SimulationError(ErrorType.SCENE_INVALID_FORMAT, new Error(reason), { reason, ...context });
+};
+
+const isFiniteNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && isFinite(value);
+};
+
+const isVector = (value: unknown, length: number): value is number[] => {
+  return Array.isArray(value) && value.length === length && value.every(isFiniteNumber);
+};
+
+/**
+ * Build a scene file from the current objects, using live body state where available
+ */
+export const serializeScene = (
+  objects: SpawnedObject[],
+  world: WorldSettings,
+  getLiveState: (id: string) => BodyState | null = () => null,
+  constraints: ObjectConstraint[] = [],
+  arena?: ArenaSettings
+): SceneFile => {
+  return {
+    format: SCENE_FILE_FORMAT,
+    version: SCENE_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    world: { ...world, gravity: [...world.gravity] as [number, number, number] },
+    objects: objects.map(obj => ({
+      id: obj.id,
+      type: obj.type,
+      timestamp: obj.timestamp,
+      spawnIndex: obj.spawnIndex,
+      props: { ...obj.props },
+      state: getLiveState(obj.id) || obj.initialState || {
+        position: [...obj.position] as [number, number, number],
+        rotation: [0, 0, 0, 1],
+        linearVelocity: [0, 0, 0],
+        angularVelocity: [0, 0, 0]
+      }
+    })),
+    constraints: constraints.map(constraint => ({ ...constraint })),
+    ...(arena && {
+      arena: {
+        ...arena,
+        pieces: arena.pieces.map(piece => ({ ...piece })),
+        terrain: arena.terrain && { ...arena.terrain }
+      }
+    })
+  };
+};
+
+/**
+ * Upgrade an older scene to the current format version
+ */
+export const migrateScene = (
+  scene: SerializedScene,
+  migrations: Record<number, SceneMigration> = SCENE_MIGRATIONS
+): SerializedScene => {
+  let migrated = scene;
+  while (migrated.version < SCENE_FORMAT_VERSION) {
+    const migrate = migrations[migrated.version];
+    if (!migrate) {
+      throw new SimulationError(ErrorType.SCENE_VERSION_UNSUPPORTED, undefined, { version: migrated.version });
+    }
+    migrated = { ...migrate(migrated), version: migrated.version + 1 };
+  }
+  return migrated;
+};
+
+const validateState = (state: unknown, index: number): BodyState => {
+  if (!isObject(state)) {
+    throw invalidScene('Object is missing its body state', { index });
+  }
+  if (!isVector(state.position, 3) || !isVector(state.rotation, 4) ||
+      !isVector(state.linearVelocity, 3) || !isVector(state.angularVelocity, 3)) {
+    throw invalidScene('Object body state has invalid vectors', { index, state });
+  }
+  return {
+    position: [...state.position] as [number, number, number],
+    rotation: [...state.rotation] as [number, number, number, number],
+    linearVelocity: [...state.linearVelocity] as [number, number, number],
+    angularVelocity: [...state.angularVelocity] as [number, number, number]
+  };
+};
+
+const validateCompoundParts = (parts: unknown, index: number): void => {
+  if (!Array.isArray(parts) || parts.length === 0) {
+    throw invalidScene('Compound parts must be a non-empty array', { index });
+  }
+  parts.forEach((part: unknown, partIndex: number) => {
+    if (!isObject(part) || !isPrimitiveShape(part.shape)) {
+      throw invalidScene('Compound part has an unknown shape', { index, partIndex, shape: isObject(part) ? part.shape : part });
+    }
+    if (!isVector(part.offset, 3)) {
+      throw invalidScene('Compound part offset must be a 3-component vector', { index, partIndex });
+    }
+    for (const field of ['radius', 'height']) {
+      const value = part[field];
+      if (value !== undefined && !(isFiniteNumber(value) && value > 0)) {
+        throw invalidScene(`Compound part ${field} must be a positive number`, { index, partIndex, value });
+      }
+    }
+    if (part.size !== undefined && !isVector(part.size, 3)) {
+      throw invalidScene('Compound part size must be a 3-component vector', { index, partIndex });
+    }
+  });
+};
+
+const validateProps = (props: unknown, type: ObjectType, index: number): NonNullable<SpawnedObject['props']> => {
+  if (props === undefined) return {};
+  if (!isObject(props)) {
+    throw invalidScene('Object props must be an object', { index });
+  }
+
+  const numericFields = ['radius', 'height', 'mass', 'friction', 'restitution', 'linearDamping', 'angularDamping'];
+  for (const field of numericFields) {
+    const value = props[field];
+    if (value !== undefined && !(isFiniteNumber(value) && value >= 0)) {
+      throw invalidScene(`Object ${field} must be a non-negative number`, { index, value });
+    }
+  }
+  for (const field of ['size', 'scale']) {
+    const value = props[field];
+    if (value !== undefined && !isVector(value, 3)) {
+      throw invalidScene(`Object ${field} must be a 3-component vector`, { index, value });
+    }
+  }
+  if (props.color !== undefined && typeof props.color !== 'string') {
+    throw invalidScene('Object color must be a string', { index });
+  }
+  if (props.materialPreset !== undefined && !isMaterialPresetName(props.materialPreset)) {
+    throw invalidScene('Unknown material preset', { index, materialPreset: props.materialPreset });
+  }
+  if (props.collisionType !== undefined && !isGLBCollisionType(props.collisionType)) {
+    throw invalidScene('Unknown GLB collision type', { index, collisionType: props.collisionType });
+  }
+  if (props.collisionType === 'mesh' && props.mass !== undefined && props.mass !== 0) {
+    throw invalidScene('Mesh collision is only supported for static GLB models (mass 0)', { index, mass: props.mass });
+  }
+  if (props.decompositionQuality !== undefined && !isDecompositionQuality(props.decompositionQuality)) {
+    throw invalidScene('Unknown decomposition quality', { index, decompositionQuality: props.decompositionQuality });
+  }
+  if (props.parts !== undefined) {
+    validateCompoundParts(props.parts, index);
+  }
+  if (type === ObjectType.GLB_MODEL && typeof props.url !== 'string') {
+    throw invalidScene('GLB objects need a model url', { index });
+  }
+
+  return { ...props } as NonNullable<SpawnedObject['props']>;
+};
+
+const validateAnchor = (anchor: unknown): boolean => {
+  return isObject(anchor) && isVector(anchor.position, 3) && isVector(anchor.rotation, 4);
+};
+
+const validateConstraints = (constraints: unknown, objectIds: Set<string>): ObjectConstraint[] => {
+  if (constraints === undefined) return [];
+  if (!Array.isArray(constraints)) {
+    throw invalidScene('Scene constraints must be an array');
+  }
+
+  const seenIds = new Set<string>();
+  const isSceneObject = (id: unknown): boolean => typeof id === 'string' && objectIds.has(id);
+  return constraints.map((entry: unknown, index: number) => {
+    if (!isObject(entry)) {
+      throw invalidScene('Scene constraint must be an object', { constraintIndex: index });
+    }
+    if (typeof entry.id !== 'string' || entry.id.length === 0 || seenIds.has(entry.id)) {
+      throw invalidScene('Constraint ids must be unique non-empty strings', { constraintIndex: index, id: entry.id });
+    }
+    seenIds.add(entry.id);
+
+    if (!isConstraintKind(entry.type)) {
+      throw invalidScene('Unknown constraint type', { constraintIndex: index, type: entry.type });
+    }
+    if (!isSceneObject(entry.bodyA) || !isSceneObject(entry.bodyB) || entry.bodyA === entry.bodyB) {
+      throw invalidScene('Constraint must link two different objects in the scene', {
+        constraintIndex: index,
+        bodyA: entry.bodyA,
+        bodyB: entry.bodyB
+      });
+    }
+    if (!validateAnchor(entry.anchorA) || !validateAnchor(entry.anchorB)) {
+      throw invalidScene('Constraint anchors need a position and a rotation', { constraintIndex: index });
+    }
+    const limits = entry.limits;
+    if (limits !== undefined && !(
+      isObject(limits) && isFiniteNumber(limits.lower) && isFiniteNumber(limits.upper) && limits.lower <= limits.upper
+    )) {
+      throw invalidScene('Constraint limits must be an ordered pair of numbers', { constraintIndex: index, limits });
+    }
+    const spring = entry.spring;
+    if (entry.type === 'spring' && !(
+      isObject(spring) && isFiniteNumber(spring.stiffness) && spring.stiffness > 0 &&
+      isFiniteNumber(spring.damping) && spring.damping >= 0 &&
+      isFiniteNumber(spring.restLength) && spring.restLength >= 0
+    )) {
+      throw invalidScene('Spring constraints need a positive stiffness, damping and rest length', { constraintIndex: index });
+    }
+
+    return { ...entry } as unknown as ObjectConstraint;
+  });
+};
+
+const validateWorld = (world: unknown): WorldSettings => {
+  if (!isObject(world) || !isVector(world.gravity, 3)) {
+    throw invalidScene('World settings must include a gravity vector', { world });
+  }
+  // Time scale and stepping were added later; files without them get the defaults
+  for (const field of ['timeScale', 'fixedTimeStep', 'maxSubSteps']) {
+    const value = world[field];
+    if (value !== undefined && !(isFiniteNumber(value) && value > 0)) {
+      throw invalidScene(`World ${field} must be a positive number`, { value });
+    }
+  }
+  return normalizeWorldSettings({
+    gravity: [...world.gravity] as [number, number, number],
+    timeScale: world.timeScale as number | undefined,
+    fixedTimeStep: world.fixedTimeStep as number | undefined,
+    maxSubSteps: world.maxSubSteps as number | undefined
+  });
+};
+
+const validateArena = (arena: unknown): ArenaSettings | undefined => {
+  if (arena === undefined) return undefined;
+  if (!isObject(arena)) {
+    throw invalidScene('Scene arena must be an object');
+  }
+  if (!(isFiniteNumber(arena.groundSize) && arena.groundSize > 0)) {
+    throw invalidScene('Arena ground size must be a positive number', { value: arena.groundSize });
+  }
+  if (arena.groundMaterial !== null && arena.groundMaterial !== undefined && !isMaterialPresetName(arena.groundMaterial)) {
+    throw invalidScene('Unknown arena ground material', { groundMaterial: arena.groundMaterial });
+  }
+  if (!Array.isArray(arena.pieces)) {
+    throw invalidScene('Arena pieces must be an array');
+  }
+
+  const seenIds = new Set<string>();
+  arena.pieces.forEach((piece: unknown, pieceIndex: number) => {
+    if (!isObject(piece) || !isArenaPieceKind(piece.kind)) {
+      throw invalidScene('Arena piece has an unknown kind', { pieceIndex, kind: isObject(piece) ? piece.kind : piece });
+    }
+    if (typeof piece.id !== 'string' || piece.id.length === 0 || seenIds.has(piece.id)) {
+      throw invalidScene('Arena piece ids must be unique non-empty strings', { pieceIndex, id: piece.id });
+    }
+    seenIds.add(piece.id);
+    for (const field of ['angle', 'heading']) {
+      const value = piece[field];
+      if (value !== undefined && !isFiniteNumber(value)) {
+        throw invalidScene(`Arena piece ${field} must be a number`, { pieceIndex, value });
+      }
+    }
+  });
+
+  // Arenas saved before terrain existed are flat
+  const terrain = arena.terrain ?? null;
+  if (terrain !== null) {
+    if (!isObject(terrain) || typeof terrain.source !== 'string' ||
+        !Object.prototype.hasOwnProperty.call(TERRAIN_SOURCE_LABELS, terrain.source)) {
+      throw invalidScene('Arena terrain has an unknown source', { source: isObject(terrain) ? terrain.source : terrain });
+    }
+    for (const field of ['seed', 'resolution', 'amplitude', 'extent']) {
+      const value = terrain[field];
+      if (!isFiniteNumber(value)) {
+        throw invalidScene(`Arena terrain ${field} must be a number`, { value });
+      }
+    }
+    if (terrain.heightmap != null && !isHeightmap(terrain.heightmap)) {
+      throw invalidScene('Arena terrain heightmap must be a square grid of heights from 0 to 1');
+    }
+    if (terrain.source === 'image' && !terrain.heightmap) {
+      throw invalidScene('Heightmap terrain needs its heightmap');
+    }
+  }
+
+  // Sizes and angles outside the supported ranges are clamped rather than rejected
+  return normalizeArena({ ...arena, groundMaterial: arena.groundMaterial ?? null, terrain } as Partial<ArenaSettings>);
+};
+
+/**
+ * Parse and validate a scene file, migrating it to the current version
+ */
+export const parseScene = (json: string): LoadedScene => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err) {
+    throw new SimulationError(
+      ErrorType.SCENE_INVALID_FORMAT,
+      err instanceof Error ? err : new Error('Scene is not valid JSON'),
+      { reason: 'Scene is not valid JSON' }
+    );
+  }
+
+  if (!isObject(raw) || raw.format !== SCENE_FILE_FORMAT) {
+    throw invalidScene('File is not a physics simulation scene');
+  }
+  const version = raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw invalidScene('Scene version is missing or invalid', { version });
+  }
+  if (version > SCENE_FORMAT_VERSION) {
+    throw new SimulationError(ErrorType.SCENE_VERSION_UNSUPPORTED, undefined, {
+      version,
+      supportedVersion: SCENE_FORMAT_VERSION
+    });
+  }
+
+  const scene = migrateScene({ ...raw, version });
+
+  if (!Array.isArray(scene.objects)) {
+    throw invalidScene('Scene objects must be an array');
+  }
+  if (scene.objects.length > PERFORMANCE_LIMITS.MAX_OBJECTS) {
+    throw invalidScene('Scene has more objects than the simulation allows', {
+      objectCount: scene.objects.length,
+      maxObjects: PERFORMANCE_LIMITS.MAX_OBJECTS
+    });
+  }
+
+  const world = validateWorld(scene.world);
+  const seenIds = new Set<string>();
+
+  const objects: SpawnedObject[] = scene.objects.map((entry: unknown, index: number) => {
+    if (!isObject(entry)) {
+      throw invalidScene('Scene object must be an object', { index });
+    }
+    if (typeof entry.id !== 'string' || entry.id.length === 0 || seenIds.has(entry.id)) {
+      throw invalidScene('Scene object ids must be unique non-empty strings', { index, id: entry.id });
+    }
+    seenIds.add(entry.id);
+
+    if (!isObjectType(entry.type)) {
+      throw invalidScene('Unknown object type', { index, type: entry.type });
+    }
+
+    const state = validateState(entry.state, index);
+    return {
+      id: entry.id,
+      type: entry.type,
+      position: [...state.position] as [number, number, number],
+      timestamp: isFiniteNumber(entry.timestamp) ? entry.timestamp : Date.now(),
+      // Files saved before spawn indexes existed list objects in spawn order
+      spawnIndex: isFiniteNumber(entry.spawnIndex) ? entry.spawnIndex : index + 1,
+      props: validateProps(entry.props, entry.type, index),
+      initialState: state
+    };
+  });
+
+  const constraints = validateConstraints(scene.constraints, seenIds);
+  const arena = validateArena(scene.arena);
+
+  // Models from an earlier session cannot be loaded; the rest of the scene still can
+  const unavailableModels = objects.filter(isUnavailableModel).map(obj => obj.id);
+  if (unavailableModels.length === 0) {
+    return { world, objects, constraints, ...(arena && { arena }) };
+  }
+
+  const unavailable = new Set(unavailableModels);
+  return {
+    world,
+    objects: objects.filter(obj => !unavailable.has(obj.id)),
+    constraints: constraints.filter(constraint => !unavailable.has(constraint.bodyA) && !unavailable.has(constraint.bodyB)),
+    ...(arena && { arena }),
+    unavailableModels
+  };
+};
@@ -0,0 +1,28 @@
+// Object URLs of the GLB files loaded in this session (see GLBLoader). Scene files link
+// models by these URLs, which stop resolving once the page is reloaded, so an imported
+// scene can only use the ones still listed here.
+export class SessionModelRegistry {
+  private static instance: SessionModelRegistry;
+  private urls = new Set<string>();
+
+  static getInstance(): SessionModelRegistry {
+    if (!SessionModelRegistry.instance) {
+      SessionModelRegistry.instance = new SessionModelRegistry();
+    }
+    return SessionModelRegistry.instance;
+  }
+
+  register(url: string) {
+    this.urls.add(url);
+  }
+
+  has(url: string): boolean {
+    return this.urls.has(url);
+  }
+
+  clear() {
+    this.urls.clear();
+  }
+}
+
+export const sessionModels = SessionModelRegistry.getInstance();
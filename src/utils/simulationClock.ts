@@ -0,0 +1,50 @@
+// Simulated time of the current run, counted in fixed physics steps.
+// The physics worker only reports a running substep counter (see BodyStateTracker),
+// and restarts it whenever the world is rebuilt, so the totals are kept here.
+
+export interface SimulationClockSnapshot {
+  steps: number;
+  // Simulated seconds; steps may differ in length when the step rate changes mid-run
+  time: number;
+}
+
+// Real seconds per physics step while stepping a paused simulation: slow enough that
+// stepping stops on the requested step, fast enough for a few hundred steps
+export const FRAME_STEP_INTERVAL = 0.05;
+
+export const MAX_FRAME_STEPS = 600;
+
+/**
+ * Simulation speed that runs one fixed step every FRAME_STEP_INTERVAL real seconds
+ */
+export const getFrameStepSpeed = (fixedTimeStep: number): number => fixedTimeStep / FRAME_STEP_INTERVAL;
+
+export class SimulationClock {
+  private static instance: SimulationClock;
+  private steps = 0;
+  private time = 0;
+
+  static getInstance(): SimulationClock {
+    if (!SimulationClock.instance) {
+      SimulationClock.instance = new SimulationClock();
+    }
+    return SimulationClock.instance;
+  }
+
+  advance(steps: number, fixedTimeStep: number) {
+    if (!(steps > 0) || !(fixedTimeStep > 0)) return;
+    this.steps += steps;
+    this.time += steps * fixedTimeStep;
+  }
+
+  reset() {
+    this.steps = 0;
+    this.time = 0;
+  }
+
+  getSnapshot(): SimulationClockSnapshot {
+    return { steps: this.steps, time: this.time };
+  }
+}
+
+export const simulationClock = SimulationClock.getInstance();
@@ -0,0 +1,154 @@
+// Spawn positions for the placement modes. Objects spawn upright, so their lowest point is
+// half their height below the spawn position; every mode drops objects from a little
+// above whatever they land on, terrain included.
+import { Box3, Object3D, Vector3 } from 'three';
+import { ObjectType, PlacementMode, PrimitiveShape, SpawnedObject, TerrainSettings } from '../types/simulation';
+import {
+  DEFAULT_COMPOUND_PARTS,
+  getCompoundLocalOffsets,
+  getObjectPrimitiveShape,
+  normalizeDimensions,
+  PrimitiveDimensions
+} from './primitiveShapes';
+import { getTerrainTop } from './terrain';
+
+export type PatternPlacementMode = Extract<PlacementMode, 'grid' | 'stack' | 'ring'>;
+
+export const PLACEMENT_MODES: PlacementMode[] = ['random', 'cursor', 'grid', 'stack', 'ring'];
+
+export const PLACEMENT_LABELS: Record<PlacementMode, string> = {
+  random: 'Random',
+  cursor: 'At cursor',
+  grid: 'Grid',
+  stack: 'Stack / tower',
+  ring: 'Ring'
+};
+
+export const PLACEMENT_LAYOUT = {
+  // Clearance between an object's lowest point and the surface below it
+  DROP_GAP: 0.5,
+  GRID_SPACING: 1.5,
+  GRID_COLUMNS: 5,
+  RING_RADIUS: 3,
+  RING_SLOTS: 8,
+  // Tower gap is small so blocks settle onto each other instead of falling
+  STACK_GAP: 0.05,
+  // Bodies this close to the tower axis count as part of the tower
+  STACK_RADIUS: 0.75,
+  // Space between an object and its duplicate
+  DUPLICATE_GAP: 0.25
+} as const;
+
+export const isPatternPlacement = (mode: PlacementMode): mode is PatternPlacementMode =>
+  mode === 'grid' || mode === 'stack' || mode === 'ring';
+
+const getPrimitiveHalfExtents = (shape: PrimitiveShape, dims: PrimitiveDimensions = {}): [number, number, number] => {
+  const { radius, height, size } = normalizeDimensions(shape, dims);
+  switch (shape) {
+    case 'ball':
+      return [radius, radius, radius];
+    case 'box':
+      return [size[0] / 2, size[1] / 2, size[2] / 2];
+    default:
+      // Capsule heights include the caps, unlike their collision shapes
+      return [radius, height / 2, radius];
+  }
+};
+
+/**
+ * Half extents of an object as spawned, from its props and the spawn defaults. GLB models
+ * are not loaded yet, so they are assumed to be a unit cube at their scale.
+ */
+export const getSpawnHalfExtents = (type: ObjectType, props: SpawnedObject['props'] = {}): [number, number, number] => {
+  const shape = getObjectPrimitiveShape(type);
+  if (shape) return getPrimitiveHalfExtents(shape, props);
+
+  if (type === ObjectType.COMPOUND) {
+    const parts = props.parts?.length ? props.parts : DEFAULT_COMPOUND_PARTS;
+    const offsets = getCompoundLocalOffsets(parts);
+    const extents: [number, number, number] = [0, 0, 0];
+    parts.forEach((part, index) => {
+      const half = getPrimitiveHalfExtents(part.shape, part);
+      for (let axis = 0; axis < 3; axis++) {
+        extents[axis] = Math.max(extents[axis], Math.abs(offsets[index][axis]) + half[axis]);
+      }
+    });
+    return extents;
+  }
+
+  const scale = props.scale ?? [1, 1, 1];
+  return [scale[0] / 2, scale[1] / 2, scale[2] / 2];
+};
+
+/**
+ * Drop point above a surface point picked with the cursor
+ */
+export const getCursorSpawnPosition = (
+  point: [number, number, number],
+  halfExtents: [number, number, number]
+): [number, number, number] => [point[0], point[1] + halfExtents[1] + PLACEMENT_LAYOUT.DROP_GAP, point[2]];
+
+/**
+ * Spot beside an object for its duplicate, two bounding radii along x so the two cannot
+ * overlap however the object is turned
+ */
+export const getDuplicatePosition = (
+  position: [number, number, number],
+  halfExtents: [number, number, number]
+): [number, number, number] => [
+  position[0] + Math.hypot(...halfExtents) * 2 + PLACEMENT_LAYOUT.DUPLICATE_GAP,
+  position[1],
+  position[2]
+];
+
+/**
+ * Height of the top of the tower at the origin, or of the ground when there is none
+ */
+export const getTowerTop = (bodies: Object3D[], groundTop: number = 0): number => {
+  const bounds = new Box3();
+  const center = new Vector3();
+  return bodies.reduce((top, object3D) => {
+    bounds.setFromObject(object3D);
+    if (bounds.isEmpty()) return top;
+    bounds.getCenter(center);
+    return Math.hypot(center.x, center.z) <= PLACEMENT_LAYOUT.STACK_RADIUS ? Math.max(top, bounds.max.y) : top;
+  }, groundTop);
+};
+
+/**
+ * Position of the given slot of a layout. Grids and rings fill a layer on the ground (or
+ * the terrain under each slot) and then start a new one above it; a tower goes on top of
+ * whatever is stacked at the origin.
+ */
+export const getPatternPosition = (
+  mode: PatternPlacementMode,
+  slot: number,
+  halfExtents: [number, number, number],
+  bodies: Object3D[] = [],
+  terrain: TerrainSettings | null = null
+): [number, number, number] => {
+  const { DROP_GAP, GRID_SPACING, GRID_COLUMNS, RING_RADIUS, RING_SLOTS, STACK_GAP, STACK_RADIUS } = PLACEMENT_LAYOUT;
+  const footprint = Math.max(halfExtents[0], halfExtents[2]);
+  const dropHeight = (x: number, z: number) => getTerrainTop(terrain, x, z, footprint) + halfExtents[1] + DROP_GAP;
+
+  if (mode === 'stack') {
+    const groundTop = getTerrainTop(terrain, 0, 0, Math.max(footprint, STACK_RADIUS));
+    return [0, getTowerTop(bodies, groundTop) + halfExtents[1] + STACK_GAP, 0];
+  }
+
+  if (mode === 'ring') {
+    const layer = Math.floor(slot / RING_SLOTS);
+    const angle = ((slot % RING_SLOTS) / RING_SLOTS) * Math.PI * 2;
+    const x = RING_RADIUS * Math.cos(angle);
+    const z = RING_RADIUS * Math.sin(angle);
+    return [x, dropHeight(x, z) + layer * GRID_SPACING, z];
+  }
+
+  const perLayer = GRID_COLUMNS * GRID_COLUMNS;
+  const layer = Math.floor(slot / perLayer);
+  const cell = slot % perLayer;
+  const middle = (GRID_COLUMNS - 1) / 2;
+  const x = ((cell % GRID_COLUMNS) - middle) * GRID_SPACING;
+  const z = (Math.floor(cell / GRID_COLUMNS) - middle) * GRID_SPACING;
+  return [x, dropHeight(x, z) + layer * GRID_SPACING, z];
+};
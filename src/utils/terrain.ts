@@ -0,0 +1,215 @@
+// Heightfield terrain over the ground, from seeded value noise or a grayscale heightmap.
+// Heights are kept as rows along z of samples along x, the layout Bullet's heightfield
+// shape reads, so the same grid drives both the collision shape and the mesh.
+import { Heightmap, TerrainSettings, TerrainSource } from '../types/simulation';
+import { SeededRandom } from './random';
+
+export const TERRAIN_LIMITS = {
+  MIN_RESOLUTION: 9,
+  MAX_RESOLUTION: 129,
+  MIN_AMPLITUDE: 0.5,
+  MAX_AMPLITUDE: 10,
+  // The terrain never reaches past the ground (see normalizeTerrain)
+  MIN_EXTENT: 10,
+  MAX_EXTENT: 60,
+  // Heightmaps are stored at most this many samples a side, which keeps scene files small
+  HEIGHTMAP_SIZE: 65
+} as const;
+
+// Octaves of value noise summed for the procedural terrain
+export const TERRAIN_NOISE = {
+  OCTAVES: 4,
+  // Lattice cells across the terrain in the first octave; each octave doubles them
+  BASE_CELLS: 3,
+  // Weight of each octave relative to the previous one
+  PERSISTENCE: 0.5
+} as const;
+
+export const DEFAULT_TERRAIN: TerrainSettings = {
+  source: 'noise',
+  seed: 1,
+  resolution: 33,
+  amplitude: 3,
+  extent: 20,
+  heightmap: null
+};
+
+export const TERRAIN_SOURCE_LABELS: Record<TerrainSource, string> = {
+  noise: 'Noise',
+  image: 'Heightmap'
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+// Value of a width × height grid at fractional coordinates, bilinearly interpolated
+const sampleGrid = (values: ArrayLike<number>, width: number, height: number, x: number, y: number): number => {
+  const x0 = clamp(Math.floor(x), 0, width - 1);
+  const y0 = clamp(Math.floor(y), 0, height - 1);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const tx = x - x0;
+  const ty = y - y0;
+  const top = values[y0 * width + x0] * (1 - tx) + values[y0 * width + x1] * tx;
+  const bottom = values[y1 * width + x0] * (1 - tx) + values[y1 * width + x1] * tx;
+  return top * (1 - ty) + bottom * ty;
+};
+
+// Stretch values to span 0 to 1; a flat grid stays at 0
+const normalizeHeights = (values: number[]): number[] => {
+  const min = Math.min(...values);
+  const span = Math.max(...values) - min;
+  return values.map(value => span > 0 ? (value - min) / span : 0);
+};
+
+/**
+ * Fractal value noise over a resolution × resolution grid, scaled to span 0 to 1. The
+ * same seed always gives the same terrain.
+ */
+export const generateNoiseHeights = (seed: number, resolution: number): number[] => {
+  const rng = new SeededRandom(seed);
+  const heights = new Array<number>(resolution * resolution).fill(0);
+
+  for (let octave = 0; octave < TERRAIN_NOISE.OCTAVES; octave++) {
+    const cells = TERRAIN_NOISE.BASE_CELLS * 2 ** octave;
+    const weight = TERRAIN_NOISE.PERSISTENCE ** octave;
+    const lattice = Array.from({ length: (cells + 1) * (cells + 1) }, () => rng.next());
+
+    for (let row = 0; row < resolution; row++) {
+      for (let col = 0; col < resolution; col++) {
+        const x = (col / (resolution - 1)) * cells;
+        const y = (row / (resolution - 1)) * cells;
+        const x0 = Math.min(cells - 1, Math.floor(x));
+        const y0 = Math.min(cells - 1, Math.floor(y));
+        // Eased between lattice points so the slopes have no creases
+        heights[row * resolution + col] += weight * sampleGrid(lattice, cells + 1, cells + 1, x0 + smoothstep(x - x0), y0 + smoothstep(y - y0));
+      }
+    }
+  }
+
+  return normalizeHeights(heights);
+};
+
+/**
+ * Heightmap from RGBA pixels, using their brightness. Non-square images are stretched
+ * to a square and large ones are scaled down to at most HEIGHTMAP_SIZE samples a side.
+ */
+export const createHeightmap = (name: string, pixels: ArrayLike<number>, width: number, height: number): Heightmap => {
+  const brightness = Array.from({ length: width * height }, (_, index) =>
+    (0.299 * pixels[index * 4] + 0.587 * pixels[index * 4 + 1] + 0.114 * pixels[index * 4 + 2]) / 255
+  );
+  const size = clamp(Math.min(width, height), 2, TERRAIN_LIMITS.HEIGHTMAP_SIZE);
+
+  const values: number[] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const value = sampleGrid(brightness, width, height, (col / (size - 1)) * (width - 1), (row / (size - 1)) * (height - 1));
+      // Three decimals is finer than 8-bit gray and keeps saved scenes readable
+      values.push(Math.round(value * 1000) / 1000);
+    }
+  }
+  return { name, size, values };
+};
+
+export const isHeightmap = (value: unknown): value is Heightmap => {
+  if (!value || typeof value !== 'object') return false;
+  const { name, size, values } = value as Partial<Record<keyof Heightmap, unknown>>;
+  return typeof name === 'string' &&
+    typeof size === 'number' && Number.isInteger(size) && size >= 2 && size <= TERRAIN_LIMITS.HEIGHTMAP_SIZE &&
+    Array.isArray(values) && values.length === size * size &&
+    values.every((height: unknown) => isFiniteNumber(height) && height >= 0 && height <= 1);
+};
+
+/**
+ * Terrain settings with every field in range and no wider than the ground. Image terrain
+ * without a heightmap falls back to noise.
+ */
+export const normalizeTerrain = (
+  terrain: Partial<TerrainSettings>,
+  groundSize: number,
+  fallback: TerrainSettings = DEFAULT_TERRAIN
+): TerrainSettings => {
+  const heightmap = isHeightmap(terrain.heightmap) ? terrain.heightmap : null;
+  const maxExtent = Math.min(TERRAIN_LIMITS.MAX_EXTENT, groundSize);
+  return {
+    source: terrain.source === 'image' && heightmap ? 'image' : 'noise',
+    seed: isFiniteNumber(terrain.seed) ? Math.floor(Math.abs(terrain.seed)) >>> 0 : fallback.seed,
+    resolution: isFiniteNumber(terrain.resolution)
+      ? Math.round(clamp(terrain.resolution, TERRAIN_LIMITS.MIN_RESOLUTION, TERRAIN_LIMITS.MAX_RESOLUTION))
+      : fallback.resolution,
+    amplitude: clamp(
+      isFiniteNumber(terrain.amplitude) ? terrain.amplitude : fallback.amplitude,
+      TERRAIN_LIMITS.MIN_AMPLITUDE,
+      TERRAIN_LIMITS.MAX_AMPLITUDE
+    ),
+    extent: clamp(isFiniteNumber(terrain.extent) ? terrain.extent : fallback.extent, TERRAIN_LIMITS.MIN_EXTENT, maxExtent),
+    heightmap
+  };
+};
+
+/**
+ * Terrain heights in metres, as `resolution` rows along z of `resolution` samples along x
+ */
+export const getTerrainHeights = (terrain: TerrainSettings): number[][] => {
+  const { resolution, amplitude, heightmap } = terrain;
+  const normalized = terrain.source === 'image' && heightmap
+    ? Array.from({ length: resolution * resolution }, (_, index) => {
+      const scale = (heightmap.size - 1) / (resolution - 1);
+      return sampleGrid(heightmap.values, heightmap.size, heightmap.size, (index % resolution) * scale, Math.floor(index / resolution) * scale);
+    })
+    : generateNoiseHeights(terrain.seed, resolution);
+
+  return Array.from({ length: resolution }, (_, row) =>
+    normalized.slice(row * resolution, (row + 1) * resolution).map(value => value * amplitude)
+  );
+};
+
+// Distance between neighbouring height samples
+export const getTerrainSpacing = (terrain: TerrainSettings): number => terrain.extent / (terrain.resolution - 1);
+
+// Heights of each terrain, so lookups every frame (e.g. the spawn ghost) do not regenerate them
+const heightCache = new WeakMap<TerrainSettings, number[][]>();
+
+/**
+ * Highest point of the terrain under a square footprint centred on (x, z), or 0 (the top
+ * of the ground) where there is none. Every cell the footprint touches counts in full, so
+ * the result is never below the surface.
+ */
+export const getTerrainTop = (terrain: TerrainSettings | null, x: number, z: number, halfWidth: number = 0): number => {
+  if (!terrain) return 0;
+  const half = terrain.extent / 2;
+  if (Math.abs(x) - halfWidth > half || Math.abs(z) - halfWidth > half) return 0;
+
+  let heights = heightCache.get(terrain);
+  if (!heights) {
+    heights = getTerrainHeights(terrain);
+    heightCache.set(terrain, heights);
+  }
+  // Rows and columns start at -extent / 2 along z and x, like the mesh (see Arena)
+  const spacing = getTerrainSpacing(terrain);
+  const last = terrain.resolution - 1;
+  const firstIndex = (value: number) => clamp(Math.floor((value - halfWidth + half) / spacing), 0, last);
+  const lastIndex = (value: number) => clamp(Math.ceil((value + halfWidth + half) / spacing), 0, last);
+
+  let top = 0;
+  for (let row = firstIndex(z); row <= lastIndex(z); row++) {
+    for (let col = firstIndex(x); col <= lastIndex(x); col++) {
+      top = Math.max(top, heights[row][col]);
+    }
+  }
+  return top;
+};
+
+/**
+ * Changes whenever the terrain's shape does, so its static body can be remounted
+ */
+export const getTerrainKey = (terrain: TerrainSettings): string => {
+  const { source, seed, resolution, amplitude, extent, heightmap } = terrain;
+  const image = source === 'image' && heightmap
+    ? `${heightmap.name}:${heightmap.values.reduce((sum, value, index) => (sum + value * (index + 1)) % 1e9, 0).toFixed(3)}`
+    : seed;
+  return `${source}-${image}-${resolution}-${amplitude}-${extent}`;
+};
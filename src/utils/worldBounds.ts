@@ -0,0 +1,107 @@
+// World bounds: a box around the scene that bodies are kept inside. Bodies that leave it
+// are despawned, respawned above the origin or wrapped to the opposite side, so objects
+// that roll off the ground stop taking simulation time and object slots (see BoundsCuller).
+// Wrapping only applies to the sides: a body that falls through the floor would come back
+// at the ceiling and fall again, faster each time, so leaving vertically despawns it.
+import { BoundsPolicy, WorldBounds } from '../types/simulation';
+import { GROUND, GroundBox } from './ground';
+
+export const BOUNDS_LIMITS = {
+  // The bounds never cut into the ground; a larger arena ground raises this (see clampWorldBounds)
+  MIN_HALF_WIDTH: GROUND.halfExtents[0],
+  MAX_HALF_WIDTH: 100,
+  MIN_FLOOR: -100,
+  MAX_FLOOR: GROUND.position[1] - GROUND.halfExtents[1] - 1,
+  MIN_CEILING: 10,
+  MAX_CEILING: 1000,
+  // Respawned bodies drop from this far above the surface at the origin, stacked apart
+  // when several leave at once
+  RESPAWN_HEIGHT: 6,
+  RESPAWN_SPACING: 2,
+  // Half width of the patch of terrain around the origin that respawns clear
+  RESPAWN_CLEARANCE: 1,
+  // Real seconds between despawn batches, and during which a moved body is not checked
+  // again while the worker catches up with its new position
+  BATCH_INTERVAL: 0.25
+} as const;
+
+export const DEFAULT_WORLD_BOUNDS: WorldBounds = {
+  policy: 'despawn',
+  halfWidth: 25,
+  floor: -20,
+  ceiling: 200
+};
+
+export const BOUNDS_POLICY_LABELS: Record<BoundsPolicy, string> = {
+  off: 'Off',
+  despawn: 'Despawn',
+  respawn: 'Respawn at origin',
+  wrap: 'Wrap around sides'
+};
+
+export type BoundsAction =
+  | { type: 'despawn' }
+  // Move the whole object by an offset; stop also cancels its motion
+  | { type: 'move'; offset: [number, number, number]; stop: boolean };
+
+const clamp = (value: number, min: number, max: number, fallback: number) =>
+  isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+// Smallest half width that keeps the whole ground inside the bounds
+export const getMinBoundsHalfWidth = (ground: GroundBox = GROUND): number =>
+  Math.max(BOUNDS_LIMITS.MIN_HALF_WIDTH, ground.halfExtents[0], ground.halfExtents[2]);
+
+export const clampWorldBounds = (bounds: WorldBounds, ground: GroundBox = GROUND): WorldBounds => ({
+  ...bounds,
+  halfWidth: clamp(bounds.halfWidth, getMinBoundsHalfWidth(ground), BOUNDS_LIMITS.MAX_HALF_WIDTH, DEFAULT_WORLD_BOUNDS.halfWidth),
+  floor: clamp(bounds.floor, BOUNDS_LIMITS.MIN_FLOOR, BOUNDS_LIMITS.MAX_FLOOR, DEFAULT_WORLD_BOUNDS.floor),
+  ceiling: clamp(bounds.ceiling, BOUNDS_LIMITS.MIN_CEILING, BOUNDS_LIMITS.MAX_CEILING, DEFAULT_WORLD_BOUNDS.ceiling)
+});
+
+export const isOutOfBounds = (position: [number, number, number], bounds: WorldBounds): boolean =>
+  Math.abs(position[0]) > bounds.halfWidth ||
+  Math.abs(position[2]) > bounds.halfWidth ||
+  position[1] < bounds.floor ||
+  position[1] > bounds.ceiling;
+
+// Bring a coordinate that left [min, max] back in from the opposite side
+const wrap = (value: number, min: number, max: number): number => {
+  const span = max - min;
+  if (value < min) return value + span * Math.ceil((min - value) / span);
+  if (value > max) return value - span * Math.ceil((value - max) / span);
+  return value;
+};
+
+/**
+ * What to do with a body at the given position, or null while it is inside the bounds.
+ * `respawned` counts the bodies already respawned in this batch, so they do not land on
+ * top of each other; `surfaceHeight` is the top of the ground or terrain at the origin.
+ */
+export const getBoundsAction = (
+  position: [number, number, number],
+  bounds: WorldBounds,
+  respawned: number = 0,
+  surfaceHeight: number = 0
+): BoundsAction | null => {
+  if (bounds.policy === 'off' || !isOutOfBounds(position, bounds)) return null;
+
+  if (bounds.policy === 'despawn') return { type: 'despawn' };
+
+  if (bounds.policy === 'respawn') {
+    const target: [number, number, number] = [
+      0,
+      surfaceHeight + BOUNDS_LIMITS.RESPAWN_HEIGHT + respawned * BOUNDS_LIMITS.RESPAWN_SPACING,
+      0
+    ];
+    return { type: 'move', offset: [target[0] - position[0], target[1] - position[1], target[2] - position[2]], stop: true };
+  }
+
+  if (position[1] < bounds.floor || position[1] > bounds.ceiling) return { type: 'despawn' };
+
+  const { halfWidth } = bounds;
+  return {
+    type: 'move',
+    offset: [wrap(position[0], -halfWidth, halfWidth) - position[0], 0, wrap(position[2], -halfWidth, halfWidth) - position[2]],
+    stop: false
+  };
+};
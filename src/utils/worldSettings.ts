@@ -0,0 +1,83 @@
+// Gravity, time scale and stepping of the physics world.
+// use-ammojs only reads gravity and stepping when the world is created, so changing
+// them means rebuilding the world; the time scale is forwarded to the worker live.
+import { GravityPresetName, WorldSettings } from '../types/simulation';
+
+export interface GravityPreset {
+  label: string;
+  gravity: [number, number, number];
+}
+
+export const GRAVITY_PRESETS: Record<GravityPresetName, GravityPreset> = {
+  earth: { label: 'Earth', gravity: [0, -9.81, 0] },
+  moon: { label: 'Moon', gravity: [0, -1.62, 0] },
+  mars: { label: 'Mars', gravity: [0, -3.71, 0] },
+  zeroG: { label: 'Zero-g', gravity: [0, 0, 0] }
+};
+
+// Matches the use-ammojs defaults, so a fresh world steps as it did before these settings existed
+export const DEFAULT_WORLD_SETTINGS: WorldSettings = {
+  gravity: [...GRAVITY_PRESETS.earth.gravity],
+  timeScale: 1,
+  fixedTimeStep: 1 / 60,
+  maxSubSteps: 4
+};
+
+export const WORLD_LIMITS = {
+  // Per-axis gravity in m/s²
+  MAX_GRAVITY: 100,
+  MIN_TIME_SCALE: 0.1,
+  MAX_TIME_SCALE: 4,
+  MAX_SUB_STEPS: 10
+} as const;
+
+// Step rates offered in the world settings, in Hz
+export const STEP_RATES = [30, 60, 120, 240] as const;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Settings with every field in range; invalid fields fall back to the current value
+ */
+export const normalizeWorldSettings = (
+  settings: Partial<WorldSettings>,
+  fallback: WorldSettings = DEFAULT_WORLD_SETTINGS
+): WorldSettings => {
+  const gravity = Array.isArray(settings.gravity) && settings.gravity.length === 3 && settings.gravity.every(isFiniteNumber)
+    ? settings.gravity.map(value => clamp(value, -WORLD_LIMITS.MAX_GRAVITY, WORLD_LIMITS.MAX_GRAVITY)) as [number, number, number]
+    : [...fallback.gravity] as [number, number, number];
+
+  const minTimeStep = 1 / STEP_RATES[STEP_RATES.length - 1];
+  const maxTimeStep = 1 / STEP_RATES[0];
+
+  return {
+    gravity,
+    timeScale: isFiniteNumber(settings.timeScale)
+      ? clamp(settings.timeScale, WORLD_LIMITS.MIN_TIME_SCALE, WORLD_LIMITS.MAX_TIME_SCALE)
+      : fallback.timeScale,
+    fixedTimeStep: isFiniteNumber(settings.fixedTimeStep)
+      ? clamp(settings.fixedTimeStep, minTimeStep, maxTimeStep)
+      : fallback.fixedTimeStep,
+    maxSubSteps: isFiniteNumber(settings.maxSubSteps)
+      ? clamp(Math.round(settings.maxSubSteps), 1, WORLD_LIMITS.MAX_SUB_STEPS)
+      : fallback.maxSubSteps
+  };
+};
+
+/**
+ * Whether going from one set of settings to the other needs the physics world rebuilt
+ */
+export const requiresWorldRebuild = (current: WorldSettings, next: WorldSettings): boolean =>
+  next.fixedTimeStep !== current.fixedTimeStep ||
+  next.maxSubSteps !== current.maxSubSteps ||
+  next.gravity.some((value, axis) => value !== current.gravity[axis]);
+
+/**
+ * The preset a gravity vector matches, if any
+ */
+export const getGravityPresetName = (gravity: [number, number, number]): GravityPresetName | null => {
+  const names = Object.keys(GRAVITY_PRESETS) as GravityPresetName[];
+  return names.find(name => GRAVITY_PRESETS[name].gravity.every((value, axis) => value === gravity[axis])) ?? null;
+};
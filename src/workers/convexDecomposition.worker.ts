@@ -0,0 +1,19 @@
+// Runs convex decompositions for DecompositionService
+import { decomposeConvex } from '../utils/convexDecomposition';
+import type { DecompositionRequest, DecompositionResponse } from '../utils/decompositionService';
+
+// eslint-disable-next-line no-restricted-globals
+const worker = self as unknown as Worker;
+
+worker.onmessage = (event: MessageEvent<DecompositionRequest>) => {
+  const { id, positions, indices, options } = event.data;
+  let response: DecompositionResponse;
+  try {
+    response = { id, parts: decomposeConvex(positions, indices, options) };
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  worker.postMessage(response);
+};
+
+export {};
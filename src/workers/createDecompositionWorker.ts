@@ -0,0 +1,4 @@
+// Kept apart from DecompositionService because import.meta only works in the bundle,
+// not in the Jest environment that loads the service
+export const createDecompositionWorker = (): Worker =>
+  new Worker(new URL('./convexDecomposition.worker.ts', import.meta.url));